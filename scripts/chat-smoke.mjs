@@ -0,0 +1,55 @@
+// End-to-end check of the chat route against a running dev server
+// Run the server offline first: LLM_PROVIDER=fixture YOUTUBE_PROVIDER=fixture npm run dev
+// Then: node scripts/chat-smoke.mjs (CHAT_SMOKE_URL overrides http://localhost:3000)
+// Streams one turn that should search and curate, printing each event; exits 1 without a learning path.
+
+const BASE_URL = (process.env.CHAT_SMOKE_URL || 'http://localhost:3000').replace(/\/+$/, '');
+const MESSAGE = process.argv[2] || "I'm a beginner and want to learn Python concepts";
+const TIMEOUT_MS = 60 * 1000;
+
+async function main() {
+    const response = await fetch(`${BASE_URL}/api/chat/message`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+        body: JSON.stringify({ message: MESSAGE }),
+        signal: AbortSignal.timeout(TIMEOUT_MS),
+    });
+
+    if (!response.ok || !response.body) {
+        throw new Error(`Chat request failed: ${response.status} ${await response.text()}`);
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let result = null;
+
+    for await (const chunk of response.body) {
+        buffer += decoder.decode(chunk, { stream: true });
+        const events = buffer.split('\n\n');
+        buffer = events.pop();
+
+        for (const raw of events) {
+            if (!raw.startsWith('data: ')) continue;
+            const event = JSON.parse(raw.slice('data: '.length));
+
+            if (event.type === 'token') continue;
+            if (event.type === 'stage') console.log(`stage: ${event.stage.stageName} (${event.stage.videos.length} videos)`);
+            else if (event.type === 'done') result = event.result;
+            else if (event.type === 'error') throw new Error(`Chat stream error: ${event.message}`);
+            else console.log(`${event.type}:`, JSON.stringify({ ...event, type: undefined }));
+        }
+    }
+
+    if (!result) throw new Error('Stream ended without a done event');
+
+    console.log(`reply: ${result.response.split('\n')[0]}`);
+    if (!result.learningPath) throw new Error('No learning path was generated');
+
+    const videos = result.learningPath.stages.reduce((count, stage) => count + stage.videos.length, 0);
+    console.log(`✅ Learning path "${result.learningPath.topic}": ${result.learningPath.stages.length} stages, ${videos} videos`);
+}
+
+main().catch((error) => {
+    console.error('❌', error.message);
+    process.exit(1);
+});
@@ -1,6 +1,7 @@
 // Migration script to create tables on Turso
 // Run with: node scripts/migrate-turso.mjs
 
+import { randomUUID } from 'crypto';
 import { createClient } from '@libsql/client';
 import 'dotenv/config';
 
@@ -19,6 +20,73 @@ const client = createClient({
     authToken: DATABASE_AUTH_TOKEN,
 });
 
+// CREATE TABLE IF NOT EXISTS leaves existing tables alone, so new columns are added separately
+async function addColumnIfMissing(table, column, definition) {
+    const { rows } = await client.execute(`PRAGMA table_info(${table})`);
+    if (!rows.some((row) => row.name === column)) {
+        await client.execute(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+        console.log(`   ↳ Added ${table}.${column}`);
+    }
+}
+
+// Paths saved before LearningStage / LearningPathVideo existed kept their stages as JSON in
+// SavedLearningPath.stages. Copy them into the new tables, then drop the old column.
+async function backfillLearningPathStages() {
+    const { rows: columns } = await client.execute('PRAGMA table_info(SavedLearningPath)');
+    if (!columns.some((column) => column.name === 'stages')) return;
+
+    const { rows } = await client.execute(
+        'SELECT id, stages FROM SavedLearningPath WHERE id NOT IN (SELECT learningPathId FROM LearningStage)'
+    );
+
+    for (const row of rows) {
+        let stages = [];
+        try {
+            stages = JSON.parse(String(row.stages));
+        } catch {
+            console.warn(`   ⚠️  SavedLearningPath ${row.id} has unreadable stages; it will be left empty`);
+        }
+        if (!Array.isArray(stages)) stages = [];
+
+        const statements = [];
+        const seen = new Set();
+        let position = 0;
+
+        // Renumber 1, 2, 3...: old paths may repeat a stage number, which LearningStage's unique key rejects
+        stages.forEach((stage, index) => {
+            const stageId = randomUUID();
+            statements.push({
+                sql: 'INSERT INTO LearningStage (id, learningPathId, stageNumber, stageName, description, estimatedTime, durationSeconds) VALUES (?, ?, ?, ?, ?, ?, ?)',
+                args: [stageId, row.id, index + 1, String(stage.stageName ?? ''), String(stage.description ?? ''), stage.estimatedTime ?? null, stage.durationSeconds ?? null],
+            });
+
+            for (const video of stage.videos || []) {
+                // A path holds each video once; keep the first occurrence
+                if (!video?.videoId || seen.has(video.videoId)) continue;
+                seen.add(video.videoId);
+
+                statements.push({
+                    sql: 'INSERT INTO LearningPathVideo (id, learningPathId, stageId, videoId, position, title, qualityScore, difficulty, conceptsCovered, learningOutcomes, prerequisites, whyRecommended, estimatedTime, durationSeconds, notes) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+                    args: [
+                        randomUUID(), row.id, stageId, video.videoId, ++position,
+                        String(video.title ?? ''), Number(video.qualityScore) || 0, video.difficulty || 'intermediate',
+                        JSON.stringify(video.conceptsCovered || []), JSON.stringify(video.learningOutcomes || []), JSON.stringify(video.prerequisites || []),
+                        String(video.whyRecommended ?? ''), String(video.estimatedTime ?? 'Unknown'), video.durationSeconds ?? null, video.notes ?? null,
+                    ],
+                });
+            }
+        });
+
+        if (statements.length > 0) {
+            await client.batch(statements, 'write');
+        }
+    }
+    console.log(`   ↳ Backfilled stages for ${rows.length} saved learning paths`);
+
+    await client.execute('ALTER TABLE SavedLearningPath DROP COLUMN stages');
+    console.log('   ↳ Dropped SavedLearningPath.stages');
+}
+
 async function migrate() {
     console.log('Creating tables on Turso...\n');
 
@@ -29,6 +97,7 @@ async function migrate() {
         id TEXT PRIMARY KEY,
         email TEXT UNIQUE NOT NULL,
         passwordHash TEXT NOT NULL,
+        hasPassword INTEGER NOT NULL DEFAULT 1,
         name TEXT,
         emailVerified INTEGER DEFAULT 0,
         createdAt TEXT NOT NULL,
@@ -40,9 +109,13 @@ async function migrate() {
         youtubeRefreshToken TEXT,
         youtubeTokenExpiry TEXT,
         youtubeChannelId TEXT,
-        youtubeChannelName TEXT
+        youtubeChannelName TEXT,
+        pendingEmail TEXT
       )
     `);
+        await addColumnIfMissing('User', 'pendingEmail', 'TEXT');
+        // Existing accounts keep signing in with a password; Google sign-ups without one can reset it
+        await addColumnIfMissing('User', 'hasPassword', 'INTEGER NOT NULL DEFAULT 1');
         console.log('✅ User table created');
 
         // Create VerificationToken table
@@ -51,11 +124,13 @@ async function migrate() {
         id TEXT PRIMARY KEY,
         token TEXT UNIQUE NOT NULL,
         userId TEXT NOT NULL,
+        purpose TEXT NOT NULL DEFAULT 'email_verification',
         expiresAt TEXT NOT NULL,
         createdAt TEXT NOT NULL,
         FOREIGN KEY (userId) REFERENCES User(id) ON DELETE CASCADE
       )
     `);
+        await addColumnIfMissing('VerificationToken', 'purpose', "TEXT NOT NULL DEFAULT 'email_verification'");
         console.log('✅ VerificationToken table created');
 
         // Create RateLimitEntry table
@@ -93,14 +168,19 @@ async function migrate() {
         userGoal TEXT NOT NULL,
         totalVideos INTEGER NOT NULL,
         estimatedTotalTime TEXT NOT NULL,
-        stages TEXT NOT NULL,
         completionGoals TEXT NOT NULL,
         summary TEXT NOT NULL,
+        parentPathId TEXT,
+        editedAt TEXT,
         createdAt TEXT NOT NULL,
         updatedAt TEXT NOT NULL,
-        FOREIGN KEY (userId) REFERENCES User(id) ON DELETE CASCADE
+        FOREIGN KEY (userId) REFERENCES User(id) ON DELETE CASCADE,
+        FOREIGN KEY (parentPathId) REFERENCES SavedLearningPath(id) ON DELETE SET NULL
       )
     `);
+        await addColumnIfMissing('SavedLearningPath', 'parentPathId', 'TEXT REFERENCES SavedLearningPath(id) ON DELETE SET NULL');
+        await addColumnIfMissing('SavedLearningPath', 'editedAt', 'TEXT');
+        await client.execute('CREATE INDEX IF NOT EXISTS idx_savedlearningpath_parentPathId ON SavedLearningPath(parentPathId)');
         console.log('✅ SavedLearningPath table created');
 
         // Create VideoProgress table
@@ -116,8 +196,238 @@ async function migrate() {
         UNIQUE(learningPathId, videoId)
       )
     `);
+        await addColumnIfMissing('VideoProgress', 'userId', 'TEXT');
+        await addColumnIfMissing('VideoProgress', 'watchedAt', 'TEXT');
+        await client.execute('CREATE INDEX IF NOT EXISTS idx_videoprogress_userId ON VideoProgress(userId)');
         console.log('✅ VideoProgress table created');
 
+        // Create Conversation table
+        await client.execute(`
+      CREATE TABLE IF NOT EXISTS Conversation (
+        id TEXT PRIMARY KEY,
+        userId TEXT NOT NULL,
+        searchReady INTEGER DEFAULT 0,
+        searchQuery TEXT,
+        skillLevel TEXT,
+        goal TEXT,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL
+      )
+    `);
+        await client.execute('CREATE INDEX IF NOT EXISTS idx_conversation_userId ON Conversation(userId)');
+        console.log('✅ Conversation table created');
+
+        // Create ConversationMessage table
+        await client.execute(`
+      CREATE TABLE IF NOT EXISTS ConversationMessage (
+        id TEXT PRIMARY KEY,
+        conversationId TEXT NOT NULL,
+        role TEXT NOT NULL,
+        content TEXT NOT NULL,
+        createdAt TEXT NOT NULL,
+        FOREIGN KEY (conversationId) REFERENCES Conversation(id) ON DELETE CASCADE
+      )
+    `);
+        await client.execute('CREATE INDEX IF NOT EXISTS idx_conversation_message_conversationId ON ConversationMessage(conversationId)');
+        console.log('✅ ConversationMessage table created');
+
+        // Create YouTubeCacheEntry table
+        await client.execute(`
+      CREATE TABLE IF NOT EXISTS YouTubeCacheEntry (
+        key TEXT PRIMARY KEY,
+        kind TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        expiresAt TEXT NOT NULL,
+        createdAt TEXT NOT NULL
+      )
+    `);
+        await client.execute('CREATE INDEX IF NOT EXISTS idx_youtube_cache_expiresAt ON YouTubeCacheEntry(expiresAt)');
+        console.log('✅ YouTubeCacheEntry table created');
+
+        // Create YouTubeQuotaUsage table
+        await client.execute(`
+      CREATE TABLE IF NOT EXISTS YouTubeQuotaUsage (
+        id TEXT PRIMARY KEY,
+        day TEXT NOT NULL,
+        userId TEXT NOT NULL,
+        operation TEXT NOT NULL,
+        units INTEGER NOT NULL,
+        createdAt TEXT NOT NULL
+      )
+    `);
+        await client.execute('CREATE INDEX IF NOT EXISTS idx_youtube_quota_day_userId ON YouTubeQuotaUsage(day, userId)');
+        console.log('✅ YouTubeQuotaUsage table created');
+
+        // Create RefreshToken table
+        await client.execute(`
+      CREATE TABLE IF NOT EXISTS RefreshToken (
+        id TEXT PRIMARY KEY,
+        userId TEXT NOT NULL,
+        familyId TEXT NOT NULL,
+        expiresAt TEXT NOT NULL,
+        createdAt TEXT NOT NULL,
+        rotatedAt TEXT,
+        revokedAt TEXT,
+        replacedById TEXT,
+        FOREIGN KEY (userId) REFERENCES User(id) ON DELETE CASCADE
+      )
+    `);
+        await client.execute('CREATE INDEX IF NOT EXISTS idx_refresh_token_userId ON RefreshToken(userId)');
+        await client.execute('CREATE INDEX IF NOT EXISTS idx_refresh_token_familyId ON RefreshToken(familyId)');
+        console.log('✅ RefreshToken table created');
+
+        // Create Session table
+        await client.execute(`
+      CREATE TABLE IF NOT EXISTS Session (
+        id TEXT PRIMARY KEY,
+        userId TEXT NOT NULL,
+        userAgent TEXT,
+        ipAddress TEXT,
+        createdAt TEXT NOT NULL,
+        lastSeenAt TEXT NOT NULL,
+        revokedAt TEXT,
+        FOREIGN KEY (userId) REFERENCES User(id) ON DELETE CASCADE
+      )
+    `);
+        await client.execute('CREATE INDEX IF NOT EXISTS idx_session_userId ON Session(userId)');
+        console.log('✅ Session table created');
+
+        // Create GuestLearningPath table
+        await client.execute(`
+      CREATE TABLE IF NOT EXISTS GuestLearningPath (
+        id TEXT PRIMARY KEY,
+        guestId TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        watchedVideos TEXT NOT NULL DEFAULT '[]',
+        expiresAt TEXT NOT NULL,
+        createdAt TEXT NOT NULL
+      )
+    `);
+        await client.execute('CREATE INDEX IF NOT EXISTS idx_guest_learning_path_guestId ON GuestLearningPath(guestId)');
+        await client.execute('CREATE INDEX IF NOT EXISTS idx_guest_learning_path_expiresAt ON GuestLearningPath(expiresAt)');
+        console.log('✅ GuestLearningPath table created');
+
+        // Create Credential table
+        await client.execute(`
+      CREATE TABLE IF NOT EXISTS Credential (
+        id TEXT PRIMARY KEY,
+        userId TEXT NOT NULL,
+        credentialId TEXT UNIQUE NOT NULL,
+        publicKey TEXT NOT NULL,
+        counter INTEGER NOT NULL DEFAULT 0,
+        transports TEXT,
+        name TEXT NOT NULL,
+        createdAt TEXT NOT NULL,
+        lastUsedAt TEXT,
+        FOREIGN KEY (userId) REFERENCES User(id) ON DELETE CASCADE
+      )
+    `);
+        await client.execute('CREATE INDEX IF NOT EXISTS idx_credential_userId ON Credential(userId)');
+        console.log('✅ Credential table created');
+
+        // Create Account table
+        await client.execute(`
+      CREATE TABLE IF NOT EXISTS Account (
+        id TEXT PRIMARY KEY,
+        userId TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        providerAccountId TEXT NOT NULL,
+        email TEXT,
+        createdAt TEXT NOT NULL,
+        lastUsedAt TEXT,
+        UNIQUE (provider, providerAccountId),
+        FOREIGN KEY (userId) REFERENCES User(id) ON DELETE CASCADE
+      )
+    `);
+        await client.execute('CREATE INDEX IF NOT EXISTS idx_account_userId ON Account(userId)');
+        console.log('✅ Account table created');
+
+        // Create AuditEvent table
+        await client.execute(`
+      CREATE TABLE IF NOT EXISTS AuditEvent (
+        id TEXT PRIMARY KEY,
+        userId TEXT,
+        type TEXT NOT NULL,
+        email TEXT,
+        ipAddress TEXT,
+        userAgent TEXT,
+        metadata TEXT,
+        createdAt TEXT NOT NULL,
+        FOREIGN KEY (userId) REFERENCES User(id) ON DELETE CASCADE
+      )
+    `);
+        await client.execute('CREATE INDEX IF NOT EXISTS idx_auditevent_userId_createdAt ON AuditEvent(userId, createdAt)');
+        await client.execute('CREATE INDEX IF NOT EXISTS idx_auditevent_type ON AuditEvent(type)');
+        await client.execute('CREATE INDEX IF NOT EXISTS idx_auditevent_createdAt ON AuditEvent(createdAt)');
+        console.log('✅ AuditEvent table created');
+
+        // Create LearningStage table
+        await client.execute(`
+      CREATE TABLE IF NOT EXISTS LearningStage (
+        id TEXT PRIMARY KEY,
+        learningPathId TEXT NOT NULL,
+        stageNumber INTEGER NOT NULL,
+        stageName TEXT NOT NULL,
+        description TEXT NOT NULL,
+        estimatedTime TEXT,
+        durationSeconds INTEGER,
+        UNIQUE (learningPathId, stageNumber),
+        FOREIGN KEY (learningPathId) REFERENCES SavedLearningPath(id) ON DELETE CASCADE
+      )
+    `);
+        console.log('✅ LearningStage table created');
+
+        // Create LearningPathVideo table
+        await client.execute(`
+      CREATE TABLE IF NOT EXISTS LearningPathVideo (
+        id TEXT PRIMARY KEY,
+        learningPathId TEXT NOT NULL,
+        stageId TEXT NOT NULL,
+        videoId TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        title TEXT NOT NULL,
+        qualityScore REAL NOT NULL,
+        difficulty TEXT NOT NULL,
+        conceptsCovered TEXT NOT NULL,
+        learningOutcomes TEXT NOT NULL,
+        prerequisites TEXT NOT NULL,
+        whyRecommended TEXT NOT NULL,
+        estimatedTime TEXT NOT NULL,
+        durationSeconds INTEGER,
+        notes TEXT,
+        UNIQUE (learningPathId, videoId),
+        FOREIGN KEY (learningPathId) REFERENCES SavedLearningPath(id) ON DELETE CASCADE,
+        FOREIGN KEY (stageId) REFERENCES LearningStage(id) ON DELETE CASCADE
+      )
+    `);
+        await client.execute('CREATE INDEX IF NOT EXISTS idx_learningpathvideo_stageId ON LearningPathVideo(stageId)');
+        await client.execute('CREATE INDEX IF NOT EXISTS idx_learningpathvideo_videoId ON LearningPathVideo(videoId)');
+        await backfillLearningPathStages();
+        console.log('✅ LearningPathVideo table created');
+
+        // Create ReviewItem table
+        await client.execute(`
+      CREATE TABLE IF NOT EXISTS ReviewItem (
+        id TEXT PRIMARY KEY,
+        userId TEXT NOT NULL,
+        learningPathId TEXT NOT NULL,
+        videoId TEXT NOT NULL,
+        concept TEXT NOT NULL,
+        easeFactor REAL NOT NULL DEFAULT 2.5,
+        intervalDays INTEGER NOT NULL DEFAULT 0,
+        repetitions INTEGER NOT NULL DEFAULT 0,
+        dueAt TEXT NOT NULL,
+        lastReviewedAt TEXT,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL,
+        UNIQUE (learningPathId, videoId, concept),
+        FOREIGN KEY (userId) REFERENCES User(id) ON DELETE CASCADE,
+        FOREIGN KEY (learningPathId) REFERENCES SavedLearningPath(id) ON DELETE CASCADE
+      )
+    `);
+        await client.execute('CREATE INDEX IF NOT EXISTS idx_reviewitem_userId_dueAt ON ReviewItem(userId, dueAt)');
+        console.log('✅ ReviewItem table created');
+
         console.log('\n🎉 All tables created successfully!');
     } catch (error) {
         console.error('❌ Migration failed:', error);
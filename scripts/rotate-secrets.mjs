@@ -0,0 +1,150 @@
+// Secrets rotation script
+// Re-encrypts every stored credential with the primary (first) key in SECRETS_ENCRYPTION_KEYS,
+// including TOTP secrets in the old AES-CBC format and OAuth tokens stored before encryption.
+// Run with: node scripts/rotate-secrets.mjs [--dry-run]
+//
+// To rotate: put a new key first in SECRETS_ENCRYPTION_KEYS, keep the old one after it, deploy,
+// run this script, then remove the old key.
+
+import crypto from 'crypto';
+import { createClient } from '@libsql/client';
+import 'dotenv/config';
+
+const DATABASE_URL = process.env.DATABASE_URL;
+const DATABASE_AUTH_TOKEN = process.env.DATABASE_AUTH_TOKEN;
+const DRY_RUN = process.argv.includes('--dry-run');
+
+// Must match src/lib/secrets.ts
+const ENVELOPE_PREFIX = 'enc:v1:';
+const IV_BYTES = 12;
+const AUTH_TAG_BYTES = 16;
+const KEY_BYTES = 32;
+const DEFAULT_KEY_ID = 'default';
+const DEFAULT_KEY_SOURCE = 'default-key-change-in-production';
+
+// Must match the legacy branch of decryptSecret in src/lib/two-factor.ts
+const LEGACY_TOTP_KEY = process.env.TWO_FACTOR_ENCRYPTION_KEY || 'default-key-change-in-production';
+
+// Every encrypted column, and how values written before the secrets module were stored
+const SECRET_COLUMNS = [
+    { table: 'User', column: 'twoFactorSecret', legacy: 'totp-cbc' },
+    { table: 'User', column: 'youtubeAccessToken', legacy: 'plaintext' },
+    { table: 'User', column: 'youtubeRefreshToken', legacy: 'plaintext' },
+];
+
+if (!DATABASE_URL) {
+    console.error('❌ DATABASE_URL not set');
+    process.exit(1);
+}
+
+function loadKeys() {
+    const configured = process.env.SECRETS_ENCRYPTION_KEYS?.trim();
+
+    if (!configured) {
+        if (process.env.NODE_ENV === 'production') {
+            console.error('❌ SECRETS_ENCRYPTION_KEYS not set');
+            process.exit(1);
+        }
+        const key = crypto.createHash('sha256').update(DEFAULT_KEY_SOURCE).digest();
+        return { primaryKeyId: DEFAULT_KEY_ID, keys: new Map([[DEFAULT_KEY_ID, key]]) };
+    }
+
+    const keys = new Map();
+    for (const entry of configured.split(',').map((part) => part.trim()).filter(Boolean)) {
+        const separator = entry.indexOf(':');
+        const keyId = entry.slice(0, separator);
+        const key = Buffer.from(entry.slice(separator + 1), 'base64');
+
+        if (separator < 1 || !/^[A-Za-z0-9_-]+$/.test(keyId) || key.length !== KEY_BYTES || keys.has(keyId)) {
+            console.error(`❌ Invalid SECRETS_ENCRYPTION_KEYS entry "${keyId || entry.slice(0, 8)}"`);
+            process.exit(1);
+        }
+        keys.set(keyId, key);
+    }
+
+    return { primaryKeyId: keys.keys().next().value, keys };
+}
+
+const { primaryKeyId, keys } = loadKeys();
+
+function encrypt(plaintext) {
+    const iv = crypto.randomBytes(IV_BYTES);
+    const cipher = crypto.createCipheriv('aes-256-gcm', keys.get(primaryKeyId), iv, { authTagLength: AUTH_TAG_BYTES });
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+    return ENVELOPE_PREFIX + [
+        primaryKeyId,
+        iv.toString('base64url'),
+        ciphertext.toString('base64url'),
+        cipher.getAuthTag().toString('base64url'),
+    ].join(':');
+}
+
+function decrypt(value, legacy) {
+    if (!value.startsWith(ENVELOPE_PREFIX)) {
+        if (legacy === 'plaintext') return value;
+
+        const [ivHex, encrypted] = value.split(':');
+        const key = crypto.createHash('sha256').update(LEGACY_TOTP_KEY).digest();
+        const decipher = crypto.createDecipheriv('aes-256-cbc', key, Buffer.from(ivHex, 'hex'));
+        return decipher.update(encrypted, 'hex', 'utf8') + decipher.final('utf8');
+    }
+
+    const [keyId, ivPart, ciphertextPart, authTagPart] = value.slice(ENVELOPE_PREFIX.length).split(':');
+    const key = keys.get(keyId);
+    if (!key) throw new Error(`Unknown encryption key "${keyId}"`);
+
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(ivPart, 'base64url'), { authTagLength: AUTH_TAG_BYTES });
+    decipher.setAuthTag(Buffer.from(authTagPart, 'base64url'));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertextPart, 'base64url')), decipher.final()]).toString('utf8');
+}
+
+const client = createClient({
+    url: DATABASE_URL,
+    authToken: DATABASE_AUTH_TOKEN,
+});
+
+async function rotate() {
+    console.log(`Re-encrypting secrets with key "${primaryKeyId}"${DRY_RUN ? ' (dry run)' : ''}...\n`);
+
+    let failed = 0;
+
+    for (const { table, column, legacy } of SECRET_COLUMNS) {
+        const { rows } = await client.execute(`SELECT id, ${column} AS value FROM ${table} WHERE ${column} IS NOT NULL`);
+        let rotated = 0;
+
+        for (const row of rows) {
+            const value = String(row.value);
+            if (value.startsWith(`${ENVELOPE_PREFIX}${primaryKeyId}:`)) continue;
+
+            try {
+                const reencrypted = encrypt(decrypt(value, legacy));
+                if (!DRY_RUN) {
+                    // Skip the row if the app rewrote it in the meantime
+                    await client.execute({
+                        sql: `UPDATE ${table} SET ${column} = ? WHERE id = ? AND ${column} = ?`,
+                        args: [reencrypted, row.id, value],
+                    });
+                }
+                rotated++;
+            } catch (error) {
+                failed++;
+                console.error(`   ↳ ${table}.${column} for ${row.id}: ${error.message}`);
+            }
+        }
+
+        console.log(`✅ ${table}.${column}: ${rotated} of ${rows.length} re-encrypted`);
+    }
+
+    if (failed > 0) {
+        console.error(`\n❌ ${failed} value(s) could not be decrypted; keep their keys configured and re-run`);
+        process.exit(1);
+    }
+
+    console.log('\n🎉 All secrets use the primary key');
+}
+
+rotate().catch((error) => {
+    console.error('❌ Rotation failed:', error);
+    process.exit(1);
+});
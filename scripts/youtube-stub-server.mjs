@@ -0,0 +1,84 @@
+// Local stand-in for the YouTube Data API, serving recorded fixtures
+// Run with: node scripts/youtube-stub-server.mjs
+// Then set YOUTUBE_API_BASE_URL=http://localhost:4010/youtube/v3 (no YOUTUBE_API_KEY needed)
+
+import { createServer } from 'http';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import path from 'path';
+
+const PORT = Number(process.env.YOUTUBE_STUB_PORT) || 4010;
+const FIXTURES_PATH = process.env.YOUTUBE_FIXTURES_PATH ||
+    path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'youtube.json');
+
+const fixtures = JSON.parse(readFileSync(FIXTURES_PATH, 'utf-8'));
+const playlists = new Map();
+
+function send(res, status, body) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+}
+
+function apiError(res, status, message, reason) {
+    send(res, status, { error: { code: status, message, errors: [{ reason }] } });
+}
+
+async function readBody(req) {
+    let data = '';
+    for await (const chunk of req) data += chunk;
+    return data ? JSON.parse(data) : {};
+}
+
+const server = createServer(async (req, res) => {
+    const url = new URL(req.url, `http://localhost:${PORT}`);
+    const route = url.pathname.replace(/^\/youtube\/v3/, '');
+    console.log(`${req.method} ${url.pathname}${url.search}`);
+
+    try {
+        if (req.method === 'GET' && route === '/search') {
+            if (!url.searchParams.get('key')) return apiError(res, 403, 'API key missing', 'forbidden');
+            const q = (url.searchParams.get('q') || '').trim().toLowerCase().replace(/\s+/g, ' ');
+            const maxResults = Number(url.searchParams.get('maxResults')) || 5;
+            const items = fixtures.searches[q] || fixtures.searches['*'] || [];
+            return send(res, 200, { kind: 'youtube#searchListResponse', items: items.slice(0, maxResults) });
+        }
+
+        if (req.method === 'GET' && route === '/videos') {
+            if (!url.searchParams.get('key')) return apiError(res, 403, 'API key missing', 'forbidden');
+            const ids = (url.searchParams.get('id') || '').split(',').filter(Boolean);
+            const items = ids.map((id) => fixtures.videos[id]).filter(Boolean);
+            return send(res, 200, { kind: 'youtube#videoListResponse', items });
+        }
+
+        if (req.method === 'POST' && route === '/playlists') {
+            if (!req.headers.authorization) return apiError(res, 401, 'Login required', 'required');
+            const body = await readBody(req);
+            const id = `PLstub${playlists.size + 1}`;
+            playlists.set(id, { ...body, videoIds: [] });
+            return send(res, 200, { kind: 'youtube#playlist', id, snippet: body.snippet, status: body.status });
+        }
+
+        if (req.method === 'POST' && route === '/playlistItems') {
+            if (!req.headers.authorization) return apiError(res, 401, 'Login required', 'required');
+            const body = await readBody(req);
+            const playlist = playlists.get(body.snippet?.playlistId);
+            if (!playlist) return apiError(res, 404, 'Playlist not found', 'playlistNotFound');
+            playlist.videoIds.push(body.snippet.resourceId?.videoId);
+            return send(res, 200, { kind: 'youtube#playlistItem', id: `PLI${playlist.videoIds.length}`, snippet: body.snippet });
+        }
+
+        // Inspect what has been "exported" so far
+        if (req.method === 'GET' && route === '/_playlists') {
+            return send(res, 200, Object.fromEntries(playlists));
+        }
+
+        apiError(res, 404, `No stub for ${req.method} ${url.pathname}`, 'notFound');
+    } catch (error) {
+        apiError(res, 500, error instanceof Error ? error.message : String(error), 'backendError');
+    }
+});
+
+server.listen(PORT, () => {
+    console.log(`🎬 YouTube stub listening on http://localhost:${PORT}/youtube/v3`);
+    console.log(`   Fixtures: ${FIXTURES_PATH}`);
+});
@@ -0,0 +1,186 @@
+// Change email API endpoint
+// POST - Start a change: re-authenticate, then email a code to the new address
+// DELETE - Cancel a pending change
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/db';
+import { verifyAccessToken, generateVerificationCode } from '@/lib/auth';
+import { changeEmailSchema, validateInput } from '@/lib/validation';
+import { reauthenticate } from '@/lib/reauth';
+import { sendEmailChangeCode } from '@/lib/email';
+import { checkRateLimit, recordAttempt, RATE_LIMITS } from '@/lib/rate-limit';
+import { recordAuditEvent } from '@/lib/audit';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+    try {
+        // Auth check
+        const accessToken = request.cookies.get('accessToken')?.value;
+        if (!accessToken) {
+            return NextResponse.json(
+                { success: false, message: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const decoded = await verifyAccessToken(accessToken, request.headers);
+        if (!decoded || decoded.isGuest) {
+            return NextResponse.json(
+                { success: false, message: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const body = await request.json();
+        const validation = validateInput(changeEmailSchema, body);
+
+        if (!validation.success) {
+            return NextResponse.json(
+                { success: false, message: validation.errors[0], errors: validation.errors },
+                { status: 400 }
+            );
+        }
+
+        const { password, emailCode, code } = validation.data;
+        const newEmail = validation.data.newEmail.toLowerCase();
+
+        const prisma = getDb();
+        const user = await prisma.user.findUnique({ where: { id: decoded.userId } });
+
+        if (!user) {
+            return NextResponse.json(
+                { success: false, message: 'User not found' },
+                { status: 404 }
+            );
+        }
+
+        if (newEmail === user.email) {
+            return NextResponse.json(
+                { success: false, message: 'That is already your email address' },
+                { status: 400 }
+            );
+        }
+
+        const rateLimitKey = `email-change:${user.id}`;
+        const rateLimit = await checkRateLimit(rateLimitKey, RATE_LIMITS.emailChangeRequest);
+
+        if (!rateLimit.allowed) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    message: `Too many requests. Please try again in ${Math.ceil((rateLimit.retryAfter || 3600) / 60)} minutes.`,
+                },
+                { status: 429 }
+            );
+        }
+
+        const reauth = await reauthenticate(user, { password, emailCode, code });
+        if (!reauth.success) {
+            return NextResponse.json(
+                { success: false, message: reauth.message, requires2FA: reauth.requires2FA, requiresEmailCode: reauth.requiresEmailCode },
+                { status: reauth.status }
+            );
+        }
+
+        const existing = await prisma.user.findUnique({ where: { email: newEmail } });
+        if (existing) {
+            return NextResponse.json(
+                { success: false, message: 'An account with this email already exists' },
+                { status: 409 }
+            );
+        }
+
+        await recordAttempt(rateLimitKey, RATE_LIMITS.emailChangeRequest);
+
+        // Only the latest pending change is valid
+        await prisma.verificationToken.deleteMany({
+            where: { userId: user.id, purpose: 'email_change' },
+        });
+
+        const { code: verificationCode, expiresAt } = generateVerificationCode();
+
+        await prisma.verificationToken.create({
+            data: {
+                token: verificationCode,
+                userId: user.id,
+                purpose: 'email_change',
+                expiresAt,
+            },
+        });
+
+        await prisma.user.update({
+            where: { id: user.id },
+            data: { pendingEmail: newEmail },
+        });
+
+        const emailResult = await sendEmailChangeCode(newEmail, verificationCode, user.name || undefined);
+
+        if (!emailResult.success) {
+            return NextResponse.json(
+                { success: false, message: 'Failed to send verification email. Please try again later.' },
+                { status: 500 }
+            );
+        }
+
+        await recordAuditEvent('email_change_requested', {
+            userId: user.id,
+            email: user.email,
+            headers: request.headers,
+            metadata: { newEmail },
+        });
+
+        return NextResponse.json({
+            success: true,
+            message: `We sent a 6-digit code to ${newEmail}`,
+            pendingEmail: newEmail,
+        });
+    } catch (error) {
+        console.error('Change email error:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to start email change' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE(request: NextRequest) {
+    try {
+        // Auth check
+        const accessToken = request.cookies.get('accessToken')?.value;
+        if (!accessToken) {
+            return NextResponse.json(
+                { success: false, message: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const decoded = await verifyAccessToken(accessToken, request.headers);
+        if (!decoded || decoded.isGuest) {
+            return NextResponse.json(
+                { success: false, message: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const prisma = getDb();
+        await prisma.verificationToken.deleteMany({
+            where: { userId: decoded.userId, purpose: 'email_change' },
+        });
+        await prisma.user.update({
+            where: { id: decoded.userId },
+            data: { pendingEmail: null },
+        });
+
+        return NextResponse.json({
+            success: true,
+            message: 'Email change cancelled',
+        });
+    } catch (error) {
+        console.error('Cancel email change error:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to cancel email change' },
+            { status: 500 }
+        );
+    }
+}
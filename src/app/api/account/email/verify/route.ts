@@ -0,0 +1,149 @@
+// Confirm email change API endpoint
+// POST /api/account/email/verify - Enter the code sent to the new address to switch to it
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/db';
+import { verifyAccessToken, generateAccessToken, isTokenExpired, ACCESS_TOKEN_MAX_AGE_SECONDS } from '@/lib/auth';
+import { confirmEmailChangeSchema, validateInput } from '@/lib/validation';
+import { sendEmailChangedNotice } from '@/lib/email';
+import { checkRateLimit, recordAttempt, resetRateLimit, RATE_LIMITS } from '@/lib/rate-limit';
+import { recordAuditEvent } from '@/lib/audit';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+    try {
+        // Auth check
+        const accessToken = request.cookies.get('accessToken')?.value;
+        if (!accessToken) {
+            return NextResponse.json(
+                { success: false, message: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const decoded = await verifyAccessToken(accessToken, request.headers);
+        if (!decoded || decoded.isGuest) {
+            return NextResponse.json(
+                { success: false, message: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const body = await request.json();
+        const validation = validateInput(confirmEmailChangeSchema, body);
+
+        if (!validation.success) {
+            return NextResponse.json(
+                { success: false, message: validation.errors[0], errors: validation.errors },
+                { status: 400 }
+            );
+        }
+
+        const prisma = getDb();
+        const user = await prisma.user.findUnique({ where: { id: decoded.userId } });
+
+        if (!user || !user.pendingEmail) {
+            return NextResponse.json(
+                { success: false, message: 'No email change is pending' },
+                { status: 400 }
+            );
+        }
+
+        const rateLimitKey = `email-change-confirm:${user.id}`;
+        const rateLimit = await checkRateLimit(rateLimitKey, RATE_LIMITS.emailChangeConfirm);
+
+        if (!rateLimit.allowed) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    message: `Too many attempts. Please try again in ${Math.ceil((rateLimit.retryAfter || 3600) / 60)} minutes.`,
+                },
+                { status: 429 }
+            );
+        }
+
+        const tokenEntry = await prisma.verificationToken.findFirst({
+            where: { token: validation.data.code, userId: user.id, purpose: 'email_change' },
+            orderBy: { createdAt: 'desc' },
+        });
+
+        if (!tokenEntry || isTokenExpired(tokenEntry.expiresAt)) {
+            await recordAttempt(rateLimitKey, RATE_LIMITS.emailChangeConfirm);
+            return NextResponse.json(
+                { success: false, message: 'Invalid or expired verification code' },
+                { status: 400 }
+            );
+        }
+
+        // Someone may have signed up with the address since the change was requested
+        const existing = await prisma.user.findUnique({ where: { email: user.pendingEmail } });
+        if (existing) {
+            return NextResponse.json(
+                { success: false, message: 'An account with this email already exists' },
+                { status: 409 }
+            );
+        }
+
+        const oldEmail = user.email;
+        const newEmail = user.pendingEmail;
+
+        await prisma.user.update({
+            where: { id: user.id },
+            data: {
+                email: newEmail,
+                emailVerified: true,
+                pendingEmail: null,
+            },
+        });
+
+        await prisma.verificationToken.deleteMany({
+            where: { userId: user.id, purpose: 'email_change' },
+        });
+        await resetRateLimit(rateLimitKey);
+
+        await sendEmailChangedNotice(oldEmail, newEmail, user.name || undefined);
+
+        await recordAuditEvent('email_changed', {
+            userId: user.id,
+            email: newEmail,
+            headers: request.headers,
+            metadata: { oldEmail },
+        });
+
+        const response = NextResponse.json({
+            success: true,
+            message: 'Email address updated',
+            user: {
+                id: user.id,
+                email: newEmail,
+                name: user.name,
+                emailVerified: true,
+                isGuest: false,
+            },
+        });
+
+        // The access token carries the email, so replace it now instead of waiting for a refresh
+        response.cookies.set('accessToken', generateAccessToken({
+            userId: user.id,
+            email: newEmail,
+            emailVerified: true,
+            isGuest: false,
+            sessionId: decoded.sessionId,
+        }), {
+            httpOnly: true,
+            secure: process.env.NODE_ENV === 'production',
+            sameSite: 'lax',
+            maxAge: ACCESS_TOKEN_MAX_AGE_SECONDS,
+            path: '/',
+        });
+
+        return response;
+    } catch (error) {
+        console.error('Confirm email change error:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to change email' },
+            { status: 500 }
+        );
+    }
+}
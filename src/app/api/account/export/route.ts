@@ -0,0 +1,54 @@
+// Account export API endpoint
+// POST /api/account/export - Download a JSON copy of everything stored for the signed-in user
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAccessToken } from '@/lib/auth';
+import { buildAccountExport } from '@/lib/account';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+    try {
+        // Auth check
+        const accessToken = request.cookies.get('accessToken')?.value;
+        if (!accessToken) {
+            return NextResponse.json(
+                { success: false, message: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const decoded = await verifyAccessToken(accessToken, request.headers);
+        if (!decoded || decoded.isGuest) {
+            return NextResponse.json(
+                { success: false, message: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const data = await buildAccountExport(decoded.userId);
+
+        if (!data) {
+            return NextResponse.json(
+                { success: false, message: 'User not found' },
+                { status: 404 }
+            );
+        }
+
+        const filename = `linkme-export-${new Date().toISOString().slice(0, 10)}.json`;
+
+        return new NextResponse(JSON.stringify(data, null, 2), {
+            headers: {
+                'Content-Type': 'application/json',
+                'Content-Disposition': `attachment; filename="${filename}"`,
+                'Cache-Control': 'no-store',
+            },
+        });
+    } catch (error) {
+        console.error('Account export error:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to export account data' },
+            { status: 500 }
+        );
+    }
+}
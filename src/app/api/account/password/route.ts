@@ -0,0 +1,96 @@
+// Change password API endpoint
+// POST /api/account/password - Requires the current password (or an emailed code if there isn't one yet), plus a 2FA code when enabled
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/db';
+import { verifyAccessToken, verifyPassword, hashPassword } from '@/lib/auth';
+import { changePasswordSchema, validateInput } from '@/lib/validation';
+import { reauthenticate } from '@/lib/reauth';
+import { revokeAllRefreshTokens } from '@/lib/refresh-tokens';
+import { recordAuditEvent } from '@/lib/audit';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+    try {
+        // Auth check
+        const accessToken = request.cookies.get('accessToken')?.value;
+        if (!accessToken) {
+            return NextResponse.json(
+                { success: false, message: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const decoded = await verifyAccessToken(accessToken, request.headers);
+        if (!decoded || decoded.isGuest) {
+            return NextResponse.json(
+                { success: false, message: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const body = await request.json();
+        const validation = validateInput(changePasswordSchema, body);
+
+        if (!validation.success) {
+            return NextResponse.json(
+                { success: false, message: validation.errors[0], errors: validation.errors },
+                { status: 400 }
+            );
+        }
+
+        const { currentPassword, emailCode, newPassword, code } = validation.data;
+
+        const prisma = getDb();
+        const user = await prisma.user.findUnique({ where: { id: decoded.userId } });
+
+        if (!user) {
+            return NextResponse.json(
+                { success: false, message: 'User not found' },
+                { status: 404 }
+            );
+        }
+
+        const reauth = await reauthenticate(user, { password: currentPassword, emailCode, code });
+        if (!reauth.success) {
+            return NextResponse.json(
+                { success: false, message: reauth.message, requires2FA: reauth.requires2FA, requiresEmailCode: reauth.requiresEmailCode },
+                { status: reauth.status }
+            );
+        }
+
+        if (user.hasPassword && await verifyPassword(newPassword, user.passwordHash)) {
+            return NextResponse.json(
+                { success: false, message: 'New password must be different from the current one' },
+                { status: 400 }
+            );
+        }
+
+        await prisma.user.update({
+            where: { id: user.id },
+            data: { passwordHash: await hashPassword(newPassword), hasPassword: true },
+        });
+
+        // Sign out every other device; this one stays signed in
+        await revokeAllRefreshTokens(user.id, decoded.sessionId);
+
+        await recordAuditEvent('password_changed', {
+            userId: user.id,
+            email: user.email,
+            headers: request.headers,
+            metadata: { firstPassword: !user.hasPassword },
+        });
+
+        return NextResponse.json({
+            success: true,
+            message: 'Password changed. Other devices have been signed out.',
+        });
+    } catch (error) {
+        console.error('Change password error:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to change password' },
+            { status: 500 }
+        );
+    }
+}
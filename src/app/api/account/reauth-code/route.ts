@@ -0,0 +1,83 @@
+// Re-authentication code API endpoint
+// POST /api/account/reauth-code - Email a code that confirms a sensitive change on an account without a password
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/db';
+import { verifyAccessToken } from '@/lib/auth';
+import { issueReauthCode } from '@/lib/reauth';
+import { checkRateLimit, recordAttempt, RATE_LIMITS } from '@/lib/rate-limit';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+    try {
+        // Auth check
+        const accessToken = request.cookies.get('accessToken')?.value;
+        if (!accessToken) {
+            return NextResponse.json(
+                { success: false, message: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const decoded = await verifyAccessToken(accessToken, request.headers);
+        if (!decoded || decoded.isGuest) {
+            return NextResponse.json(
+                { success: false, message: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const user = await getDb().user.findUnique({ where: { id: decoded.userId } });
+
+        if (!user) {
+            return NextResponse.json(
+                { success: false, message: 'User not found' },
+                { status: 404 }
+            );
+        }
+
+        // Accounts with a password confirm changes with it instead
+        if (user.hasPassword) {
+            return NextResponse.json(
+                { success: false, message: 'Use your current password to confirm this change' },
+                { status: 400 }
+            );
+        }
+
+        const rateLimitKey = `reauth-code:${user.id}`;
+        const rateLimit = await checkRateLimit(rateLimitKey, RATE_LIMITS.reauthCodeRequest);
+
+        if (!rateLimit.allowed) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    message: `Too many requests. Please try again in ${Math.ceil((rateLimit.retryAfter || 3600) / 60)} minutes.`,
+                },
+                { status: 429 }
+            );
+        }
+
+        await recordAttempt(rateLimitKey, RATE_LIMITS.reauthCodeRequest);
+
+        const emailResult = await issueReauthCode(user);
+
+        if (!emailResult.success) {
+            return NextResponse.json(
+                { success: false, message: 'Failed to send the code. Please try again later.' },
+                { status: 500 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            message: `We sent a 6-digit code to ${user.email}`,
+        });
+    } catch (error) {
+        console.error('Reauth code error:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to send the code' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,86 @@
+// Account API endpoint
+// DELETE /api/account - Permanently delete the signed-in account after re-authentication
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/db';
+import { verifyAccessToken } from '@/lib/auth';
+import { deleteAccountSchema, validateInput } from '@/lib/validation';
+import { reauthenticate } from '@/lib/reauth';
+import { deleteAccount } from '@/lib/account';
+import { clearAuthCookies } from '@/lib/refresh-tokens';
+import { recordAuditEvent } from '@/lib/audit';
+
+export const dynamic = 'force-dynamic';
+
+export async function DELETE(request: NextRequest) {
+    try {
+        // Auth check
+        const accessToken = request.cookies.get('accessToken')?.value;
+        if (!accessToken) {
+            return NextResponse.json(
+                { success: false, message: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const decoded = await verifyAccessToken(accessToken, request.headers);
+        if (!decoded || decoded.isGuest) {
+            return NextResponse.json(
+                { success: false, message: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const body = await request.json();
+        const validation = validateInput(deleteAccountSchema, body);
+
+        if (!validation.success) {
+            return NextResponse.json(
+                { success: false, message: validation.errors[0], errors: validation.errors },
+                { status: 400 }
+            );
+        }
+
+        const { password, emailCode, code } = validation.data;
+
+        const user = await getDb().user.findUnique({ where: { id: decoded.userId } });
+
+        if (!user) {
+            return NextResponse.json(
+                { success: false, message: 'User not found' },
+                { status: 404 }
+            );
+        }
+
+        const reauth = await reauthenticate(user, { password, emailCode, code });
+        if (!reauth.success) {
+            return NextResponse.json(
+                { success: false, message: reauth.message, requires2FA: reauth.requires2FA, requiresEmailCode: reauth.requiresEmailCode },
+                { status: reauth.status }
+            );
+        }
+
+        await deleteAccount(user.id);
+
+        // Deleting the account removes its audit history, so this event is kept by email only
+        await recordAuditEvent('account_deleted', {
+            email: user.email,
+            headers: request.headers,
+            metadata: { userId: user.id },
+        });
+
+        const response = NextResponse.json({
+            success: true,
+            message: 'Your account and all associated data have been deleted',
+        });
+        clearAuthCookies(response);
+
+        return response;
+    } catch (error) {
+        console.error('Delete account error:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to delete account' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,83 @@
+// Admin API to search the security audit log
+// GET /api/admin/audit-events?secret=YOUR_ADMIN_SECRET[&userId=USER_ID][&email=EMAIL][&type=EVENT_TYPE][&from=ISO_DATE][&to=ISO_DATE][&page=1][&pageSize=50]
+
+import { NextRequest, NextResponse } from 'next/server';
+import { queryAuditEvents, parseAuditMetadata, AUDIT_EVENT_TYPES, AuditEventType } from '@/lib/audit';
+import { PaginatedResponse } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_PAGE_SIZE = 200;
+
+function parseDate(value: string | null): Date | null | undefined {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+export async function GET(request: NextRequest) {
+    try {
+        // Check admin secret
+        const { searchParams } = new URL(request.url);
+        const secret = searchParams.get('secret');
+        const adminSecret = process.env.ADMIN_SECRET;
+
+        if (!adminSecret || secret !== adminSecret) {
+            return NextResponse.json(
+                { success: false, message: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const type = searchParams.get('type') || undefined;
+        if (type && !AUDIT_EVENT_TYPES.includes(type as AuditEventType)) {
+            return NextResponse.json(
+                { success: false, message: `Unknown event type. Expected one of: ${AUDIT_EVENT_TYPES.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        const from = parseDate(searchParams.get('from'));
+        const to = parseDate(searchParams.get('to'));
+        if (from === null || to === null) {
+            return NextResponse.json(
+                { success: false, message: 'from and to must be ISO dates, e.g. 2025-01-31 or 2025-01-31T12:00:00Z' },
+                { status: 400 }
+            );
+        }
+
+        const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+        const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(searchParams.get('pageSize') || '50', 10) || 50));
+
+        const { events, total } = await queryAuditEvents(
+            {
+                userId: searchParams.get('userId') || undefined,
+                email: searchParams.get('email') || undefined,
+                type: type as AuditEventType | undefined,
+                from,
+                to,
+            },
+            page,
+            pageSize
+        );
+
+        const data: PaginatedResponse<unknown> = {
+            items: events.map((event) => ({
+                ...event,
+                metadata: parseAuditMetadata(event),
+            })),
+            total,
+            page,
+            pageSize,
+            hasMore: page * pageSize < total,
+        };
+
+        return NextResponse.json({ success: true, data });
+    } catch (error) {
+        console.error('Admin audit events error:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to fetch audit events' },
+            { status: 500 }
+        );
+    }
+}
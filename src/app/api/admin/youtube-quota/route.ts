@@ -0,0 +1,44 @@
+// Admin API to view today's YouTube quota usage
+// GET /api/admin/youtube-quota?secret=YOUR_ADMIN_SECRET[&userId=USER_ID]
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getQuotaStatus, getTopQuotaUsers } from '@/lib/youtube-quota';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+    try {
+        // Check admin secret
+        const { searchParams } = new URL(request.url);
+        const secret = searchParams.get('secret');
+        const adminSecret = process.env.ADMIN_SECRET;
+
+        if (!adminSecret || secret !== adminSecret) {
+            return NextResponse.json(
+                { success: false, message: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const userId = searchParams.get('userId') || undefined;
+
+        const [status, topUsers] = await Promise.all([
+            getQuotaStatus(userId),
+            getTopQuotaUsers(),
+        ]);
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                ...status,
+                topUsers,
+            },
+        });
+    } catch (error) {
+        console.error('Admin YouTube quota error:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to fetch YouTube quota usage' },
+            { status: 500 }
+        );
+    }
+}
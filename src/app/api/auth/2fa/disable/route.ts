@@ -4,6 +4,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/db';
 import { verifyAccessToken, verifyPassword } from '@/lib/auth';
+import { recordAuditEvent } from '@/lib/audit';
 
 export const dynamic = 'force-dynamic';
 
@@ -18,7 +19,7 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        const decoded = verifyAccessToken(accessToken);
+        const decoded = await verifyAccessToken(accessToken, request.headers);
         if (!decoded || decoded.isGuest) {
             return NextResponse.json(
                 { success: false, message: 'Unauthorized' },
@@ -78,6 +79,12 @@ export async function POST(request: NextRequest) {
             },
         });
 
+        await recordAuditEvent('two_factor_disabled', {
+            userId: decoded.userId,
+            email: decoded.email,
+            headers: request.headers,
+        });
+
         return NextResponse.json({
             success: true,
             message: '2FA has been disabled',
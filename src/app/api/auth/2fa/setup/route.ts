@@ -5,6 +5,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/db';
 import { verifyAccessToken } from '@/lib/auth';
+import { recordAuditEvent } from '@/lib/audit';
 import {
     generateTOTPSecret,
     generateQRCode,
@@ -27,7 +28,7 @@ export async function GET(request: NextRequest) {
             );
         }
 
-        const decoded = verifyAccessToken(accessToken);
+        const decoded = await verifyAccessToken(accessToken, request.headers);
         if (!decoded || decoded.isGuest) {
             return NextResponse.json(
                 { success: false, message: 'Unauthorized' },
@@ -96,7 +97,7 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        const decoded = verifyAccessToken(accessToken);
+        const decoded = await verifyAccessToken(accessToken, request.headers);
         if (!decoded || decoded.isGuest) {
             return NextResponse.json(
                 { success: false, message: 'Unauthorized' },
@@ -170,6 +171,12 @@ export async function POST(request: NextRequest) {
             },
         });
 
+        await recordAuditEvent('two_factor_enabled', {
+            userId: decoded.userId,
+            email: decoded.email,
+            headers: request.headers,
+        });
+
         return NextResponse.json({
             success: true,
             message: '2FA has been enabled successfully!',
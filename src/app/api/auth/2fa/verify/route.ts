@@ -3,9 +3,11 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/db';
-import { generateAccessToken, generateRefreshToken } from '@/lib/auth';
+import { startSession } from '@/lib/refresh-tokens';
+import { claimGuestData } from '@/lib/guest-data';
 import { verifyTOTP, decryptSecret, verifyBackupCode } from '@/lib/two-factor';
 import { checkRateLimit, recordAttempt, RATE_LIMITS, getClientIP } from '@/lib/rate-limit';
+import { recordAuditEvent } from '@/lib/audit';
 
 export const dynamic = 'force-dynamic';
 
@@ -87,12 +89,21 @@ export async function POST(request: NextRequest) {
 
         if (!isValid) {
             await recordAttempt(rateLimitKey, RATE_LIMITS.login);
+            await recordAuditEvent('two_factor_failure', {
+                userId: user.id,
+                email: user.email,
+                headers: request.headers,
+                metadata: { backupCode: Boolean(isBackupCode) },
+            });
             return NextResponse.json(
                 { success: false, message: 'Invalid verification code' },
                 { status: 400 }
             );
         }
 
+        // Bring over anything found while browsing as a guest
+        await claimGuestData(request.cookies.get('accessToken')?.value, user.id);
+
         // Generate tokens and complete login
         const tokenPayload = {
             userId: user.id,
@@ -101,8 +112,21 @@ export async function POST(request: NextRequest) {
             isGuest: false,
         };
 
-        const accessToken = generateAccessToken(tokenPayload);
-        const refreshToken = generateRefreshToken(tokenPayload);
+        const { accessToken, refreshToken } = await startSession(tokenPayload, request.headers);
+
+        if (isBackupCode) {
+            await recordAuditEvent('backup_code_used', {
+                userId: user.id,
+                email: user.email,
+                headers: request.headers,
+            });
+        }
+        await recordAuditEvent('login_success', {
+            userId: user.id,
+            email: user.email,
+            headers: request.headers,
+            metadata: { method: 'two_factor' },
+        });
 
         const response = NextResponse.json({
             success: true,
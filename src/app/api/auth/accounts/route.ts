@@ -0,0 +1,104 @@
+// Linked sign-in accounts API endpoint
+// GET - List the providers (e.g. Google) linked to the signed-in user
+// DELETE - Unlink a provider account (?id=)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAccessToken } from '@/lib/auth';
+import { getDb, DbAccount } from '@/lib/db';
+import { recordAuditEvent } from '@/lib/audit';
+
+export const dynamic = 'force-dynamic';
+
+async function authenticate(request: NextRequest) {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) return null;
+
+    const decoded = await verifyAccessToken(accessToken, request.headers);
+    if (!decoded || decoded.isGuest) return null;
+
+    return decoded;
+}
+
+export async function GET(request: NextRequest) {
+    try {
+        const decoded = await authenticate(request);
+        if (!decoded) {
+            return NextResponse.json(
+                { success: false, message: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const accounts: DbAccount[] = await getDb().account.findMany({
+            where: { userId: decoded.userId },
+        });
+
+        return NextResponse.json({
+            success: true,
+            accounts: accounts.map((account) => ({
+                id: account.id,
+                provider: account.provider,
+                email: account.email,
+                createdAt: account.createdAt.toISOString(),
+                lastUsedAt: account.lastUsedAt?.toISOString() ?? null,
+            })),
+        });
+    } catch (error) {
+        console.error('List linked accounts error:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to load linked accounts' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE(request: NextRequest) {
+    try {
+        const decoded = await authenticate(request);
+        if (!decoded) {
+            return NextResponse.json(
+                { success: false, message: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const id = request.nextUrl.searchParams.get('id');
+        if (!id) {
+            return NextResponse.json(
+                { success: false, message: 'Account ID is required' },
+                { status: 400 }
+            );
+        }
+
+        const prisma = getDb();
+        const account: DbAccount | null = await prisma.account.findUnique({ where: { id } });
+
+        if (!account || account.userId !== decoded.userId) {
+            return NextResponse.json(
+                { success: false, message: 'Linked account not found' },
+                { status: 404 }
+            );
+        }
+
+        // YouTube stays connected; it has its own disconnect in settings
+        await prisma.account.delete({ where: { id } });
+
+        await recordAuditEvent('google_unlinked', {
+            userId: decoded.userId,
+            email: decoded.email,
+            headers: request.headers,
+            metadata: { googleEmail: account.email },
+        });
+
+        return NextResponse.json({
+            success: true,
+            message: 'Google account unlinked',
+        });
+    } catch (error) {
+        console.error('Unlink account error:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to unlink account' },
+            { status: 500 }
+        );
+    }
+}
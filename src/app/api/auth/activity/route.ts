@@ -0,0 +1,49 @@
+// Security activity API endpoint
+// GET - Recent security events on the signed-in user's account
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAccessToken } from '@/lib/auth';
+import { getRecentSecurityActivity, parseAuditMetadata } from '@/lib/audit';
+import { describeUserAgent } from '@/lib/sessions';
+import { SecurityActivityItem } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+    try {
+        const accessToken = request.cookies.get('accessToken')?.value;
+        if (!accessToken) {
+            return NextResponse.json(
+                { success: false, message: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const decoded = await verifyAccessToken(accessToken, request.headers);
+        if (!decoded || decoded.isGuest) {
+            return NextResponse.json(
+                { success: false, message: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const events = await getRecentSecurityActivity(decoded.userId);
+
+        const activity: SecurityActivityItem[] = events.map((event) => ({
+            id: event.id,
+            type: event.type,
+            device: describeUserAgent(event.userAgent),
+            ipAddress: event.ipAddress,
+            metadata: parseAuditMetadata(event),
+            createdAt: event.createdAt.toISOString(),
+        }));
+
+        return NextResponse.json({ success: true, activity });
+    } catch (error) {
+        console.error('Security activity error:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to load security activity' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,231 @@
+// Google sign-in callback endpoint
+// GET - Handles the redirect from Google: signs in, creates an account, or links Google to the signed-in account
+// An existing password account is never merged automatically; its owner signs in and connects Google from settings
+
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb, DbAccount, DbUser } from '@/lib/db';
+import { hashPassword, verifyAccessToken } from '@/lib/auth';
+import { startSession, setAuthCookies } from '@/lib/refresh-tokens';
+import { claimGuestData } from '@/lib/guest-data';
+import { saveYouTubeConnection } from '@/lib/youtube-auth';
+import { recordAuditEvent } from '@/lib/audit';
+import {
+    exchangeGoogleCode,
+    readGoogleState,
+    GoogleProfile,
+    GOOGLE_PROVIDER,
+    GOOGLE_STATE_COOKIE,
+} from '@/lib/google-auth';
+
+export const dynamic = 'force-dynamic';
+
+function redirectTo(request: NextRequest, path: string): NextResponse {
+    const response = NextResponse.redirect(new URL(path, request.url));
+    response.cookies.set(GOOGLE_STATE_COOKIE, '', { maxAge: 0, path: '/api/auth/google' });
+    return response;
+}
+
+/**
+ * Mark the account's email verified when Google vouches for the same address
+ */
+async function markEmailVerified(user: DbUser, profile: GoogleProfile): Promise<DbUser> {
+    if (user.emailVerified || user.email !== profile.email) return user;
+
+    return getDb().user.update({
+        where: { id: user.id },
+        data: { emailVerified: true },
+    });
+}
+
+export async function GET(request: NextRequest) {
+    const prisma = getDb();
+    const searchParams = request.nextUrl.searchParams;
+    const state = readGoogleState(request.cookies.get(GOOGLE_STATE_COOKIE)?.value, searchParams.get('state'));
+    const failurePage = state?.intent === 'link' ? '/settings' : '/login';
+
+    try {
+        // Handle OAuth errors
+        if (searchParams.get('error')) {
+            return redirectTo(request, `${failurePage}?google_error=access_denied`);
+        }
+
+        if (!state) {
+            return redirectTo(request, `${failurePage}?google_error=invalid_state`);
+        }
+
+        const code = searchParams.get('code');
+        if (!code) {
+            return redirectTo(request, `${failurePage}?google_error=missing_params`);
+        }
+
+        const { profile, youtubeTokens } = await exchangeGoogleCode(code);
+
+        if (!profile.emailVerified) {
+            return redirectTo(request, `${failurePage}?google_error=unverified_email`);
+        }
+
+        const linked: DbAccount | null = await prisma.account.findUnique({
+            where: { provider_providerAccountId: { provider: GOOGLE_PROVIDER, providerAccountId: profile.sub } },
+        });
+
+        // Connecting Google from settings
+        if (state.intent === 'link') {
+            // The session must still belong to whoever started the flow
+            const accessToken = request.cookies.get('accessToken')?.value;
+            const decoded = accessToken ? await verifyAccessToken(accessToken, request.headers) : null;
+            if (!decoded || decoded.isGuest || decoded.userId !== state.userId) {
+                return redirectTo(request, '/settings?google_error=invalid_state');
+            }
+
+            if (linked && linked.userId !== decoded.userId) {
+                return redirectTo(request, '/settings?google_error=linked_elsewhere');
+            }
+
+            if (!linked) {
+                const existing: DbAccount | null = await prisma.account.findFirst({
+                    where: { userId: decoded.userId, provider: GOOGLE_PROVIDER },
+                });
+                if (existing) {
+                    return redirectTo(request, '/settings?google_error=already_linked');
+                }
+
+                await prisma.account.create({
+                    data: {
+                        userId: decoded.userId,
+                        provider: GOOGLE_PROVIDER,
+                        providerAccountId: profile.sub,
+                        email: profile.email,
+                    },
+                });
+
+                await recordAuditEvent('google_linked', {
+                    userId: decoded.userId,
+                    email: decoded.email,
+                    headers: request.headers,
+                    metadata: { googleEmail: profile.email },
+                });
+            }
+
+            const user = await prisma.user.findUnique({ where: { id: decoded.userId } });
+            if (user) await markEmailVerified(user, profile);
+
+            if (youtubeTokens) {
+                await saveYouTubeConnection(decoded.userId, youtubeTokens);
+                await recordAuditEvent('youtube_connected', {
+                    userId: decoded.userId,
+                    email: decoded.email,
+                    headers: request.headers,
+                    metadata: { via: 'google' },
+                });
+            }
+
+            return redirectTo(request, '/settings?google_linked=true');
+        }
+
+        // Signing in or signing up
+        let user: DbUser | null;
+
+        if (linked) {
+            user = await prisma.user.findUnique({ where: { id: linked.userId } });
+            await prisma.account.update({
+                where: { id: linked.id },
+                data: { email: profile.email, lastUsedAt: new Date() },
+            });
+        } else {
+            const existingUser = await prisma.user.findUnique({ where: { email: profile.email } });
+
+            if (existingUser) {
+                await recordAuditEvent('login_failure', {
+                    userId: existingUser.id,
+                    email: profile.email,
+                    headers: request.headers,
+                    metadata: { method: 'google', reason: 'account_exists' },
+                });
+
+                // Linking here would hand the account to whoever controls this Google login,
+                // and leave any password set by an unverified sign-up working alongside it
+                return redirectTo(
+                    request,
+                    `/login?google_error=account_exists&email=${encodeURIComponent(profile.email)}`
+                );
+            }
+
+            // Google-only accounts get an unguessable placeholder hash and re-authenticate with emailed
+            // codes until they set a password (settings or a password reset)
+            user = await prisma.user.create({
+                data: {
+                    email: profile.email,
+                    passwordHash: await hashPassword(crypto.randomBytes(32).toString('base64url')),
+                    hasPassword: false,
+                    name: profile.name,
+                    emailVerified: true,
+                },
+            });
+
+            await prisma.account.create({
+                data: {
+                    userId: user!.id,
+                    provider: GOOGLE_PROVIDER,
+                    providerAccountId: profile.sub,
+                    email: profile.email,
+                },
+            });
+
+            await recordAuditEvent('signup', {
+                userId: user!.id,
+                email: profile.email,
+                headers: request.headers,
+                metadata: { method: 'google' },
+            });
+        }
+
+        if (!user) {
+            return redirectTo(request, '/login?google_error=user_not_found');
+        }
+
+        user = await markEmailVerified(user, profile);
+
+        if (youtubeTokens) {
+            await saveYouTubeConnection(user.id, youtubeTokens);
+            await recordAuditEvent('youtube_connected', {
+                userId: user.id,
+                email: user.email,
+                headers: request.headers,
+                metadata: { via: 'google' },
+            });
+        }
+
+        // Google counts as the password, not the second factor
+        if (user.twoFactorEnabled) {
+            return redirectTo(request, `/verify?type=2fa&email=${encodeURIComponent(user.email)}`);
+        }
+
+        // Bring over anything found while browsing as a guest
+        await claimGuestData(request.cookies.get('accessToken')?.value, user.id);
+
+        const tokenPayload = {
+            userId: user.id,
+            email: user.email,
+            emailVerified: user.emailVerified,
+            isGuest: false,
+        };
+
+        const { accessToken, refreshToken } = await startSession(tokenPayload, request.headers);
+
+        await recordAuditEvent('login_success', {
+            userId: user.id,
+            email: user.email,
+            headers: request.headers,
+            metadata: { method: 'google' },
+        });
+
+        const response = redirectTo(request, '/chat');
+        setAuthCookies(response, accessToken, refreshToken);
+
+        return response;
+    } catch (error) {
+        console.error('Google callback error:', error);
+        return redirectTo(request, `${failurePage}?google_error=sign_in_failed`);
+    }
+}
@@ -0,0 +1,46 @@
+// Google sign-in initiation endpoint
+// GET - Redirects to the Google consent screen
+// ?youtube=1 also asks for YouTube access; ?intent=link connects Google to the signed-in account
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAccessToken } from '@/lib/auth';
+import { getGoogleAuthUrl, GOOGLE_STATE_COOKIE, GOOGLE_STATE_MAX_AGE_SECONDS, GoogleIntent } from '@/lib/google-auth';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+    const searchParams = request.nextUrl.searchParams;
+    const intent: GoogleIntent = searchParams.get('intent') === 'link' ? 'link' : 'login';
+    const youtube = searchParams.get('youtube') === '1';
+
+    try {
+        let userId: string | undefined;
+
+        if (intent === 'link') {
+            const accessToken = request.cookies.get('accessToken')?.value;
+            const decoded = accessToken ? await verifyAccessToken(accessToken, request.headers) : null;
+            if (!decoded || decoded.isGuest) {
+                return NextResponse.redirect(new URL('/login', request.url));
+            }
+            userId = decoded.userId;
+        }
+
+        const { url, stateToken } = getGoogleAuthUrl({ intent, youtube, userId });
+
+        const response = NextResponse.redirect(url);
+        response.cookies.set(GOOGLE_STATE_COOKIE, stateToken, {
+            httpOnly: true,
+            secure: process.env.NODE_ENV === 'production',
+            // Lax so the cookie survives the top-level redirect back from Google
+            sameSite: 'lax',
+            maxAge: GOOGLE_STATE_MAX_AGE_SECONDS,
+            path: '/api/auth/google',
+        });
+
+        return response;
+    } catch (error) {
+        console.error('Google auth error:', error);
+        const failurePage = intent === 'link' ? '/settings' : '/login';
+        return NextResponse.redirect(new URL(`${failurePage}?google_error=not_configured`, request.url));
+    }
+}
@@ -3,10 +3,13 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/db';
-import { verifyPassword, generateAccessToken, generateRefreshToken, generateVerificationCode } from '@/lib/auth';
+import { verifyPassword, generateVerificationCode } from '@/lib/auth';
+import { startSession } from '@/lib/refresh-tokens';
+import { claimGuestData } from '@/lib/guest-data';
 import { loginSchema, validateInput } from '@/lib/validation';
 import { sendVerificationEmail } from '@/lib/email';
 import { checkRateLimit, recordAttempt, resetRateLimit, RATE_LIMITS, getClientIP } from '@/lib/rate-limit';
+import { recordAuditEvent } from '@/lib/audit';
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic';
@@ -39,6 +42,11 @@ export async function POST(request: NextRequest) {
         const rateLimit = await checkRateLimit(rateLimitKey, RATE_LIMITS.login);
 
         if (!rateLimit.allowed) {
+            await recordAuditEvent('login_failure', {
+                email: normalizedEmail,
+                headers: request.headers,
+                metadata: { method: 'password', reason: 'rate_limited' },
+            });
             return NextResponse.json(
                 {
                     success: false,
@@ -55,6 +63,11 @@ export async function POST(request: NextRequest) {
 
         if (!user) {
             await recordAttempt(rateLimitKey, RATE_LIMITS.login);
+            await recordAuditEvent('login_failure', {
+                email: normalizedEmail,
+                headers: request.headers,
+                metadata: { method: 'password', reason: 'unknown_email' },
+            });
             return NextResponse.json(
                 {
                     success: false,
@@ -69,6 +82,12 @@ export async function POST(request: NextRequest) {
 
         if (!isValidPassword) {
             await recordAttempt(rateLimitKey, RATE_LIMITS.login);
+            await recordAuditEvent('login_failure', {
+                userId: user.id,
+                email: normalizedEmail,
+                headers: request.headers,
+                metadata: { method: 'password', reason: 'invalid_password' },
+            });
             return NextResponse.json(
                 {
                     success: false,
@@ -99,7 +118,7 @@ export async function POST(request: NextRequest) {
 
             // Delete old tokens and add new one
             await prisma.verificationToken.deleteMany({
-                where: { userId: user.id }
+                where: { userId: user.id, purpose: 'email_verification' }
             });
             await prisma.verificationToken.create({
                 data: {
@@ -120,6 +139,9 @@ export async function POST(request: NextRequest) {
             });
         }
 
+        // Bring over anything found while browsing as a guest
+        await claimGuestData(request.cookies.get('accessToken')?.value, user.id);
+
         // Generate auth tokens (only if 2FA is not enabled)
         const tokenPayload = {
             userId: user.id,
@@ -128,8 +150,14 @@ export async function POST(request: NextRequest) {
             isGuest: false,
         };
 
-        const accessToken = generateAccessToken(tokenPayload);
-        const refreshToken = generateRefreshToken(tokenPayload);
+        const { accessToken, refreshToken } = await startSession(tokenPayload, request.headers);
+
+        await recordAuditEvent('login_success', {
+            userId: user.id,
+            email: user.email,
+            headers: request.headers,
+            metadata: { method: 'password' },
+        });
 
         // Create response with cookies
         const response = NextResponse.json({
@@ -1,13 +1,32 @@
 // Logout API endpoint
 // POST /api/auth/logout
 
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAccessToken } from '@/lib/auth';
+import { revokeRefreshToken } from '@/lib/refresh-tokens';
+import { recordAuditEvent } from '@/lib/audit';
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic';
 
-export async function POST() {
+export async function POST(request: NextRequest) {
     try {
+        // Revoke the session server-side so a copied refresh token stops working too
+        const refreshToken = request.cookies.get('refreshToken')?.value;
+        if (refreshToken) {
+            await revokeRefreshToken(refreshToken);
+        }
+
+        const accessToken = request.cookies.get('accessToken')?.value;
+        const decoded = accessToken ? await verifyAccessToken(accessToken) : null;
+        if (decoded && !decoded.isGuest) {
+            await recordAuditEvent('logout', {
+                userId: decoded.userId,
+                email: decoded.email,
+                headers: request.headers,
+            });
+        }
+
         const response = NextResponse.json({
             success: true,
             message: 'Logged out successfully',
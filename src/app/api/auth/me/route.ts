@@ -3,7 +3,8 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/db';
-import { verifyAccessToken, verifyRefreshToken, generateAccessToken } from '@/lib/auth';
+import { verifyAccessToken, ACCESS_TOKEN_MAX_AGE_SECONDS } from '@/lib/auth';
+import { rotateRefreshToken, setAuthCookies, clearAuthCookies } from '@/lib/refresh-tokens';
 
 // Force dynamic rendering to avoid static build issues
 export const dynamic = 'force-dynamic';
@@ -17,7 +18,7 @@ export async function GET(request: NextRequest) {
 
         // Try to verify access token first
         if (accessToken) {
-            const decoded = verifyAccessToken(accessToken);
+            const decoded = await verifyAccessToken(accessToken, request.headers);
 
             if (decoded) {
                 // Check if guest user
@@ -43,66 +44,62 @@ export async function GET(request: NextRequest) {
                         name: true,
                         emailVerified: true,
                         twoFactorEnabled: true,
+                        hasPassword: true,
+                        pendingEmail: true,
                     },
                 });
 
                 if (user) {
+                    // List fields explicitly: the Turso client ignores `select` and returns every column
                     return NextResponse.json({
                         success: true,
                         user: {
-                            ...user,
+                            id: user.id,
+                            email: user.email,
+                            name: user.name,
+                            emailVerified: user.emailVerified,
+                            twoFactorEnabled: user.twoFactorEnabled,
+                            hasPassword: user.hasPassword,
+                            pendingEmail: user.pendingEmail,
                             isGuest: false,
                         },
+                        accessTokenExpiresAt: new Date(decoded.exp * 1000).toISOString(),
                     });
                 }
             }
         }
 
-        // Try to refresh using refresh token
+        // Try to refresh using refresh token (rotates it)
         if (refreshToken) {
-            const decoded = verifyRefreshToken(refreshToken);
+            const result = await rotateRefreshToken(refreshToken, request.headers);
 
-            if (decoded && !decoded.isGuest) {
-                // Get user from database
-                const user = await prisma.user.findUnique({
-                    where: { id: decoded.userId },
-                    select: {
-                        id: true,
-                        email: true,
-                        name: true,
-                        emailVerified: true,
-                        twoFactorEnabled: true,
+            if (result.status === 'rotated') {
+                const response = NextResponse.json({
+                    success: true,
+                    user: {
+                        id: result.user.id,
+                        email: result.user.email,
+                        name: result.user.name,
+                        emailVerified: result.user.emailVerified,
+                        twoFactorEnabled: result.user.twoFactorEnabled,
+                        hasPassword: result.user.hasPassword,
+                        pendingEmail: result.user.pendingEmail,
+                        isGuest: false,
                     },
+                    accessTokenExpiresAt: new Date(Date.now() + ACCESS_TOKEN_MAX_AGE_SECONDS * 1000).toISOString(),
                 });
 
-                if (user) {
-                    // Generate new access token
-                    const newAccessToken = generateAccessToken({
-                        userId: user.id,
-                        email: user.email,
-                        emailVerified: user.emailVerified,
-                        isGuest: false,
-                    });
-
-                    const response = NextResponse.json({
-                        success: true,
-                        user: {
-                            ...user,
-                            isGuest: false,
-                        },
-                    });
-
-                    // Set new access token cookie
-                    response.cookies.set('accessToken', newAccessToken, {
-                        httpOnly: true,
-                        secure: process.env.NODE_ENV === 'production',
-                        sameSite: 'lax',
-                        maxAge: 15 * 60, // 15 minutes
-                        path: '/',
-                    });
+                setAuthCookies(response, result.accessToken, result.refreshToken);
+                return response;
+            }
 
-                    return response;
-                }
+            if (result.status === 'reused' || result.status === 'revoked') {
+                const response = NextResponse.json({
+                    success: false,
+                    message: 'Not authenticated',
+                }, { status: 401 });
+                clearAuthCookies(response);
+                return response;
             }
         }
 
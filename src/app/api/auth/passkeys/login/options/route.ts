@@ -0,0 +1,35 @@
+// Passkey sign-in options API endpoint
+// POST /api/auth/passkeys/login/options - Start a passkey sign-in
+// Always discoverable: the browser offers any saved passkey, so the response never reveals whether an account exists
+
+import { NextResponse } from 'next/server';
+import { issueChallenge, buildAuthenticationOptions, CHALLENGE_COOKIE, CHALLENGE_MAX_AGE_SECONDS } from '@/lib/webauthn';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST() {
+    try {
+        const { challenge, token } = issueChallenge('authentication');
+
+        const response = NextResponse.json({
+            success: true,
+            options: buildAuthenticationOptions(challenge),
+        });
+
+        response.cookies.set(CHALLENGE_COOKIE, token, {
+            httpOnly: true,
+            secure: process.env.NODE_ENV === 'production',
+            sameSite: 'strict',
+            maxAge: CHALLENGE_MAX_AGE_SECONDS,
+            path: '/api/auth/passkeys',
+        });
+
+        return response;
+    } catch (error) {
+        console.error('Passkey sign-in options error:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to start passkey sign-in' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,167 @@
+// Passkey sign-in API endpoint
+// POST /api/auth/passkeys/login - Verify a passkey assertion and start a session
+// A passkey proves possession and user verification, so it also satisfies 2FA
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb, DbCredential } from '@/lib/db';
+import { generateVerificationCode } from '@/lib/auth';
+import { startSession, setAuthCookies } from '@/lib/refresh-tokens';
+import { claimGuestData } from '@/lib/guest-data';
+import { passkeyAuthenticationSchema, validateInput } from '@/lib/validation';
+import { sendVerificationEmail } from '@/lib/email';
+import { readChallenge, verifyAuthenticationResponse, CHALLENGE_COOKIE } from '@/lib/webauthn';
+import { checkRateLimit, recordAttempt, RATE_LIMITS, getClientIP } from '@/lib/rate-limit';
+import { recordAuditEvent } from '@/lib/audit';
+
+export const dynamic = 'force-dynamic';
+
+// A challenge is good for one attempt, whether or not it succeeds
+function clearChallenge(response: NextResponse): NextResponse {
+    response.cookies.set(CHALLENGE_COOKIE, '', { maxAge: 0, path: '/api/auth/passkeys' });
+    return response;
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const clientIP = getClientIP(request.headers);
+        const rateLimitKey = `passkey:${clientIP}`;
+        const rateLimit = await checkRateLimit(rateLimitKey, RATE_LIMITS.passkeyLogin);
+
+        if (!rateLimit.allowed) {
+            return clearChallenge(NextResponse.json(
+                {
+                    success: false,
+                    message: `Too many sign-in attempts. Please try again in ${Math.ceil((rateLimit.retryAfter || 1800) / 60)} minutes.`,
+                },
+                { status: 429 }
+            ));
+        }
+
+        const body = await request.json();
+        const validation = validateInput(passkeyAuthenticationSchema, body);
+
+        if (!validation.success) {
+            return clearChallenge(NextResponse.json(
+                { success: false, message: 'Validation failed', errors: validation.errors },
+                { status: 400 }
+            ));
+        }
+
+        const { credential } = validation.data;
+
+        const expected = readChallenge(request.cookies.get(CHALLENGE_COOKIE)?.value, 'authentication');
+        if (!expected) {
+            return clearChallenge(NextResponse.json(
+                { success: false, message: 'Passkey sign-in expired. Please try again.' },
+                { status: 400 }
+            ));
+        }
+
+        const prisma = getDb();
+        const stored: DbCredential | null = await prisma.credential.findUnique({
+            where: { credentialId: credential.id },
+        });
+
+        const result = stored
+            ? await verifyAuthenticationResponse(credential, expected.challenge, stored)
+            : { verified: false as const, error: 'Unknown credential' };
+
+        // The user handle, when sent, is the account ID we set at registration
+        const userHandleMatches = !credential.response.userHandle || !stored
+            || Buffer.from(credential.response.userHandle, 'base64url').toString('utf8') === stored.userId;
+
+        if (!stored || !result.verified || !userHandleMatches) {
+            await recordAttempt(rateLimitKey, RATE_LIMITS.passkeyLogin);
+            console.warn('Passkey sign-in rejected:', result.verified ? 'User handle mismatch' : result.error);
+            await recordAuditEvent('login_failure', {
+                userId: stored?.userId,
+                headers: request.headers,
+                metadata: { method: 'passkey', reason: result.verified ? 'User handle mismatch' : result.error },
+            });
+            return clearChallenge(NextResponse.json(
+                { success: false, message: 'This passkey could not be verified' },
+                { status: 401 }
+            ));
+        }
+
+        const user = await prisma.user.findUnique({ where: { id: stored.userId } });
+        if (!user) {
+            return clearChallenge(NextResponse.json(
+                { success: false, message: 'This passkey could not be verified' },
+                { status: 401 }
+            ));
+        }
+
+        await prisma.credential.update({
+            where: { id: stored.id },
+            data: { counter: result.counter, lastUsedAt: new Date() },
+        });
+
+        // Check if email is verified
+        if (!user.emailVerified) {
+            const { code, expiresAt } = generateVerificationCode();
+
+            await prisma.verificationToken.deleteMany({
+                where: { userId: user.id, purpose: 'email_verification' }
+            });
+            await prisma.verificationToken.create({
+                data: {
+                    token: code,
+                    userId: user.id,
+                    expiresAt: expiresAt
+                }
+            });
+
+            sendVerificationEmail(user.email, code, user.name || undefined);
+
+            return clearChallenge(NextResponse.json({
+                success: true,
+                requiresVerification: true,
+                email: user.email,
+                message: 'Please verify your email address',
+            }));
+        }
+
+        // Bring over anything found while browsing as a guest
+        await claimGuestData(request.cookies.get('accessToken')?.value, user.id);
+
+        // Generate auth tokens
+        const tokenPayload = {
+            userId: user.id,
+            email: user.email,
+            emailVerified: user.emailVerified,
+            isGuest: false,
+        };
+
+        const { accessToken, refreshToken } = await startSession(tokenPayload, request.headers);
+
+        await recordAuditEvent('login_success', {
+            userId: user.id,
+            email: user.email,
+            headers: request.headers,
+            metadata: { method: 'passkey', passkey: stored.name },
+        });
+
+        const response = NextResponse.json({
+            success: true,
+            message: 'Login successful',
+            user: {
+                id: user.id,
+                email: user.email,
+                name: user.name,
+                emailVerified: user.emailVerified,
+                isGuest: false,
+            },
+        });
+
+        setAuthCookies(response, accessToken, refreshToken);
+
+        return clearChallenge(response);
+    } catch (error) {
+        console.error('Passkey sign-in error:', error);
+        return clearChallenge(NextResponse.json(
+            { success: false, message: 'An error occurred during sign-in' },
+            { status: 500 }
+        ));
+    }
+}
@@ -0,0 +1,85 @@
+// Passkey registration options API endpoint
+// POST /api/auth/passkeys/register/options - Re-authenticate, then start adding a passkey
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/db';
+import { verifyAccessToken } from '@/lib/auth';
+import { passkeyRegistrationOptionsSchema, validateInput } from '@/lib/validation';
+import { reauthenticate } from '@/lib/reauth';
+import { issueChallenge, buildRegistrationOptions, CHALLENGE_COOKIE, CHALLENGE_MAX_AGE_SECONDS } from '@/lib/webauthn';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+    try {
+        // Auth check
+        const accessToken = request.cookies.get('accessToken')?.value;
+        if (!accessToken) {
+            return NextResponse.json(
+                { success: false, message: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const decoded = await verifyAccessToken(accessToken, request.headers);
+        if (!decoded || decoded.isGuest) {
+            return NextResponse.json(
+                { success: false, message: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const body = await request.json();
+        const validation = validateInput(passkeyRegistrationOptionsSchema, body);
+
+        if (!validation.success) {
+            return NextResponse.json(
+                { success: false, message: validation.errors[0], errors: validation.errors },
+                { status: 400 }
+            );
+        }
+
+        const prisma = getDb();
+        const user = await prisma.user.findUnique({ where: { id: decoded.userId } });
+
+        if (!user) {
+            return NextResponse.json(
+                { success: false, message: 'User not found' },
+                { status: 404 }
+            );
+        }
+
+        // A passkey can sign in on its own, so adding one needs the same proof as a password change
+        const reauth = await reauthenticate(user, validation.data);
+        if (!reauth.success) {
+            return NextResponse.json(
+                { success: false, message: reauth.message, requires2FA: reauth.requires2FA, requiresEmailCode: reauth.requiresEmailCode },
+                { status: reauth.status }
+            );
+        }
+
+        const existing = await prisma.credential.findMany({ where: { userId: user.id } });
+        const { challenge, token } = issueChallenge('registration', user.id);
+
+        const response = NextResponse.json({
+            success: true,
+            options: buildRegistrationOptions(user, existing, challenge),
+        });
+
+        response.cookies.set(CHALLENGE_COOKIE, token, {
+            httpOnly: true,
+            secure: process.env.NODE_ENV === 'production',
+            sameSite: 'strict',
+            maxAge: CHALLENGE_MAX_AGE_SECONDS,
+            path: '/api/auth/passkeys',
+        });
+
+        return response;
+    } catch (error) {
+        console.error('Passkey registration options error:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to start passkey setup' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,110 @@
+// Passkey registration API endpoint
+// POST /api/auth/passkeys/register - Verify the new passkey and save it
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/db';
+import { verifyAccessToken } from '@/lib/auth';
+import { passkeyRegistrationSchema, validateInput } from '@/lib/validation';
+import { readChallenge, verifyRegistrationResponse, CHALLENGE_COOKIE } from '@/lib/webauthn';
+import { recordAuditEvent } from '@/lib/audit';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+    try {
+        // Auth check
+        const accessToken = request.cookies.get('accessToken')?.value;
+        if (!accessToken) {
+            return NextResponse.json(
+                { success: false, message: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const decoded = await verifyAccessToken(accessToken, request.headers);
+        if (!decoded || decoded.isGuest) {
+            return NextResponse.json(
+                { success: false, message: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const body = await request.json();
+        const validation = validateInput(passkeyRegistrationSchema, body);
+
+        if (!validation.success) {
+            return NextResponse.json(
+                { success: false, message: validation.errors[0], errors: validation.errors },
+                { status: 400 }
+            );
+        }
+
+        const { name, credential } = validation.data;
+
+        const expected = readChallenge(request.cookies.get(CHALLENGE_COOKIE)?.value, 'registration');
+        if (!expected || expected.userId !== decoded.userId) {
+            return NextResponse.json(
+                { success: false, message: 'Passkey setup expired. Please try again.' },
+                { status: 400 }
+            );
+        }
+
+        const result = await verifyRegistrationResponse(credential, expected.challenge);
+        if (!result.verified) {
+            console.warn('Passkey registration rejected:', result.error);
+            return NextResponse.json(
+                { success: false, message: 'Could not verify this passkey' },
+                { status: 400 }
+            );
+        }
+
+        const prisma = getDb();
+
+        if (await prisma.credential.findUnique({ where: { credentialId: result.credentialId } })) {
+            return NextResponse.json(
+                { success: false, message: 'This passkey is already registered' },
+                { status: 409 }
+            );
+        }
+
+        const saved = await prisma.credential.create({
+            data: {
+                userId: decoded.userId,
+                credentialId: result.credentialId,
+                publicKey: result.publicKey,
+                counter: result.counter,
+                transports: result.transports.length > 0 ? JSON.stringify(result.transports) : null,
+                name,
+            },
+        });
+
+        await recordAuditEvent('passkey_added', {
+            userId: decoded.userId,
+            email: decoded.email,
+            headers: request.headers,
+            metadata: { name },
+        });
+
+        const response = NextResponse.json({
+            success: true,
+            message: 'Passkey added',
+            passkey: {
+                id: saved.id,
+                name: saved.name,
+                createdAt: saved.createdAt.toISOString(),
+                lastUsedAt: null,
+            },
+        });
+
+        // Each challenge is good for one ceremony
+        response.cookies.set(CHALLENGE_COOKIE, '', { maxAge: 0, path: '/api/auth/passkeys' });
+
+        return response;
+    } catch (error) {
+        console.error('Passkey registration error:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to add passkey' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,103 @@
+// Passkeys API endpoint
+// GET - List the signed-in user's passkeys
+// DELETE - Remove a passkey (?id=)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAccessToken } from '@/lib/auth';
+import { getDb, DbCredential } from '@/lib/db';
+import { recordAuditEvent } from '@/lib/audit';
+
+export const dynamic = 'force-dynamic';
+
+async function authenticate(request: NextRequest) {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) return null;
+
+    const decoded = await verifyAccessToken(accessToken, request.headers);
+    if (!decoded || decoded.isGuest) return null;
+
+    return decoded;
+}
+
+export async function GET(request: NextRequest) {
+    try {
+        const decoded = await authenticate(request);
+        if (!decoded) {
+            return NextResponse.json(
+                { success: false, message: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const credentials: DbCredential[] = await getDb().credential.findMany({
+            where: { userId: decoded.userId },
+            orderBy: { createdAt: 'asc' },
+        });
+
+        return NextResponse.json({
+            success: true,
+            passkeys: credentials.map((credential) => ({
+                id: credential.id,
+                name: credential.name,
+                createdAt: credential.createdAt.toISOString(),
+                lastUsedAt: credential.lastUsedAt?.toISOString() ?? null,
+            })),
+        });
+    } catch (error) {
+        console.error('List passkeys error:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to load passkeys' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE(request: NextRequest) {
+    try {
+        const decoded = await authenticate(request);
+        if (!decoded) {
+            return NextResponse.json(
+                { success: false, message: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const id = request.nextUrl.searchParams.get('id');
+        if (!id) {
+            return NextResponse.json(
+                { success: false, message: 'Passkey ID is required' },
+                { status: 400 }
+            );
+        }
+
+        const prisma = getDb();
+        const credential: DbCredential | null = await prisma.credential.findUnique({ where: { id } });
+
+        if (!credential || credential.userId !== decoded.userId) {
+            return NextResponse.json(
+                { success: false, message: 'Passkey not found' },
+                { status: 404 }
+            );
+        }
+
+        await prisma.credential.delete({ where: { id } });
+
+        await recordAuditEvent('passkey_removed', {
+            userId: decoded.userId,
+            email: decoded.email,
+            headers: request.headers,
+            metadata: { name: credential.name },
+        });
+
+        return NextResponse.json({
+            success: true,
+            message: 'Passkey removed',
+        });
+    } catch (error) {
+        console.error('Delete passkey error:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to remove passkey' },
+            { status: 500 }
+        );
+    }
+}
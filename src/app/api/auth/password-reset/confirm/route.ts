@@ -0,0 +1,114 @@
+// Password reset confirmation API endpoint
+// POST /api/auth/password-reset/confirm - Set a new password with an emailed code
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/db';
+import { passwordResetConfirmSchema, validateInput } from '@/lib/validation';
+import { hashPassword, isTokenExpired } from '@/lib/auth';
+import { revokeAllRefreshTokens, clearAuthCookies } from '@/lib/refresh-tokens';
+import { checkRateLimit, recordAttempt, resetRateLimit, RATE_LIMITS } from '@/lib/rate-limit';
+import { recordAuditEvent } from '@/lib/audit';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+    const prisma = getDb();
+
+    try {
+        // Parse and validate request body
+        const body = await request.json();
+        const validation = validateInput(passwordResetConfirmSchema, body);
+
+        if (!validation.success) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    message: 'Validation failed',
+                    errors: validation.errors,
+                },
+                { status: 400 }
+            );
+        }
+
+        const { email, code, password } = validation.data;
+        const normalizedEmail = email.toLowerCase();
+
+        // Limit guesses per account (not per IP) so a 6-digit code can't be brute-forced from many addresses
+        const rateLimitKey = `password-reset-confirm:${normalizedEmail}`;
+        const rateLimit = await checkRateLimit(rateLimitKey, RATE_LIMITS.passwordResetConfirm);
+
+        if (!rateLimit.allowed) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    message: `Too many attempts. Please try again in ${Math.ceil((rateLimit.retryAfter || 3600) / 60)} minutes.`,
+                },
+                { status: 429 }
+            );
+        }
+
+        const user = await prisma.user.findUnique({
+            where: { email: normalizedEmail },
+        });
+
+        const tokenEntry = user
+            ? await prisma.verificationToken.findFirst({
+                where: { token: code, userId: user.id, purpose: 'password_reset' },
+                orderBy: { createdAt: 'desc' },
+            })
+            : null;
+
+        if (!user || !tokenEntry || isTokenExpired(tokenEntry.expiresAt)) {
+            await recordAttempt(rateLimitKey, RATE_LIMITS.passwordResetConfirm);
+            return NextResponse.json(
+                {
+                    success: false,
+                    message: 'Invalid or expired reset code',
+                },
+                { status: 400 }
+            );
+        }
+
+        // Receiving the code proves the user owns the address
+        await prisma.user.update({
+            where: { id: user.id },
+            data: {
+                passwordHash: await hashPassword(password),
+                hasPassword: true,
+                emailVerified: true,
+            },
+        });
+
+        await prisma.verificationToken.deleteMany({
+            where: { userId: user.id, purpose: 'password_reset' },
+        });
+        await resetRateLimit(rateLimitKey);
+
+        // Sign out every device, in case the old password was compromised
+        await revokeAllRefreshTokens(user.id);
+
+        await recordAuditEvent('password_reset_completed', {
+            userId: user.id,
+            email: user.email,
+            headers: request.headers,
+        });
+
+        const response = NextResponse.json({
+            success: true,
+            message: 'Your password has been reset. Please log in with your new password.',
+        });
+        clearAuthCookies(response);
+
+        return response;
+    } catch (error) {
+        console.error('Password reset confirm error:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                message: 'An error occurred',
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,104 @@
+// Password reset request API endpoint
+// POST /api/auth/password-reset/request - Email a 6-digit reset code
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/db';
+import { passwordResetRequestSchema, validateInput } from '@/lib/validation';
+import { generateVerificationCode } from '@/lib/auth';
+import { sendPasswordResetEmail } from '@/lib/email';
+import { checkRateLimit, recordAttempt, RATE_LIMITS, getClientIP } from '@/lib/rate-limit';
+import { recordAuditEvent } from '@/lib/audit';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+// Same response whether or not the account exists, to prevent email enumeration
+const GENERIC_MESSAGE = 'If an account exists with that email, a password reset code has been sent.';
+
+export async function POST(request: NextRequest) {
+    const prisma = getDb();
+
+    try {
+        // Rate limiting check
+        const clientIP = getClientIP(request.headers);
+        const rateLimitKey = `password-reset:${clientIP}`;
+        const rateLimit = await checkRateLimit(rateLimitKey, RATE_LIMITS.passwordResetRequest);
+
+        if (!rateLimit.allowed) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    message: `Too many requests. Please try again in ${Math.ceil((rateLimit.retryAfter || 3600) / 60)} minutes.`,
+                },
+                { status: 429 }
+            );
+        }
+
+        // Parse and validate request body
+        const body = await request.json();
+        const validation = validateInput(passwordResetRequestSchema, body);
+
+        if (!validation.success) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    message: 'Validation failed',
+                    errors: validation.errors,
+                },
+                { status: 400 }
+            );
+        }
+
+        const normalizedEmail = validation.data.email.toLowerCase();
+        await recordAttempt(rateLimitKey, RATE_LIMITS.passwordResetRequest);
+
+        const user = await prisma.user.findUnique({
+            where: { email: normalizedEmail },
+        });
+
+        if (!user) {
+            return NextResponse.json({ success: true, message: GENERIC_MESSAGE });
+        }
+
+        // Only the latest reset code is valid
+        await prisma.verificationToken.deleteMany({
+            where: { userId: user.id, purpose: 'password_reset' },
+        });
+
+        const { code, expiresAt } = generateVerificationCode();
+
+        await prisma.verificationToken.create({
+            data: {
+                token: code,
+                userId: user.id,
+                purpose: 'password_reset',
+                expiresAt,
+            },
+        });
+
+        const emailResult = await sendPasswordResetEmail(user.email, code, user.name || undefined);
+
+        // A different response here would reveal that the account exists
+        if (!emailResult.success) {
+            console.error('Failed to send password reset email:', emailResult.message);
+            return NextResponse.json({ success: true, message: GENERIC_MESSAGE });
+        }
+
+        await recordAuditEvent('password_reset_requested', {
+            userId: user.id,
+            email: user.email,
+            headers: request.headers,
+        });
+
+        return NextResponse.json({ success: true, message: GENERIC_MESSAGE });
+    } catch (error) {
+        console.error('Password reset request error:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                message: 'An error occurred',
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,71 @@
+// Refresh token rotation endpoint
+// POST /api/auth/refresh
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ACCESS_TOKEN_MAX_AGE_SECONDS } from '@/lib/auth';
+import { rotateRefreshToken, setAuthCookies, clearAuthCookies } from '@/lib/refresh-tokens';
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+    try {
+        const refreshToken = request.cookies.get('refreshToken')?.value;
+
+        if (!refreshToken) {
+            return NextResponse.json(
+                { success: false, message: 'Not authenticated' },
+                { status: 401 }
+            );
+        }
+
+        const result = await rotateRefreshToken(refreshToken, request.headers);
+
+        // Another tab rotated this token a moment ago; its new cookies are already in the browser
+        if (result.status === 'stale') {
+            return NextResponse.json(
+                { success: false, retry: true, message: 'Token already refreshed' },
+                { status: 409 }
+            );
+        }
+
+        if (result.status !== 'rotated') {
+            const response = NextResponse.json(
+                {
+                    success: false,
+                    message: result.status === 'reused'
+                        ? 'Your session was ended for security reasons. Please log in again.'
+                        : 'Session expired. Please log in again.',
+                },
+                { status: 401 }
+            );
+            clearAuthCookies(response);
+            return response;
+        }
+
+        const response = NextResponse.json({
+            success: true,
+            user: {
+                id: result.user.id,
+                email: result.user.email,
+                name: result.user.name,
+                emailVerified: result.user.emailVerified,
+                twoFactorEnabled: result.user.twoFactorEnabled,
+                isGuest: false,
+            },
+            accessTokenExpiresAt: new Date(Date.now() + ACCESS_TOKEN_MAX_AGE_SECONDS * 1000).toISOString(),
+        });
+
+        setAuthCookies(response, result.accessToken, result.refreshToken);
+        return response;
+    } catch (error) {
+        console.error('Token refresh error:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                message: 'An error occurred',
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,110 @@
+// Sessions API endpoint
+// GET - List the devices the user is signed in on
+// DELETE - Sign out one device (?id=) or every other device (no id)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAccessToken } from '@/lib/auth';
+import { listSessions, endSession, endAllSessions } from '@/lib/sessions';
+import { clearAuthCookies } from '@/lib/refresh-tokens';
+import { recordAuditEvent } from '@/lib/audit';
+
+export const dynamic = 'force-dynamic';
+
+async function authenticate(request: NextRequest) {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) return null;
+
+    const decoded = await verifyAccessToken(accessToken, request.headers);
+    if (!decoded || decoded.isGuest) return null;
+
+    return decoded;
+}
+
+export async function GET(request: NextRequest) {
+    try {
+        const decoded = await authenticate(request);
+        if (!decoded) {
+            return NextResponse.json(
+                { success: false, message: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const sessions = await listSessions(decoded.userId, decoded.sessionId);
+
+        return NextResponse.json({
+            success: true,
+            sessions,
+        });
+    } catch (error) {
+        console.error('List sessions error:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to load sessions' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE(request: NextRequest) {
+    try {
+        const decoded = await authenticate(request);
+        if (!decoded) {
+            return NextResponse.json(
+                { success: false, message: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const sessionId = request.nextUrl.searchParams.get('id');
+
+        // No ID: sign out everywhere except here
+        if (!sessionId) {
+            const count = await endAllSessions(decoded.userId, decoded.sessionId);
+            await recordAuditEvent('session_revoked', {
+                userId: decoded.userId,
+                email: decoded.email,
+                headers: request.headers,
+                metadata: { count, allOtherDevices: true },
+            });
+            return NextResponse.json({
+                success: true,
+                message: count === 1 ? 'Signed out 1 other device' : `Signed out ${count} other devices`,
+                count,
+            });
+        }
+
+        const ended = await endSession(sessionId, decoded.userId);
+        if (!ended) {
+            return NextResponse.json(
+                { success: false, message: 'Session not found' },
+                { status: 404 }
+            );
+        }
+
+        await recordAuditEvent('session_revoked', {
+            userId: decoded.userId,
+            email: decoded.email,
+            headers: request.headers,
+            metadata: { sessionId },
+        });
+
+        const response = NextResponse.json({
+            success: true,
+            message: 'Device signed out',
+            current: sessionId === decoded.sessionId,
+        });
+
+        // Ending the current session is a logout
+        if (sessionId === decoded.sessionId) {
+            clearAuthCookies(response);
+        }
+
+        return response;
+    } catch (error) {
+        console.error('Revoke session error:', error);
+        return NextResponse.json(
+            { success: false, message: 'Failed to sign out device' },
+            { status: 500 }
+        );
+    }
+}
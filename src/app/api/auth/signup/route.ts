@@ -3,7 +3,10 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/db';
-import { hashPassword, generateAccessToken, generateRefreshToken, generateVerificationCode } from '@/lib/auth';
+import { hashPassword, generateVerificationCode } from '@/lib/auth';
+import { startSession } from '@/lib/refresh-tokens';
+import { recordAuditEvent } from '@/lib/audit';
+import { claimGuestData } from '@/lib/guest-data';
 import { signupSchema, validateInput } from '@/lib/validation';
 import { sendVerificationEmail } from '@/lib/email';
 import { checkRateLimit, recordAttempt, RATE_LIMITS, getClientIP } from '@/lib/rate-limit';
@@ -76,6 +79,13 @@ export async function POST(request: NextRequest) {
             },
         });
 
+        await recordAuditEvent('signup', {
+            userId: user.id,
+            email: user.email,
+            headers: request.headers,
+            metadata: { method: 'password' },
+        });
+
         // Generate 6-digit verification code
         const { code: verificationCode, expiresAt } = generateVerificationCode();
 
@@ -90,6 +100,9 @@ export async function POST(request: NextRequest) {
         // Send verification email with 6-digit code
         await sendVerificationEmail(user.email, verificationCode, user.name || undefined);
 
+        // Bring over anything found while browsing as a guest
+        await claimGuestData(request.cookies.get('accessToken')?.value, user.id);
+
         // Generate auth tokens
         const tokenPayload = {
             userId: user.id,
@@ -98,8 +111,7 @@ export async function POST(request: NextRequest) {
             isGuest: false,
         };
 
-        const accessToken = generateAccessToken(tokenPayload);
-        const refreshToken = generateRefreshToken(tokenPayload);
+        const { accessToken, refreshToken } = await startSession(tokenPayload, request.headers);
 
         // Create response with cookies
         const response = NextResponse.json({
@@ -3,7 +3,10 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/db';
-import { isTokenExpired, generateAccessToken, generateRefreshToken } from '@/lib/auth';
+import { isTokenExpired } from '@/lib/auth';
+import { startSession } from '@/lib/refresh-tokens';
+import { recordAuditEvent } from '@/lib/audit';
+import { claimGuestData } from '@/lib/guest-data';
 
 export const dynamic = 'force-dynamic';
 
@@ -38,7 +41,8 @@ export async function POST(request: NextRequest) {
         const tokenEntry = await db.verificationToken.findFirst({
             where: {
                 token: code,
-                userId: user.id
+                userId: user.id,
+                purpose: 'email_verification'
             },
             orderBy: { createdAt: 'desc' }
         });
@@ -67,6 +71,15 @@ export async function POST(request: NextRequest) {
             where: { id: tokenEntry.id }
         });
 
+        await recordAuditEvent('email_verified', {
+            userId: user.id,
+            email: user.email,
+            headers: request.headers,
+        });
+
+        // Bring over anything found while browsing as a guest
+        await claimGuestData(request.cookies.get('accessToken')?.value, user.id);
+
         // Generate auth tokens since they are newly verified
         const tokenPayload = {
             userId: user.id,
@@ -75,8 +88,7 @@ export async function POST(request: NextRequest) {
             isGuest: false,
         };
 
-        const accessToken = generateAccessToken(tokenPayload);
-        const refreshToken = generateRefreshToken(tokenPayload);
+        const { accessToken, refreshToken } = await startSession(tokenPayload, request.headers);
 
         const response = NextResponse.json({
             success: true,
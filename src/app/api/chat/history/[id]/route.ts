@@ -19,7 +19,7 @@ export async function GET(
         const accessToken = request.cookies.get('accessToken')?.value;
         if (!accessToken) return NextResponse.json({ success: false, message: 'Please log in' }, { status: 401 });
 
-        const decoded = verifyAccessToken(accessToken);
+        const decoded = await verifyAccessToken(accessToken, request.headers);
         if (!decoded || decoded.isGuest) return NextResponse.json({ success: false, message: 'Account required' }, { status: 401 });
 
         const db = getDb();
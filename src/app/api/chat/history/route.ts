@@ -19,7 +19,7 @@ export async function GET(request: NextRequest) {
             }, { status: 401 });
         }
 
-        const decoded = verifyAccessToken(accessToken);
+        const decoded = await verifyAccessToken(accessToken, request.headers);
 
         if (!decoded || decoded.isGuest) {
             return NextResponse.json({
@@ -1,53 +1,25 @@
 // Chat message API endpoint
 // POST /api/chat/message
-// Powered by Google Gemini AI for intelligent conversations
+// Powered by the configured LLM provider (Gemini by default) for intelligent conversations
+// Send "Accept: text/event-stream" to receive progress as Server-Sent Events
 
 import { NextRequest, NextResponse } from 'next/server';
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { chatMessageSchema, validateInput, sanitizeInput } from '@/lib/validation';
 import { searchTutorials, YouTubeVideo } from '@/lib/youtube';
-import { analyzeAndCurateVideos, LearningPath, formatLearningPathAsText } from '@/lib/curriculum';
+import { QuotaExceededError } from '@/lib/youtube-quota';
+import { analyzeAndCurateVideos, LearningPath, LearningStage, formatLearningPathAsText } from '@/lib/curriculum';
 import { verifyAccessToken } from '@/lib/auth';
 import { checkRateLimit, recordAttempt, RATE_LIMITS, getClientIP } from '@/lib/rate-limit';
 import { getDb } from '@/lib/db';
+import { getLlmProvider, isLlmConfigured, isQuotaError, LlmToolResult } from '@/lib/llm';
+import { CHAT_TOOLS, SEARCH_MARKER, findTimeBudget, resolveChatIntent } from '@/lib/chat-intent';
+import { loadConversation, appendMessage, saveSearchState, ConversationState } from '@/lib/conversation';
+import { isGuestId, saveGuestLearningPath } from '@/lib/guest-data';
 
 export const dynamic = 'force-dynamic';
 
 // ============================================
-// Gemini AI Setup
-// ============================================
-
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
-
-function getGeminiModel() {
-    if (!GEMINI_API_KEY) {
-        throw new Error('GEMINI_API_KEY not configured');
-    }
-    const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
-    return genAI.getGenerativeModel({ model: 'gemini-2.5-flash' });
-}
-
-// ============================================
-// Conversation State
-// ============================================
-
-interface ConversationMessage {
-    role: 'user' | 'assistant';
-    content: string;
-}
-
-interface ConversationState {
-    messages: ConversationMessage[];
-    searchReady: boolean;
-    searchQuery?: string;
-    skillLevel?: string;
-    goal?: string;
-}
-
-const conversationStates = new Map<string, ConversationState>();
-
-// ============================================
-// System Prompt for Gemini
+// System Prompt for the LLM
 // ============================================
 
 const SYSTEM_PROMPT = `You are LinkMe, a friendly and SMART tutorial discovery assistant. Your job is to help users find the perfect tutorial videos.
@@ -92,6 +64,43 @@ RESPONSE RULES:
 - Never use markdown formatting (no ** or *)
 - Match the user's energy and style
 
+Be smart, be natural, help users learn!`;
+
+// Appended when the provider supports function calling
+const TOOL_INSTRUCTIONS = `
+
+ACTIONS (use your tools, never describe them in text):
+- search_tutorials: once you have topic + skill level (or can infer) + goal (or can infer)
+- ask_clarifying_question: when you genuinely cannot infer what they need
+- refine_path: when the user wants changes to a learning path they already got ("make it harder", "more projects", "focus on hooks", "I only have an hour")
+If the user says how much time they have ("I have 3 hours"), pass it as timeBudget.
+Always also write your short friendly reply as text.
+
+EXAMPLES OF SMART INFERENCE:
+
+User: "I want to learn to code"
+You: Awesome choice! 🚀 Any language catching your eye, or want me to suggest one?
+→ ask_clarifying_question(question="Which language would you like to learn?", options=["Python", "JavaScript", "Suggest one"])
+
+User: "beginner python projects"
+You: Perfect! Let me find some great beginner Python project tutorials for you.
+→ search_tutorials(topic="Python projects", level="beginner", goal="project")
+
+User: "I know some JavaScript but need to get better at async/await"
+You: Good call - async can be confusing! Let me find intermediate JavaScript async tutorials.
+→ search_tutorials(topic="JavaScript async await", level="intermediate", goal="concepts")
+
+User: "teach me SQL basics, I have 3 hours this weekend"
+You: Three hours is plenty for the SQL basics! Let me put a path together that fits.
+→ search_tutorials(topic="SQL", level="beginner", goal="concepts", timeBudget="3 hours")
+
+User (after getting a React path): "can you make it more advanced?"
+You: Sure thing! Leveling it up for you.
+→ refine_path(level="advanced")`;
+
+// Appended when the provider has no function calling (legacy text protocol)
+const LEGACY_MARKER_INSTRUCTIONS = `
+
 WHEN READY TO SEARCH:
 Once you have: topic + skill level (or can infer) + goal (or can infer)
 Output this EXACTLY on a new line at the end:
@@ -119,30 +128,372 @@ You: Good call - async can be confusing! Let me find intermediate JavaScript asy
 
 User: "quick photoshop basics"
 You: Got it! Quick Photoshop crash course coming up!
-[SEARCH_READY: topic="Photoshop"|level="beginner"|goal="quick"]
+[SEARCH_READY: topic="Photoshop"|level="beginner"|goal="quick"]`;
 
-Be smart, be natural, help users learn!`;
+// ============================================
+// Streaming Events
+// ============================================
+
+interface ChatTurnResult {
+    response: string;
+    tutorials?: YouTubeVideo[];
+    learningPath?: LearningPath | null;
+    guestPathId?: string;  // Set when a guest's learning path is kept for claiming on signup
+    clarification?: { question: string; options?: string[] };
+    conversationId: string;
+}
+
+type ChatStreamEvent =
+    | { type: 'token'; text: string }
+    | { type: 'search_started'; topic: string; level?: string; goal?: string }
+    | { type: 'videos_fetched'; count: number }
+    | { type: 'curating' }
+    | { type: 'stage'; stage: LearningStage }
+    | { type: 'done'; result: ChatTurnResult }
+    | { type: 'error'; message: string };
+
+type EmitFn = (event: ChatStreamEvent) => void;
+
+/**
+ * How much of the raw model output is safe to show the user.
+ * Holds back the [SEARCH_READY: ...] marker, including a partially received one.
+ */
+function streamableLength(text: string): number {
+    const markerIndex = text.indexOf(SEARCH_MARKER);
+    if (markerIndex >= 0) return markerIndex;
+
+    const lastBracket = text.lastIndexOf('[');
+    if (lastBracket >= 0 && SEARCH_MARKER.startsWith(text.slice(lastBracket))) {
+        return lastBracket;
+    }
 
+    return text.length;
+}
+
+/**
+ * Generate the assistant reply, emitting text tokens as they arrive.
+ * Uses function calling when the provider supports it, the legacy text marker otherwise.
+ */
+async function generateAssistantReply(history: string, emit?: EmitFn): Promise<LlmToolResult> {
+    const llm = getLlmProvider();
+    const instructions = llm.generateWithTools ? TOOL_INSTRUCTIONS : LEGACY_MARKER_INSTRUCTIONS;
+    const prompt = `${SYSTEM_PROMPT}${instructions}\n\n--- CONVERSATION SO FAR ---\n${history}\n\n--- YOUR RESPONSE ---\nRespond naturally to the user's last message. Remember the rules!`;
+
+    let fullText = '';
+    let emittedLength = 0;
+    const onToken = emit && ((text: string) => {
+        fullText += text;
+        const safeLength = streamableLength(fullText);
+        if (safeLength > emittedLength) {
+            emit({ type: 'token', text: fullText.slice(emittedLength, safeLength) });
+            emittedLength = safeLength;
+        }
+    });
+
+    if (llm.generateWithTools) {
+        return llm.generateWithTools(prompt, CHAT_TOOLS, { task: 'chat', onToken });
+    }
+
+    const text = await llm.generateText(prompt, { task: 'chat', onToken });
+    return { text, toolCalls: [] };
+}
 
 // ============================================
-// Parse Gemini Response for Search Intent
+// Chat Turn
 // ============================================
 
-function parseSearchIntent(response: string): { searchReady: boolean; topic?: string; level?: string; goal?: string; cleanResponse: string } {
-    const searchMatch = response.match(/\[SEARCH_READY:\s*topic="([^"]+)"\|level="([^"]+)"\|goal="([^"]+)"\]/);
+/**
+ * Run one conversation turn: reply, and search + curate once the intent is clear.
+ * Progress is reported through `emit` when the client asked for a stream.
+ */
+async function runChatTurn(
+    state: ConversationState,
+    userId: string,
+    isLoggedIn: boolean,
+    emit?: EmitFn
+): Promise<ChatTurnResult> {
+    const convId = state.id;
+
+    // Check if an LLM provider is configured
+    if (!isLlmConfigured()) {
+        // Fallback to simple response if no API key
+        return {
+            response: "Hi! I'm LinkMe. To enable smart conversations, please configure your GEMINI_API_KEY (or another LLM_PROVIDER). For now, you can search directly on YouTube!",
+            conversationId: convId,
+        };
+    }
+
+    try {
+        // Build conversation history for the LLM
+        const conversationHistory = state.messages.map(m =>
+            `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`
+        ).join('\n\n');
+
+        const llmResult = await generateAssistantReply(conversationHistory, emit);
+
+        console.log('=== LLM RAW RESPONSE ===');
+        console.log(llmResult.text);
+        console.log('Tool calls:', JSON.stringify(llmResult.toolCalls));
+        console.log('=== END RAW RESPONSE ===');
+
+        // Work out what the assistant wants to do
+        const { intent, cleanResponse, source } = resolveChatIntent(llmResult);
+
+        console.log('=== RESOLVED INTENT ===');
+        console.log('source:', source);
+        console.log('intent:', JSON.stringify(intent));
+        console.log('=== END INTENT ===');
+
+        // Dispatch the intent
+        let search: { topic: string; level?: string; goal?: string; focus?: string; timeBudgetMinutes?: number } | null = null;
+        let clarification: ChatTurnResult['clarification'];
+        let replyText = cleanResponse;
+
+        switch (intent.action) {
+            case 'search_tutorials':
+                search = { topic: intent.topic, level: intent.level, goal: intent.goal, timeBudgetMinutes: intent.timeBudgetMinutes };
+                replyText ||= `Let me find the best ${intent.topic} tutorials for you! 🔍`;
+                break;
+            case 'refine_path': {
+                // Refinements build on the last search of this conversation
+                const topic = intent.topic || state.searchQuery;
+                if (topic) {
+                    search = {
+                        topic,
+                        level: intent.level || state.skillLevel,
+                        goal: intent.goal || state.goal,
+                        focus: intent.focus,
+                        timeBudgetMinutes: intent.timeBudgetMinutes,
+                    };
+                    replyText ||= 'Sure thing! Adjusting your learning path. 🔧';
+                } else {
+                    replyText ||= 'Happy to adjust it! What topic should the learning path cover?';
+                }
+                break;
+            }
+            case 'ask_clarifying_question':
+                clarification = { question: intent.question, options: intent.options };
+                replyText ||= intent.question;
+                break;
+            case 'none':
+                break;
+        }
+
+        // Fall back to a budget stated anywhere in the conversation ("I have 3 hours")
+        if (search && !search.timeBudgetMinutes) {
+            search.timeBudgetMinutes = findTimeBudget(
+                state.messages.filter(m => m.role === 'user').map(m => m.content)
+            );
+        }
+
+        // Tool-only replies have no text to stream, so send the fallback reply now
+        if (!cleanResponse && replyText) {
+            emit?.({ type: 'token', text: replyText });
+        }
+
+        // Add assistant response to history
+        await appendMessage(state, { role: 'assistant', content: replyText });
+
+        // If ready to search, do it!
+        let tutorials: YouTubeVideo[] | undefined;
+        let learningPath: LearningPath | null = null;
+        let guestPathId: string | undefined;
+
+        if (search) {
+            await saveSearchState(state, {
+                searchQuery: search.topic,
+                skillLevel: search.level,
+                goal: search.goal,
+            });
+
+            // Build search query
+            let query = search.topic + (search.focus ? ` ${search.focus}` : '') + ' tutorial';
+            if (search.level === 'beginner') query += ' for beginners';
+            else if (search.level === 'advanced') query += ' advanced';
+
+            console.log('=== FETCHING VIDEOS FOR AI CURATION ===');
+            console.log('Topic:', search.topic);
+            console.log('Level:', search.level);
+            console.log('Goal:', search.goal);
+            console.log('Time budget (min):', search.timeBudgetMinutes ?? 'none');
+            console.log('Query:', query);
+
+            emit?.({ type: 'search_started', topic: search.topic, level: search.level, goal: search.goal });
+
+            try {
+                // Fetch MORE videos for AI to analyze and curate
+                tutorials = await searchTutorials(query, 15, { quotaUserId: userId, goal: search.goal });
+
+                console.log('Videos fetched:', tutorials.length);
+                emit?.({ type: 'videos_fetched', count: tutorials.length });
+
+                // Use AI to analyze and create learning path (with fallback)
+                if (tutorials.length > 0) {
+                    emit?.({ type: 'curating' });
+
+                    try {
+                        const curation = await analyzeAndCurateVideos(
+                            tutorials,
+                            search.topic,
+                            search.level || 'beginner',
+                            search.goal || 'learn',
+                            {
+                                onStage: (stage) => emit?.({ type: 'stage', stage }),
+                                timeBudgetMinutes: search.timeBudgetMinutes,
+                            }
+                        );
+
+                        if (curation.success) {
+                            learningPath = curation.learningPath;
+                            console.log('Learning path generated with', learningPath.totalVideos, 'curated videos after', curation.attempts, 'attempt(s)');
+                        } else {
+                            // Still continue with raw tutorials as fallback
+                            console.log('Learning path unavailable, using raw videos:', curation.diagnostics);
+                        }
+                    } catch {
+                        console.log('Learning path failed (rate limit?), using raw videos');
+                        learningPath = null;
+                        // Still continue with raw tutorials as fallback
+                    }
+                } else {
+                    // No tutorials found - provide helpful message
+                    console.log('No tutorials found for query:', query);
+                }
+
+                // Save for logged-in users, or keep for 24h so a guest can claim it on signup
+                if (learningPath || tutorials.length > 0) {
+                    try {
+                        // Prepare the payload including the FULL learning path
+                        const historyPayload = {
+                            topic: search.topic,
+                            skillLevel: search.level,
+                            goal: search.goal,
+                            query,
+                            tutorials: learningPath ? undefined : (tutorials || []),
+                            learningPath: learningPath || null, // Store EVERYTHING (stages, videos, summary)
+                            timestamp: new Date().toISOString(),
+                            tutorialCount: learningPath ? learningPath.totalVideos : (tutorials ? tutorials.length : 0),
+                        };
+
+                        if (isLoggedIn) {
+                            await getDb().chatHistory.create({
+                                data: {
+                                    userId,
+                                    messages: JSON.stringify(historyPayload),
+                                },
+                            });
+                        } else if (isGuestId(state.userId)) {
+                            guestPathId = await saveGuestLearningPath(state.userId, historyPayload);
+                        }
+                    } catch (err) {
+                        console.error('Failed to save chat history:', err);
+                    }
+                }
+            } catch (searchError) {
+                console.error('YouTube search error:', searchError);
+                if (searchError instanceof QuotaExceededError) {
+                    return {
+                        response: `${replyText}\n\n⏳ ${searchError.scope === 'user'
+                            ? "You've hit today's search limit. Your saved learning paths are still available, and searches reset tomorrow!"
+                            : "LinkMe has used up today's YouTube searches. Please try again tomorrow - sorry about that!"}`,
+                        conversationId: convId,
+                    };
+                }
+                // Provide a helpful message to the user
+                return {
+                    response: `${replyText}\n\n⚠️ I found some issues searching for "${search.topic}" tutorials. This might be a temporary issue - please try again, or try rephrasing your topic.`,
+                    conversationId: convId,
+                };
+            }
+        }
+
+        // Build response with learning path if available
+        let responseText = replyText;
+        if (learningPath && learningPath.stages.length > 0) {
+            responseText = replyText + '\n\n' + formatLearningPathAsText(learningPath);
+        } else if (search && (!tutorials || tutorials.length === 0)) {
+            // No tutorials found - provide helpful suggestions
+            responseText = `${replyText}
+
+🔍 I couldn't find tutorials specifically for "${search.topic}". This could be a very niche topic, or it might be phrased unusually.
+
+💡 **Try these suggestions:**
+• Use more common terms (e.g., "PID control" instead of "control systems")
+• Be more specific about what aspect you want to learn
+• Try breaking it down into smaller topics
+
+What would you like to try?`;
+        }
+
+        return {
+            response: responseText,
+            tutorials: learningPath ? undefined : tutorials, // Only send raw tutorials if no learning path
+            learningPath,
+            guestPathId: learningPath ? guestPathId : undefined,
+            clarification,
+            conversationId: convId,
+        };
+
+
+    } catch (llmError) {
+        console.error('LLM API error:', llmError);
+
+        // Fallback response - more helpful
+        const isRateLimit = isQuotaError(llmError);
 
-    if (searchMatch) {
-        const cleanResponse = response.replace(/\[SEARCH_READY:.*?\]/g, '').trim();
         return {
-            searchReady: true,
-            topic: searchMatch[1],
-            level: searchMatch[2],
-            goal: searchMatch[3],
-            cleanResponse
+            response: isRateLimit
+                ? "🔄 I'm a bit overwhelmed right now! Please wait a moment and try again."
+                : "I had a small hiccup processing that. Could you rephrase or try again?",
+            conversationId: convId,
         };
     }
+}
 
-    return { searchReady: false, cleanResponse: response };
+/**
+ * Run a chat turn and stream its events as Server-Sent Events
+ */
+function streamChatTurn(state: ConversationState, userId: string, isLoggedIn: boolean): Response {
+    const encoder = new TextEncoder();
+    // Set when the client disconnects; the turn still runs to the end so the path and history are saved
+    let closed = false;
+
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const emit: EmitFn = (event) => {
+                if (closed) return;
+                try {
+                    controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+                } catch {
+                    closed = true;
+                }
+            };
+
+            try {
+                const result = await runChatTurn(state, userId, isLoggedIn, emit);
+                emit({ type: 'done', result });
+            } catch (error) {
+                console.error('Chat stream error:', error);
+                emit({ type: 'error', message: 'Something went wrong. Please try again.' });
+            } finally {
+                if (!closed) {
+                    closed = true;
+                    controller.close();
+                }
+            }
+        },
+        cancel() {
+            closed = true;
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            Connection: 'keep-alive',
+        },
+    });
 }
 
 // ============================================
@@ -165,14 +516,22 @@ export async function POST(request: NextRequest) {
 
         // Auth check
         const accessToken = request.cookies.get('accessToken')?.value;
-        let userId = 'guest';
+        // Who searches are charged to: guests by guest ID, or by IP before they have one,
+        // so one anonymous visitor can't use up every guest's YouTube budget
+        let userId = `ip:${clientIP}`;
         let isLoggedIn = false;
+        // Guests own their conversation by guest ID so it can move to their account later
+        let conversationOwner = 'guest';
 
         if (accessToken) {
-            const decoded = verifyAccessToken(accessToken);
+            const decoded = await verifyAccessToken(accessToken, request.headers);
             if (decoded && !decoded.isGuest) {
                 userId = decoded.userId;
+                conversationOwner = decoded.userId;
                 isLoggedIn = true;
+            } else if (decoded && isGuestId(decoded.userId)) {
+                userId = decoded.userId;
+                conversationOwner = decoded.userId;
             }
         }
 
@@ -198,186 +557,24 @@ export async function POST(request: NextRequest) {
             });
         }
 
-        const convId = conversationId || `${userId}_${Date.now()}`;
-        let state = conversationStates.get(convId) || { messages: [], searchReady: false };
+        // Resume the stored conversation (works across instances and cold starts)
+        const state = await loadConversation(conversationId, conversationOwner);
 
         await recordAttempt(rateLimitKey, RATE_LIMITS.chat);
 
         // Add user message to history
-        state.messages.push({ role: 'user', content: userMessage });
+        await appendMessage(state, { role: 'user', content: userMessage });
 
-        // Check if Gemini is configured
-        if (!GEMINI_API_KEY) {
-            // Fallback to simple response if no API key
-            return NextResponse.json({
-                success: true,
-                response: "Hi! I'm LinkMe. To enable smart conversations, please configure your GEMINI_API_KEY. For now, you can search directly on YouTube!",
-                conversationId: convId,
-            });
+        if (request.headers.get('accept')?.includes('text/event-stream')) {
+            return streamChatTurn(state, userId, isLoggedIn);
         }
 
-        try {
-            // Build conversation history for Gemini
-            const model = getGeminiModel();
-
-            const conversationHistory = state.messages.map(m =>
-                `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`
-            ).join('\n\n');
-
-            const prompt = `${SYSTEM_PROMPT}\n\n--- CONVERSATION SO FAR ---\n${conversationHistory}\n\n--- YOUR RESPONSE ---\nRespond naturally to the user's last message. Remember the rules!`;
+        const result = await runChatTurn(state, userId, isLoggedIn);
 
-            const result = await model.generateContent(prompt);
-            const geminiResponse = result.response.text();
-
-            console.log('=== GEMINI RAW RESPONSE ===');
-            console.log(geminiResponse);
-            console.log('=== END RAW RESPONSE ===');
-
-            // Parse the response for search intent
-            const parsed = parseSearchIntent(geminiResponse);
-
-            console.log('=== PARSED RESULT ===');
-            console.log('searchReady:', parsed.searchReady);
-            console.log('topic:', parsed.topic);
-            console.log('level:', parsed.level);
-            console.log('goal:', parsed.goal);
-            console.log('=== END PARSED ===');
-
-            // Add assistant response to history
-            state.messages.push({ role: 'assistant', content: parsed.cleanResponse });
-
-            // If ready to search, do it!
-            let tutorials: YouTubeVideo[] | undefined;
-            let learningPath: LearningPath | null = null;
-
-            if (parsed.searchReady && parsed.topic) {
-                state.searchReady = true;
-                state.searchQuery = parsed.topic;
-                state.skillLevel = parsed.level;
-                state.goal = parsed.goal;
-
-                // Build search query
-                let query = parsed.topic + ' tutorial';
-                if (parsed.level === 'beginner') query += ' for beginners';
-                else if (parsed.level === 'advanced') query += ' advanced';
-
-                console.log('=== FETCHING VIDEOS FOR AI CURATION ===');
-                console.log('Topic:', parsed.topic);
-                console.log('Level:', parsed.level);
-                console.log('Goal:', parsed.goal);
-                console.log('Query:', query);
-
-                try {
-                    // Fetch MORE videos for AI to analyze and curate
-                    tutorials = await searchTutorials(query, 15);
-
-                    console.log('Videos fetched:', tutorials.length);
-
-                    // Use AI to analyze and create learning path (with fallback)
-                    if (tutorials.length > 0) {
-                        try {
-                            learningPath = await analyzeAndCurateVideos(
-                                tutorials,
-                                parsed.topic || '',
-                                parsed.level || 'beginner',
-                                parsed.goal || 'learn'
-                            );
-
-                            if (learningPath) {
-                                console.log('Learning path generated with', learningPath.totalVideos, 'curated videos');
-                            }
-                        } catch (curateError) {
-                            console.log('Learning path failed (rate limit?), using raw videos');
-                            learningPath = null;
-                            // Still continue with raw tutorials as fallback
-                        }
-                    } else {
-                        // No tutorials found - provide helpful message
-                        console.log('No tutorials found for query:', query);
-                    }
-
-                    // Save for logged-in users
-                    if (isLoggedIn && (learningPath || tutorials.length > 0)) {
-                        try {
-                            const db = getDb();
-                            
-                            // Prepare the payload including the FULL learning path
-                            const historyPayload = {
-                                topic: parsed.topic,
-                                skillLevel: parsed.level,
-                                goal: parsed.goal,
-                                query,
-                                tutorials: learningPath ? undefined : (tutorials || []), 
-                                learningPath: learningPath || null, // Store EVERYTHING (stages, videos, summary)
-                                timestamp: new Date().toISOString(),
-                                tutorialCount: learningPath ? learningPath.totalVideos : (tutorials ? tutorials.length : 0),
-                            };
-
-                            await db.chatHistory.create({
-                                data: {
-                                    userId,
-                                    messages: JSON.stringify(historyPayload),
-                                },
-                            });
-                        } catch (err) {
-                            console.error('Failed to save chat history:', err);
-                        }
-                    }
-                } catch (searchError) {
-                    console.error('YouTube search error:', searchError);
-                    // Provide a helpful message to the user
-                    return NextResponse.json({
-                        success: true,
-                        response: `${parsed.cleanResponse}\n\n⚠️ I found some issues searching for "${parsed.topic}" tutorials. This might be a temporary issue - please try again, or try rephrasing your topic.`,
-                        conversationId: convId,
-                    });
-                }
-            }
-
-            conversationStates.set(convId, state);
-
-            // Build response with learning path if available
-            let responseText = parsed.cleanResponse;
-            if (learningPath && learningPath.stages.length > 0) {
-                responseText = parsed.cleanResponse + '\n\n' + formatLearningPathAsText(learningPath);
-            } else if (parsed.searchReady && (!tutorials || tutorials.length === 0)) {
-                // No tutorials found - provide helpful suggestions
-                responseText = `${parsed.cleanResponse}
-
-🔍 I couldn't find tutorials specifically for "${parsed.topic}". This could be a very niche topic, or it might be phrased unusually.
-
-💡 **Try these suggestions:**
-• Use more common terms (e.g., "PID control" instead of "control systems")
-• Be more specific about what aspect you want to learn
-• Try breaking it down into smaller topics
-
-What would you like to try?`;
-            }
-
-            return NextResponse.json({
-                success: true,
-                response: responseText,
-                tutorials: learningPath ? undefined : tutorials, // Only send raw tutorials if no learning path
-                learningPath,
-                conversationId: convId,
-            });
-
-
-        } catch (geminiError) {
-            console.error('Gemini API error:', geminiError);
-
-            // Fallback response - more helpful
-            const errorMessage = geminiError instanceof Error ? geminiError.message : 'Unknown error';
-            const isRateLimit = errorMessage.toLowerCase().includes('rate') || errorMessage.toLowerCase().includes('quota');
-
-            return NextResponse.json({
-                success: true,
-                response: isRateLimit
-                    ? "🔄 I'm a bit overwhelmed right now! Please wait a moment and try again."
-                    : "I had a small hiccup processing that. Could you rephrase or try again?",
-                conversationId: convId,
-            });
-        }
+        return NextResponse.json({
+            success: true,
+            ...result,
+        });
 
     } catch (error) {
         console.error('Chat error:', error);
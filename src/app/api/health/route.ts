@@ -3,6 +3,9 @@
 
 import { NextResponse } from 'next/server';
 import { createClient } from '@libsql/client';
+import { getLlmProviderName } from '@/lib/llm';
+import { getYouTubeCacheMetrics } from '@/lib/youtube-cache';
+import { getQuotaStatus } from '@/lib/youtube-quota';
 
 export const dynamic = 'force-dynamic';
 
@@ -15,7 +18,10 @@ export async function GET() {
             'NOT SET',
         authTokenSet: !!process.env.DATABASE_AUTH_TOKEN,
         youtubeApiKeySet: !!process.env.YOUTUBE_API_KEY,
+        youtubeCache: getYouTubeCacheMetrics(),
         geminiApiKeySet: !!process.env.GEMINI_API_KEY,
+        llmProvider: getLlmProviderName() || 'NOT CONFIGURED',
+        llmFallbackProvider: process.env.LLM_FALLBACK_PROVIDER || null,
         jwtSecretSet: !!process.env.JWT_SECRET,
         adminSecretSet: !!process.env.ADMIN_SECRET,
         databaseUrlLength: process.env.DATABASE_URL?.length || 0,
@@ -53,5 +59,12 @@ export async function GET() {
         results.tursoConnection = 'NOT_CONFIGURED';
     }
 
+    // Remaining YouTube quota for today
+    try {
+        results.youtubeQuota = await getQuotaStatus();
+    } catch (error) {
+        results.youtubeQuota = { error: error instanceof Error ? error.message : String(error) };
+    }
+
     return NextResponse.json(results);
 }
@@ -0,0 +1,89 @@
+// API endpoint for continuing a finished learning path at the next level
+// POST /api/learning-path/continue - Generate (or return) the follow-up path ({ learningPathId })
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAccessToken } from '@/lib/auth';
+import { learningPathContinueSchema, validateInput } from '@/lib/validation';
+import { continueLearningPath, PathContinuationError } from '@/lib/path-continuation';
+import { QuotaExceededError } from '@/lib/youtube-quota';
+import { checkRateLimit, recordAttempt, RATE_LIMITS } from '@/lib/rate-limit';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+    try {
+        // Check auth - must be logged in (not guest)
+        const accessToken = request.cookies.get('accessToken')?.value;
+
+        if (!accessToken) {
+            return NextResponse.json({
+                success: false,
+                message: 'Please log in to continue learning paths',
+            }, { status: 401 });
+        }
+
+        const decoded = await verifyAccessToken(accessToken, request.headers);
+
+        if (!decoded || decoded.isGuest) {
+            return NextResponse.json({
+                success: false,
+                message: 'Please create an account to continue learning paths',
+            }, { status: 401 });
+        }
+
+        // A new path costs a YouTube search and two model calls
+        const rateLimitKey = `continue:${decoded.userId}`;
+        const rateLimit = await checkRateLimit(rateLimitKey, RATE_LIMITS.pathContinuation);
+
+        if (!rateLimit.allowed) {
+            return NextResponse.json({
+                success: false,
+                message: 'Too many new paths. Please wait a while.',
+            }, { status: 429 });
+        }
+
+        const body = await request.json();
+        const validation = validateInput(learningPathContinueSchema, body);
+
+        if (!validation.success) {
+            return NextResponse.json({
+                success: false,
+                message: validation.errors[0],
+                errors: validation.errors,
+            }, { status: 400 });
+        }
+
+        await recordAttempt(rateLimitKey, RATE_LIMITS.pathContinuation);
+
+        const continuation = await continueLearningPath(decoded.userId, validation.data.learningPathId);
+
+        return NextResponse.json({
+            success: true,
+            message: continuation.created ? 'Your next learning path is ready!' : 'Picking up where you left off',
+            ...continuation,
+        });
+
+    } catch (error) {
+        if (error instanceof PathContinuationError) {
+            return NextResponse.json({
+                success: false,
+                message: error.message,
+            }, { status: error.status });
+        }
+
+        if (error instanceof QuotaExceededError) {
+            return NextResponse.json({
+                success: false,
+                message: error.scope === 'user'
+                    ? 'Daily search limit reached. Please try again tomorrow.'
+                    : 'YouTube search is unavailable for the rest of the day.',
+            }, { status: 429 });
+        }
+
+        console.error('Continue learning path error:', error);
+        return NextResponse.json({
+            success: false,
+            message: 'Failed to continue learning path',
+        }, { status: 500 });
+    }
+}
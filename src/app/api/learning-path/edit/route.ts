@@ -0,0 +1,103 @@
+// API endpoint for editing saved learning paths
+// GET /api/learning-path/edit?learningPathId=xxx - Current stages and version of a saved path
+// PATCH /api/learning-path/edit - Apply edits ({ learningPathId, updatedAt, operations }); 409 if the path changed since updatedAt
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAccessToken } from '@/lib/auth';
+import { learningPathEditSchema, validateInput } from '@/lib/validation';
+import { editLearningPath, getEditableLearningPath, LearningPathEditError } from '@/lib/learning-path-edit';
+
+export const dynamic = 'force-dynamic';
+
+async function authenticate(request: NextRequest) {
+    const accessToken = request.cookies.get('accessToken')?.value;
+    if (!accessToken) return null;
+
+    const decoded = await verifyAccessToken(accessToken, request.headers);
+    if (!decoded || decoded.isGuest) return null;
+
+    return decoded;
+}
+
+export async function GET(request: NextRequest) {
+    try {
+        const decoded = await authenticate(request);
+        if (!decoded) {
+            return NextResponse.json({
+                success: false,
+                message: 'Please create an account to edit learning paths',
+            }, { status: 401 });
+        }
+
+        const learningPathId = request.nextUrl.searchParams.get('learningPathId');
+        if (!learningPathId) {
+            return NextResponse.json({
+                success: false,
+                message: 'Learning path ID is required',
+            }, { status: 400 });
+        }
+
+        const learningPath = await getEditableLearningPath(decoded.userId, learningPathId);
+        if (!learningPath) {
+            return NextResponse.json({
+                success: false,
+                message: 'Learning path not found',
+            }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true, learningPath });
+
+    } catch (error) {
+        console.error('Get editable learning path error:', error);
+        return NextResponse.json({
+            success: false,
+            message: 'Failed to load learning path',
+        }, { status: 500 });
+    }
+}
+
+export async function PATCH(request: NextRequest) {
+    try {
+        const decoded = await authenticate(request);
+        if (!decoded) {
+            return NextResponse.json({
+                success: false,
+                message: 'Please create an account to edit learning paths',
+            }, { status: 401 });
+        }
+
+        const body = await request.json();
+        const validation = validateInput(learningPathEditSchema, body);
+
+        if (!validation.success) {
+            return NextResponse.json({
+                success: false,
+                message: validation.errors[0],
+                errors: validation.errors,
+            }, { status: 400 });
+        }
+
+        const learningPath = await editLearningPath(decoded.userId, validation.data);
+
+        return NextResponse.json({
+            success: true,
+            message: 'Learning path updated',
+            learningPath,
+        });
+
+    } catch (error) {
+        if (error instanceof LearningPathEditError) {
+            return NextResponse.json({
+                success: false,
+                message: error.message,
+                learningPath: error.current,
+            }, { status: error.status });
+        }
+
+        console.error('Edit learning path error:', error);
+        return NextResponse.json({
+            success: false,
+            message: 'Failed to update learning path',
+        }, { status: 500 });
+    }
+}
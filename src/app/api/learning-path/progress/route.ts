@@ -1,10 +1,12 @@
 // API endpoint for tracking video progress
-// POST /api/learning-path/progress - Mark video as watched/unwatched
+// POST /api/learning-path/progress - Mark video as watched/unwatched (guests use their temporary path ID)
 // GET /api/learning-path/progress?learningPathId=xxx - Get progress for a learning path
 
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyAccessToken } from '@/lib/auth';
 import { getDb } from '@/lib/db';
+import { isGuestId, setGuestVideoWatched } from '@/lib/guest-data';
+import { scheduleVideoReviews, clearVideoReviews } from '@/lib/review';
 
 export const dynamic = 'force-dynamic';
 
@@ -20,9 +22,9 @@ export async function POST(request: NextRequest) {
             }, { status: 401 });
         }
 
-        const decoded = verifyAccessToken(accessToken);
+        const decoded = await verifyAccessToken(accessToken, request.headers);
 
-        if (!decoded || decoded.isGuest) {
+        if (!decoded || (decoded.isGuest && !isGuestId(decoded.userId))) {
             return NextResponse.json({
                 success: false,
                 message: 'Please create an account to track progress',
@@ -39,6 +41,28 @@ export async function POST(request: NextRequest) {
             }, { status: 400 });
         }
 
+        // Guests keep progress on their temporary path until they sign up
+        if (decoded.isGuest) {
+            const watchedVideos = await setGuestVideoWatched(learningPathId, decoded.userId, videoId, watched === true);
+
+            if (!watchedVideos) {
+                return NextResponse.json({
+                    success: false,
+                    message: 'Learning path or video not found',
+                }, { status: 404 });
+            }
+
+            return NextResponse.json({
+                success: true,
+                message: watched ? 'Video marked as watched!' : 'Video unmarked',
+                progress: {
+                    videoId,
+                    watched: watched === true,
+                    watchedCount: watchedVideos.length,
+                },
+            });
+        }
+
         const db = getDb();
 
         // Verify the learning path belongs to this user
@@ -56,6 +80,23 @@ export async function POST(request: NextRequest) {
             }, { status: 404 });
         }
 
+        // Only videos still in the path can be tracked
+        const pathVideo = await db.learningPathVideo.findUnique({
+            where: {
+                learningPathId_videoId: {
+                    learningPathId,
+                    videoId,
+                },
+            },
+        });
+
+        if (!pathVideo) {
+            return NextResponse.json({
+                success: false,
+                message: 'Video not found in this learning path',
+            }, { status: 404 });
+        }
+
         // Upsert the video progress
         const progress = await db.videoProgress.upsert({
             where: {
@@ -77,6 +118,13 @@ export async function POST(request: NextRequest) {
             },
         });
 
+        // Watching queues the video's concepts for spaced review; unwatching cancels them
+        if (progress.watched) {
+            await scheduleVideoReviews(decoded.userId, learningPathId, videoId);
+        } else {
+            await clearVideoReviews(learningPathId, [videoId]);
+        }
+
         // Get total progress for this learning path
         const allProgress = await db.videoProgress.findMany({
             where: { learningPathId },
@@ -120,7 +168,7 @@ export async function GET(request: NextRequest) {
             }, { status: 401 });
         }
 
-        const decoded = verifyAccessToken(accessToken);
+        const decoded = await verifyAccessToken(accessToken, request.headers);
 
         if (!decoded || decoded.isGuest) {
             return NextResponse.json({
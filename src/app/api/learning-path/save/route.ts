@@ -4,7 +4,9 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyAccessToken } from '@/lib/auth';
-import { getDb } from '@/lib/db';
+import { getDb, DbSavedLearningPath, DbVideoProgress } from '@/lib/db';
+import { pruneVideoProgress } from '@/lib/learning-path-edit';
+import { getLearningPathStagesByPath, toStageRows } from '@/lib/learning-paths';
 
 export const dynamic = 'force-dynamic';
 
@@ -20,7 +22,7 @@ export async function POST(request: NextRequest) {
             }, { status: 401 });
         }
 
-        const decoded = verifyAccessToken(accessToken);
+        const decoded = await verifyAccessToken(accessToken, request.headers);
 
         if (!decoded || decoded.isGuest) {
             return NextResponse.json({
@@ -40,6 +42,9 @@ export async function POST(request: NextRequest) {
         }
 
         const db = getDb();
+        const stages = toStageRows(learningPath.stages || []);
+        // Count what is stored: duplicates and videos without an ID are dropped
+        const totalVideos = stages.reduce((count, stage) => count + stage.videos.length, 0);
 
         // Check if this learning path already exists for users (by topic + level + goal)
         const existing = await db.savedLearningPath.findFirst({
@@ -52,18 +57,30 @@ export async function POST(request: NextRequest) {
         });
 
         if (existing) {
+            // Saving the generated path again would throw away the learner's changes and notes
+            if (existing.editedAt) {
+                return NextResponse.json({
+                    success: false,
+                    message: 'You have edited this learning path. Open it from your saved paths to keep your changes.',
+                    learningPathId: existing.id,
+                }, { status: 409 });
+            }
+
             // Update existing
             const updated = await db.savedLearningPath.update({
                 where: { id: existing.id },
                 data: {
-                    totalVideos: learningPath.totalVideos,
+                    totalVideos,
                     estimatedTotalTime: learningPath.estimatedTotalTime,
                     summary: learningPath.summary,
                     completionGoals: JSON.stringify(learningPath.completionGoals || []),
-                    stages: JSON.stringify(learningPath.stages || []),
+                    stages,
                 },
             });
 
+            // Videos dropped by the overwrite shouldn't keep counting as watched
+            await pruneVideoProgress(updated.id, learningPath.stages || []);
+
             return NextResponse.json({
                 success: true,
                 message: 'Learning path updated',
@@ -78,11 +95,11 @@ export async function POST(request: NextRequest) {
                 topic: learningPath.topic,
                 userLevel: learningPath.userLevel || 'beginner',
                 userGoal: learningPath.userGoal || 'learn',
-                totalVideos: learningPath.totalVideos || 0,
+                totalVideos,
                 estimatedTotalTime: learningPath.estimatedTotalTime || '',
                 summary: learningPath.summary || '',
                 completionGoals: JSON.stringify(learningPath.completionGoals || []),
-                stages: JSON.stringify(learningPath.stages || []),
+                stages,
             },
         });
 
@@ -113,7 +130,7 @@ export async function GET(request: NextRequest) {
             }, { status: 401 });
         }
 
-        const decoded = verifyAccessToken(accessToken);
+        const decoded = await verifyAccessToken(accessToken, request.headers);
 
         if (!decoded || decoded.isGuest) {
             return NextResponse.json({
@@ -124,31 +141,19 @@ export async function GET(request: NextRequest) {
 
         const db = getDb();
 
-        // Get all saved learning paths for this user with their progress
-        const learningPaths = await db.savedLearningPath.findMany({
+        // Get all saved learning paths for this user with their stages and progress
+        const learningPaths: DbSavedLearningPath[] = await db.savedLearningPath.findMany({
             where: { userId: decoded.userId },
-            include: {
-                videoProgress: true,
-            },
             orderBy: { updatedAt: 'desc' },
         });
+        const stagesByPath = await getLearningPathStagesByPath(learningPaths.map((lp) => lp.id));
+        const videoProgress: DbVideoProgress[] = await db.videoProgress.findMany({
+            where: { userId: decoded.userId },
+        });
 
         // Format with progress percentage
-        const formatted = learningPaths.map((lp: {
-            id: string;
-            topic: string;
-            userLevel: string;
-            userGoal: string;
-            totalVideos: number;
-            estimatedTotalTime: string;
-            summary: string;
-            completionGoals: string;
-            stages: string;
-            createdAt: Date;
-            updatedAt: Date;
-            videoProgress: Array<{ watched: boolean }>;
-        }) => {
-            const watchedCount = lp.videoProgress.filter((vp) => vp.watched).length;
+        const formatted = learningPaths.map((lp) => {
+            const watchedCount = videoProgress.filter((vp) => vp.learningPathId === lp.id && vp.watched).length;
             const progress = lp.totalVideos > 0 ? Math.round((watchedCount / lp.totalVideos) * 100) : 0;
 
             return {
@@ -162,7 +167,8 @@ export async function GET(request: NextRequest) {
                 estimatedTotalTime: lp.estimatedTotalTime,
                 summary: lp.summary,
                 completionGoals: JSON.parse(lp.completionGoals),
-                stages: JSON.parse(lp.stages),
+                stages: stagesByPath.get(lp.id) ?? [],
+                parentPathId: lp.parentPathId,
                 createdAt: lp.createdAt,
                 updatedAt: lp.updatedAt,
             };
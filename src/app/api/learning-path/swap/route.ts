@@ -0,0 +1,93 @@
+// API endpoint for swapping one video in a saved learning path
+// POST /api/learning-path/swap - Replace a video with an AI-picked alternative ({ learningPathId, updatedAt, videoId, reason? })
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAccessToken } from '@/lib/auth';
+import { videoSwapSchema, validateInput } from '@/lib/validation';
+import { swapLearningPathVideo } from '@/lib/video-swap';
+import { LearningPathEditError } from '@/lib/learning-path-edit';
+import { QuotaExceededError } from '@/lib/youtube-quota';
+import { checkRateLimit, recordAttempt, RATE_LIMITS } from '@/lib/rate-limit';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+    try {
+        // Check auth - must be logged in (not guest)
+        const accessToken = request.cookies.get('accessToken')?.value;
+
+        if (!accessToken) {
+            return NextResponse.json({
+                success: false,
+                message: 'Please log in to swap videos',
+            }, { status: 401 });
+        }
+
+        const decoded = await verifyAccessToken(accessToken, request.headers);
+
+        if (!decoded || decoded.isGuest) {
+            return NextResponse.json({
+                success: false,
+                message: 'Please create an account to swap videos',
+            }, { status: 401 });
+        }
+
+        // Each swap costs a YouTube search and a model call
+        const rateLimitKey = `swap:${decoded.userId}`;
+        const rateLimit = await checkRateLimit(rateLimitKey, RATE_LIMITS.videoSwap);
+
+        if (!rateLimit.allowed) {
+            return NextResponse.json({
+                success: false,
+                message: 'Too many swaps. Please wait a few minutes.',
+            }, { status: 429 });
+        }
+
+        const body = await request.json();
+        const validation = validateInput(videoSwapSchema, body);
+
+        if (!validation.success) {
+            return NextResponse.json({
+                success: false,
+                message: validation.errors[0],
+                errors: validation.errors,
+            }, { status: 400 });
+        }
+
+        await recordAttempt(rateLimitKey, RATE_LIMITS.videoSwap);
+
+        const { learningPath, replaced, replacement } = await swapLearningPathVideo(decoded.userId, validation.data);
+
+        return NextResponse.json({
+            success: true,
+            message: `Swapped in "${replacement.title}"`,
+            learningPath,
+            replacedVideoId: replaced.videoId,
+            replacement,
+        });
+
+    } catch (error) {
+        if (error instanceof LearningPathEditError) {
+            return NextResponse.json({
+                success: false,
+                message: error.message,
+                learningPath: error.current,
+            }, { status: error.status });
+        }
+
+        if (error instanceof QuotaExceededError) {
+            return NextResponse.json({
+                success: false,
+                message: error.scope === 'user'
+                    ? 'Daily search limit reached. Please try again tomorrow.'
+                    : 'YouTube search is unavailable for the rest of the day.',
+            }, { status: 429 });
+        }
+
+        console.error('Swap video error:', error);
+        return NextResponse.json({
+            success: false,
+            message: 'Failed to swap video',
+        }, { status: 500 });
+    }
+}
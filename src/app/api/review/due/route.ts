@@ -0,0 +1,54 @@
+// API endpoint for spaced-repetition reviews that are due
+// GET /api/review/due?limit=10 - Concepts from watched videos that are due for review, soonest first
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAccessToken } from '@/lib/auth';
+import { getDueReviews } from '@/lib/review';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+export async function GET(request: NextRequest) {
+    try {
+        // Check auth - must be logged in (not guest)
+        const accessToken = request.cookies.get('accessToken')?.value;
+
+        if (!accessToken) {
+            return NextResponse.json({
+                success: false,
+                message: 'Please log in to see your reviews',
+            }, { status: 401 });
+        }
+
+        const decoded = await verifyAccessToken(accessToken, request.headers);
+
+        if (!decoded || decoded.isGuest) {
+            return NextResponse.json({
+                success: false,
+                message: 'Please create an account to review what you learned',
+            }, { status: 401 });
+        }
+
+        const { searchParams } = new URL(request.url);
+        const requested = Number(searchParams.get('limit') ?? DEFAULT_LIMIT);
+        const limit = Number.isInteger(requested) && requested > 0
+            ? Math.min(requested, MAX_LIMIT)
+            : DEFAULT_LIMIT;
+
+        const due = await getDueReviews(decoded.userId, limit);
+
+        return NextResponse.json({
+            success: true,
+            ...due,
+        });
+
+    } catch (error) {
+        console.error('Get due reviews error:', error);
+        return NextResponse.json({
+            success: false,
+            message: 'Failed to load reviews',
+        }, { status: 500 });
+    }
+}
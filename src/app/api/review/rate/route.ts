@@ -0,0 +1,71 @@
+// API endpoint for rating recall of a reviewed concept
+// POST /api/review/rate - Record recall quality and schedule the next review ({ reviewItemId, rating: 0-5 })
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAccessToken } from '@/lib/auth';
+import { reviewRatingSchema, validateInput } from '@/lib/validation';
+import { rateReview } from '@/lib/review';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+    try {
+        // Check auth - must be logged in (not guest)
+        const accessToken = request.cookies.get('accessToken')?.value;
+
+        if (!accessToken) {
+            return NextResponse.json({
+                success: false,
+                message: 'Please log in to review',
+            }, { status: 401 });
+        }
+
+        const decoded = await verifyAccessToken(accessToken, request.headers);
+
+        if (!decoded || decoded.isGuest) {
+            return NextResponse.json({
+                success: false,
+                message: 'Please create an account to review what you learned',
+            }, { status: 401 });
+        }
+
+        const body = await request.json();
+        const validation = validateInput(reviewRatingSchema, body);
+
+        if (!validation.success) {
+            return NextResponse.json({
+                success: false,
+                message: validation.errors[0],
+                errors: validation.errors,
+            }, { status: 400 });
+        }
+
+        const review = await rateReview(decoded.userId, validation.data.reviewItemId, validation.data.rating);
+
+        if (!review) {
+            return NextResponse.json({
+                success: false,
+                message: 'Review not found',
+            }, { status: 404 });
+        }
+
+        return NextResponse.json({
+            success: true,
+            message: review.intervalDays === 1 ? 'See you tomorrow' : `Next review in ${review.intervalDays} days`,
+            review: {
+                id: review.id,
+                concept: review.concept,
+                intervalDays: review.intervalDays,
+                repetitions: review.repetitions,
+                dueAt: review.dueAt.toISOString(),
+            },
+        });
+
+    } catch (error) {
+        console.error('Rate review error:', error);
+        return NextResponse.json({
+            success: false,
+            message: 'Failed to save your rating',
+        }, { status: 500 });
+    }
+}
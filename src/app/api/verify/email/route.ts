@@ -4,7 +4,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/db';
 import { verifyEmailSchema, validateInput } from '@/lib/validation';
-import { isTokenExpired, generateAccessToken, generateRefreshToken } from '@/lib/auth';
+import { isTokenExpired } from '@/lib/auth';
+import { startSession } from '@/lib/refresh-tokens';
+import { recordAuditEvent } from '@/lib/audit';
+import { claimGuestData } from '@/lib/guest-data';
 import { sendWelcomeEmail } from '@/lib/email';
 
 // Force dynamic rendering
@@ -37,7 +40,8 @@ export async function POST(request: NextRequest) {
             include: { user: true },
         });
 
-        if (!verificationToken) {
+        // Password reset codes share the table but must not verify an email
+        if (!verificationToken || verificationToken.purpose !== 'email_verification') {
             return NextResponse.json(
                 {
                     success: false,
@@ -84,12 +88,21 @@ export async function POST(request: NextRequest) {
 
         // Delete all verification tokens for this user
         await prisma.verificationToken.deleteMany({
-            where: { userId: user.id },
+            where: { userId: user.id, purpose: 'email_verification' },
+        });
+
+        await recordAuditEvent('email_verified', {
+            userId: user.id,
+            email: user.email,
+            headers: request.headers,
         });
 
         // Send welcome email
         await sendWelcomeEmail(user.email, user.name || undefined);
 
+        // Bring over anything found while browsing as a guest
+        await claimGuestData(request.cookies.get('accessToken')?.value, user.id);
+
         // Generate new auth tokens with updated emailVerified status
         const tokenPayload = {
             userId: user.id,
@@ -98,8 +111,7 @@ export async function POST(request: NextRequest) {
             isGuest: false,
         };
 
-        const accessToken = generateAccessToken(tokenPayload);
-        const refreshToken = generateRefreshToken(tokenPayload);
+        const { accessToken, refreshToken } = await startSession(tokenPayload, request.headers);
 
         // Create response with updated cookies
         const response = NextResponse.json({
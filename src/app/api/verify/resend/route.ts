@@ -7,6 +7,7 @@ import { resendVerificationSchema, validateInput } from '@/lib/validation';
 import { generateVerificationCode } from '@/lib/auth';
 import { sendVerificationEmail } from '@/lib/email';
 import { checkRateLimit, recordAttempt, RATE_LIMITS, getClientIP } from '@/lib/rate-limit';
+import { recordAuditEvent } from '@/lib/audit';
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic';
@@ -72,7 +73,7 @@ export async function POST(request: NextRequest) {
 
         // Delete any existing verification tokens for this user
         await prisma.verificationToken.deleteMany({
-            where: { userId: user.id },
+            where: { userId: user.id, purpose: 'email_verification' },
         });
 
         // Generate new 6-digit verification code
@@ -101,6 +102,12 @@ export async function POST(request: NextRequest) {
 
         await recordAttempt(rateLimitKey, RATE_LIMITS.resendVerification);
 
+        await recordAuditEvent('verification_resent', {
+            userId: user.id,
+            email: user.email,
+            headers: request.headers,
+        });
+
         return NextResponse.json({
             success: true,
             message: 'A new 6-digit verification code has been sent to your email.',
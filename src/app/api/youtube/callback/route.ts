@@ -3,13 +3,14 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/db';
-import { exchangeCodeForTokens, createOAuth2Client, getChannelInfo } from '@/lib/youtube-auth';
-import { google } from 'googleapis';
+import { exchangeCodeForTokens, saveYouTubeConnection } from '@/lib/youtube-auth';
+import { recordAuditEvent } from '@/lib/audit';
 
 export const dynamic = 'force-dynamic';
 
 export async function GET(request: NextRequest) {
     const prisma = getDb();
+    let connectingUserId: string | undefined;
 
     try {
         const searchParams = request.nextUrl.searchParams;
@@ -53,33 +54,15 @@ export async function GET(request: NextRequest) {
             );
         }
 
-        // Exchange code for tokens
-        const { accessToken, refreshToken, expiryDate } = await exchangeCodeForTokens(code);
+        // Exchange code for tokens and store them with the channel info
+        connectingUserId = userId;
+        const tokens = await exchangeCodeForTokens(code);
+        await saveYouTubeConnection(userId, tokens);
 
-        // Get channel info
-        const oauth2Client = createOAuth2Client();
-        oauth2Client.setCredentials({
-            access_token: accessToken,
-            refresh_token: refreshToken,
-        });
-
-        const youtube = google.youtube({
-            version: 'v3',
-            auth: oauth2Client,
-        });
-
-        const channelInfo = await getChannelInfo(youtube);
-
-        // Store tokens in database
-        await prisma.user.update({
-            where: { id: userId },
-            data: {
-                youtubeAccessToken: accessToken,
-                youtubeRefreshToken: refreshToken,
-                youtubeTokenExpiry: expiryDate,
-                youtubeChannelId: channelInfo?.channelId || null,
-                youtubeChannelName: channelInfo?.channelName || null,
-            },
+        await recordAuditEvent('youtube_connected', {
+            userId,
+            email: user.email,
+            headers: request.headers,
         });
 
         // Redirect to settings with success
@@ -88,6 +71,13 @@ export async function GET(request: NextRequest) {
         );
     } catch (error) {
         console.error('YouTube callback error:', error);
+        if (connectingUserId) {
+            await recordAuditEvent('youtube_connect_failed', {
+                userId: connectingUserId,
+                headers: request.headers,
+                metadata: { reason: 'token_exchange_failed' },
+            });
+        }
         return NextResponse.redirect(
             new URL('/settings?youtube_error=token_exchange_failed', request.url)
         );
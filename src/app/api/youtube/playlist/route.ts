@@ -18,7 +18,7 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        const decoded = verifyAccessToken(accessToken);
+        const decoded = await verifyAccessToken(accessToken, request.headers);
         if (!decoded || decoded.isGuest) {
             return NextResponse.json(
                 { success: false, message: 'Unauthorized' },
@@ -4,7 +4,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { youtubeSearchSchema, validateInput, sanitizeInput } from '@/lib/validation';
 import { searchTutorials } from '@/lib/youtube';
+import { QuotaExceededError } from '@/lib/youtube-quota';
 import { verifyAccessToken } from '@/lib/auth';
+import { isGuestId } from '@/lib/guest-data';
 import { checkRateLimit, recordAttempt, RATE_LIMITS, getClientIP } from '@/lib/rate-limit';
 
 // Force dynamic rendering
@@ -27,13 +29,13 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        // Check authentication (allow guests but log differently)
+        // Check authentication (allow guests; quota is charged to the user, the guest ID, or the IP without one)
         const accessToken = request.cookies.get('accessToken')?.value;
+        let quotaUserId = `ip:${clientIP}`;
         if (accessToken) {
-            const decoded = verifyAccessToken(accessToken);
-            // Could log or track usage differently for authenticated users
-            if (decoded) {
-                // User is authenticated
+            const decoded = await verifyAccessToken(accessToken, request.headers);
+            if (decoded && (!decoded.isGuest || isGuestId(decoded.userId))) {
+                quotaUserId = decoded.userId;
             }
         }
 
@@ -60,7 +62,7 @@ export async function POST(request: NextRequest) {
 
         // Search YouTube
         try {
-            const tutorials = await searchTutorials(sanitizedQuery, maxResults);
+            const tutorials = await searchTutorials(sanitizedQuery, maxResults, { quotaUserId });
 
             return NextResponse.json({
                 success: true,
@@ -71,6 +73,18 @@ export async function POST(request: NextRequest) {
         } catch (error) {
             console.error('YouTube search error:', error);
 
+            if (error instanceof QuotaExceededError) {
+                return NextResponse.json(
+                    {
+                        success: false,
+                        message: error.scope === 'user'
+                            ? 'Daily search limit reached. Please try again tomorrow.'
+                            : 'YouTube search is unavailable for the rest of the day.',
+                    },
+                    { status: 429 }
+                );
+            }
+
             if (error instanceof Error && error.message.includes('API key')) {
                 return NextResponse.json(
                     {
@@ -6,6 +6,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/db';
 import { verifyAccessToken } from '@/lib/auth';
 import { disconnectYouTube } from '@/lib/youtube-auth';
+import { recordAuditEvent } from '@/lib/audit';
 
 export const dynamic = 'force-dynamic';
 
@@ -22,7 +23,7 @@ export async function GET(request: NextRequest) {
             );
         }
 
-        const decoded = verifyAccessToken(accessToken);
+        const decoded = await verifyAccessToken(accessToken, request.headers);
         if (!decoded || decoded.isGuest) {
             return NextResponse.json(
                 { success: false, message: 'Unauthorized' },
@@ -75,7 +76,7 @@ export async function DELETE(request: NextRequest) {
             );
         }
 
-        const decoded = verifyAccessToken(accessToken);
+        const decoded = await verifyAccessToken(accessToken, request.headers);
         if (!decoded || decoded.isGuest) {
             return NextResponse.json(
                 { success: false, message: 'Unauthorized' },
@@ -86,6 +87,12 @@ export async function DELETE(request: NextRequest) {
         // Disconnect YouTube
         await disconnectYouTube(decoded.userId);
 
+        await recordAuditEvent('youtube_disconnected', {
+            userId: decoded.userId,
+            email: decoded.email,
+            headers: request.headers,
+        });
+
         return NextResponse.json({
             success: true,
             message: 'YouTube account disconnected',
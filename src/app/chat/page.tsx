@@ -4,14 +4,42 @@ import React, { useState, useRef, useEffect } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
-import { ChatMessage, YouTubeResult, LearningPath as LearningPathType } from '@/types';
+import { ChatMessage, ChatStreamEvent } from '@/types';
 import MessageBubble from '@/components/chat/MessageBubble';
 import ChatInput from '@/components/chat/ChatInput';
 import GuestBanner from '@/components/chat/GuestBanner';
 import ChatHistorySidebar from '@/components/chat/ChatHistorySidebar';
+import ReviewDue from '@/components/chat/ReviewDue';
 import SettingsModal from '@/components/settings/SettingsModal';
 import { Button } from '@/components/ui/Button';
 
+// Parse a Server-Sent Events body into chat stream events
+async function readChatStream(response: Response, onEvent: (event: ChatStreamEvent) => void) {
+    if (!response.body) throw new Error('Empty stream');
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        const frames = buffer.split('\n\n');
+        buffer = frames.pop() || '';
+
+        for (const frame of frames) {
+            const data = frame
+                .split('\n')
+                .filter(line => line.startsWith('data: '))
+                .map(line => line.slice(6))
+                .join('\n');
+            if (data) onEvent(JSON.parse(data));
+        }
+    }
+}
+
 export default function ChatPage() {
     const router = useRouter();
     const { user, isLoading: authLoading, isGuest, logout } = useAuth();
@@ -22,7 +50,7 @@ export default function ChatPage() {
     const [showHistory, setShowHistory] = useState(false);
     const [showSettings, setShowSettings] = useState(false);
     const [showUserMenu, setShowUserMenu] = useState(false);
-    const [loadingStep, setLoadingStep] = useState(0);
+    const [streamStatus, setStreamStatus] = useState<string | null>(null);
     const messagesEndRef = useRef<HTMLDivElement>(null);
 
     // High-speed smooth scroll
@@ -59,48 +87,70 @@ I am your LinkMe learning assistant. Tell me what you'd like to learn today, and
         setMessages(prev => [...prev, userMessage, loadingMessage]);
         setIsLoading(true);
 
+        const streamId = loadingMessage.id;
+        const updateStreamMessage = (update: (message: ChatMessage) => ChatMessage) => {
+            setMessages(prev => prev.map(m => m.id === streamId ? update(m) : m));
+        };
+
         try {
-            // Loading step cycling
-            const steps = [
-                "Curating Your Mastery Path...",
-                "Analyzing Top-Tier Content...",
-                "Assembling Curriculum Nodes...",
-                "Finalizing Neural Synthesis..."
-            ];
-            
-            let currentStep = 0;
-            const stepInterval = setInterval(() => {
-                currentStep = (currentStep + 1) % steps.length;
-                setLoadingStep(currentStep);
-            }, 1800);
+            setStreamStatus('Thinking...');
 
             const response = await fetch('/api/chat/message', {
                 method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
+                headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
                 body: JSON.stringify({ message: content, conversationId }),
             });
-            
-            clearInterval(stepInterval);
-            const data = await response.json();
-            if (!response.ok) throw new Error(data.message || 'Node Error');
-
-            setMessages(prev => {
-                const filtered = prev.filter(m => !m.isLoading);
-                return [...filtered, {
-                    id: `assistant-${Date.now()}`,
-                    role: 'assistant',
-                    content: data.response || 'Synthesis Error.',
-                    timestamp: new Date(),
-                    tutorials: data.tutorials,
-                    learningPath: data.learningPath,
-                }];
+
+            // Errors (rate limit, validation) still come back as plain JSON
+            if (!response.headers.get('content-type')?.includes('text/event-stream')) {
+                const data = await response.json();
+                if (!response.ok) throw new Error(data.message || 'Node Error');
+                updateStreamMessage(m => ({ ...m, isLoading: false, content: data.response || 'Synthesis Error.', quickReplies: data.clarification?.options }));
+                return;
+            }
+
+            await readChatStream(response, (event) => {
+                switch (event.type) {
+                    case 'token':
+                        updateStreamMessage(m => ({ ...m, isLoading: false, isStreaming: true, content: m.content + event.text }));
+                        break;
+                    case 'search_started':
+                        setStreamStatus(`Searching tutorials for "${event.topic}"...`);
+                        break;
+                    case 'videos_fetched':
+                        setStreamStatus(`Found ${event.count} videos`);
+                        break;
+                    case 'curating':
+                        setStreamStatus('Curating your learning path...');
+                        break;
+                    case 'stage':
+                        setStreamStatus(`Assembled ${event.stage.stageName}`);
+                        updateStreamMessage(m => ({ ...m, partialStages: [...(m.partialStages || []), event.stage] }));
+                        break;
+                    case 'done':
+                        updateStreamMessage(m => ({
+                            ...m,
+                            isLoading: false,
+                            isStreaming: false,
+                            partialStages: undefined,
+                            content: event.result.response || 'Synthesis Error.',
+                            timestamp: new Date(),
+                            tutorials: event.result.tutorials,
+                            learningPath: event.result.learningPath || undefined,
+                            guestPathId: event.result.guestPathId,
+                            quickReplies: event.result.clarification?.options,
+                        }));
+                        if (event.result.conversationId) setConversationId(event.result.conversationId);
+                        break;
+                    case 'error':
+                        throw new Error(event.message);
+                }
             });
-            if (data.conversationId) setConversationId(data.conversationId);
-        } catch (error) {
-            setMessages(prev => [...prev.filter(m => !m.isLoading), { id: `err-${Date.now()}`, role: 'assistant', content: `⚠️ Failed to synthesize path.`, timestamp: new Date() }]);
+        } catch {
+            setMessages(prev => [...prev.filter(m => m.id !== streamId), { id: `err-${Date.now()}`, role: 'assistant', content: `⚠️ Failed to synthesize path.`, timestamp: new Date() }]);
         } finally {
             setIsLoading(false);
-            setLoadingStep(0);
+            setStreamStatus(null);
         }
     };
 
@@ -187,8 +237,17 @@ I am your LinkMe learning assistant. Tell me what you'd like to learn today, and
             <main className="flex-1 overflow-hidden flex flex-col relative z-10">
                 <div className="flex-1 overflow-y-auto px-4 py-12 md:px-12 no-scrollbar">
                     <div className="max-w-4xl mx-auto">
+                        {/* Spaced-repetition reviews, shown until the conversation starts */}
+                        {user && !isGuest && messages.length <= 1 && <ReviewDue />}
                         <div className="space-y-6">
-                            {messages.map((message) => <MessageBubble key={message.id} message={message} />)}
+                            {messages.map((message, index) => (
+                                <MessageBubble
+                                    key={message.id}
+                                    message={message}
+                                    // Suggested answers only apply to the latest question
+                                    onQuickReply={index === messages.length - 1 && !isLoading ? sendMessage : undefined}
+                                />
+                            ))}
                         </div>
                         <div ref={messagesEndRef} className="h-20" />
                     </div>
@@ -197,20 +256,15 @@ I am your LinkMe learning assistant. Tell me what you'd like to learn today, and
                 {/* --- Command Area (Lowered & Optimized) --- */}
                 <div className="flex-shrink-0 p-6 md:p-8 border-t border-white/5 bg-[#050508]/80 backdrop-blur-2xl">
                     <div className="max-w-4xl mx-auto">
-                        {isLoading && (
+                        {isLoading && streamStatus && (
                             <div className="flex items-center gap-3 mb-4 px-4 py-2 rounded-full bg-violet-500/5 border border-violet-500/10 w-fit mx-auto animate-pulse">
                                 <div className="w-2 h-2 rounded-full bg-violet-500 animate-ping" />
                                 <span className="text-[9px] font-black uppercase tracking-[0.2em] text-violet-300">
-                                    {[
-                                        "Curating Your Mastery Path...",
-                                        "Analyzing Top-Tier Content...",
-                                        "Assembling Curriculum Nodes...",
-                                        "Finalizing Neural Synthesis..."
-                                    ][loadingStep]}
+                                    {streamStatus}
                                 </span>
                             </div>
                         )}
-                        <ChatInput onSend={sendMessage} disabled={isLoading} />
+                        <ChatInput onSend={sendMessage} disabled={isLoading} placeholder={isLoading ? 'LinkMe is responding...' : undefined} />
                         <div className="text-center mt-4">
                              <span className="text-[9px] font-black uppercase tracking-[0.5em] text-white/5">Secure AI Neural Architecture • LinkMe Protocol v2.0</span>
                         </div>
@@ -1,19 +1,21 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useState, Suspense } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
+import GoogleSignIn from '@/components/auth/GoogleSignIn';
 
 export default function LoginPage() {
     const router = useRouter();
-    const { login, continueAsGuest } = useAuth();
+    const { login, loginWithPasskey, continueAsGuest } = useAuth();
     const [formData, setFormData] = useState({ email: '', password: '' });
     const [errors, setErrors] = useState<Record<string, string>>({});
     const [isLoading, setIsLoading] = useState(false);
     const [serverError, setServerError] = useState('');
+    const [isPasskeyLoading, setIsPasskeyLoading] = useState(false);
 
     const validateForm = () => {
         const newErrors: Record<string, string> = {};
@@ -44,6 +46,21 @@ export default function LoginPage() {
         }
     };
 
+    const handlePasskeyLogin = async () => {
+        setServerError('');
+        setIsPasskeyLoading(true);
+        const result = await loginWithPasskey();
+        setIsPasskeyLoading(false);
+
+        if (result.requiresVerification) {
+            router.push(`/verify?type=email&email=${encodeURIComponent(result.email || '')}`);
+        } else if (result.success) {
+            router.push('/chat');
+        } else {
+            setServerError(result.message);
+        }
+    };
+
     const handleGuestMode = async () => {
         await continueAsGuest();
         router.push('/chat');
@@ -81,12 +98,27 @@ export default function LoginPage() {
                         <div className="space-y-4">
                             <Input label="Email Address" name="email" type="email" value={formData.email} onChange={handleChange} error={errors.email} placeholder="you@example.com" />
                             <Input label="Password" name="password" type="password" value={formData.password} onChange={handleChange} error={errors.password} placeholder="••••••••" />
+                            <div className="text-right">
+                                <Link
+                                    href={formData.email ? `/reset-password?email=${encodeURIComponent(formData.email)}` : '/reset-password'}
+                                    className="text-[10px] font-bold uppercase tracking-[0.2em] text-slate-500 hover:text-violet-400 transition-colors"
+                                >
+                                    Forgot Password?
+                                </Link>
+                            </div>
                         </div>
                         <Button type="submit" loading={isLoading} variant="glow" className="w-full h-14 text-[10px] font-bold uppercase tracking-[0.2em] mt-2 shadow-[0_10px_30px_rgba(139,92,246,0.3)]">
                             Sign In
                         </Button>
+                        <Button type="button" onClick={handlePasskeyLogin} loading={isPasskeyLoading} variant="outline" className="w-full py-5 text-[10px] font-bold uppercase tracking-[0.2em] border-white/10 hover:bg-white/5">
+                            🔑 Sign In with a Passkey
+                        </Button>
                     </form>
 
+                    <Suspense fallback={null}>
+                        <GoogleSignIn />
+                    </Suspense>
+
 <div className="relative my-8">
                         <div className="absolute inset-0 flex items-center"><div className="w-full border-t border-white/5" /></div>
                         <div className="relative flex justify-center text-[10px] uppercase font-bold tracking-widest">
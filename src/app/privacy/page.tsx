@@ -71,7 +71,16 @@ export default function PrivacyPage() {
 
             <section className="space-y-4">
                 <h2 className="text-xl font-black text-white uppercase tracking-tight flex items-center gap-3">
-                    <span className="text-violet-500">04</span> Contact Framework
+                    <span className="text-violet-500">04</span> Your Data Rights
+                </h2>
+                <p className="text-slate-400 leading-relaxed font-medium">
+                You can download a copy of your profile, chat history, learning paths and progress at any time from Settings. Deleting your account from Settings permanently removes this data and disconnects YouTube.
+                </p>
+            </section>
+
+            <section className="space-y-4">
+                <h2 className="text-xl font-black text-white uppercase tracking-tight flex items-center gap-3">
+                    <span className="text-violet-500">05</span> Contact Framework
                 </h2>
                 <p className="text-slate-400 leading-relaxed font-medium">
                 Direct questions regarding these protocols to our security team at: 
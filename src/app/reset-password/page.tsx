@@ -0,0 +1,183 @@
+'use client';
+
+import React, { useState, Suspense } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+
+function ResetPasswordContent() {
+    const router = useRouter();
+    const searchParams = useSearchParams();
+    const [step, setStep] = useState<'request' | 'confirm' | 'done'>(searchParams.get('email') ? 'confirm' : 'request');
+    const [formData, setFormData] = useState({
+        email: searchParams.get('email') || '',
+        code: '',
+        password: '',
+        confirmPassword: '',
+    });
+    const [errors, setErrors] = useState<Record<string, string>>({});
+    const [isLoading, setIsLoading] = useState(false);
+    const [serverError, setServerError] = useState('');
+    const [notice, setNotice] = useState('');
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const { name, value } = e.target;
+        setFormData(prev => ({ ...prev, [name]: name === 'code' ? value.replace(/\D/g, '').slice(0, 6) : value }));
+        if (errors[name]) setErrors(prev => ({ ...prev, [name]: '' }));
+    };
+
+    const handleRequest = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setServerError('');
+        if (!formData.email.trim()) {
+            setErrors({ email: 'Email required' });
+            return;
+        }
+
+        setIsLoading(true);
+        try {
+            const res = await fetch('/api/auth/password-reset/request', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ email: formData.email }),
+            });
+            const data = await res.json();
+
+            if (data.success) {
+                setNotice(data.message);
+                setStep('confirm');
+            } else {
+                setServerError(data.message || 'Failed to send reset code');
+            }
+        } catch {
+            setServerError('Connection failure. Please check your network.');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleConfirm = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setServerError('');
+
+        const newErrors: Record<string, string> = {};
+        if (!/^\d{6}$/.test(formData.code)) newErrors.code = 'Enter the 6-digit code';
+        if (formData.password.length < 8) newErrors.password = 'Min 8 characters';
+        if (formData.password !== formData.confirmPassword) newErrors.confirmPassword = 'Passwords do not match';
+        setErrors(newErrors);
+        if (Object.keys(newErrors).length > 0) return;
+
+        setIsLoading(true);
+        try {
+            const res = await fetch('/api/auth/password-reset/confirm', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    email: formData.email,
+                    code: formData.code,
+                    password: formData.password,
+                }),
+            });
+            const data = await res.json();
+
+            if (data.success) {
+                setStep('done');
+                setTimeout(() => router.push('/login'), 2000);
+            } else {
+                setServerError(data.errors?.[0] || data.message || 'Failed to reset password');
+            }
+        } catch {
+            setServerError('Connection failure. Please check your network.');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <div className="w-full max-w-md relative z-10 animate-in fade-in zoom-in-95 duration-700">
+            {/* Branding */}
+            <Link href="/" className="flex flex-col items-center gap-6 mb-12 group">
+                <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-violet-600 to-indigo-600 flex items-center justify-center shadow-lg shadow-violet-500/20 transition-transform group-hover:scale-110">
+                    <span className="text-white font-black text-xl">🔗</span>
+                </div>
+            </Link>
+
+            <div className="glass-panel rounded-[40px] p-8 md:p-12 relative overflow-hidden transition-all duration-700 animate-in fade-in zoom-in-95">
+                <div className="text-center mb-10">
+                    <h1 className="text-xl font-bold text-white uppercase tracking-widest">Reset Password</h1>
+                    <p className="text-[10px] font-bold uppercase tracking-[0.2em] text-slate-500 mt-2 italic">
+                        {step === 'request' ? 'We will email you a 6-digit code' : step === 'confirm' ? 'Choose a new password' : 'All set'}
+                    </p>
+                </div>
+
+                {serverError && (
+                    <div className="mb-8 p-4 rounded-xl bg-red-500/10 border border-red-500/20 text-red-400 text-[10px] font-bold uppercase tracking-widest">
+                        ⚠️ {serverError}
+                    </div>
+                )}
+
+                {step === 'request' && (
+                    <form onSubmit={handleRequest} className="space-y-6">
+                        <Input label="Email Address" name="email" type="email" value={formData.email} onChange={handleChange} error={errors.email} placeholder="you@example.com" />
+                        <Button type="submit" loading={isLoading} variant="glow" className="w-full h-14 text-[10px] font-bold uppercase tracking-[0.2em] mt-2 shadow-[0_10px_30px_rgba(139,92,246,0.3)]">
+                            Send Reset Code
+                        </Button>
+                    </form>
+                )}
+
+                {step === 'confirm' && (
+                    <form onSubmit={handleConfirm} className="space-y-6">
+                        {notice && (
+                            <div className="p-4 rounded-xl bg-emerald-500/10 border border-emerald-500/20 text-emerald-400 text-[10px] font-bold uppercase tracking-widest">
+                                {notice}
+                            </div>
+                        )}
+                        <div className="space-y-4">
+                            <Input label="Email Address" name="email" type="email" value={formData.email} onChange={handleChange} error={errors.email} placeholder="you@example.com" />
+                            <Input label="Reset Code" name="code" inputMode="numeric" value={formData.code} onChange={handleChange} error={errors.code} placeholder="000000" />
+                            <Input label="New Password" name="password" type="password" value={formData.password} onChange={handleChange} error={errors.password} placeholder="••••••••" />
+                            <Input label="Confirm Password" name="confirmPassword" type="password" value={formData.confirmPassword} onChange={handleChange} error={errors.confirmPassword} placeholder="••••••••" />
+                        </div>
+                        <Button type="submit" loading={isLoading} variant="glow" className="w-full h-14 text-[10px] font-bold uppercase tracking-[0.2em] mt-2 shadow-[0_10px_30px_rgba(139,92,246,0.3)]">
+                            Reset Password
+                        </Button>
+                        <button
+                            type="button"
+                            onClick={() => { setStep('request'); setNotice(''); setServerError(''); }}
+                            className="w-full text-[10px] font-bold uppercase tracking-[0.2em] text-slate-500 hover:text-violet-400 transition-colors"
+                        >
+                            Didn&apos;t receive a code? <span className="underline">Send again</span>
+                        </button>
+                    </form>
+                )}
+
+                {step === 'done' && (
+                    <div className="text-center py-6 animate-in zoom-in duration-500">
+                        <div className="w-20 h-20 rounded-full bg-emerald-500/10 border-2 border-emerald-500 flex items-center justify-center mx-auto mb-6 shadow-lg shadow-emerald-500/20">
+                            <svg className="w-10 h-10 text-emerald-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={3}>
+                                <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
+                            </svg>
+                        </div>
+                        <h2 className="text-lg font-bold text-white uppercase mb-2">Password Updated</h2>
+                        <p className="text-slate-400 text-sm">You&apos;ve been signed out everywhere. Taking you to sign in...</p>
+                    </div>
+                )}
+
+                <p className="mt-10 text-center text-[10px] font-bold uppercase tracking-[0.2em] text-slate-600">
+                    Remembered it? <Link href="/login" className="text-white hover:underline transition-colors ml-1 italic font-bold">Sign In</Link>
+                </p>
+            </div>
+        </div>
+    );
+}
+
+export default function ResetPasswordPage() {
+    return (
+        <div className="min-h-screen flex items-center justify-center px-4 py-20 relative overflow-hidden">
+            <Suspense fallback={<div className="w-6 h-6 border-2 border-violet-500 border-t-transparent rounded-full animate-spin" />}>
+                <ResetPasswordContent />
+            </Suspense>
+        </div>
+    );
+}
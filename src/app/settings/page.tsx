@@ -1,11 +1,18 @@
 'use client';
 
-// Settings page with 2FA setup and YouTube integration
+// Settings page with account details, 2FA setup, active sessions and YouTube integration
 import React, { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
 import YouTubeConnect from '@/components/settings/YouTubeConnect';
+import SessionsPanel from '@/components/settings/SessionsPanel';
+import PasskeysPanel from '@/components/settings/PasskeysPanel';
+import LinkedAccounts from '@/components/settings/LinkedAccounts';
+import SecurityActivity from '@/components/settings/SecurityActivity';
+import ChangeEmail from '@/components/settings/ChangeEmail';
+import ChangePassword from '@/components/settings/ChangePassword';
+import AccountData from '@/components/settings/AccountData';
 
 export default function SettingsPage() {
     const router = useRouter();
@@ -23,6 +30,11 @@ export default function SettingsPage() {
     const [disablePassword, setDisablePassword] = useState('');
     const [showDisableModal, setShowDisableModal] = useState(false);
 
+    // Account state
+    const [pendingEmail, setPendingEmail] = useState<string | null>(null);
+    const [hasPassword, setHasPassword] = useState(true);
+    const [accountLoaded, setAccountLoaded] = useState(false);
+
     // Redirect if not authenticated
     useEffect(() => {
         if (!authLoading && (!user || isGuest)) {
@@ -38,9 +50,13 @@ export default function SettingsPage() {
                 const data = await res.json();
                 if (data.success && data.user) {
                     setTwoFactorEnabled(data.user.twoFactorEnabled || false);
+                    setPendingEmail(data.user.pendingEmail || null);
+                    setHasPassword(data.user.hasPassword !== false);
                 }
             } catch (err) {
                 console.error('Failed to check 2FA status:', err);
+            } finally {
+                setAccountLoaded(true);
             }
         };
         if (isAuthenticated && !isGuest) {
@@ -191,6 +207,33 @@ export default function SettingsPage() {
                     </div>
                 </section>
 
+                {/* Account Section */}
+                <section className="mb-8">
+                    <h2 className="text-xl font-semibold text-white mb-4">Account</h2>
+                    <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-6 space-y-6">
+                        {accountLoaded ? (
+                            <>
+                                <ChangeEmail
+                                    currentEmail={user?.email || ''}
+                                    initialPendingEmail={pendingEmail}
+                                    twoFactorEnabled={twoFactorEnabled}
+                                    hasPassword={hasPassword}
+                                />
+                                <div className="border-t border-slate-700" />
+                                <ChangePassword
+                                    twoFactorEnabled={twoFactorEnabled}
+                                    hasPassword={hasPassword}
+                                    onPasswordSet={() => setHasPassword(true)}
+                                />
+                            </>
+                        ) : (
+                            <div className="animate-pulse">
+                                <div className="h-20 bg-slate-700/50 rounded-xl"></div>
+                            </div>
+                        )}
+                    </div>
+                </section>
+
                 {/* Security Section */}
                 <section>
                     <h2 className="text-xl font-semibold text-white mb-4">Security</h2>
@@ -338,6 +381,38 @@ export default function SettingsPage() {
                     </div>
                 </section>
 
+                {/* Linked Accounts Section */}
+                <section className="mt-8">
+                    <h2 className="text-xl font-semibold text-white mb-4">Linked Accounts</h2>
+                    <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-6">
+                        <LinkedAccounts />
+                    </div>
+                </section>
+
+                {/* Passkeys Section */}
+                <section className="mt-8">
+                    <h2 className="text-xl font-semibold text-white mb-4">Passkeys</h2>
+                    <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-6">
+                        <PasskeysPanel twoFactorEnabled={twoFactorEnabled} hasPassword={hasPassword} />
+                    </div>
+                </section>
+
+                {/* Sessions Section */}
+                <section className="mt-8">
+                    <h2 className="text-xl font-semibold text-white mb-4">Sessions</h2>
+                    <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-6">
+                        <SessionsPanel />
+                    </div>
+                </section>
+
+                {/* Security Activity Section */}
+                <section className="mt-8">
+                    <h2 className="text-xl font-semibold text-white mb-4">Security Activity</h2>
+                    <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-6">
+                        <SecurityActivity />
+                    </div>
+                </section>
+
                 {/* Integrations Section */}
                 <section className="mt-8">
                     <h2 className="text-xl font-semibold text-white mb-4">Integrations</h2>
@@ -345,6 +420,14 @@ export default function SettingsPage() {
                         <YouTubeConnect />
                     </div>
                 </section>
+
+                {/* Your Data Section */}
+                <section className="mt-8">
+                    <h2 className="text-xl font-semibold text-white mb-4">Your Data</h2>
+                    <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-6">
+                        <AccountData twoFactorEnabled={twoFactorEnabled} hasPassword={hasPassword} />
+                    </div>
+                </section>
             </main>
 
             {/* Disable 2FA Modal */}
@@ -1,11 +1,12 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useState, Suspense } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
+import GoogleSignIn from '@/components/auth/GoogleSignIn';
 
 export default function SignupPage() {
     const router = useRouter();
@@ -88,6 +89,10 @@ export default function SignupPage() {
                         </Button>
                     </form>
 
+                    <Suspense fallback={null}>
+                        <GoogleSignIn />
+                    </Suspense>
+
 <div className="relative my-8">
                         <div className="absolute inset-0 flex items-center"><div className="w-full border-t border-white/5" /></div>
                         <div className="relative flex justify-center text-[10px] uppercase font-bold tracking-widest">
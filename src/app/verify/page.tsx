@@ -5,6 +5,7 @@ import { useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import { Button } from '@/components/ui/Button';
 import { useAuth } from '@/contexts/AuthContext';
+import { isPasskeySupported } from '@/lib/passkey-client';
 
 function VerifyContent() {
     const router = useRouter();
@@ -12,16 +13,18 @@ function VerifyContent() {
     const email = searchParams.get('email') || '';
     const type = searchParams.get('type') || 'email'; // 'email' or '2fa'
     const is2FA = type === '2fa';
-    const { refreshAuth } = useAuth();
+    const { refreshAuth, loginWithPasskey } = useAuth();
 
     const [code, setCode] = useState(['', '', '', '', '', '']);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [isSuccess, setIsSuccess] = useState(false);
+    const [passkeyAvailable, setPasskeyAvailable] = useState(false);
     const inputs = useRef<(HTMLInputElement | null)[]>([]);
 
     useEffect(() => {
         inputs.current[0]?.focus();
+        setPasskeyAvailable(isPasskeySupported());
     }, []);
 
     // Auto-submit when all 6 digits are entered
@@ -86,6 +89,21 @@ function VerifyContent() {
         }
     };
 
+    // A passkey can stand in for the authenticator code
+    const handlePasskey = async () => {
+        setIsLoading(true);
+        setError(null);
+        const result = await loginWithPasskey();
+        setIsLoading(false);
+
+        if (result.success && !result.requiresVerification) {
+            setIsSuccess(true);
+            setTimeout(() => router.push('/chat'), 1000);
+        } else {
+            setError(result.message);
+        }
+    };
+
     const handleResend = async () => {
         if (is2FA) return; // Can't resend TOTP codes
         try {
@@ -171,6 +189,17 @@ function VerifyContent() {
                             {isLoading ? 'Verifying...' : 'Confirm & Enter Workspace'}
                         </Button>
 
+                        {is2FA && passkeyAvailable && (
+                            <Button
+                                variant="outline"
+                                className="w-full py-5 rounded-2xl uppercase tracking-[0.2em] font-black text-[11px] border-white/10 hover:bg-white/5"
+                                onClick={handlePasskey}
+                                disabled={isLoading}
+                            >
+                                🔑 Use a Passkey Instead
+                            </Button>
+                        )}
+
                         {error && (
                             <div className="p-4 rounded-2xl bg-red-500/10 border border-red-500/20 text-red-400 text-xs font-bold text-center animate-in slide-in-from-top-2">
                                 ⚠️ {error}
@@ -0,0 +1,65 @@
+'use client';
+
+// "Continue with Google" for the login and signup pages
+// Reads ?google_error= from the callback, so render it inside a Suspense boundary
+import React, { useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { Button } from '@/components/ui/Button';
+
+const ERROR_MESSAGES: Record<string, string> = {
+    access_denied: 'Google sign-in was cancelled',
+    missing_params: 'Invalid response from Google',
+    invalid_state: 'Google sign-in expired, please try again',
+    unverified_email: 'Your Google email address is not verified',
+    user_not_found: 'Account not found',
+    not_configured: 'Google sign-in is not available right now',
+    sign_in_failed: 'Google sign-in failed, please try again',
+};
+
+export default function GoogleSignIn() {
+    const searchParams = useSearchParams();
+    const [withYouTube, setWithYouTube] = useState(false);
+    const [isRedirecting, setIsRedirecting] = useState(false);
+
+    const errorCode = searchParams.get('google_error');
+    const email = searchParams.get('email');
+    const error = errorCode === 'account_exists'
+        ? `An account for ${email || 'this email'} already exists. Sign in with your password, then link Google in Settings.`
+        : errorCode ? ERROR_MESSAGES[errorCode] || 'Google sign-in failed' : null;
+
+    const handleGoogle = () => {
+        setIsRedirecting(true);
+        window.location.href = withYouTube ? '/api/auth/google?youtube=1' : '/api/auth/google';
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="relative my-8">
+                <div className="absolute inset-0 flex items-center"><div className="w-full border-t border-white/5" /></div>
+                <div className="relative flex justify-center text-[10px] uppercase font-bold tracking-widest">
+                    <span className="px-4 text-slate-600 bg-transparent">Or</span>
+                </div>
+            </div>
+
+            {error && (
+                <div className="p-4 rounded-xl bg-red-500/10 border border-red-500/20 text-red-400 text-[10px] font-bold uppercase tracking-widest">
+                    ⚠️ {error}
+                </div>
+            )}
+
+            <Button type="button" onClick={handleGoogle} loading={isRedirecting} variant="outline" className="w-full py-5 text-[10px] font-bold uppercase tracking-[0.2em] border-white/10 hover:bg-white/5">
+                Continue with Google
+            </Button>
+
+            <label className="flex items-center justify-center gap-2 text-[10px] font-bold uppercase tracking-[0.2em] text-slate-500 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={withYouTube}
+                    onChange={(e) => setWithYouTube(e.target.checked)}
+                    className="accent-violet-500"
+                />
+                Also connect YouTube for playlist export
+            </label>
+        </div>
+    );
+}
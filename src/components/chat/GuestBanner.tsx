@@ -26,7 +26,7 @@ export function GuestBanner() {
                 <div className="flex-1">
                     <h4 className="text-amber-300 font-medium text-sm">Guest Mode</h4>
                     <p className="text-amber-200/70 text-xs mt-1">
-                        You&apos;re browsing as a guest. Your search history won&apos;t be saved.
+                        You&apos;re browsing as a guest. We&apos;ll keep your learning paths and progress for 24 hours. Sign up or log in to keep them for good.
                     </p>
                     <div className="mt-3 flex gap-2">
                         <Link
@@ -14,7 +14,9 @@ interface VideoAnalysis {
     prerequisites: string[];
     whyRecommended: string;
     estimatedTime: string;
+    durationSeconds?: number;
     order: number;
+    notes?: string;
 }
 
 interface LearningStage {
@@ -22,6 +24,8 @@ interface LearningStage {
     stageNumber: number;
     description: string;
     videos: VideoAnalysis[];
+    estimatedTime?: string;
+    durationSeconds?: number;
 }
 
 interface LearningPathData {
@@ -30,17 +34,58 @@ interface LearningPathData {
     userGoal: string;
     totalVideos: number;
     estimatedTotalTime: string;
+    totalDurationSeconds?: number;
+    timeBudgetMinutes?: number;
     stages: LearningStage[];
     completionGoals: string[];
     summary: string;
 }
 
+// A saved path as returned by /api/learning-path/edit
+interface EditablePath {
+    id: string;
+    totalVideos: number;
+    estimatedTotalTime: string;
+    stages: LearningStage[];
+    updatedAt: string;
+}
+
+// Matches learningPathEditOperationSchema in lib/validation.ts
+type EditOperation =
+    | { type: 'add_video'; stageNumber: number; video: { videoId: string; title: string } }
+    | { type: 'remove_video'; videoId: string }
+    | { type: 'move_video'; videoId: string; toStageNumber: number; toIndex: number }
+    | { type: 'rename_stage'; stageNumber: number; stageName: string }
+    | { type: 'set_note'; videoId: string; note: string };
+
+// The follow-up path returned by /api/learning-path/continue
+interface Continuation {
+    learningPathId: string;
+    learningPath: LearningPathData;
+}
+
+// Why a video is being swapped (matches videoSwapSchema in lib/validation.ts)
+const SWAP_REASONS = [
+    { reason: 'unavailable', label: 'Dead link' },
+    { reason: 'too_long', label: 'Too long' },
+    { reason: 'unclear', label: 'Hard to follow' },
+] as const;
+
+// Accepts a bare video ID or a watch, youtu.be, shorts or embed URL
+function parseYouTubeVideoId(input: string): string | null {
+    const trimmed = input.trim();
+    if (/^[A-Za-z0-9_-]{11}$/.test(trimmed)) return trimmed;
+    const match = trimmed.match(/(?:[?&]v=|youtu\.be\/|shorts\/|embed\/)([A-Za-z0-9_-]{11})/);
+    return match ? match[1] : null;
+}
+
 interface LearningPathProps {
     learningPath: LearningPathData;
     savedPathId?: string;
+    guestPathId?: string;
 }
 
-export default function LearningPath({ learningPath, savedPathId: initialSavedPathId }: LearningPathProps) {
+export default function LearningPath({ learningPath, savedPathId: initialSavedPathId, guestPathId }: LearningPathProps) {
     const [expandedVideos, setExpandedVideos] = useState<Set<string>>(new Set());
     const [watchedVideos, setWatchedVideos] = useState<Set<string>>(new Set());
     const [savedPathId, setSavedPathId] = useState<string | undefined>(initialSavedPathId);
@@ -48,6 +93,23 @@ export default function LearningPath({ learningPath, savedPathId: initialSavedPa
     const [saveMessage, setSaveMessage] = useState<string | null>(null);
     const [isGuest, setIsGuest] = useState(false);
     const [youtubeConnected, setYoutubeConnected] = useState(false);
+    const [editablePath, setEditablePath] = useState<EditablePath | null>(null);
+    const [isEditing, setIsEditing] = useState(false);
+    const [isApplyingEdit, setIsApplyingEdit] = useState(false);
+    const [editMessage, setEditMessage] = useState<string | null>(null);
+    const [draggedVideoId, setDraggedVideoId] = useState<string | null>(null);
+    const [dropStageNumber, setDropStageNumber] = useState<number | null>(null);
+    const [noteDrafts, setNoteDrafts] = useState<Record<string, string>>({});
+    const [newVideos, setNewVideos] = useState<Record<number, { url: string; title: string }>>({});
+    const [swappingVideoId, setSwappingVideoId] = useState<string | null>(null);
+    const [continuation, setContinuation] = useState<Continuation | null>(null);
+    const [isContinuing, setIsContinuing] = useState(false);
+    const [continueMessage, setContinueMessage] = useState<string | null>(null);
+
+    // Once saved, the stored (possibly edited) path replaces the one from the chat
+    const stages = editablePath?.stages ?? learningPath.stages;
+    const totalVideos = editablePath?.totalVideos ?? learningPath.totalVideos;
+    const estimatedTotalTime = editablePath?.estimatedTotalTime ?? learningPath.estimatedTotalTime;
 
     useEffect(() => {
         const checkStatus = async () => {
@@ -63,6 +125,11 @@ export default function LearningPath({ learningPath, savedPathId: initialSavedPa
                     
                     // --- AUTO-LOAD PROGRESS ---
                     if (savedPathId) {
+                        try {
+                            const pathRes = await fetch(`/api/learning-path/edit?learningPathId=${savedPathId}`, { credentials: 'include' });
+                            const pathData = await pathRes.json();
+                            if (pathData.success) setEditablePath(pathData.learningPath);
+                        } catch (lErr) { console.error('Learning Path Load Error:', lErr); }
                         try {
                             const progressRes = await fetch(`/api/learning-path/progress?learningPathId=${savedPathId}`, { credentials: 'include' });
                             const progressData = await progressRes.json();
@@ -102,21 +169,164 @@ export default function LearningPath({ learningPath, savedPathId: initialSavedPa
             return next;
         });
 
-        if (savedPathId && !isGuest) {
+        // Guests record progress against their temporary path so it carries over on signup
+        const progressPathId = isGuest ? guestPathId : savedPathId;
+        if (progressPathId) {
             try {
                 await fetch('/api/learning-path/progress', {
                     method: 'POST',
                     headers: { 'Content-Type': 'application/json' },
                     credentials: 'include',
-                    body: JSON.stringify({ learningPathId: savedPathId, videoId, watched: newWatched }),
+                    body: JSON.stringify({ learningPathId: progressPathId, videoId, watched: newWatched }),
                 });
             } catch (error) { console.error(error); }
         }
     };
 
+    const showEditMessage = (message: string) => {
+        setEditMessage(message);
+        setTimeout(() => setEditMessage(null), 4000);
+    };
+
+    // Watched marks only count for videos still in the path
+    const replacePath = (updated: EditablePath) => {
+        const remaining = new Set(updated.stages.flatMap(stage => stage.videos.map(video => video.videoId)));
+        setEditablePath(updated);
+        setWatchedVideos(prev => new Set([...prev].filter(videoId => remaining.has(videoId))));
+    };
+
+    // Send edits against the version we last saw; on a conflict the server returns the latest version instead
+    const applyEdits = async (operations: EditOperation[]): Promise<boolean> => {
+        if (!savedPathId || !editablePath) return false;
+        setIsApplyingEdit(true);
+        try {
+            const res = await fetch('/api/learning-path/edit', {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify({ learningPathId: savedPathId, updatedAt: editablePath.updatedAt, operations }),
+            });
+            const data = await res.json();
+            if (data.learningPath) replacePath(data.learningPath);
+            if (!data.success) showEditMessage(data.message || 'Could not save your change');
+            return data.success === true;
+        } catch {
+            showEditMessage('Could not save your change');
+            return false;
+        } finally {
+            setIsApplyingEdit(false);
+        }
+    };
+
+    const renameStage = (stage: LearningStage, stageName: string) => {
+        const trimmed = stageName.trim();
+        if (trimmed && trimmed !== stage.stageName) {
+            applyEdits([{ type: 'rename_stage', stageNumber: stage.stageNumber, stageName: trimmed }]);
+        }
+    };
+
+    const removeVideo = (videoId: string, e: React.MouseEvent) => {
+        e.stopPropagation();
+        applyEdits([{ type: 'remove_video', videoId }]);
+    };
+
+    const addVideo = async (stageNumber: number) => {
+        const draft = newVideos[stageNumber];
+        const videoId = parseYouTubeVideoId(draft?.url || '');
+        if (!videoId) {
+            showEditMessage('Paste a YouTube link or video ID');
+            return;
+        }
+        const added = await applyEdits([{
+            type: 'add_video',
+            stageNumber,
+            video: { videoId, title: draft.title.trim() || 'Untitled video' },
+        }]);
+        if (added) {
+            setNewVideos(prev => ({ ...prev, [stageNumber]: { url: '', title: '' } }));
+        }
+    };
+
+    const swapVideo = async (videoId: string, reason: typeof SWAP_REASONS[number]['reason']) => {
+        if (!savedPathId || !editablePath) return;
+        setSwappingVideoId(videoId);
+        try {
+            const res = await fetch('/api/learning-path/swap', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify({ learningPathId: savedPathId, updatedAt: editablePath.updatedAt, videoId, reason }),
+            });
+            const data = await res.json();
+            if (data.learningPath) replacePath(data.learningPath);
+            showEditMessage(data.message || (data.success ? 'Video swapped' : 'Could not swap this video'));
+        } catch {
+            showEditMessage('Could not swap this video');
+        } finally {
+            setSwappingVideoId(null);
+        }
+    };
+
+    // Generates the next-level path, or reopens it if this path was already continued
+    const continueJourney = async () => {
+        if (!savedPathId) return;
+        setIsContinuing(true);
+        setContinueMessage(null);
+        try {
+            const res = await fetch('/api/learning-path/continue', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify({ learningPathId: savedPathId }),
+            });
+            const data = await res.json();
+            if (data.success) {
+                setContinuation({ learningPathId: data.learningPathId, learningPath: data.learningPath });
+            } else {
+                setContinueMessage(data.message || 'Could not build your next path');
+            }
+        } catch {
+            setContinueMessage('Could not build your next path');
+        } finally {
+            setIsContinuing(false);
+        }
+    };
+
+    const saveNote = async (videoId: string) => {
+        const saved = await applyEdits([{ type: 'set_note', videoId, note: noteDrafts[videoId] ?? '' }]);
+        if (saved) {
+            setNoteDrafts(prev => {
+                const next = { ...prev };
+                delete next[videoId];
+                return next;
+            });
+        }
+    };
+
+    // Dropping onto a video places the dragged one before it; dropping on the stage appends
+    const handleDrop = (e: React.DragEvent, toStageNumber: number, targetIndex: number) => {
+        e.preventDefault();
+        e.stopPropagation();
+        const videoId = draggedVideoId;
+        setDraggedVideoId(null);
+        setDropStageNumber(null);
+        if (!videoId) return;
+
+        const fromStage = stages.find(stage => stage.videos.some(video => video.videoId === videoId));
+        if (!fromStage) return;
+        const fromIndex = fromStage.videos.findIndex(video => video.videoId === videoId);
+
+        // Within a stage, the target shifts up once the dragged video leaves its old spot
+        const sameStage = fromStage.stageNumber === toStageNumber;
+        const toIndex = sameStage && fromIndex < targetIndex ? targetIndex - 1 : targetIndex;
+        if (sameStage && fromIndex === toIndex) return;
+
+        applyEdits([{ type: 'move_video', videoId, toStageNumber, toIndex }]);
+    };
+
     const saveLearningPath = async () => {
         if (isGuest) {
-            setSaveMessage('Login to save');
+            setSaveMessage('Sign up within 24h to keep this path');
             setTimeout(() => setSaveMessage(null), 3000);
             return;
         }
@@ -132,6 +342,10 @@ export default function LearningPath({ learningPath, savedPathId: initialSavedPa
             if (data.success) {
                 setSavedPathId(data.learningPathId);
                 setSaveMessage('✅ Saved!');
+            } else if (res.status === 409 && data.learningPathId) {
+                // Already saved and edited; show the learner's version instead of overwriting it
+                setSavedPathId(data.learningPathId);
+                setSaveMessage('Already saved with your edits');
             }
         } catch {
             setSaveMessage('Save failed');
@@ -141,9 +355,10 @@ export default function LearningPath({ learningPath, savedPathId: initialSavedPa
         }
     };
 
-    const progressPercent = learningPath.totalVideos > 0
-        ? Math.round((watchedVideos.size / learningPath.totalVideos) * 100)
+    const progressPercent = totalVideos > 0
+        ? Math.round((watchedVideos.size / totalVideos) * 100)
         : 0;
+    const canEdit = savedPathId !== undefined && !isGuest && editablePath !== null;
 
     return (
         <div className="w-full space-y-12 animate-in fade-in duration-500">
@@ -178,17 +393,38 @@ export default function LearningPath({ learningPath, savedPathId: initialSavedPa
                                 {youtubeConnected ? 'Sync YouTube' : 'Connect YouTube'}
                             </Button>
                         )}
+
+                        {canEdit && (
+                            <Button
+                                variant={isEditing ? 'secondary' : 'outline'}
+                                className="w-full text-xs"
+                                onClick={() => setIsEditing(prev => !prev)}
+                            >
+                                {isEditing ? 'Done Editing' : 'Edit Path'}
+                            </Button>
+                        )}
+
+                        {editMessage && (
+                            <p className="text-[11px] font-medium text-amber-400">{editMessage}</p>
+                        )}
                     </div>
                 </div>
 
                 <div className="grid grid-cols-3 gap-10 mt-10 p-6 rounded-xl bg-black/40 border border-[#262626]">
                     <div className="flex flex-col">
                         <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-1">Time</span>
-                        <span className="text-sm font-bold text-white">{learningPath.estimatedTotalTime}</span>
+                        <span className="text-sm font-bold text-white">{estimatedTotalTime}</span>
+                        {learningPath.timeBudgetMinutes && (
+                            <span className="text-[10px] font-medium text-slate-500 mt-1">
+                                Fits your {learningPath.timeBudgetMinutes >= 60
+                                    ? `${Math.round(learningPath.timeBudgetMinutes / 6) / 10}h`
+                                    : `${learningPath.timeBudgetMinutes}m`} budget
+                            </span>
+                        )}
                     </div>
                     <div className="flex flex-col">
                         <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-1">Resources</span>
-                        <span className="text-sm font-bold text-white">{learningPath.totalVideos} Videos</span>
+                        <span className="text-sm font-bold text-white">{totalVideos} Videos</span>
                     </div>
                     <div className="flex flex-col">
                         <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-1">Progress</span>
@@ -201,8 +437,13 @@ export default function LearningPath({ learningPath, savedPathId: initialSavedPa
             <div className="relative pl-6 sm:pl-10 space-y-12">
                 <div className="absolute left-[30px] sm:left-[38px] top-6 bottom-6 w-px bg-[#262626]" />
 
-                {learningPath.stages.map((stage) => (
-                    <div key={stage.stageNumber} className="relative">
+                {stages.map((stage) => (
+                    <div
+                        key={stage.stageNumber}
+                        className="relative"
+                        onDragOver={isEditing ? (e) => { e.preventDefault(); setDropStageNumber(stage.stageNumber); } : undefined}
+                        onDrop={isEditing ? (e) => handleDrop(e, stage.stageNumber, stage.videos.length) : undefined}
+                    >
                         
                         {/* Learning Stage Checkpoint */}
                         <div className="absolute -left-[14px] sm:-left-[14px] top-1">
@@ -213,25 +454,49 @@ export default function LearningPath({ learningPath, savedPathId: initialSavedPa
 
                         <div className="pl-12 sm:pl-16">
                             <div className="mb-6">
-                                <h3 className="text-lg font-bold text-white tracking-tight mb-1 uppercase">
-                                    {stage.stageName}
-                                </h3>
+                                {isEditing ? (
+                                    <input
+                                        key={stage.stageName}
+                                        defaultValue={stage.stageName}
+                                        maxLength={100}
+                                        disabled={isApplyingEdit}
+                                        onBlur={(e) => renameStage(stage, e.target.value)}
+                                        onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                                        className="w-full text-lg font-bold text-white tracking-tight mb-1 uppercase bg-transparent border-b border-[#333333] focus:border-white/40 focus:outline-none"
+                                    />
+                                ) : (
+                                    <h3 className="text-lg font-bold text-white tracking-tight mb-1 uppercase">
+                                        {stage.stageName}
+                                    </h3>
+                                )}
+                                {stage.estimatedTime && (
+                                    <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+                                        {stage.estimatedTime}
+                                    </span>
+                                )}
                                 <p className="text-sm text-slate-500 font-medium">
                                     {stage.description}
                                 </p>
                             </div>
 
-                            <div className="grid gap-3">
-                                {stage.videos.map((video) => {
+                            <div className={`grid gap-3 rounded-xl transition-all ${isEditing && dropStageNumber === stage.stageNumber && draggedVideoId ? 'ring-1 ring-white/20 p-2 -m-2' : ''}`}>
+                                {stage.videos.map((video, videoIndex) => {
                                     const isExpanded = expandedVideos.has(video.videoId);
                                     const isWatched = watchedVideos.has(video.videoId);
+                                    const noteDraft = noteDrafts[video.videoId] ?? video.notes ?? '';
                                     
                                     return (
                                         <div 
                                             key={video.videoId}
+                                            draggable={isEditing && !isApplyingEdit}
+                                            onDragStart={isEditing ? (e) => { e.dataTransfer.effectAllowed = 'move'; setDraggedVideoId(video.videoId); } : undefined}
+                                            onDragEnd={() => { setDraggedVideoId(null); setDropStageNumber(null); }}
+                                            onDrop={isEditing ? (e) => handleDrop(e, stage.stageNumber, videoIndex) : undefined}
                                             className={`
                                                 rounded-xl border transition-all duration-150 overflow-hidden
                                                 ${isWatched ? 'bg-black/30 border-emerald-500/20' : 'bg-[#111111] border-[#262626] hover:border-[#333333]'}
+                                                ${isEditing ? 'cursor-grab' : ''}
+                                                ${draggedVideoId === video.videoId ? 'opacity-40' : ''}
                                             `}
                                         >
                                             <div 
@@ -256,6 +521,16 @@ export default function LearningPath({ learningPath, savedPathId: initialSavedPa
                                                         <h4 className={`text-sm font-semibold leading-relaxed transition-all ${isWatched ? 'text-slate-600' : 'text-slate-200'}`}>
                                                             {video.title}
                                                         </h4>
+                                                        {isEditing && (
+                                                            <button
+                                                                onClick={(e) => removeVideo(video.videoId, e)}
+                                                                disabled={isApplyingEdit}
+                                                                className="text-xs text-slate-500 hover:text-rose-500 transition-colors"
+                                                                title="Remove from path"
+                                                            >
+                                                                ✕
+                                                            </button>
+                                                        )}
                                                     </div>
 
                                                     <div className="flex flex-wrap items-center gap-4 mt-3">
@@ -289,6 +564,48 @@ export default function LearningPath({ learningPath, savedPathId: initialSavedPa
                                                             <p className="text-[11px] text-slate-400 font-medium leading-relaxed italic">"{video.whyRecommended}"</p>
                                                         </div>
                                                     </div>
+
+                                                    {canEdit && (
+                                                        <div className="flex flex-wrap items-center gap-2">
+                                                            <span className="text-[10px] font-bold uppercase tracking-[0.2em] text-slate-600 mr-2">
+                                                                {swappingVideoId === video.videoId ? 'Finding a replacement...' : 'Swap video'}
+                                                            </span>
+                                                            {SWAP_REASONS.map(({ reason, label }) => (
+                                                                <button
+                                                                    key={reason}
+                                                                    onClick={() => swapVideo(video.videoId, reason)}
+                                                                    disabled={swappingVideoId !== null || isApplyingEdit}
+                                                                    className="text-[10px] font-bold px-2 py-1 rounded border border-[#262626] text-slate-400 hover:text-white hover:border-[#333333] transition-colors disabled:opacity-40"
+                                                                >
+                                                                    {label}
+                                                                </button>
+                                                            ))}
+                                                        </div>
+                                                    )}
+
+                                                    {canEdit && (
+                                                        <div className="space-y-2">
+                                                            <h5 className="text-[10px] font-bold uppercase tracking-[0.2em] text-slate-600">Your Notes</h5>
+                                                            <textarea
+                                                                value={noteDraft}
+                                                                maxLength={2000}
+                                                                rows={3}
+                                                                placeholder="Jot down timestamps, questions, key takeaways..."
+                                                                onChange={(e) => setNoteDrafts(prev => ({ ...prev, [video.videoId]: e.target.value }))}
+                                                                className="w-full p-3 rounded-lg bg-black/40 border border-[#262626] text-[12px] text-slate-300 placeholder-slate-600 focus:outline-none focus:border-[#333333] resize-y"
+                                                            />
+                                                            {noteDraft !== (video.notes ?? '') && (
+                                                                <Button
+                                                                    variant="secondary"
+                                                                    className="text-xs"
+                                                                    disabled={isApplyingEdit}
+                                                                    onClick={() => saveNote(video.videoId)}
+                                                                >
+                                                                    Save Note
+                                                                </Button>
+                                                            )}
+                                                        </div>
+                                                    )}
                                                     
                                                     <Button 
                                                         variant="primary" 
@@ -302,6 +619,38 @@ export default function LearningPath({ learningPath, savedPathId: initialSavedPa
                                         </div>
                                     );
                                 })}
+
+                                {isEditing && stage.videos.length === 0 && (
+                                    <p className="p-4 rounded-xl border border-dashed border-[#262626] text-[11px] text-slate-600 text-center">
+                                        Drag videos here
+                                    </p>
+                                )}
+
+                                {isEditing && (
+                                    <div className="flex flex-col sm:flex-row gap-2">
+                                        <input
+                                            value={newVideos[stage.stageNumber]?.url ?? ''}
+                                            placeholder="YouTube link or video ID"
+                                            onChange={(e) => setNewVideos(prev => ({ ...prev, [stage.stageNumber]: { title: prev[stage.stageNumber]?.title ?? '', url: e.target.value } }))}
+                                            className="flex-1 px-3 py-2 rounded-lg bg-black/40 border border-[#262626] text-[12px] text-slate-300 placeholder-slate-600 focus:outline-none focus:border-[#333333]"
+                                        />
+                                        <input
+                                            value={newVideos[stage.stageNumber]?.title ?? ''}
+                                            placeholder="Title"
+                                            maxLength={200}
+                                            onChange={(e) => setNewVideos(prev => ({ ...prev, [stage.stageNumber]: { url: prev[stage.stageNumber]?.url ?? '', title: e.target.value } }))}
+                                            className="flex-1 px-3 py-2 rounded-lg bg-black/40 border border-[#262626] text-[12px] text-slate-300 placeholder-slate-600 focus:outline-none focus:border-[#333333]"
+                                        />
+                                        <Button
+                                            variant="outline"
+                                            className="text-xs"
+                                            disabled={isApplyingEdit || !newVideos[stage.stageNumber]?.url}
+                                            onClick={() => addVideo(stage.stageNumber)}
+                                        >
+                                            Add Video
+                                        </Button>
+                                    </div>
+                                )}
                             </div>
                         </div>
                     </div>
@@ -320,6 +669,31 @@ export default function LearningPath({ learningPath, savedPathId: initialSavedPa
                     ))}
                 </div>
             </div>
+
+            {/* Next Level */}
+            {progressPercent === 100 && savedPathId && !isGuest && !continuation && (
+                <div className="p-8 rounded-2xl bg-[#111111] border border-emerald-500/20">
+                    <h4 className="text-[10px] font-bold text-emerald-400 uppercase tracking-[0.4em] mb-4">Continue your journey</h4>
+                    <p className="text-sm text-slate-400 leading-relaxed mb-6">
+                        You finished every video in this path. Build a follow-up path at the next level that covers what this one left out.
+                    </p>
+                    <Button
+                        variant="glow"
+                        className="text-[10px] font-bold uppercase tracking-widest"
+                        disabled={isContinuing}
+                        onClick={continueJourney}
+                    >
+                        {isContinuing ? 'Building your next path...' : 'Start the next level'}
+                    </Button>
+                    {continueMessage && (
+                        <p className="mt-3 text-[11px] font-medium text-amber-400">{continueMessage}</p>
+                    )}
+                </div>
+            )}
+
+            {continuation && (
+                <LearningPath learningPath={continuation.learningPath} savedPathId={continuation.learningPathId} />
+            )}
         </div>
     );
 }
@@ -7,9 +7,10 @@ import LearningPath from './LearningPath';
 
 interface MessageBubbleProps {
     message: ChatMessage;
+    onQuickReply?: (reply: string) => void;
 }
 
-export default function MessageBubble({ message }: MessageBubbleProps) {
+export default function MessageBubble({ message, onQuickReply }: MessageBubbleProps) {
     const isAssistant = message.role === 'assistant';
 
     if (message.isLoading) {
@@ -57,6 +58,7 @@ export default function MessageBubble({ message }: MessageBubbleProps) {
                     
                     <div className={isAssistant ? 'mt-2' : ''}>
                         {message.content}
+                        {message.isStreaming && <span className="inline-block w-2 h-4 ml-1 align-middle bg-violet-400 animate-pulse" />}
                     </div>
 
                     <div className={`mt-5 text-[9px] font-black tracking-[0.2em] ${isAssistant ? 'text-slate-700' : 'text-black/30'}`}>
@@ -64,6 +66,36 @@ export default function MessageBubble({ message }: MessageBubbleProps) {
                     </div>
                 </div>
 
+                {/* Suggested answers to a clarifying question */}
+                {onQuickReply && message.quickReplies && message.quickReplies.length > 0 && (
+                    <div className="mt-4 flex flex-wrap gap-2">
+                        {message.quickReplies.map((reply) => (
+                            <button
+                                key={reply}
+                                onClick={() => onQuickReply(reply)}
+                                className="px-4 py-2 rounded-full border border-violet-500/30 bg-violet-500/5 text-xs font-bold text-violet-300 hover:bg-violet-500/15 transition-colors"
+                            >
+                                {reply}
+                            </button>
+                        ))}
+                    </div>
+                )}
+
+                {/* Stages arriving while the learning path is still streaming */}
+                {message.partialStages && message.partialStages.length > 0 && !message.learningPath && (
+                    <div className="mt-8 w-full space-y-3">
+                        {message.partialStages.map((stage) => (
+                            <div key={stage.stageNumber} className="glass-panel border-white/5 rounded-2xl px-6 py-4 flex items-center justify-between gap-4 animate-in fade-in slide-in-from-bottom-2 duration-300">
+                                <div className="flex flex-col">
+                                    <span className="text-xs font-black uppercase tracking-widest text-white">{stage.stageName}</span>
+                                    <span className="text-[11px] text-slate-500">{stage.description}</span>
+                                </div>
+                                <span className="text-[10px] font-black uppercase tracking-widest text-violet-400 whitespace-nowrap">{stage.videos.length} videos</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
                 {/* Learning Path Architecture */}
                 {message.learningPath && (
                     <div className="mt-12 w-full animate-in slide-in-from-bottom-4 duration-700">
@@ -72,7 +104,7 @@ export default function MessageBubble({ message }: MessageBubbleProps) {
                              <div className="h-px flex-1 bg-white/5" />
                         </div>
                         <div className="glass-panel border-white/5 rounded-[2.5rem] p-4">
-                            <LearningPath learningPath={message.learningPath} savedPathId={message.savedPathId} />
+                            <LearningPath learningPath={message.learningPath} savedPathId={message.savedPathId} guestPathId={message.guestPathId} />
                         </div>
                     </div>
                 )}
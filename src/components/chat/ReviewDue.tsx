@@ -0,0 +1,127 @@
+'use client';
+
+// "Due for review" section: concepts from watched videos that spaced repetition says to recall today
+import React, { useState, useEffect, useCallback } from 'react';
+
+// Matches DueReview in lib/review.ts
+interface DueReview {
+    id: string;
+    concept: string;
+    videoId: string;
+    videoTitle: string;
+    learningPathId: string;
+    topic: string;
+    dueAt: string;
+    repetitions: number;
+}
+
+// SM-2 recall quality sent to /api/review/rate
+const RATINGS = [
+    { rating: 1, label: 'Forgot', className: 'border-red-500/30 text-red-300 hover:bg-red-500/10' },
+    { rating: 3, label: 'Hard', className: 'border-amber-500/30 text-amber-300 hover:bg-amber-500/10' },
+    { rating: 4, label: 'Good', className: 'border-emerald-500/30 text-emerald-300 hover:bg-emerald-500/10' },
+    { rating: 5, label: 'Easy', className: 'border-sky-500/30 text-sky-300 hover:bg-sky-500/10' },
+] as const;
+
+export function ReviewDue() {
+    const [reviews, setReviews] = useState<DueReview[]>([]);
+    const [dueCount, setDueCount] = useState(0);
+    const [ratingId, setRatingId] = useState<string | null>(null);
+
+    const loadReviews = useCallback(async () => {
+        try {
+            const res = await fetch('/api/review/due', { credentials: 'include' });
+            const data = await res.json();
+            if (data.success) {
+                setReviews(data.reviews);
+                setDueCount(data.dueCount);
+            }
+        } catch (err) {
+            console.error('Review Load Error:', err);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadReviews();
+    }, [loadReviews]);
+
+    const rate = async (reviewId: string, rating: number) => {
+        setRatingId(reviewId);
+        try {
+            const res = await fetch('/api/review/rate', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify({ reviewItemId: reviewId, rating }),
+            });
+            const data = await res.json();
+            if (data.success) {
+                const remaining = reviews.filter(review => review.id !== reviewId);
+                setReviews(remaining);
+                setDueCount(prev => Math.max(prev - 1, 0));
+                // More were due than fit in one page
+                if (remaining.length === 0 && dueCount > 1) loadReviews();
+            }
+        } catch (err) {
+            console.error('Review Rating Error:', err);
+        } finally {
+            setRatingId(null);
+        }
+    };
+
+    if (reviews.length === 0) return null;
+
+    return (
+        <div className="p-6 rounded-2xl bg-[#111111] border border-[#262626] mb-6">
+            <div className="flex items-center justify-between mb-4">
+                <h4 className="text-[10px] font-bold text-white uppercase tracking-[0.4em]">Due for review</h4>
+                <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{dueCount} due</span>
+            </div>
+            <p className="text-[12px] text-slate-500 mb-5">
+                Try to explain each concept from memory, then rate how well you remembered it.
+            </p>
+
+            <div className="space-y-3">
+                {reviews.map((review) => (
+                    <div key={review.id} className="p-4 rounded-xl bg-black/40 border border-[#262626]">
+                        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                            <div className="min-w-0">
+                                <p className="text-sm font-bold text-white">{review.concept}</p>
+                                <p className="text-[11px] text-slate-500 truncate">
+                                    {review.topic}
+                                    {review.videoTitle && (
+                                        <>
+                                            {' · '}
+                                            <a
+                                                href={`https://www.youtube.com/watch?v=${review.videoId}`}
+                                                target="_blank"
+                                                rel="noopener noreferrer"
+                                                className="hover:text-slate-300 underline-offset-2 hover:underline"
+                                            >
+                                                {review.videoTitle}
+                                            </a>
+                                        </>
+                                    )}
+                                </p>
+                            </div>
+                            <div className="flex gap-2 flex-shrink-0">
+                                {RATINGS.map(({ rating, label, className }) => (
+                                    <button
+                                        key={rating}
+                                        disabled={ratingId === review.id}
+                                        onClick={() => rate(review.id, rating)}
+                                        className={`px-3 py-1.5 rounded-lg border text-[11px] font-medium transition-colors disabled:opacity-50 ${className}`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
+
+export default ReviewDue;
@@ -0,0 +1,201 @@
+'use client';
+
+// Data export and account deletion for settings page
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import ReauthField from './ReauthField';
+
+interface AccountDataProps {
+    twoFactorEnabled: boolean;
+    hasPassword: boolean;
+}
+
+export default function AccountData({ twoFactorEnabled, hasPassword }: AccountDataProps) {
+    const router = useRouter();
+    const { logout } = useAuth();
+    const [exporting, setExporting] = useState(false);
+    const [exportError, setExportError] = useState<string | null>(null);
+    const [showDeleteModal, setShowDeleteModal] = useState(false);
+    const [form, setForm] = useState({ password: '', code: '', confirmation: '' });
+    const [deleting, setDeleting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleExport = async () => {
+        setExporting(true);
+        setExportError(null);
+        try {
+            const res = await fetch('/api/account/export', {
+                method: 'POST',
+                credentials: 'include',
+            });
+
+            if (!res.ok) {
+                const data = await res.json();
+                setExportError(data.message || 'Failed to export data');
+                return;
+            }
+
+            // Trigger a download using the filename the server picked
+            const blob = await res.blob();
+            const disposition = res.headers.get('Content-Disposition') || '';
+            const filename = disposition.match(/filename="(.+)"/)?.[1] || 'linkme-export.json';
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = filename;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch {
+            setExportError('Failed to export data');
+        } finally {
+            setExporting(false);
+        }
+    };
+
+    const closeModal = () => {
+        setShowDeleteModal(false);
+        setForm({ password: '', code: '', confirmation: '' });
+        setError(null);
+    };
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        setForm(prev => ({ ...prev, [e.target.name]: e.target.value }));
+    };
+
+    const handleDelete = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setDeleting(true);
+        setError(null);
+        try {
+            const res = await fetch('/api/account', {
+                method: 'DELETE',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify({
+                    ...(hasPassword ? { password: form.password } : { emailCode: form.password }),
+                    code: form.code || undefined,
+                }),
+            });
+            const data = await res.json();
+
+            if (data.success) {
+                await logout();
+                router.push('/');
+            } else {
+                setError(data.message || 'Failed to delete account');
+            }
+        } catch {
+            setError('Failed to delete account');
+        } finally {
+            setDeleting(false);
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-start justify-between">
+                <div>
+                    <h3 className="font-medium text-white flex items-center gap-2">
+                        📦 Export Your Data
+                    </h3>
+                    <p className="text-slate-400 text-sm mt-1">
+                        Download your profile, chat history, learning paths and progress as JSON.
+                    </p>
+                    {exportError && (
+                        <p className="text-red-400 text-sm mt-2">{exportError}</p>
+                    )}
+                </div>
+                <button
+                    onClick={handleExport}
+                    disabled={exporting}
+                    className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors text-sm disabled:opacity-50"
+                >
+                    {exporting ? 'Preparing...' : 'Download'}
+                </button>
+            </div>
+
+            <div className="border-t border-slate-700" />
+
+            <div className="flex items-start justify-between">
+                <div>
+                    <h3 className="font-medium text-white flex items-center gap-2">
+                        🗑️ Delete Account
+                    </h3>
+                    <p className="text-slate-400 text-sm mt-1">
+                        Permanently removes your account and all of your data. This cannot be undone.
+                    </p>
+                </div>
+                <button
+                    onClick={() => setShowDeleteModal(true)}
+                    className="px-4 py-2 bg-red-500/20 hover:bg-red-500/30 text-red-400 rounded-lg transition-colors text-sm"
+                >
+                    Delete Account
+                </button>
+            </div>
+
+            {/* Delete Account Modal */}
+            {showDeleteModal && (
+                <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+                    <form onSubmit={handleDelete} className="bg-slate-800 border border-slate-700 rounded-xl p-6 max-w-md w-full">
+                        <h3 className="text-lg font-semibold text-white mb-2">Delete Your Account</h3>
+                        <p className="text-slate-400 text-sm mb-4">
+                            Your learning paths, progress, chat history and YouTube connection will be removed.
+                            Type <span className="font-mono text-white">DELETE</span> and enter your {hasPassword ? 'password' : 'emailed code'} to confirm.
+                        </p>
+                        {error && (
+                            <div className="mb-4 p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-400 text-sm">
+                                {error}
+                            </div>
+                        )}
+                        <div className="space-y-3 mb-4">
+                            <input
+                                type="text"
+                                name="confirmation"
+                                value={form.confirmation}
+                                onChange={handleChange}
+                                placeholder="DELETE"
+                                className="w-full px-4 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-red-500"
+                            />
+                            <ReauthField
+                                hasPassword={hasPassword}
+                                name="password"
+                                value={form.password}
+                                onChange={handleChange}
+                                placeholder="Enter your password"
+                                className="w-full px-4 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-red-500"
+                            />
+                            {twoFactorEnabled && (
+                                <input
+                                    type="text"
+                                    name="code"
+                                    value={form.code}
+                                    onChange={handleChange}
+                                    placeholder="Authenticator or backup code"
+                                    autoComplete="one-time-code"
+                                    className="w-full px-4 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-red-500"
+                                />
+                            )}
+                        </div>
+                        <div className="flex gap-2 justify-end">
+                            <button
+                                type="button"
+                                onClick={closeModal}
+                                className="px-4 py-2 text-slate-400 hover:text-white transition-colors"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={deleting || form.confirmation !== 'DELETE' || !form.password || (twoFactorEnabled && !form.code)}
+                                className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors disabled:opacity-50"
+                            >
+                                {deleting ? 'Deleting...' : 'Delete Forever'}
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,220 @@
+'use client';
+
+// Change email form for settings page
+// Step 1 re-authenticates and emails a code to the new address; step 2 confirms the code
+import React, { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import ReauthField from './ReauthField';
+
+interface ChangeEmailProps {
+    currentEmail: string;
+    initialPendingEmail: string | null;
+    twoFactorEnabled: boolean;
+    hasPassword: boolean;
+}
+
+export default function ChangeEmail({ currentEmail, initialPendingEmail, twoFactorEnabled, hasPassword }: ChangeEmailProps) {
+    const { refreshAuth } = useAuth();
+    const [open, setOpen] = useState(false);
+    const [pendingEmail, setPendingEmail] = useState<string | null>(initialPendingEmail);
+    const [form, setForm] = useState({ newEmail: '', password: '', code: '' });
+    const [verificationCode, setVerificationCode] = useState('');
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        setForm(prev => ({ ...prev, [e.target.name]: e.target.value }));
+    };
+
+    const requestChange = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setLoading(true);
+        setError(null);
+        try {
+            const res = await fetch('/api/account/email', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify({
+                    newEmail: form.newEmail,
+                    ...(hasPassword ? { password: form.password } : { emailCode: form.password }),
+                    code: form.code || undefined,
+                }),
+            });
+            const data = await res.json();
+
+            if (data.success) {
+                setPendingEmail(data.pendingEmail);
+                setForm({ newEmail: '', password: '', code: '' });
+                setOpen(false);
+                setSuccessMessage(data.message);
+            } else {
+                setError(data.message || 'Failed to change email');
+            }
+        } catch {
+            setError('Failed to change email');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const confirmChange = async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            const res = await fetch('/api/account/email/verify', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify({ code: verificationCode }),
+            });
+            const data = await res.json();
+
+            if (data.success) {
+                setPendingEmail(null);
+                setVerificationCode('');
+                setSuccessMessage(data.message);
+                await refreshAuth();
+            } else {
+                setError(data.message || 'Invalid code');
+            }
+        } catch {
+            setError('Verification failed');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const cancelChange = async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            await fetch('/api/account/email', {
+                method: 'DELETE',
+                credentials: 'include',
+            });
+            setPendingEmail(null);
+            setVerificationCode('');
+            setSuccessMessage(null);
+        } catch {
+            setError('Failed to cancel email change');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-start justify-between">
+                <div>
+                    <h3 className="font-medium text-white flex items-center gap-2">
+                        ✉️ Email Address
+                    </h3>
+                    <p className="text-slate-400 text-sm mt-1">
+                        Currently <span className="text-white">{currentEmail}</span>
+                    </p>
+                </div>
+                {!open && !pendingEmail && (
+                    <button
+                        onClick={() => { setOpen(true); setSuccessMessage(null); }}
+                        className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors text-sm"
+                    >
+                        Change Email
+                    </button>
+                )}
+            </div>
+
+            {successMessage && (
+                <div className="p-3 bg-emerald-500/20 border border-emerald-500/30 rounded-lg text-emerald-400 text-sm">
+                    {successMessage}
+                </div>
+            )}
+            {error && (
+                <div className="p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-400 text-sm">
+                    {error}
+                </div>
+            )}
+
+            {open && (
+                <form onSubmit={requestChange} className="space-y-3">
+                    <input
+                        type="email"
+                        name="newEmail"
+                        value={form.newEmail}
+                        onChange={handleChange}
+                        placeholder="New email address"
+                        className="w-full px-4 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-violet-500"
+                    />
+                    <ReauthField
+                        hasPassword={hasPassword}
+                        name="password"
+                        value={form.password}
+                        onChange={handleChange}
+                        className="w-full px-4 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-violet-500"
+                    />
+                    {twoFactorEnabled && (
+                        <input
+                            type="text"
+                            name="code"
+                            value={form.code}
+                            onChange={handleChange}
+                            placeholder="Authenticator or backup code"
+                            autoComplete="one-time-code"
+                            className="w-full px-4 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-violet-500"
+                        />
+                    )}
+                    <div className="flex gap-2 justify-end">
+                        <button
+                            type="button"
+                            onClick={() => { setOpen(false); setError(null); }}
+                            className="px-4 py-2 text-slate-400 hover:text-white transition-colors"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="submit"
+                            disabled={loading || !form.newEmail || !form.password || (twoFactorEnabled && !form.code)}
+                            className="px-4 py-2 bg-violet-600 hover:bg-violet-700 text-white rounded-lg transition-colors disabled:opacity-50"
+                        >
+                            {loading ? 'Sending...' : 'Send Verification Code'}
+                        </button>
+                    </div>
+                </form>
+            )}
+
+            {pendingEmail && (
+                <div className="p-4 bg-slate-900/50 rounded-lg border border-slate-700 space-y-3">
+                    <p className="text-slate-300 text-sm">
+                        Enter the 6-digit code we sent to <span className="text-white font-medium">{pendingEmail}</span>.
+                        Your current address stays active until you confirm.
+                    </p>
+                    <div className="flex gap-2">
+                        <input
+                            type="text"
+                            value={verificationCode}
+                            onChange={(e) => setVerificationCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                            placeholder="000000"
+                            className="w-32 px-4 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white text-center text-lg tracking-widest focus:outline-none focus:border-violet-500"
+                            maxLength={6}
+                        />
+                        <button
+                            onClick={confirmChange}
+                            disabled={loading || verificationCode.length !== 6}
+                            className="px-4 py-2 bg-violet-600 hover:bg-violet-700 text-white rounded-lg transition-colors disabled:opacity-50"
+                        >
+                            {loading ? 'Verifying...' : 'Confirm'}
+                        </button>
+                        <button
+                            onClick={cancelChange}
+                            disabled={loading}
+                            className="px-4 py-2 text-slate-400 hover:text-white transition-colors"
+                        >
+                            Cancel
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
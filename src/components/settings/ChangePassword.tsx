@@ -0,0 +1,162 @@
+'use client';
+
+// Change password form for settings page
+import React, { useState } from 'react';
+import ReauthField from './ReauthField';
+
+interface ChangePasswordProps {
+    twoFactorEnabled: boolean;
+    hasPassword: boolean;
+    onPasswordSet: () => void;
+}
+
+export default function ChangePassword({ twoFactorEnabled, hasPassword, onPasswordSet }: ChangePasswordProps) {
+    const [open, setOpen] = useState(false);
+    const [form, setForm] = useState({ currentPassword: '', newPassword: '', confirmPassword: '', code: '' });
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+    const reset = () => {
+        setOpen(false);
+        setForm({ currentPassword: '', newPassword: '', confirmPassword: '', code: '' });
+        setError(null);
+    };
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        setForm(prev => ({ ...prev, [e.target.name]: e.target.value }));
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError(null);
+
+        if (form.newPassword !== form.confirmPassword) {
+            setError('New passwords do not match');
+            return;
+        }
+
+        setLoading(true);
+        try {
+            const res = await fetch('/api/account/password', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify({
+                    ...(hasPassword ? { currentPassword: form.currentPassword } : { emailCode: form.currentPassword }),
+                    newPassword: form.newPassword,
+                    code: form.code || undefined,
+                }),
+            });
+            const data = await res.json();
+
+            if (data.success) {
+                reset();
+                setSuccessMessage(data.message);
+                onPasswordSet();
+            } else {
+                setError(data.message || 'Failed to change password');
+            }
+        } catch {
+            setError('Failed to change password');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-start justify-between">
+                <div>
+                    <h3 className="font-medium text-white flex items-center gap-2">
+                        🔑 Password
+                    </h3>
+                    <p className="text-slate-400 text-sm mt-1">
+                        {hasPassword
+                            ? 'Changing your password signs you out on every other device.'
+                            : 'You sign in with Google. Set a password to sign in with your email too.'}
+                    </p>
+                </div>
+                {!open && (
+                    <button
+                        onClick={() => { setOpen(true); setSuccessMessage(null); }}
+                        className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors text-sm"
+                    >
+                        {hasPassword ? 'Change Password' : 'Set Password'}
+                    </button>
+                )}
+            </div>
+
+            {successMessage && (
+                <div className="p-3 bg-emerald-500/20 border border-emerald-500/30 rounded-lg text-emerald-400 text-sm">
+                    {successMessage}
+                </div>
+            )}
+
+            {open && (
+                <form onSubmit={handleSubmit} className="space-y-3">
+                    {error && (
+                        <div className="p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-400 text-sm">
+                            {error}
+                        </div>
+                    )}
+                    <ReauthField
+                        hasPassword={hasPassword}
+                        name="currentPassword"
+                        value={form.currentPassword}
+                        onChange={handleChange}
+                        className="w-full px-4 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-violet-500"
+                    />
+                    <input
+                        type="password"
+                        name="newPassword"
+                        value={form.newPassword}
+                        onChange={handleChange}
+                        placeholder="New password"
+                        autoComplete="new-password"
+                        className="w-full px-4 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-violet-500"
+                    />
+                    <input
+                        type="password"
+                        name="confirmPassword"
+                        value={form.confirmPassword}
+                        onChange={handleChange}
+                        placeholder="Confirm new password"
+                        autoComplete="new-password"
+                        className="w-full px-4 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-violet-500"
+                    />
+                    {twoFactorEnabled && (
+                        <input
+                            type="text"
+                            name="code"
+                            value={form.code}
+                            onChange={handleChange}
+                            placeholder="Authenticator or backup code"
+                            autoComplete="one-time-code"
+                            className="w-full px-4 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-violet-500"
+                        />
+                    )}
+                    <p className="text-xs text-slate-500">
+                        At least 8 characters with an uppercase letter, a lowercase letter and a number.
+                    </p>
+                    <div className="flex gap-2 justify-end">
+                        <button
+                            type="button"
+                            onClick={reset}
+                            className="px-4 py-2 text-slate-400 hover:text-white transition-colors"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="submit"
+                            disabled={loading || !form.currentPassword || !form.newPassword || (twoFactorEnabled && !form.code)}
+                            className="px-4 py-2 bg-violet-600 hover:bg-violet-700 text-white rounded-lg transition-colors disabled:opacity-50"
+                        >
+                            {loading ? 'Saving...' : 'Update Password'}
+                        </button>
+                    </div>
+                </form>
+            )}
+        </div>
+    );
+}
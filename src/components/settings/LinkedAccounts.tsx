@@ -0,0 +1,163 @@
+'use client';
+
+// Linked sign-in accounts panel for settings page
+import React, { useState, useEffect, useCallback } from 'react';
+import { LinkedAccountSummary } from '@/types';
+
+export default function LinkedAccounts() {
+    const [accounts, setAccounts] = useState<LinkedAccountSummary[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [unlinking, setUnlinking] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+    // Check for URL params on mount (from OAuth callback)
+    useEffect(() => {
+        const params = new URLSearchParams(window.location.search);
+        if (params.get('google_linked') === 'true') {
+            setSuccessMessage('Google account linked. You can now continue with Google to sign in.');
+            window.history.replaceState({}, '', '/settings');
+        }
+        if (params.get('google_error')) {
+            const errorCode = params.get('google_error');
+            const errorMessages: Record<string, string> = {
+                access_denied: 'Google access was denied',
+                missing_params: 'Invalid OAuth response',
+                invalid_state: 'Session expired, please try again',
+                unverified_email: 'Your Google email address is not verified',
+                linked_elsewhere: 'That Google account is already linked to another LinkMe account',
+                already_linked: 'A different Google account is already linked. Unlink it first.',
+                not_configured: 'Google sign-in is not available right now',
+                sign_in_failed: 'Failed to link Google account',
+            };
+            setError(errorCode && errorMessages[errorCode] ? errorMessages[errorCode] : 'An error occurred');
+            window.history.replaceState({}, '', '/settings');
+        }
+    }, []);
+
+    const fetchAccounts = useCallback(async () => {
+        try {
+            const res = await fetch('/api/auth/accounts', {
+                credentials: 'include',
+            });
+            const data = await res.json();
+            if (data.success) {
+                setAccounts(data.accounts);
+            }
+        } catch (err) {
+            console.error('Failed to fetch linked accounts:', err);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchAccounts();
+    }, [fetchAccounts]);
+
+    // Clear messages after 5 seconds
+    useEffect(() => {
+        if (successMessage || error) {
+            const timer = setTimeout(() => {
+                setSuccessMessage(null);
+                setError(null);
+            }, 5000);
+            return () => clearTimeout(timer);
+        }
+    }, [successMessage, error]);
+
+    const google = accounts.find(account => account.provider === 'google');
+
+    const handleLink = () => {
+        // Redirect to Google OAuth
+        window.location.href = '/api/auth/google?intent=link';
+    };
+
+    const handleUnlink = async () => {
+        if (!google) return;
+        setUnlinking(true);
+        setError(null);
+        try {
+            const res = await fetch(`/api/auth/accounts?id=${encodeURIComponent(google.id)}`, {
+                method: 'DELETE',
+                credentials: 'include',
+            });
+            const data = await res.json();
+
+            if (data.success) {
+                setSuccessMessage(data.message);
+                await fetchAccounts();
+            } else {
+                setError(data.message || 'Failed to unlink account');
+            }
+        } catch {
+            setError('Failed to unlink account');
+        } finally {
+            setUnlinking(false);
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="animate-pulse">
+                <div className="h-20 bg-slate-700/50 rounded-xl"></div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-start justify-between">
+                <div>
+                    <h3 className="font-medium text-white flex items-center gap-2">
+                        Google
+                    </h3>
+                    <p className="text-slate-400 text-sm mt-1">
+                        {google
+                            ? `Continue with Google signs you in as ${google.email || 'this account'}.`
+                            : 'Link your Google account to sign in with Continue with Google.'}
+                    </p>
+                </div>
+                {google && (
+                    <span className="px-3 py-1 bg-emerald-500/20 text-emerald-400 text-sm rounded-full">
+                        ✓ Linked
+                    </span>
+                )}
+            </div>
+
+            {/* Success/Error Messages */}
+            {successMessage && (
+                <div className="p-3 bg-emerald-500/20 border border-emerald-500/30 rounded-lg text-emerald-400 text-sm">
+                    {successMessage}
+                </div>
+            )}
+            {error && (
+                <div className="p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-400 text-sm">
+                    {error}
+                </div>
+            )}
+
+            {google ? (
+                <div className="space-y-2">
+                    <p className="text-slate-500 text-xs">
+                        If you signed up with Google, reset your password before unlinking so you can still sign in.
+                    </p>
+                    <button
+                        onClick={handleUnlink}
+                        disabled={unlinking}
+                        className="px-4 py-2 text-slate-400 hover:text-white border border-slate-600 hover:border-slate-500 rounded-lg transition-colors disabled:opacity-50 text-sm"
+                    >
+                        {unlinking ? 'Unlinking...' : 'Unlink Google'}
+                    </button>
+                </div>
+            ) : (
+                <button
+                    onClick={handleLink}
+                    className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors text-sm"
+                >
+                    Link Google Account
+                </button>
+            )}
+        </div>
+    );
+}
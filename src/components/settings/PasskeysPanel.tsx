@@ -0,0 +1,266 @@
+'use client';
+
+// Passkey management panel for settings page
+import React, { useState, useEffect, useCallback } from 'react';
+import { PasskeySummary } from '@/types';
+import { isPasskeySupported, createPasskey } from '@/lib/passkey-client';
+import ReauthField from './ReauthField';
+
+interface PasskeysPanelProps {
+    twoFactorEnabled: boolean;
+    hasPassword: boolean;
+}
+
+export default function PasskeysPanel({ twoFactorEnabled, hasPassword }: PasskeysPanelProps) {
+    const [passkeys, setPasskeys] = useState<PasskeySummary[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [supported, setSupported] = useState(true);
+    const [adding, setAdding] = useState(false);
+    const [form, setForm] = useState({ name: '', password: '', code: '' });
+    const [saving, setSaving] = useState(false);
+    const [removing, setRemoving] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+    const fetchPasskeys = useCallback(async () => {
+        try {
+            const res = await fetch('/api/auth/passkeys', {
+                credentials: 'include',
+            });
+            const data = await res.json();
+            if (data.success) {
+                setPasskeys(data.passkeys);
+            }
+        } catch (err) {
+            console.error('Failed to fetch passkeys:', err);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        setSupported(isPasskeySupported());
+        fetchPasskeys();
+    }, [fetchPasskeys]);
+
+    // Clear messages after 5 seconds
+    useEffect(() => {
+        if (successMessage || error) {
+            const timer = setTimeout(() => {
+                setSuccessMessage(null);
+                setError(null);
+            }, 5000);
+            return () => clearTimeout(timer);
+        }
+    }, [successMessage, error]);
+
+    const resetForm = () => {
+        setAdding(false);
+        setForm({ name: '', password: '', code: '' });
+    };
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        setForm(prev => ({ ...prev, [e.target.name]: e.target.value }));
+    };
+
+    const addPasskey = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSaving(true);
+        setError(null);
+        try {
+            // Confirm it's really the account owner before the browser prompt
+            const optionsRes = await fetch('/api/auth/passkeys/register/options', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify({
+                    ...(hasPassword ? { password: form.password } : { emailCode: form.password }),
+                    code: form.code || undefined,
+                }),
+            });
+            const optionsData = await optionsRes.json();
+            if (!optionsData.success) {
+                setError(optionsData.message || 'Failed to add passkey');
+                return;
+            }
+
+            const credential = await createPasskey(optionsData.options);
+            if (!credential) {
+                setError('Passkey setup was cancelled');
+                return;
+            }
+
+            const res = await fetch('/api/auth/passkeys/register', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify({ name: form.name.trim() || 'Passkey', credential }),
+            });
+            const data = await res.json();
+
+            if (data.success) {
+                resetForm();
+                setSuccessMessage(data.message);
+                await fetchPasskeys();
+            } else {
+                setError(data.message || 'Failed to add passkey');
+            }
+        } catch (err) {
+            if (err instanceof DOMException && err.name === 'NotAllowedError') {
+                setError('Passkey setup was cancelled');
+            } else if (err instanceof DOMException && err.name === 'InvalidStateError') {
+                setError('This device already has a passkey for your account');
+            } else {
+                setError('Failed to add passkey');
+            }
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const removePasskey = async (passkey: PasskeySummary) => {
+        setRemoving(passkey.id);
+        setError(null);
+        try {
+            const res = await fetch(`/api/auth/passkeys?id=${encodeURIComponent(passkey.id)}`, {
+                method: 'DELETE',
+                credentials: 'include',
+            });
+            const data = await res.json();
+
+            if (data.success) {
+                setSuccessMessage(data.message);
+                await fetchPasskeys();
+            } else {
+                setError(data.message || 'Failed to remove passkey');
+            }
+        } catch {
+            setError('Failed to remove passkey');
+        } finally {
+            setRemoving(null);
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="animate-pulse">
+                <div className="h-20 bg-slate-700/50 rounded-xl"></div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-start justify-between">
+                <div>
+                    <h3 className="font-medium text-white flex items-center gap-2">
+                        🔑 Passkeys
+                    </h3>
+                    <p className="text-slate-400 text-sm mt-1">
+                        Sign in with your fingerprint, face or device PIN instead of a password.
+                        A passkey also works in place of your authenticator code.
+                    </p>
+                </div>
+                {supported && !adding && (
+                    <button
+                        onClick={() => setAdding(true)}
+                        className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors text-sm whitespace-nowrap"
+                    >
+                        Add Passkey
+                    </button>
+                )}
+            </div>
+
+            {!supported && (
+                <p className="text-slate-500 text-sm">This browser doesn&apos;t support passkeys.</p>
+            )}
+
+            {/* Success/Error Messages */}
+            {successMessage && (
+                <div className="p-3 bg-emerald-500/20 border border-emerald-500/30 rounded-lg text-emerald-400 text-sm">
+                    {successMessage}
+                </div>
+            )}
+            {error && (
+                <div className="p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-400 text-sm">
+                    {error}
+                </div>
+            )}
+
+            {adding && (
+                <form onSubmit={addPasskey} className="space-y-3">
+                    <input
+                        type="text"
+                        name="name"
+                        value={form.name}
+                        onChange={handleChange}
+                        placeholder="Name, e.g. MacBook Touch ID"
+                        maxLength={50}
+                        className="w-full px-4 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-violet-500"
+                    />
+                    <ReauthField
+                        hasPassword={hasPassword}
+                        name="password"
+                        value={form.password}
+                        onChange={handleChange}
+                        className="w-full px-4 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-violet-500"
+                    />
+                    {twoFactorEnabled && (
+                        <input
+                            type="text"
+                            name="code"
+                            value={form.code}
+                            onChange={handleChange}
+                            placeholder="Authenticator or backup code"
+                            autoComplete="one-time-code"
+                            className="w-full px-4 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-violet-500"
+                        />
+                    )}
+                    <div className="flex gap-2 justify-end">
+                        <button
+                            type="button"
+                            onClick={resetForm}
+                            className="px-4 py-2 text-slate-400 hover:text-white transition-colors"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="submit"
+                            disabled={saving || !form.password || (twoFactorEnabled && !form.code)}
+                            className="px-4 py-2 bg-violet-600 hover:bg-violet-700 text-white rounded-lg transition-colors disabled:opacity-50"
+                        >
+                            {saving ? 'Waiting for device...' : 'Continue'}
+                        </button>
+                    </div>
+                </form>
+            )}
+
+            <div className="space-y-2">
+                {passkeys.map((passkey) => (
+                    <div
+                        key={passkey.id}
+                        className="flex items-center justify-between p-4 bg-slate-900/50 rounded-lg border border-slate-700"
+                    >
+                        <div>
+                            <p className="text-white font-medium">{passkey.name}</p>
+                            <p className="text-slate-500 text-xs">
+                                Added {new Date(passkey.createdAt).toLocaleDateString()}
+                                {passkey.lastUsedAt && ` · Last used ${new Date(passkey.lastUsedAt).toLocaleDateString()}`}
+                            </p>
+                        </div>
+                        <button
+                            onClick={() => removePasskey(passkey)}
+                            disabled={removing !== null}
+                            className="px-4 py-2 text-slate-400 hover:text-white border border-slate-600 hover:border-slate-500 rounded-lg transition-colors disabled:opacity-50 text-sm"
+                        >
+                            {removing === passkey.id ? 'Removing...' : 'Remove'}
+                        </button>
+                    </div>
+                ))}
+                {passkeys.length === 0 && (
+                    <p className="text-slate-500 text-sm">No passkeys yet.</p>
+                )}
+            </div>
+        </div>
+    );
+}
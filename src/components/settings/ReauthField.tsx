@@ -0,0 +1,77 @@
+'use client';
+
+// Current-password field for sensitive settings changes
+// Accounts without a password (Google sign-ups) enter a code we email them instead
+import React, { useState } from 'react';
+
+interface ReauthFieldProps {
+    hasPassword: boolean;
+    name: string;
+    value: string;
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+    placeholder?: string;
+    className: string;
+}
+
+export default function ReauthField({ hasPassword, name, value, onChange, placeholder = 'Current password', className }: ReauthFieldProps) {
+    const [sending, setSending] = useState(false);
+    const [message, setMessage] = useState<string | null>(null);
+
+    if (hasPassword) {
+        return (
+            <input
+                type="password"
+                name={name}
+                value={value}
+                onChange={onChange}
+                placeholder={placeholder}
+                autoComplete="current-password"
+                className={className}
+            />
+        );
+    }
+
+    const sendCode = async () => {
+        setSending(true);
+        setMessage(null);
+        try {
+            const res = await fetch('/api/account/reauth-code', {
+                method: 'POST',
+                credentials: 'include',
+            });
+            const data = await res.json();
+            setMessage(data.message || (data.success ? 'Code sent' : 'Failed to send the code'));
+        } catch {
+            setMessage('Failed to send the code');
+        } finally {
+            setSending(false);
+        }
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex gap-2">
+                <input
+                    type="text"
+                    name={name}
+                    value={value}
+                    onChange={onChange}
+                    placeholder="Code from your email"
+                    autoComplete="one-time-code"
+                    inputMode="numeric"
+                    maxLength={6}
+                    className={className}
+                />
+                <button
+                    type="button"
+                    onClick={sendCode}
+                    disabled={sending}
+                    className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors text-sm whitespace-nowrap disabled:opacity-50"
+                >
+                    {sending ? 'Sending...' : 'Email me a code'}
+                </button>
+            </div>
+            {message && <p className="text-xs text-slate-400">{message}</p>}
+        </div>
+    );
+}
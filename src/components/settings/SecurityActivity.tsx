@@ -0,0 +1,120 @@
+'use client';
+
+// Recent security activity list for settings page
+import React, { useState, useEffect } from 'react';
+import { SecurityActivityItem } from '@/types';
+
+// Labels for the audit event types in src/lib/audit.ts
+const EVENT_LABELS: Record<string, string> = {
+    signup: 'Account created',
+    login_success: 'Signed in',
+    login_failure: 'Failed sign-in attempt',
+    logout: 'Signed out',
+    email_verified: 'Email verified',
+    verification_resent: 'Verification code resent',
+    password_reset_requested: 'Password reset requested',
+    password_reset_completed: 'Password reset',
+    password_changed: 'Password changed',
+    email_change_requested: 'Email change requested',
+    email_changed: 'Email address changed',
+    account_deleted: 'Account deleted',
+    two_factor_enabled: '2FA enabled',
+    two_factor_disabled: '2FA disabled',
+    two_factor_failure: 'Incorrect 2FA code',
+    backup_code_used: 'Backup code used',
+    passkey_added: 'Passkey added',
+    passkey_removed: 'Passkey removed',
+    google_linked: 'Google account linked',
+    google_unlinked: 'Google account unlinked',
+    session_revoked: 'Device signed out',
+    refresh_token_reuse: 'Suspicious session reuse blocked',
+    youtube_connected: 'YouTube connected',
+    youtube_connect_failed: 'YouTube connection failed',
+    youtube_disconnected: 'YouTube disconnected',
+};
+
+// Events worth a second look if the user doesn't recognize them
+const WARNING_EVENTS = new Set(['login_failure', 'two_factor_failure', 'refresh_token_reuse']);
+
+const METHOD_LABELS: Record<string, string> = {
+    password: 'password',
+    passkey: 'passkey',
+    google: 'Google',
+    two_factor: '2FA code',
+};
+
+function describeEvent(item: SecurityActivityItem): string {
+    const label = EVENT_LABELS[item.type] || item.type;
+    const method = typeof item.metadata?.method === 'string' ? METHOD_LABELS[item.metadata.method] : undefined;
+    return method ? `${label} with ${method}` : label;
+}
+
+export default function SecurityActivity() {
+    const [activity, setActivity] = useState<SecurityActivityItem[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        const fetchActivity = async () => {
+            try {
+                const res = await fetch('/api/auth/activity', {
+                    credentials: 'include',
+                });
+                const data = await res.json();
+                if (data.success) {
+                    setActivity(data.activity);
+                }
+            } catch (err) {
+                console.error('Failed to fetch security activity:', err);
+            } finally {
+                setLoading(false);
+            }
+        };
+        fetchActivity();
+    }, []);
+
+    if (loading) {
+        return (
+            <div className="animate-pulse">
+                <div className="h-20 bg-slate-700/50 rounded-xl"></div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-4">
+            <div>
+                <h3 className="font-medium text-white flex items-center gap-2">
+                    🛡️ Recent Security Activity
+                </h3>
+                <p className="text-slate-400 text-sm mt-1">
+                    Sign-ins and security changes on your account. If something looks unfamiliar,
+                    change your password and sign out other devices.
+                </p>
+            </div>
+
+            <div className="space-y-2">
+                {activity.map((item) => (
+                    <div
+                        key={item.id}
+                        className="flex items-center justify-between p-4 bg-slate-900/50 rounded-lg border border-slate-700"
+                    >
+                        <div>
+                            <p className={`font-medium ${WARNING_EVENTS.has(item.type) ? 'text-amber-400' : 'text-white'}`}>
+                                {describeEvent(item)}
+                            </p>
+                            <p className="text-slate-400 text-sm">
+                                {item.device} · {item.ipAddress || 'Unknown location'}
+                            </p>
+                        </div>
+                        <p className="text-slate-500 text-xs whitespace-nowrap ml-4">
+                            {new Date(item.createdAt).toLocaleString()}
+                        </p>
+                    </div>
+                ))}
+                {activity.length === 0 && (
+                    <p className="text-slate-500 text-sm">No security activity recorded yet.</p>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,176 @@
+'use client';
+
+// Active sessions panel for settings page
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+
+interface Session {
+    id: string;
+    device: string;
+    ipAddress: string | null;
+    createdAt: string;
+    lastSeenAt: string;
+    current: boolean;
+}
+
+function formatLastSeen(value: string): string {
+    const minutes = Math.floor((Date.now() - new Date(value).getTime()) / 60000);
+    if (minutes < 5) return 'Active now';
+    if (minutes < 60) return `${minutes} minutes ago`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return hours === 1 ? '1 hour ago' : `${hours} hours ago`;
+    const days = Math.floor(hours / 24);
+    return days === 1 ? 'Yesterday' : `${days} days ago`;
+}
+
+export default function SessionsPanel() {
+    const { logout } = useAuth();
+    const [sessions, setSessions] = useState<Session[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [revoking, setRevoking] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+    const fetchSessions = useCallback(async () => {
+        try {
+            const res = await fetch('/api/auth/sessions', {
+                credentials: 'include',
+            });
+            const data = await res.json();
+            if (data.success) {
+                setSessions(data.sessions);
+            }
+        } catch (err) {
+            console.error('Failed to fetch sessions:', err);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchSessions();
+    }, [fetchSessions]);
+
+    const revokeSession = async (session?: Session) => {
+        setRevoking(session?.id || 'others');
+        setError(null);
+        try {
+            const query = session ? `?id=${encodeURIComponent(session.id)}` : '';
+            const res = await fetch(`/api/auth/sessions${query}`, {
+                method: 'DELETE',
+                credentials: 'include',
+            });
+            const data = await res.json();
+
+            if (!data.success) {
+                setError(data.message || 'Failed to sign out device');
+                return;
+            }
+
+            if (data.current) {
+                await logout();
+                return;
+            }
+
+            setSuccessMessage(data.message);
+            await fetchSessions();
+        } catch {
+            setError('Failed to sign out device');
+        } finally {
+            setRevoking(null);
+        }
+    };
+
+    // Clear messages after 5 seconds
+    useEffect(() => {
+        if (successMessage || error) {
+            const timer = setTimeout(() => {
+                setSuccessMessage(null);
+                setError(null);
+            }, 5000);
+            return () => clearTimeout(timer);
+        }
+    }, [successMessage, error]);
+
+    if (loading) {
+        return (
+            <div className="animate-pulse">
+                <div className="h-20 bg-slate-700/50 rounded-xl"></div>
+            </div>
+        );
+    }
+
+    const otherSessions = sessions.filter((session) => !session.current);
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-start justify-between">
+                <div>
+                    <h3 className="font-medium text-white flex items-center gap-2">
+                        💻 Sessions
+                    </h3>
+                    <p className="text-slate-400 text-sm mt-1">
+                        Devices where you are signed in. Sign out any you don&apos;t recognize.
+                    </p>
+                </div>
+                {otherSessions.length > 0 && (
+                    <button
+                        onClick={() => revokeSession()}
+                        disabled={revoking !== null}
+                        className="px-4 py-2 text-red-400 hover:text-red-300 border border-red-500/30 hover:border-red-500 rounded-lg transition-colors disabled:opacity-50 text-sm whitespace-nowrap"
+                    >
+                        {revoking === 'others' ? 'Signing out...' : 'Sign out other devices'}
+                    </button>
+                )}
+            </div>
+
+            {/* Success/Error Messages */}
+            {successMessage && (
+                <div className="p-3 bg-emerald-500/20 border border-emerald-500/30 rounded-lg text-emerald-400 text-sm">
+                    {successMessage}
+                </div>
+            )}
+            {error && (
+                <div className="p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-400 text-sm">
+                    {error}
+                </div>
+            )}
+
+            <div className="space-y-2">
+                {sessions.map((session) => (
+                    <div
+                        key={session.id}
+                        className="flex items-center justify-between p-4 bg-slate-900/50 rounded-lg border border-slate-700"
+                    >
+                        <div>
+                            <p className="text-white font-medium flex items-center gap-2">
+                                {session.device}
+                                {session.current && (
+                                    <span className="px-2 py-0.5 bg-violet-500/20 text-violet-300 text-xs rounded-full">
+                                        This device
+                                    </span>
+                                )}
+                            </p>
+                            <p className="text-slate-400 text-sm">
+                                {session.ipAddress || 'Unknown location'} · {session.current ? 'Active now' : formatLastSeen(session.lastSeenAt)}
+                            </p>
+                            <p className="text-slate-500 text-xs">
+                                Signed in {new Date(session.createdAt).toLocaleDateString()}
+                            </p>
+                        </div>
+                        <button
+                            onClick={() => revokeSession(session)}
+                            disabled={revoking !== null}
+                            className="px-4 py-2 text-slate-400 hover:text-white border border-slate-600 hover:border-slate-500 rounded-lg transition-colors disabled:opacity-50 text-sm"
+                        >
+                            {revoking === session.id ? 'Signing out...' : 'Sign out'}
+                        </button>
+                    </div>
+                ))}
+                {sessions.length === 0 && (
+                    <p className="text-slate-500 text-sm">No active sessions found.</p>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -3,8 +3,9 @@
 // Authentication context provider
 // Manages user state, tokens, and auth operations
 
-import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
 import { AuthUser } from '@/types';
+import { isPasskeySupported, getPasskeyAssertion } from '@/lib/passkey-client';
 
 // ============================================
 // Types
@@ -16,12 +17,17 @@ interface AuthContextType {
     isAuthenticated: boolean;
     isGuest: boolean;
     login: (email: string, password: string) => Promise<{ success: boolean; message: string; requires2FA?: boolean; requiresVerification?: boolean; email?: string }>;
+    loginWithPasskey: () => Promise<{ success: boolean; message: string; requiresVerification?: boolean; email?: string }>;
     signup: (email: string, password: string, name?: string) => Promise<{ success: boolean; message: string }>;
     logout: () => Promise<void>;
     continueAsGuest: () => Promise<void>;
     refreshAuth: () => Promise<void>;
 }
 
+// Access tokens live 15 minutes; refresh a minute before they expire
+const ACCESS_TOKEN_LIFETIME_MS = 15 * 60 * 1000;
+const REFRESH_LEAD_MS = 60 * 1000;
+
 // ============================================
 // Context
 // ============================================
@@ -35,6 +41,8 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: React.ReactNode }) {
     const [user, setUser] = useState<AuthUser | null>(null);
     const [isLoading, setIsLoading] = useState(true);
+    const [accessTokenExpiresAt, setAccessTokenExpiresAt] = useState<number | null>(null);
+    const refreshInFlight = useRef<Promise<void> | null>(null);
 
     // Check if user is authenticated
     const isAuthenticated = !!user && !user.isGuest;
@@ -51,6 +59,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
                 const data = await response.json();
                 if (data.success && data.user) {
                     setUser(data.user);
+                    setAccessTokenExpiresAt(data.accessTokenExpiresAt
+                        ? new Date(data.accessTokenExpiresAt).getTime()
+                        : Date.now() + ACCESS_TOKEN_LIFETIME_MS);
                 } else {
                     setUser(null);
                 }
@@ -65,11 +76,68 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         }
     }, []);
 
+    // Rotate the refresh token and get a new access token before the current one expires
+    const refreshTokens = useCallback(() => {
+        // Share one request between the timer and focus handler
+        if (refreshInFlight.current) return refreshInFlight.current;
+
+        refreshInFlight.current = (async () => {
+            try {
+                const response = await fetch('/api/auth/refresh', {
+                    method: 'POST',
+                    credentials: 'include',
+                });
+
+                // Another tab rotated the token first; its cookies are already set
+                if (response.status === 409) {
+                    await refreshAuth();
+                    return;
+                }
+
+                const data = await response.json();
+                if (data.success && data.user) {
+                    setUser(data.user);
+                    setAccessTokenExpiresAt(new Date(data.accessTokenExpiresAt).getTime());
+                } else if (response.status === 401) {
+                    setUser(null);
+                    setAccessTokenExpiresAt(null);
+                }
+            } catch (error) {
+                console.error('Failed to refresh tokens:', error);
+            } finally {
+                refreshInFlight.current = null;
+            }
+        })();
+
+        return refreshInFlight.current;
+    }, [refreshAuth]);
+
     // Initialize auth state on mount
     useEffect(() => {
         refreshAuth();
     }, [refreshAuth]);
 
+    // Schedule a transparent refresh shortly before the access token expires
+    useEffect(() => {
+        if (!isAuthenticated || !accessTokenExpiresAt) return;
+
+        const delay = Math.max(accessTokenExpiresAt - REFRESH_LEAD_MS - Date.now(), 0);
+        const timer = setTimeout(refreshTokens, delay);
+
+        // Timers are throttled in background tabs, so also check when the tab regains focus
+        const handleFocus = () => {
+            if (Date.now() >= accessTokenExpiresAt - REFRESH_LEAD_MS) {
+                refreshTokens();
+            }
+        };
+        window.addEventListener('focus', handleFocus);
+
+        return () => {
+            clearTimeout(timer);
+            window.removeEventListener('focus', handleFocus);
+        };
+    }, [isAuthenticated, accessTokenExpiresAt, refreshTokens]);
+
     // Login function
     const login = async (email: string, password: string) => {
         try {
@@ -94,6 +162,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
             if (data.success && data.user) {
                 setUser(data.user);
+                setAccessTokenExpiresAt(Date.now() + ACCESS_TOKEN_LIFETIME_MS);
                 return { success: true, message: 'Login successful' };
             }
 
@@ -104,14 +173,69 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         }
     };
 
-    // Signup function
-    const signup = async (email: string, password: string, name?: string) => {
+    // Passkey login; also stands in for a 2FA code
+    const loginWithPasskey = async () => {
+        if (!isPasskeySupported()) {
+            return { success: false, message: "This browser doesn't support passkeys" };
+        }
+
         try {
-            // Clear any existing session first (important for guest -> signup flow)
-            await fetch('/api/auth/logout', {
+            const optionsResponse = await fetch('/api/auth/passkeys/login/options', {
                 method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
                 credentials: 'include',
             });
+            const optionsData = await optionsResponse.json();
+
+            if (!optionsData.success) {
+                return { success: false, message: optionsData.message || 'Passkey sign-in failed' };
+            }
+
+            const credential = await getPasskeyAssertion(optionsData.options);
+            if (!credential) {
+                return { success: false, message: 'Passkey sign-in was cancelled' };
+            }
+
+            const response = await fetch('/api/auth/passkeys/login', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify({ credential }),
+            });
+            const data = await response.json();
+
+            if (data.success && data.requiresVerification) {
+                return { success: true, message: 'Email verification required', requiresVerification: true, email: data.email };
+            }
+
+            if (data.success && data.user) {
+                setUser(data.user);
+                setAccessTokenExpiresAt(Date.now() + ACCESS_TOKEN_LIFETIME_MS);
+                return { success: true, message: 'Login successful' };
+            }
+
+            return { success: false, message: data.message || 'Passkey sign-in failed' };
+        } catch (error) {
+            // The browser throws NotAllowedError when the prompt is dismissed or times out
+            if (error instanceof DOMException && error.name === 'NotAllowedError') {
+                return { success: false, message: 'Passkey sign-in was cancelled' };
+            }
+            console.error('Passkey login error:', error);
+            return { success: false, message: 'An error occurred during passkey sign-in' };
+        }
+    };
+
+    // Signup function
+    const signup = async (email: string, password: string, name?: string) => {
+        try {
+            // Clear any existing account session first; a guest token is kept so the
+            // server can move the guest's learning paths into the new account
+            if (!user?.isGuest) {
+                await fetch('/api/auth/logout', {
+                    method: 'POST',
+                    credentials: 'include',
+                });
+            }
 
             const response = await fetch('/api/auth/signup', {
                 method: 'POST',
@@ -124,6 +248,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
             if (data.success && data.user) {
                 setUser(data.user);
+                setAccessTokenExpiresAt(Date.now() + ACCESS_TOKEN_LIFETIME_MS);
                 return { success: true, message: data.message || 'Account created successfully' };
             }
 
@@ -144,6 +269,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
             });
         } finally {
             setUser(null);
+            setAccessTokenExpiresAt(null);
         }
     };
 
@@ -173,6 +299,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
                 isAuthenticated,
                 isGuest,
                 login,
+                loginWithPasskey,
                 signup,
                 logout,
                 continueAsGuest,
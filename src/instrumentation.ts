@@ -0,0 +1,10 @@
+// Server startup checks
+// Next.js calls register() once when a server instance boots
+
+export async function register() {
+    if (process.env.NEXT_RUNTIME === 'nodejs') {
+        // Refuse to start in production with the default encryption key
+        const { assertSecretsConfigured } = await import('./lib/secrets');
+        assertSecretsConfigured();
+    }
+}
@@ -0,0 +1,111 @@
+// Account data export and deletion
+// Collects everything stored about a user, and removes it when they close their account
+
+import { getDb } from './db';
+import { disconnectYouTube } from './youtube-auth';
+import { getLearningPathStagesByPath } from './learning-paths';
+
+// ============================================
+// Export
+// ============================================
+
+/**
+ * Parse a JSON column, falling back to the raw string if it was never valid JSON
+ */
+function parseJson(value: string): unknown {
+    try {
+        return JSON.parse(value);
+    } catch {
+        return value;
+    }
+}
+
+/**
+ * Build a portable copy of the user's data
+ * Secrets (password hash, 2FA secret, OAuth tokens) are left out on purpose.
+ * @param userId - The signed-in user's ID
+ */
+export async function buildAccountExport(userId: string) {
+    const prisma = getDb();
+
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) return null;
+
+    const [chatHistory, learningPaths, videoProgress, reviewItems, conversations, linkedAccounts, securityActivity] = await Promise.all([
+        prisma.chatHistory.findMany({ where: { userId } }),
+        prisma.savedLearningPath.findMany({ where: { userId } }),
+        prisma.videoProgress.findMany({ where: { userId } }),
+        prisma.reviewItem.findMany({ where: { userId } }),
+        prisma.conversation.findMany({ where: { userId } }),
+        prisma.account.findMany({ where: { userId } }),
+        prisma.auditEvent.findMany({ where: { userId }, orderBy: { createdAt: 'desc' } }),
+    ]);
+
+    const stagesByPath = await getLearningPathStagesByPath(learningPaths.map((path: { id: string }) => path.id));
+
+    const conversationsWithMessages = await Promise.all(
+        conversations.map(async (conversation: { id: string }) => ({
+            ...conversation,
+            messages: await prisma.conversationMessage.findMany({
+                where: { conversationId: conversation.id },
+                orderBy: { createdAt: 'asc' },
+            }),
+        }))
+    );
+
+    return {
+        exportedAt: new Date().toISOString(),
+        profile: {
+            id: user.id,
+            email: user.email,
+            name: user.name,
+            emailVerified: user.emailVerified,
+            twoFactorEnabled: user.twoFactorEnabled,
+            youtubeChannelName: user.youtubeChannelName,
+            createdAt: user.createdAt,
+            updatedAt: user.updatedAt,
+        },
+        linkedAccounts,
+        chatHistory: chatHistory.map((entry: { messages: string }) => ({
+            ...entry,
+            messages: parseJson(entry.messages),
+        })),
+        learningPaths: learningPaths.map((path: { id: string; completionGoals: string }) => ({
+            ...path,
+            stages: stagesByPath.get(path.id) ?? [],
+            completionGoals: parseJson(path.completionGoals),
+        })),
+        videoProgress,
+        reviewItems,
+        conversations: conversationsWithMessages,
+        securityActivity,
+    };
+}
+
+// ============================================
+// Deletion
+// ============================================
+
+/**
+ * Permanently delete a user and everything that belongs to them
+ * Callers must re-authenticate the user first.
+ * @param userId - The user to delete
+ */
+export async function deleteAccount(userId: string): Promise<void> {
+    const prisma = getDb();
+
+    // Drop stored OAuth tokens before the row goes away
+    await disconnectYouTube(userId);
+
+    // Conversations are keyed by userId without a relation, so they don't cascade
+    await prisma.conversation.deleteMany({ where: { userId } });
+
+    // Keep quota units in the daily total without tying them to the deleted user
+    await prisma.youTubeQuotaUsage.updateMany({
+        where: { userId },
+        data: { userId: 'deleted' },
+    });
+
+    // Learning paths, progress, chat history, tokens and sessions cascade from User
+    await prisma.user.delete({ where: { id: userId } });
+}
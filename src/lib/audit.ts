@@ -0,0 +1,140 @@
+// Security audit log
+// Records sign-ins, 2FA and account changes, verification and YouTube connection events for the
+// "Recent security activity" list in settings and the admin audit endpoint
+
+import { getDb, DbAuditEvent } from './db';
+import { getClientIP } from './rate-limit';
+
+// ============================================
+// Types
+// ============================================
+
+export const AUDIT_EVENT_TYPES = [
+    'signup',
+    'login_success',
+    'login_failure',
+    'logout',
+    'email_verified',
+    'verification_resent',
+    'password_reset_requested',
+    'password_reset_completed',
+    'password_changed',
+    'email_change_requested',
+    'email_changed',
+    'account_deleted',
+    'two_factor_enabled',
+    'two_factor_disabled',
+    'two_factor_failure',
+    'backup_code_used',
+    'passkey_added',
+    'passkey_removed',
+    'google_linked',
+    'google_unlinked',
+    'session_revoked',
+    'refresh_token_reuse',
+    'youtube_connected',
+    'youtube_connect_failed',
+    'youtube_disconnected',
+] as const;
+
+export type AuditEventType = typeof AUDIT_EVENT_TYPES[number];
+
+export interface AuditEventInput {
+    userId?: string | null;
+    email?: string | null;
+    // Request headers, for the client IP and user agent
+    headers?: Headers;
+    metadata?: Record<string, unknown>;
+}
+
+export interface AuditEventFilters {
+    userId?: string;
+    email?: string;
+    type?: AuditEventType;
+    from?: Date;
+    to?: Date;
+}
+
+// ============================================
+// Recording
+// ============================================
+
+/**
+ * Write an audit event
+ * Never throws: a failed audit write is logged but doesn't fail the request it describes.
+ */
+export async function recordAuditEvent(type: AuditEventType, input: AuditEventInput = {}): Promise<void> {
+    try {
+        const ipAddress = input.headers ? getClientIP(input.headers) : null;
+
+        await getDb().auditEvent.create({
+            data: {
+                userId: input.userId ?? null,
+                type,
+                email: input.email?.toLowerCase() ?? null,
+                ipAddress: ipAddress && ipAddress !== 'unknown' ? ipAddress : null,
+                userAgent: input.headers?.get('user-agent')?.slice(0, 500) ?? null,
+                metadata: input.metadata ? JSON.stringify(input.metadata) : null,
+            },
+        });
+    } catch (error) {
+        console.error(`Failed to record audit event ${type}:`, error);
+    }
+}
+
+// ============================================
+// Queries
+// ============================================
+
+/**
+ * Parse an event's metadata column back into an object
+ */
+export function parseAuditMetadata(event: DbAuditEvent): Record<string, unknown> | null {
+    if (!event.metadata) return null;
+
+    try {
+        return JSON.parse(event.metadata);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Most recent events on a user's own account, newest first
+ */
+export async function getRecentSecurityActivity(userId: string, limit: number = 20): Promise<DbAuditEvent[]> {
+    return getDb().auditEvent.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+    });
+}
+
+/**
+ * Search the audit log for the admin endpoint
+ */
+export async function queryAuditEvents(
+    filters: AuditEventFilters,
+    page: number,
+    pageSize: number
+): Promise<{ events: DbAuditEvent[]; total: number }> {
+    const prisma = getDb();
+    const where = {
+        userId: filters.userId,
+        email: filters.email?.toLowerCase(),
+        type: filters.type,
+        createdAt: filters.from || filters.to ? { gte: filters.from, lte: filters.to } : undefined,
+    };
+
+    const [events, total] = await Promise.all([
+        prisma.auditEvent.findMany({
+            where,
+            orderBy: { createdAt: 'desc' },
+            take: pageSize,
+            skip: (page - 1) * pageSize,
+        }),
+        prisma.auditEvent.count({ where }),
+    ]);
+
+    return { events, total };
+}
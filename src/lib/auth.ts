@@ -4,27 +4,34 @@
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import { v4 as uuidv4 } from 'uuid';
+import { isSessionActive } from './sessions';
 
 const SALT_ROUNDS = parseInt(process.env.BCRYPT_SALT_ROUNDS || '12', 10);
 const JWT_SECRET = process.env.JWT_SECRET || 'default-secret-change-me';
 const JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || 'default-refresh-secret-change-me';
 
 // Token expiration times
-const ACCESS_TOKEN_EXPIRY = '15m';
-const REFRESH_TOKEN_EXPIRY = '7d';
+export const ACCESS_TOKEN_MAX_AGE_SECONDS = 15 * 60;
+export const REFRESH_TOKEN_MAX_AGE_SECONDS = 7 * 24 * 60 * 60;
 const VERIFICATION_TOKEN_EXPIRY_HOURS = 24;
 
+// What a VerificationToken row proves when its code is entered
+export type VerificationPurpose = 'email_verification' | 'password_reset' | 'email_change';
+
 // Payload types
 export interface TokenPayload {
     userId: string;
     email: string;
     emailVerified: boolean;
     isGuest?: boolean;
+    sessionId?: string;  // Access tokens only: the session (refresh token family) they belong to
 }
 
 export interface DecodedToken extends TokenPayload {
     iat: number;
     exp: number;
+    jti?: string;   // Refresh tokens only: ID of the stored RefreshToken row
+    fam?: string;   // Refresh tokens only: token family (one per login)
 }
 
 // ============================================
@@ -60,29 +67,54 @@ export async function verifyPassword(password: string, hash: string): Promise<bo
  * @returns Signed JWT access token
  */
 export function generateAccessToken(payload: TokenPayload): string {
-    return jwt.sign(payload, JWT_SECRET, { expiresIn: ACCESS_TOKEN_EXPIRY });
+    return jwt.sign(payload, JWT_SECRET, { expiresIn: ACCESS_TOKEN_MAX_AGE_SECONDS });
 }
 
 /**
  * Generate a refresh token
+ * Use startSession or rotateRefreshToken (refresh-tokens.ts) instead so the token is stored and can be rotated
  * @param payload - Token payload with user info
+ * @param ids - Stored token ID and family ID to embed as jti/fam claims
  * @returns Signed JWT refresh token
  */
-export function generateRefreshToken(payload: TokenPayload): string {
-    return jwt.sign(payload, JWT_REFRESH_SECRET, { expiresIn: REFRESH_TOKEN_EXPIRY });
+export function generateRefreshToken(
+    payload: TokenPayload,
+    ids?: { tokenId: string; familyId: string }
+): string {
+    const claims = {
+        userId: payload.userId,
+        email: payload.email,
+        emailVerified: payload.emailVerified,
+        isGuest: payload.isGuest,
+        ...(ids && { fam: ids.familyId }),
+    };
+    return jwt.sign(claims, JWT_REFRESH_SECRET, {
+        expiresIn: REFRESH_TOKEN_MAX_AGE_SECONDS,
+        ...(ids && { jwtid: ids.tokenId }),
+    });
 }
 
 /**
  * Verify and decode an access token
+ * Tokens from a revoked session are rejected even before they expire.
  * @param token - JWT access token
+ * @param headers - Request headers, to record the session's latest IP
  * @returns Decoded token payload or null if invalid
  */
-export function verifyAccessToken(token: string): DecodedToken | null {
+export async function verifyAccessToken(token: string, headers?: Headers): Promise<DecodedToken | null> {
+    let decoded: DecodedToken;
     try {
-        return jwt.verify(token, JWT_SECRET) as DecodedToken;
+        decoded = jwt.verify(token, JWT_SECRET) as DecodedToken;
     } catch {
         return null;
     }
+
+    // Guest tokens and tokens issued before sessions existed have no session to check
+    if (decoded.sessionId && !(await isSessionActive(decoded.sessionId, headers))) {
+        return null;
+    }
+
+    return decoded;
 }
 
 /**
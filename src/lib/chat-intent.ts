@@ -0,0 +1,250 @@
+// Chat intent protocol
+// Tools the assistant can call to act on the conversation, plus the legacy
+// [SEARCH_READY: ...] text marker for providers without function calling
+
+import { z } from 'zod';
+import { LlmTool, LlmToolResult } from './llm';
+import { formatIssue } from './validation';
+
+// ============================================
+// Types
+// ============================================
+
+export type ChatIntent =
+    | { action: 'search_tutorials'; topic: string; level?: string; goal?: string; timeBudgetMinutes?: number }
+    | { action: 'ask_clarifying_question'; question: string; options?: string[] }
+    | { action: 'refine_path'; topic?: string; level?: string; goal?: string; focus?: string; timeBudgetMinutes?: number }
+    | { action: 'none' };
+
+export interface ResolvedChatIntent {
+    intent: ChatIntent;
+    cleanResponse: string;       // Reply text with any legacy marker removed
+    source: 'tool' | 'legacy_marker' | 'none';
+}
+
+// ============================================
+// Tool Declarations
+// ============================================
+
+const LEVELS = ['beginner', 'intermediate', 'advanced'];
+const GOALS = ['project', 'concepts', 'quick'];
+
+export const CHAT_TOOLS: LlmTool[] = [
+    {
+        name: 'search_tutorials',
+        description: 'Search for tutorial videos and build a learning path once the topic is known and the skill level and goal are known or can be inferred.',
+        parameters: {
+            type: 'object',
+            properties: {
+                topic: { type: 'string', description: 'What the user wants to learn, e.g. "Python projects"' },
+                level: { type: 'string', description: 'The user\'s skill level', enum: LEVELS },
+                goal: { type: 'string', description: 'What kind of learning the user wants', enum: GOALS },
+                timeBudget: { type: 'string', description: 'Total time the user has, only if they said so, e.g. "3 hours"' },
+            },
+            required: ['topic', 'level', 'goal'],
+        },
+    },
+    {
+        name: 'ask_clarifying_question',
+        description: 'Ask the user one short question when the topic, skill level or goal cannot be inferred.',
+        parameters: {
+            type: 'object',
+            properties: {
+                question: { type: 'string', description: 'The question to ask' },
+                options: { type: 'array', description: 'Optional short answers the user can pick from', items: { type: 'string' } },
+            },
+            required: ['question'],
+        },
+    },
+    {
+        name: 'refine_path',
+        description: 'Adjust the previous search when the user wants changes to a learning path they already got, e.g. harder, shorter or more project-based.',
+        parameters: {
+            type: 'object',
+            properties: {
+                topic: { type: 'string', description: 'New topic, only if the user changed it' },
+                level: { type: 'string', description: 'New skill level, only if it changed', enum: LEVELS },
+                goal: { type: 'string', description: 'New goal, only if it changed', enum: GOALS },
+                focus: { type: 'string', description: 'Extra aspect to focus on, e.g. "hooks" or "data structures"' },
+                timeBudget: { type: 'string', description: 'New total time the user has, only if it changed, e.g. "90 minutes"' },
+            },
+        },
+    },
+];
+
+// ============================================
+// Time Budgets
+// ============================================
+
+const MIN_TIME_BUDGET_MINUTES = 5;
+const MAX_TIME_BUDGET_MINUTES = 100 * 60;
+
+const NUMBER_WORDS: Record<string, number> = {
+    a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+    seven: 7, eight: 8, nine: 9, ten: 10, twelve: 12, twenty: 20, thirty: 30,
+};
+
+const AMOUNT = String.raw`(\d+(?:\.\d+)?|half an?|${Object.keys(NUMBER_WORDS).join('|')})`;
+const UNIT = String.raw`(hours?|hrs?|h|minutes?|mins?|m)`;
+const DURATION_PATTERN = new RegExp(String.raw`${AMOUNT}\s*${UNIT}\b`, 'i');
+
+// Only count durations the user says they have, not e.g. "a 10 minute video"
+const BUDGET_PATTERN = new RegExp(
+    String.raw`\b(?:have|got|only|within|under|max(?:imum)?|budget(?: of)?|spare|up to|less than|no more than)\s+(?:about\s+|around\s+|roughly\s+)?${AMOUNT}\s*${UNIT}\b`,
+    'gi'
+);
+
+function toMinutes(amount: string, unit: string): number | undefined {
+    const normalized = amount.toLowerCase();
+    const value = normalized.startsWith('half') ? 0.5 : (NUMBER_WORDS[normalized] ?? Number(normalized));
+    if (!Number.isFinite(value)) return undefined;
+
+    const minutes = Math.round(unit.toLowerCase().startsWith('h') ? value * 60 : value);
+    if (minutes < MIN_TIME_BUDGET_MINUTES || minutes > MAX_TIME_BUDGET_MINUTES) return undefined;
+    return minutes;
+}
+
+/**
+ * Parse a duration like "3 hours", "90 min" or "half an hour" into minutes
+ */
+export function parseDuration(text: string): number | undefined {
+    const match = text.match(DURATION_PATTERN);
+    return match ? toMinutes(match[1], match[2]) : undefined;
+}
+
+/**
+ * Find the most recent time budget the user stated ("I have 3 hours", "only 45 minutes")
+ */
+export function findTimeBudget(userMessages: string[]): number | undefined {
+    for (let i = userMessages.length - 1; i >= 0; i--) {
+        const matches = Array.from(userMessages[i].matchAll(BUDGET_PATTERN));
+        const last = matches[matches.length - 1];
+        const minutes = last && toMinutes(last[1], last[2]);
+        if (minutes) return minutes;
+    }
+    return undefined;
+}
+
+// ============================================
+// Tool Argument Schemas
+// ============================================
+
+// Lenient enum: normalizes case and drops values the model made up
+const optionalEnum = (values: string[]) => z
+    .preprocess((v) => (typeof v === 'string' ? v.trim().toLowerCase() : v), z.enum(values as [string, ...string[]]))
+    .optional()
+    .catch(undefined);
+
+// "3 hours" -> 180; anything unparseable is dropped rather than failing the call
+const optionalTimeBudget = z
+    .unknown()
+    .transform((v) => (typeof v === 'string' ? parseDuration(v) : undefined));
+
+const searchTutorialsArgsSchema = z.object({
+    topic: z.string().trim().min(1, 'topic is required'),
+    level: optionalEnum(LEVELS),
+    goal: optionalEnum(GOALS),
+    timeBudget: optionalTimeBudget,
+});
+
+const askClarifyingQuestionArgsSchema = z.object({
+    question: z.string().trim().min(1, 'question is required'),
+    options: z.array(z.string()).optional(),
+});
+
+const refinePathArgsSchema = z.object({
+    topic: z.string().trim().min(1).optional(),
+    level: optionalEnum(LEVELS),
+    goal: optionalEnum(GOALS),
+    focus: z.string().trim().min(1).optional(),
+    timeBudget: optionalTimeBudget,
+});
+
+/**
+ * Validate a tool call's arguments and turn it into an intent
+ */
+function toolCallToIntent(name: string, args: unknown): ChatIntent | null {
+    switch (name) {
+        case 'search_tutorials': {
+            const result = searchTutorialsArgsSchema.safeParse(args);
+            if (result.success) {
+                const { timeBudget, ...rest } = result.data;
+                return { action: 'search_tutorials', ...rest, timeBudgetMinutes: timeBudget };
+            }
+            console.warn('Invalid search_tutorials arguments:', result.error.issues.map(formatIssue));
+            return null;
+        }
+        case 'ask_clarifying_question': {
+            const result = askClarifyingQuestionArgsSchema.safeParse(args);
+            if (result.success) return { action: 'ask_clarifying_question', ...result.data };
+            console.warn('Invalid ask_clarifying_question arguments:', result.error.issues.map(formatIssue));
+            return null;
+        }
+        case 'refine_path': {
+            const result = refinePathArgsSchema.safeParse(args);
+            if (result.success) {
+                const { timeBudget, ...rest } = result.data;
+                return { action: 'refine_path', ...rest, timeBudgetMinutes: timeBudget };
+            }
+            console.warn('Invalid refine_path arguments:', result.error.issues.map(formatIssue));
+            return null;
+        }
+        default:
+            console.warn('Unknown tool call:', name);
+            return null;
+    }
+}
+
+// ============================================
+// Legacy Text Marker
+// ============================================
+
+export const SEARCH_MARKER = '[SEARCH_READY';
+
+/**
+ * Parse the legacy [SEARCH_READY: topic="..."|level="..."|goal="..."] marker
+ * Kept for providers without function calling and for models that still emit it
+ */
+export function parseSearchMarker(response: string): { intent: ChatIntent; cleanResponse: string } {
+    const searchMatch = response.match(/\[SEARCH_READY:\s*topic="([^"]+)"\|level="([^"]+)"\|goal="([^"]+)"\]/);
+    const cleanResponse = response.replace(/\[SEARCH_READY:.*?\]/g, '').trim();
+
+    if (searchMatch) {
+        return {
+            intent: {
+                action: 'search_tutorials',
+                topic: searchMatch[1],
+                level: searchMatch[2],
+                goal: searchMatch[3],
+            },
+            cleanResponse,
+        };
+    }
+
+    return { intent: { action: 'none' }, cleanResponse };
+}
+
+// ============================================
+// Intent Resolution
+// ============================================
+
+/**
+ * Work out what the assistant wants to do from a model reply.
+ * The first valid tool call wins; otherwise the legacy marker is parsed from the text.
+ */
+export function resolveChatIntent(result: LlmToolResult): ResolvedChatIntent {
+    const legacy = parseSearchMarker(result.text);
+
+    for (const call of result.toolCalls) {
+        const intent = toolCallToIntent(call.name, call.arguments);
+        if (intent) {
+            return { intent, cleanResponse: legacy.cleanResponse, source: 'tool' };
+        }
+    }
+
+    return {
+        intent: legacy.intent,
+        cleanResponse: legacy.cleanResponse,
+        source: legacy.intent.action === 'none' ? 'none' : 'legacy_marker',
+    };
+}
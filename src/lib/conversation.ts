@@ -0,0 +1,119 @@
+// Persistent chat conversation state
+// Stores every turn in the database so any server instance can resume a conversation
+
+import { getDb, DbConversation, DbConversationMessage } from './db';
+
+// ============================================
+// Types
+// ============================================
+
+export interface ConversationMessage {
+    role: 'user' | 'assistant';
+    content: string;
+}
+
+export interface ConversationState {
+    id: string;
+    userId: string;
+    messages: ConversationMessage[];
+    searchReady: boolean;
+    searchQuery?: string;
+    skillLevel?: string;
+    goal?: string;
+}
+
+// ============================================
+// Conversation Functions
+// ============================================
+
+/**
+ * Load a conversation with its full message history
+ * Starts a new conversation if the ID is missing, unknown, or owned by someone else
+ * @param conversationId - ID sent by the client (may be empty)
+ * @param userId - Owner of the conversation (a "guest_<uuid>" ID for guests)
+ */
+export async function loadConversation(
+    conversationId: string | null | undefined,
+    userId: string
+): Promise<ConversationState> {
+    const db = getDb();
+
+    if (conversationId) {
+        const conversation: DbConversation | null = await db.conversation.findUnique({
+            where: { id: conversationId },
+        });
+
+        if (conversation && conversation.userId === userId) {
+            const messages: DbConversationMessage[] = await db.conversationMessage.findMany({
+                where: { conversationId: conversation.id },
+                orderBy: { createdAt: 'asc' },
+            });
+
+            return {
+                id: conversation.id,
+                userId,
+                messages: messages.map((m) => ({ role: m.role, content: m.content })),
+                searchReady: conversation.searchReady,
+                searchQuery: conversation.searchQuery ?? undefined,
+                skillLevel: conversation.skillLevel ?? undefined,
+                goal: conversation.goal ?? undefined,
+            };
+        }
+    }
+
+    const created: DbConversation = await db.conversation.create({
+        data: { userId },
+    });
+
+    return {
+        id: created.id,
+        userId,
+        messages: [],
+        searchReady: false,
+    };
+}
+
+/**
+ * Append a single turn to a conversation and to the in-memory state
+ */
+export async function appendMessage(
+    state: ConversationState,
+    message: ConversationMessage
+): Promise<void> {
+    const db = getDb();
+
+    await db.conversationMessage.create({
+        data: {
+            conversationId: state.id,
+            role: message.role,
+            content: message.content,
+        },
+    });
+
+    state.messages.push(message);
+}
+
+/**
+ * Persist the parsed search intent once the assistant is ready to search
+ */
+export async function saveSearchState(
+    state: ConversationState,
+    search: { searchQuery: string; skillLevel?: string; goal?: string }
+): Promise<void> {
+    const db = getDb();
+
+    await db.conversation.update({
+        where: { id: state.id },
+        data: {
+            searchReady: true,
+            searchQuery: search.searchQuery,
+            skillLevel: search.skillLevel ?? null,
+            goal: search.goal ?? null,
+        },
+    });
+
+    state.searchReady = true;
+    state.searchQuery = search.searchQuery;
+    state.skillLevel = search.skillLevel;
+    state.goal = search.goal;
+}
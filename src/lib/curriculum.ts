@@ -1,10 +1,14 @@
 // Curriculum Generation with AI Analysis
-// Uses Gemini to analyze videos and create structured learning paths
+// Uses the configured LLM provider to analyze videos and create structured learning paths
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { YouTubeVideo } from './youtube';
+import { parseIsoDuration } from './video-ranking';
+import { z } from 'zod';
+import { getLlmProvider, isLlmConfigured, LlmOutputError, LlmTask } from './llm';
+import { curriculumResponseSchema, CurriculumResponse, replacementVideoSchema, ReplacementVideo, continuationPlanSchema, ContinuationPlan } from './validation';
 
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY?.trim();
+// How many times the model may try (first attempt + repairs) before giving up
+const MAX_CURATION_ATTEMPTS = 3;
 
 // ============================================
 // Types
@@ -20,7 +24,9 @@ export interface VideoAnalysis {
     prerequisites: string[];     // What you should know first
     whyRecommended: string;      // Why AI picked this video
     estimatedTime: string;       // Video duration
+    durationSeconds?: number;    // Exact length, when YouTube reported it
     order: number;               // Recommended watch order
+    notes?: string;              // The learner's own notes, once the path is saved
 }
 
 export interface LearningStage {
@@ -28,6 +34,8 @@ export interface LearningStage {
     stageNumber: number;
     description: string;
     videos: VideoAnalysis[];
+    estimatedTime?: string;      // Sum of the stage's video lengths
+    durationSeconds?: number;
 }
 
 export interface LearningPath {
@@ -35,24 +43,59 @@ export interface LearningPath {
     userLevel: string;
     userGoal: string;
     totalVideos: number;
-    estimatedTotalTime: string;
+    estimatedTotalTime: string;  // Sum of all video lengths, e.g. "3 hours 25 minutes"
+    totalDurationSeconds?: number;
+    timeBudgetMinutes?: number;  // The user's time budget, if they gave one
     stages: LearningStage[];
     completionGoals: string[];   // What user will achieve after completing
     summary: string;             // AI summary of this learning path
 }
 
-// ============================================
-// Gemini Model Setup
-// ============================================
+export interface CurationOptions {
+    onStage?: (stage: LearningStage) => void;  // Called as each stage is parsed (for streaming)
+    timeBudgetMinutes?: number;                // Total watch time the path must fit in
+    focus?: string[];                          // Concepts the path should concentrate on
+}
 
-function getGeminiModel() {
-    if (!GEMINI_API_KEY) {
-        throw new Error('GEMINI_API_KEY not configured');
-    }
-    const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
-    return genAI.getGenerativeModel({ model: 'gemini-2.5-flash' });
+export interface CurationDiagnostics {
+    reason: 'not_configured' | 'no_videos' | 'invalid_output' | 'llm_error';
+    attempts: number;
+    issues: string[];            // Validation issues from the last attempt
+    rawOutput?: string;          // Last raw model output (truncated)
+}
+
+export type CurationResult =
+    | { success: true; learningPath: LearningPath; attempts: number }
+    | { success: false; diagnostics: CurationDiagnostics };
+
+export type SwapReason = 'unavailable' | 'too_long' | 'unclear' | 'other';
+
+export interface ReplacementContext {
+    topic: string;
+    userLevel: string;
+    userGoal: string;
+    stageName: string;
+    reason: SwapReason;
+}
+
+export type ReplacementResult =
+    | { success: true; video: VideoAnalysis; attempts: number }
+    | { success: false; diagnostics: CurationDiagnostics };
+
+export interface ContinuationContext {
+    topic: string;
+    userGoal: string;
+    completedLevel: string;
+    nextLevel: string;
+    conceptsCovered: string[];   // Everything the finished path taught
+    completionGoals: string[];
+    openPrerequisites: string[]; // Prerequisites the finished path assumed but never taught
 }
 
+export type ContinuationResult =
+    | { success: true; plan: ContinuationPlan; attempts: number }
+    | { success: false; diagnostics: CurationDiagnostics };
+
 // ============================================
 // Video Analysis Prompt
 // ============================================
@@ -63,7 +106,7 @@ USER CONTEXT:
 - Topic: {TOPIC}
 - Current Level: {LEVEL}
 - Learning Goal: {GOAL}
-
+{BUDGET}{FOCUS}
 VIDEOS TO ANALYZE:
 {VIDEOS}
 
@@ -71,7 +114,6 @@ TASK: Create a personalized learning curriculum. Return ONLY valid JSON in this
 
 {
   "summary": "Brief 1-2 sentence description of this learning path",
-  "estimatedTotalTime": "X hours Y minutes",
   "completionGoals": [
     "What user will be able to do after completing",
     "Another skill they'll gain"
@@ -109,6 +151,250 @@ RULES:
 
 Return ONLY the JSON, no markdown code blocks or explanations.`;
 
+const BUDGET_PROMPT = `- Time Budget: {MINUTES} minutes total. The lengths of the videos you include must add up to no more than this - pick the most valuable videos that fit.
+`;
+
+const FOCUS_PROMPT = `- Focus On: {CONCEPTS}. Prefer videos that teach these over ones that repeat the basics.
+`;
+
+// ============================================
+// Continuation Prompt
+// ============================================
+
+const CONTINUATION_PROMPT = `You are an expert educational curator. A learner just finished a learning path and wants to keep going.
+
+FINISHED PATH:
+- Topic: {TOPIC}
+- Level: {COMPLETED_LEVEL}
+- Learning Goal: {GOAL}
+- Concepts Covered: {CONCEPTS}
+- Completion Goals: {GOALS}
+- Assumed But Not Taught: {PREREQUISITES}
+
+NEXT LEVEL: {NEXT_LEVEL}
+
+TASK: Work out which concepts the learner still needs to reach the next level. Return ONLY valid JSON in this exact format:
+
+{
+  "conceptGaps": ["concept1", "concept2"],
+  "searchFocus": "short YouTube search phrase for the most important gaps"
+}
+
+RULES:
+1. List 3-6 concept gaps, most important first
+2. Do not repeat concepts the finished path already covered
+3. Include anything the path assumed but never taught, if it still matters
+4. Keep searchFocus to a few words - it is added to the topic in a YouTube search
+
+Return ONLY the JSON, no markdown code blocks or explanations.`;
+
+// ============================================
+// Replacement Prompt
+// ============================================
+
+const REPLACEMENT_PROMPT = `You are an expert educational curator. A learner wants to replace one video in their learning path.
+
+USER CONTEXT:
+- Topic: {TOPIC}
+- Current Level: {LEVEL}
+- Learning Goal: {GOAL}
+- Stage: {STAGE}
+
+VIDEO BEING REPLACED:
+"{TITLE}" | {DURATION}
+- Difficulty: {DIFFICULTY}
+- Concepts Covered: {CONCEPTS}
+- Why it is being replaced: {REASON}
+
+CANDIDATE REPLACEMENTS:
+{VIDEOS}
+
+TASK: Score every candidate on how well it teaches the same concepts at the same difficulty, then pick the single best one. Return ONLY valid JSON in this exact format:
+
+{
+  "videoId": "abc123",
+  "qualityScore": 8,
+  "difficulty": "beginner",
+  "conceptsCovered": ["concept1", "concept2"],
+  "learningOutcomes": ["You'll learn X", "You'll understand Y"],
+  "prerequisites": [],
+  "whyRecommended": "Covers the same concepts with clearer examples"
+}
+
+RULES:
+1. Only use a video ID from the candidate list
+2. Prefer candidates that cover the same concepts at the same difficulty
+3. Take the reason for replacing into account
+4. Be honest about the quality score
+
+Return ONLY the JSON, no markdown code blocks or explanations.`;
+
+const SWAP_REASONS: Record<SwapReason, string> = {
+    unavailable: 'The video is no longer available',
+    too_long: 'The video is too long - prefer a shorter candidate',
+    unclear: 'The video explains things poorly - prefer the clearest explanation',
+    other: 'The learner would like a different video',
+};
+
+// ============================================
+// Repair Prompt
+// ============================================
+
+const REPAIR_PROMPT = `
+
+YOUR PREVIOUS RESPONSE COULD NOT BE USED. It failed validation with these errors:
+{ISSUES}
+
+YOUR PREVIOUS RESPONSE:
+{OUTPUT}
+
+Fix every error above and return the complete corrected JSON in the same format.
+Only use video IDs from the list of videos to analyze. Return ONLY the JSON.`;
+
+/**
+ * Describe candidate videos for a prompt, one numbered entry per video
+ */
+function formatVideosForPrompt(videos: YouTubeVideo[]): string {
+    return videos.map((v, i) =>
+        `${i + 1}. [ID: ${v.id}] "${v.title}" by ${v.channelTitle} | ${v.duration || 'Unknown'}${videoSeconds(v) ? ` (${Math.round(videoSeconds(v)! / 60)} min)` : ''} | ${v.viewCount || 'Unknown views'}${v.score ? ` | Quality score ${v.score.total}/100` : ''}\n   Description: ${v.description.substring(0, 200)}...`
+    ).join('\n\n');
+}
+
+/**
+ * Ask the model for JSON, feeding validation errors back for a bounded number of repairs
+ */
+async function generateWithRepairs<T>(
+    prompt: string,
+    schema: z.ZodType<T>,
+    task: LlmTask
+): Promise<{ success: true; result: T; attempts: number } | { success: false; diagnostics: CurationDiagnostics }> {
+    const llm = getLlmProvider();
+    let attempts = 0;
+    let repairSuffix = '';
+    let lastError: LlmOutputError | null = null;
+
+    while (attempts < MAX_CURATION_ATTEMPTS) {
+        attempts++;
+        try {
+            const result = await llm.generateJson(prompt + repairSuffix, schema, { task });
+            return { success: true, result, attempts };
+        } catch (error) {
+            if (!(error instanceof LlmOutputError)) {
+                console.error(`Error generating ${task}:`, error);
+                return {
+                    success: false,
+                    diagnostics: {
+                        reason: 'llm_error',
+                        attempts,
+                        issues: [error instanceof Error ? error.message : String(error)],
+                    },
+                };
+            }
+
+            lastError = error;
+            console.warn(`${task} attempt ${attempts} failed validation:`, error.issues);
+            repairSuffix = REPAIR_PROMPT
+                .replace('{ISSUES}', error.issues.map(issue => `- ${issue}`).join('\n'))
+                .replace('{OUTPUT}', error.rawOutput.substring(0, 4000));
+        }
+    }
+
+    return {
+        success: false,
+        diagnostics: {
+            reason: 'invalid_output',
+            attempts,
+            issues: lastError?.issues || [],
+            rawOutput: lastError?.rawOutput.substring(0, 2000),
+        },
+    };
+}
+
+/**
+ * Schema for the model output, also checking that every video ID was one we offered
+ */
+function buildCurriculumSchema(videos: YouTubeVideo[]) {
+    const knownIds = new Set(videos.map(v => v.id));
+
+    return curriculumResponseSchema.superRefine((data, ctx) => {
+        data.stages.forEach((stage, stageIndex) => {
+            stage.videos.forEach((video, videoIndex) => {
+                if (!knownIds.has(video.videoId)) {
+                    ctx.addIssue({
+                        code: 'custom',
+                        path: ['stages', stageIndex, 'videos', videoIndex, 'videoId'],
+                        message: `Unknown video ID "${video.videoId}" - use only IDs from the provided list`,
+                    });
+                }
+            });
+        });
+    });
+}
+
+// ============================================
+// Durations
+// ============================================
+
+function videoSeconds(video: YouTubeVideo): number | undefined {
+    return video.isoDuration ? parseIsoDuration(video.isoDuration) : undefined;
+}
+
+/**
+ * Format a total length for display, e.g. "3 hours 25 minutes"
+ */
+export function formatTotalTime(totalSeconds: number): string {
+    const totalMinutes = Math.round(totalSeconds / 60);
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+
+    const parts: string[] = [];
+    if (hours > 0) parts.push(`${hours} ${hours === 1 ? 'hour' : 'hours'}`);
+    if (minutes > 0 || hours === 0) parts.push(`${minutes} ${minutes === 1 ? 'minute' : 'minutes'}`);
+    return parts.join(' ');
+}
+
+/**
+ * Total length of a set of videos. Unknown lengths are flagged with a trailing "+".
+ */
+export function sumDurations(videos: Array<{ durationSeconds?: number }>): { seconds: number; text: string } {
+    const seconds = videos.reduce((sum, v) => sum + (v.durationSeconds ?? 0), 0);
+    const hasUnknown = videos.some(v => v.durationSeconds === undefined);
+    return { seconds, text: formatTotalTime(seconds) + (hasUnknown ? '+' : '') };
+}
+
+/**
+ * Drop the lowest-quality videos until the selection fits the budget (always keeps one video)
+ */
+function fitToBudget(analysis: CurriculumResponse, secondsById: Map<string, number | undefined>, budgetSeconds: number): CurriculumResponse {
+    const chosen = analysis.stages.flatMap((stage, stageIndex) =>
+        stage.videos.map(video => ({ video, stageIndex, seconds: secondsById.get(video.videoId) ?? 0 }))
+    );
+
+    let total = chosen.reduce((sum, c) => sum + c.seconds, 0);
+    if (total <= budgetSeconds) return analysis;
+
+    // Least valuable first; among equals, drop from later stages first
+    const removable = [...chosen].sort((a, b) =>
+        a.video.qualityScore - b.video.qualityScore || b.stageIndex - a.stageIndex
+    );
+
+    const removed = new Set<string>();
+    for (const candidate of removable) {
+        if (total <= budgetSeconds || removed.size === chosen.length - 1) break;
+        removed.add(candidate.video.videoId);
+        total -= candidate.seconds;
+    }
+
+    console.log(`Trimmed ${removed.size} videos to fit the ${budgetSeconds / 60} minute budget`);
+
+    return {
+        ...analysis,
+        stages: analysis.stages
+            .map(stage => ({ ...stage, videos: stage.videos.filter(v => !removed.has(v.videoId)) }))
+            .filter(stage => stage.videos.length > 0),
+    };
+}
+
 // ============================================
 // Main Analysis Function
 // ============================================
@@ -117,99 +403,217 @@ export async function analyzeAndCurateVideos(
     videos: YouTubeVideo[],
     topic: string,
     userLevel: string,
-    userGoal: string
-): Promise<LearningPath | null> {
-    if (!GEMINI_API_KEY || videos.length === 0) {
-        return null;
+    userGoal: string,
+    options: CurationOptions = {}
+): Promise<CurationResult> {
+    if (!isLlmConfigured()) {
+        return { success: false, diagnostics: { reason: 'not_configured', attempts: 0, issues: [] } };
+    }
+    if (videos.length === 0) {
+        return { success: false, diagnostics: { reason: 'no_videos', attempts: 0, issues: [] } };
     }
 
-    try {
-        const model = getGeminiModel();
-
-        // Format videos for the prompt
-        const videosText = videos.map((v, i) =>
-            `${i + 1}. [ID: ${v.id}] "${v.title}" by ${v.channelTitle} | ${v.duration || 'Unknown'} | ${v.viewCount || 'Unknown views'}\n   Description: ${v.description.substring(0, 200)}...`
-        ).join('\n\n');
-
-        // Build the prompt
-        const prompt = ANALYSIS_PROMPT
-            .replace('{TOPIC}', topic)
-            .replace('{LEVEL}', userLevel)
-            .replace('{GOAL}', userGoal)
-            .replace('{VIDEOS}', videosText);
-
-        console.log('=== ANALYZING VIDEOS FOR CURRICULUM ===');
-        console.log('Topic:', topic, '| Level:', userLevel, '| Goal:', userGoal);
-        console.log('Videos to analyze:', videos.length);
-
-        const result = await model.generateContent(prompt);
-        const responseText = result.response.text();
-
-        // Parse JSON response
-        const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-        if (!jsonMatch) {
-            console.error('Failed to parse curriculum JSON from Gemini');
-            return null;
-        }
+    // With a time budget, videos that could never fit are not offered at all
+    const budgetSeconds = options.timeBudgetMinutes ? options.timeBudgetMinutes * 60 : undefined;
+    const candidates = budgetSeconds
+        ? videos.filter(v => (videoSeconds(v) ?? 0) <= budgetSeconds)
+        : videos;
+    if (candidates.length === 0) {
+        return { success: false, diagnostics: { reason: 'no_videos', attempts: 0, issues: ['No video fits the time budget'] } };
+    }
 
-        const analysis = JSON.parse(jsonMatch[0]);
-
-        // Build the learning path
-        const learningPath: LearningPath = {
-            topic,
-            userLevel,
-            userGoal,
-            totalVideos: 0,
-            estimatedTotalTime: analysis.estimatedTotalTime || 'Unknown',
-            stages: [],
-            completionGoals: analysis.completionGoals || [],
-            summary: analysis.summary || ''
-        };
+    const schema = buildCurriculumSchema(candidates);
+    const videosText = formatVideosForPrompt(candidates);
+
+    // Build the prompt
+    const prompt = ANALYSIS_PROMPT
+        .replace('{TOPIC}', topic)
+        .replace('{LEVEL}', userLevel)
+        .replace('{GOAL}', userGoal)
+        .replace('{BUDGET}', options.timeBudgetMinutes ? BUDGET_PROMPT.replace('{MINUTES}', String(options.timeBudgetMinutes)) : '')
+        .replace('{FOCUS}', options.focus?.length ? FOCUS_PROMPT.replace('{CONCEPTS}', options.focus.join(', ')) : '')
+        .replace('{VIDEOS}', videosText);
+
+    console.log('=== ANALYZING VIDEOS FOR CURRICULUM ===');
+    console.log('Topic:', topic, '| Level:', userLevel, '| Goal:', userGoal);
+    console.log('Videos to analyze:', candidates.length, '| Provider:', getLlmProvider().name, '| Budget:', options.timeBudgetMinutes ?? 'none');
+
+    const generated = await generateWithRepairs(prompt, schema, 'curriculum');
+    if (!generated.success) {
+        return generated;
+    }
+    let analysis: CurriculumResponse = generated.result;
+    const attempts = generated.attempts;
 
-        // Process stages and match with original video data
-        for (const stage of analysis.stages || []) {
-            const processedStage: LearningStage = {
-                stageName: stage.stageName,
-                stageNumber: stage.stageNumber,
-                description: stage.description,
-                videos: []
-            };
-
-            for (const videoAnalysis of stage.videos || []) {
-                // Find the original video data
-                const originalVideo = videos.find(v => v.id === videoAnalysis.videoId);
-                if (originalVideo) {
-                    processedStage.videos.push({
-                        videoId: originalVideo.id,
-                        title: originalVideo.title,
-                        qualityScore: videoAnalysis.qualityScore || 7,
-                        difficulty: videoAnalysis.difficulty || 'beginner',
-                        conceptsCovered: videoAnalysis.conceptsCovered || [],
-                        learningOutcomes: videoAnalysis.learningOutcomes || [],
-                        prerequisites: videoAnalysis.prerequisites || [],
-                        whyRecommended: videoAnalysis.whyRecommended || 'Relevant to your learning goals',
-                        estimatedTime: originalVideo.duration || 'Unknown',
-                        order: videoAnalysis.order || 1
-                    });
-                    learningPath.totalVideos++;
-                }
-            }
+    const videosById = new Map(candidates.map(v => [v.id, v]));
 
-            if (processedStage.videos.length > 0) {
-                learningPath.stages.push(processedStage);
-            }
+    // The model is asked to respect the budget; enforce it deterministically anyway
+    if (budgetSeconds) {
+        const secondsById = new Map(candidates.map(v => [v.id, videoSeconds(v)]));
+        analysis = fitToBudget(analysis, secondsById, budgetSeconds);
+    }
+
+    // Build the learning path
+    const learningPath: LearningPath = {
+        topic,
+        userLevel,
+        userGoal,
+        totalVideos: 0,
+        estimatedTotalTime: '',
+        timeBudgetMinutes: options.timeBudgetMinutes,
+        stages: [],
+        completionGoals: analysis.completionGoals,
+        summary: analysis.summary
+    };
+
+    // Process stages and match with original video data
+    for (const stage of analysis.stages) {
+        const processedStage: LearningStage = {
+            stageName: stage.stageName,
+            stageNumber: learningPath.stages.length + 1,   // The model's numbers may repeat or skip
+            description: stage.description,
+            videos: []
+        };
+
+        for (const videoAnalysis of stage.videos) {
+            // The schema guarantees the ID refers to one of our videos
+            const originalVideo = videosById.get(videoAnalysis.videoId)!;
+            processedStage.videos.push({
+                videoId: originalVideo.id,
+                title: originalVideo.title,
+                qualityScore: videoAnalysis.qualityScore,
+                difficulty: videoAnalysis.difficulty,
+                conceptsCovered: videoAnalysis.conceptsCovered,
+                learningOutcomes: videoAnalysis.learningOutcomes,
+                prerequisites: videoAnalysis.prerequisites,
+                whyRecommended: videoAnalysis.whyRecommended,
+                estimatedTime: originalVideo.duration || 'Unknown',
+                durationSeconds: videoSeconds(originalVideo),
+                order: videoAnalysis.order
+            });
+            learningPath.totalVideos++;
         }
 
-        console.log('=== CURRICULUM GENERATED ===');
-        console.log('Stages:', learningPath.stages.length);
-        console.log('Total videos:', learningPath.totalVideos);
+        const stageTotal = sumDurations(processedStage.videos);
+        processedStage.estimatedTime = stageTotal.text;
+        processedStage.durationSeconds = stageTotal.seconds;
+
+        learningPath.stages.push(processedStage);
+        options.onStage?.(processedStage);
+    }
+
+    const pathTotal = sumDurations(learningPath.stages.flatMap(stage => stage.videos));
+    learningPath.estimatedTotalTime = pathTotal.text;
+    learningPath.totalDurationSeconds = pathTotal.seconds;
+
+    console.log('=== CURRICULUM GENERATED ===');
+    console.log('Attempts:', attempts);
+    console.log('Stages:', learningPath.stages.length);
+    console.log('Total videos:', learningPath.totalVideos, '| Total time:', learningPath.estimatedTotalTime);
 
-        return learningPath;
+    return { success: true, learningPath, attempts };
+}
 
-    } catch (error) {
-        console.error('Error analyzing videos:', error);
-        return null;
+// ============================================
+// Replacing a Single Video
+// ============================================
+
+/**
+ * Have the model score candidate videos against one it is replacing and pick the best
+ * @param original - The video being replaced
+ * @param candidates - Search results to choose from (none of them already in the path)
+ * @param context - The path's topic, level and goal, the video's stage and why it is being replaced
+ */
+export async function chooseReplacementVideo(
+    original: VideoAnalysis,
+    candidates: YouTubeVideo[],
+    context: ReplacementContext
+): Promise<ReplacementResult> {
+    if (!isLlmConfigured()) {
+        return { success: false, diagnostics: { reason: 'not_configured', attempts: 0, issues: [] } };
+    }
+    if (candidates.length === 0) {
+        return { success: false, diagnostics: { reason: 'no_videos', attempts: 0, issues: [] } };
+    }
+
+    const knownIds = new Set(candidates.map(v => v.id));
+    const schema = replacementVideoSchema.refine(
+        data => knownIds.has(data.videoId),
+        { path: ['videoId'], message: 'Unknown video ID - use only IDs from the candidate list' }
+    );
+
+    const prompt = REPLACEMENT_PROMPT
+        .replace('{TOPIC}', context.topic)
+        .replace('{LEVEL}', context.userLevel)
+        .replace('{GOAL}', context.userGoal)
+        .replace('{STAGE}', context.stageName)
+        .replace('{TITLE}', original.title)
+        .replace('{DURATION}', original.estimatedTime)
+        .replace('{DIFFICULTY}', original.difficulty)
+        .replace('{CONCEPTS}', original.conceptsCovered.join(', ') || 'Not recorded')
+        .replace('{REASON}', SWAP_REASONS[context.reason])
+        .replace('{VIDEOS}', formatVideosForPrompt(candidates));
+
+    console.log('=== CHOOSING REPLACEMENT VIDEO ===');
+    console.log('Replacing:', original.videoId, '| Reason:', context.reason, '| Candidates:', candidates.length);
+
+    const generated = await generateWithRepairs<ReplacementVideo>(prompt, schema, 'replacement');
+    if (!generated.success) {
+        return generated;
     }
+
+    const pick = generated.result;
+    const chosen = candidates.find(v => v.id === pick.videoId)!;
+
+    return {
+        success: true,
+        attempts: generated.attempts,
+        video: {
+            videoId: chosen.id,
+            title: chosen.title,
+            qualityScore: pick.qualityScore,
+            difficulty: pick.difficulty,
+            conceptsCovered: pick.conceptsCovered,
+            learningOutcomes: pick.learningOutcomes,
+            prerequisites: pick.prerequisites,
+            whyRecommended: pick.whyRecommended,
+            estimatedTime: chosen.duration || 'Unknown',
+            durationSeconds: videoSeconds(chosen),
+            order: original.order,
+        },
+    };
+}
+
+// ============================================
+// Planning a Continuation
+// ============================================
+
+/**
+ * Have the model work out what a finished path left uncovered at the next level
+ */
+export async function planContinuation(context: ContinuationContext): Promise<ContinuationResult> {
+    if (!isLlmConfigured()) {
+        return { success: false, diagnostics: { reason: 'not_configured', attempts: 0, issues: [] } };
+    }
+
+    const prompt = CONTINUATION_PROMPT
+        .replace('{TOPIC}', context.topic)
+        .replace('{COMPLETED_LEVEL}', context.completedLevel)
+        .replace('{GOAL}', context.userGoal)
+        .replace('{CONCEPTS}', context.conceptsCovered.join(', ') || 'Not recorded')
+        .replace('{GOALS}', context.completionGoals.join('; ') || 'Not recorded')
+        .replace('{PREREQUISITES}', context.openPrerequisites.join(', ') || 'Nothing')
+        .replace('{NEXT_LEVEL}', context.nextLevel);
+
+    console.log('=== PLANNING CONTINUATION ===');
+    console.log('Topic:', context.topic, '| Level:', context.completedLevel, '->', context.nextLevel);
+
+    const generated = await generateWithRepairs<ContinuationPlan>(prompt, continuationPlanSchema, 'continuation');
+    if (!generated.success) {
+        return generated;
+    }
+
+    return { success: true, plan: generated.result, attempts: generated.attempts };
 }
 
 // ============================================
@@ -231,7 +635,7 @@ export function formatLearningPathAsText(path: LearningPath): string {
 
     for (const stage of path.stages) {
         lines.push('━'.repeat(45));
-        lines.push(`📍 ${stage.stageName.toUpperCase()}`);
+        lines.push(`📍 ${stage.stageName.toUpperCase()}${stage.estimatedTime ? ` (⏱️ ${stage.estimatedTime})` : ''}`);
         lines.push(stage.description);
         lines.push('━'.repeat(45));
         lines.push('');
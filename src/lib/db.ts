@@ -1,7 +1,7 @@
 // Database client for LinkMe
 // Uses @libsql/client for Turso (production) or Prisma for SQLite (local dev)
 
-import { createClient, Client } from '@libsql/client';
+import { createClient, Client, InStatement } from '@libsql/client';
 
 // Note: PrismaClient is dynamically imported only when needed for local development
 // This prevents bundle-time schema validation errors on Vercel
@@ -14,6 +14,7 @@ export interface DbUser {
   id: string;
   email: string;
   passwordHash: string;
+  hasPassword: boolean;  // false for Google sign-ups until they set a password
   name: string | null;
   emailVerified: boolean;
   createdAt: Date;
@@ -28,12 +29,15 @@ export interface DbUser {
   youtubeTokenExpiry: Date | null;
   youtubeChannelId: string | null;
   youtubeChannelName: string | null;
+  // Email change awaiting verification
+  pendingEmail: string | null;
 }
 
 export interface DbVerificationToken {
   id: string;
   token: string;
   userId: string;
+  purpose: string;
   expiresAt: Date;
   createdAt: Date;
 }
@@ -54,13 +58,47 @@ export interface DbSavedLearningPath {
   userGoal: string;
   totalVideos: number;
   estimatedTotalTime: string;
-  stages: string;
   completionGoals: string;
   summary: string;
+  parentPathId: string | null;
+  editedAt: Date | null;  // Last change the learner made through the edit API
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface DbLearningStage {
+  id: string;
+  learningPathId: string;
+  stageNumber: number;
+  stageName: string;
+  description: string;
+  estimatedTime: string | null;
+  durationSeconds: number | null;
+}
+
+export interface DbLearningPathVideo {
+  id: string;
+  learningPathId: string;
+  stageId: string;
+  videoId: string;
+  position: number;
+  title: string;
+  qualityScore: number;
+  difficulty: string;
+  conceptsCovered: string;
+  learningOutcomes: string;
+  prerequisites: string;
+  whyRecommended: string;
+  estimatedTime: string;
+  durationSeconds: number | null;
+  notes: string | null;
+}
+
+// A stage and its videos as written together; row IDs are generated
+export type NewLearningStage = Omit<DbLearningStage, 'id' | 'learningPathId'> & {
+  videos: Array<Omit<DbLearningPathVideo, 'id' | 'learningPathId' | 'stageId'>>;
+};
+
 export interface DbVideoProgress {
   id: string;
   userId: string;
@@ -70,6 +108,120 @@ export interface DbVideoProgress {
   watchedAt: Date | null;
 }
 
+export interface DbReviewItem {
+  id: string;
+  userId: string;
+  learningPathId: string;
+  videoId: string;
+  concept: string;
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  dueAt: Date;
+  lastReviewedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface DbConversation {
+  id: string;
+  userId: string;
+  searchReady: boolean;
+  searchQuery: string | null;
+  skillLevel: string | null;
+  goal: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface DbConversationMessage {
+  id: string;
+  conversationId: string;
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: Date;
+}
+
+export interface DbRefreshToken {
+  id: string;
+  userId: string;
+  familyId: string;
+  expiresAt: Date;
+  createdAt: Date;
+  rotatedAt: Date | null;
+  revokedAt: Date | null;
+  replacedById: string | null;
+}
+
+export interface DbSession {
+  id: string;
+  userId: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  revokedAt: Date | null;
+}
+
+export interface DbYouTubeQuotaUsage {
+  id: string;
+  day: string;
+  userId: string;
+  operation: string;
+  units: number;
+  createdAt: Date;
+}
+
+export interface DbCredential {
+  id: string;
+  userId: string;
+  credentialId: string;
+  publicKey: string;
+  counter: number;
+  transports: string | null;
+  name: string;
+  createdAt: Date;
+  lastUsedAt: Date | null;
+}
+
+export interface DbAccount {
+  id: string;
+  userId: string;
+  provider: string;
+  providerAccountId: string;
+  email: string | null;
+  createdAt: Date;
+  lastUsedAt: Date | null;
+}
+
+export interface DbAuditEvent {
+  id: string;
+  userId: string | null;
+  type: string;
+  email: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  metadata: string | null;
+  createdAt: Date;
+}
+
+export interface DbGuestLearningPath {
+  id: string;
+  guestId: string;
+  payload: string;
+  watchedVideos: string;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+export interface DbYouTubeCacheEntry {
+  key: string;
+  kind: string;
+  payload: string;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
 // ============================================
 // Turso Client for Production
 // ============================================
@@ -108,6 +260,206 @@ async function tursoExecute(sql: string, args: unknown[] = []): Promise<unknown[
   }
 }
 
+function mapVerificationToken(r: Record<string, unknown>): DbVerificationToken {
+  return {
+    id: String(r.id),
+    token: String(r.token),
+    userId: String(r.userId),
+    purpose: r.purpose ? String(r.purpose) : 'email_verification',
+    expiresAt: new Date(String(r.expiresAt)),
+    createdAt: new Date(String(r.createdAt)),
+  };
+}
+
+function mapSession(r: Record<string, unknown>): DbSession {
+  return {
+    id: String(r.id),
+    userId: String(r.userId),
+    userAgent: r.userAgent ? String(r.userAgent) : null,
+    ipAddress: r.ipAddress ? String(r.ipAddress) : null,
+    createdAt: new Date(String(r.createdAt)),
+    lastSeenAt: new Date(String(r.lastSeenAt)),
+    revokedAt: r.revokedAt ? new Date(String(r.revokedAt)) : null,
+  };
+}
+
+function mapCredential(r: Record<string, unknown>): DbCredential {
+  return {
+    id: String(r.id),
+    userId: String(r.userId),
+    credentialId: String(r.credentialId),
+    publicKey: String(r.publicKey),
+    counter: Number(r.counter),
+    transports: r.transports ? String(r.transports) : null,
+    name: String(r.name),
+    createdAt: new Date(String(r.createdAt)),
+    lastUsedAt: r.lastUsedAt ? new Date(String(r.lastUsedAt)) : null,
+  };
+}
+
+function mapAccount(r: Record<string, unknown>): DbAccount {
+  return {
+    id: String(r.id),
+    userId: String(r.userId),
+    provider: String(r.provider),
+    providerAccountId: String(r.providerAccountId),
+    email: r.email ? String(r.email) : null,
+    createdAt: new Date(String(r.createdAt)),
+    lastUsedAt: r.lastUsedAt ? new Date(String(r.lastUsedAt)) : null,
+  };
+}
+
+function mapAuditEvent(r: Record<string, unknown>): DbAuditEvent {
+  return {
+    id: String(r.id),
+    userId: r.userId ? String(r.userId) : null,
+    type: String(r.type),
+    email: r.email ? String(r.email) : null,
+    ipAddress: r.ipAddress ? String(r.ipAddress) : null,
+    userAgent: r.userAgent ? String(r.userAgent) : null,
+    metadata: r.metadata ? String(r.metadata) : null,
+    createdAt: new Date(String(r.createdAt)),
+  };
+}
+
+function auditEventWhere(where: { userId?: string; email?: string; type?: string; createdAt?: { gte?: Date; lte?: Date } }): { sql: string; values: unknown[] } {
+  const conditions: string[] = [];
+  const values: unknown[] = [];
+
+  if (where.userId !== undefined) {
+    conditions.push('userId = ?');
+    values.push(where.userId);
+  }
+  if (where.email !== undefined) {
+    conditions.push('email = ?');
+    values.push(where.email);
+  }
+  if (where.type !== undefined) {
+    conditions.push('type = ?');
+    values.push(where.type);
+  }
+  if (where.createdAt?.gte) {
+    conditions.push('createdAt >= ?');
+    values.push(where.createdAt.gte.toISOString());
+  }
+  if (where.createdAt?.lte) {
+    conditions.push('createdAt <= ?');
+    values.push(where.createdAt.lte.toISOString());
+  }
+
+  return { sql: conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '', values };
+}
+
+function mapGuestLearningPath(r: Record<string, unknown>): DbGuestLearningPath {
+  return {
+    id: String(r.id),
+    guestId: String(r.guestId),
+    payload: String(r.payload),
+    watchedVideos: r.watchedVideos ? String(r.watchedVideos) : '[]',
+    expiresAt: new Date(String(r.expiresAt)),
+    createdAt: new Date(String(r.createdAt)),
+  };
+}
+
+function mapSavedLearningPath(r: Record<string, unknown>): DbSavedLearningPath {
+  return {
+    id: String(r.id),
+    userId: String(r.userId),
+    topic: String(r.topic),
+    userLevel: String(r.userLevel),
+    userGoal: String(r.userGoal),
+    totalVideos: Number(r.totalVideos),
+    estimatedTotalTime: String(r.estimatedTotalTime),
+    completionGoals: String(r.completionGoals),
+    summary: String(r.summary),
+    parentPathId: r.parentPathId ? String(r.parentPathId) : null,
+    editedAt: r.editedAt ? new Date(String(r.editedAt)) : null,
+    createdAt: new Date(String(r.createdAt)),
+    updatedAt: new Date(String(r.updatedAt)),
+  };
+}
+
+function mapLearningStage(r: Record<string, unknown>): DbLearningStage {
+  return {
+    id: String(r.id),
+    learningPathId: String(r.learningPathId),
+    stageNumber: Number(r.stageNumber),
+    stageName: String(r.stageName),
+    description: String(r.description),
+    estimatedTime: r.estimatedTime ? String(r.estimatedTime) : null,
+    durationSeconds: r.durationSeconds !== null && r.durationSeconds !== undefined ? Number(r.durationSeconds) : null,
+  };
+}
+
+function mapLearningPathVideo(r: Record<string, unknown>): DbLearningPathVideo {
+  return {
+    id: String(r.id),
+    learningPathId: String(r.learningPathId),
+    stageId: String(r.stageId),
+    videoId: String(r.videoId),
+    position: Number(r.position),
+    title: String(r.title),
+    qualityScore: Number(r.qualityScore),
+    difficulty: String(r.difficulty),
+    conceptsCovered: String(r.conceptsCovered),
+    learningOutcomes: String(r.learningOutcomes),
+    prerequisites: String(r.prerequisites),
+    whyRecommended: String(r.whyRecommended),
+    estimatedTime: String(r.estimatedTime),
+    durationSeconds: r.durationSeconds !== null && r.durationSeconds !== undefined ? Number(r.durationSeconds) : null,
+    notes: r.notes ? String(r.notes) : null,
+  };
+}
+
+function mapReviewItem(r: Record<string, unknown>): DbReviewItem {
+  return {
+    id: String(r.id),
+    userId: String(r.userId),
+    learningPathId: String(r.learningPathId),
+    videoId: String(r.videoId),
+    concept: String(r.concept),
+    easeFactor: Number(r.easeFactor),
+    intervalDays: Number(r.intervalDays),
+    repetitions: Number(r.repetitions),
+    dueAt: new Date(String(r.dueAt)),
+    lastReviewedAt: r.lastReviewedAt ? new Date(String(r.lastReviewedAt)) : null,
+    createdAt: new Date(String(r.createdAt)),
+    updatedAt: new Date(String(r.updatedAt)),
+  };
+}
+
+function learningPathIdWhere(learningPathId: string | { in: string[] }): { sql: string; values: string[] } {
+  if (typeof learningPathId === 'string') return { sql: 'learningPathId = ?', values: [learningPathId] };
+  if (learningPathId.in.length === 0) return { sql: '0', values: [] };
+  return { sql: `learningPathId IN (${learningPathId.in.map(() => '?').join(', ')})`, values: learningPathId.in };
+}
+
+/**
+ * Statements that replace a path's stages and videos; run them in the same write as the path itself
+ */
+function replaceStagesStatements(learningPathId: string, stages: NewLearningStage[]): InStatement[] {
+  const statements: InStatement[] = [
+    { sql: 'DELETE FROM LearningPathVideo WHERE learningPathId = ?', args: [learningPathId] },
+    { sql: 'DELETE FROM LearningStage WHERE learningPathId = ?', args: [learningPathId] },
+  ];
+
+  for (const stage of stages) {
+    const stageId = generateId();
+    statements.push({
+      sql: 'INSERT INTO LearningStage (id, learningPathId, stageNumber, stageName, description, estimatedTime, durationSeconds) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      args: [stageId, learningPathId, stage.stageNumber, stage.stageName, stage.description, stage.estimatedTime ?? null, stage.durationSeconds ?? null],
+    });
+    for (const video of stage.videos) {
+      statements.push({
+        sql: 'INSERT INTO LearningPathVideo (id, learningPathId, stageId, videoId, position, title, qualityScore, difficulty, conceptsCovered, learningOutcomes, prerequisites, whyRecommended, estimatedTime, durationSeconds, notes) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+        args: [generateId(), learningPathId, stageId, video.videoId, video.position, video.title, video.qualityScore, video.difficulty, video.conceptsCovered, video.learningOutcomes, video.prerequisites, video.whyRecommended, video.estimatedTime, video.durationSeconds ?? null, video.notes ?? null],
+      });
+    }
+  }
+
+  return statements;
+}
+
 // ============================================
 // Turso Database Implementation
 // ============================================
@@ -124,6 +476,7 @@ const tursoDb = {
         id: String(r.id),
         email: String(r.email),
         passwordHash: String(r.passwordHash),
+        hasPassword: Boolean(r.hasPassword),
         name: r.name ? String(r.name) : null,
         emailVerified: Boolean(r.emailVerified),
         createdAt: new Date(String(r.createdAt)),
@@ -138,19 +491,22 @@ const tursoDb = {
         youtubeTokenExpiry: r.youtubeTokenExpiry ? new Date(String(r.youtubeTokenExpiry)) : null,
         youtubeChannelId: r.youtubeChannelId ? String(r.youtubeChannelId) : null,
         youtubeChannelName: r.youtubeChannelName ? String(r.youtubeChannelName) : null,
+        pendingEmail: r.pendingEmail ? String(r.pendingEmail) : null,
       };
     },
-    async create(args: { data: { email: string; passwordHash: string; name?: string | null; emailVerified?: boolean } }): Promise<DbUser> {
+    async create(args: { data: { email: string; passwordHash: string; hasPassword?: boolean; name?: string | null; emailVerified?: boolean } }): Promise<DbUser> {
       const id = generateId();
       const now = new Date().toISOString();
+      const hasPassword = args.data.hasPassword ?? true;
       await tursoExecute(
-        'INSERT INTO User (id, email, passwordHash, name, emailVerified, createdAt, updatedAt, twoFactorEnabled) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
-        [id, args.data.email, args.data.passwordHash, args.data.name ?? null, args.data.emailVerified ? 1 : 0, now, now, 0]
+        'INSERT INTO User (id, email, passwordHash, hasPassword, name, emailVerified, createdAt, updatedAt, twoFactorEnabled) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+        [id, args.data.email, args.data.passwordHash, hasPassword ? 1 : 0, args.data.name ?? null, args.data.emailVerified ? 1 : 0, now, now, 0]
       );
       return {
         id,
         email: args.data.email,
         passwordHash: args.data.passwordHash,
+        hasPassword,
         name: args.data.name ?? null,
         emailVerified: args.data.emailVerified ?? false,
         createdAt: new Date(now),
@@ -163,6 +519,7 @@ const tursoDb = {
         youtubeTokenExpiry: null,
         youtubeChannelId: null,
         youtubeChannelName: null,
+        pendingEmail: null,
       };
     },
     async update(args: { where: { email?: string; id?: string }; data: Record<string, unknown> }): Promise<DbUser> {
@@ -173,8 +530,12 @@ const tursoDb = {
 
       // Handle all possible update fields
       const fieldMappings: Record<string, string> = {
+        email: 'email',
         emailVerified: 'emailVerified',
         name: 'name',
+        passwordHash: 'passwordHash',
+        hasPassword: 'hasPassword',
+        pendingEmail: 'pendingEmail',
         twoFactorEnabled: 'twoFactorEnabled',
         twoFactorSecret: 'twoFactorSecret',
         twoFactorBackupCodes: 'twoFactorBackupCodes',
@@ -215,6 +576,7 @@ const tursoDb = {
           id: String(row.id),
           email: String(row.email),
           passwordHash: String(row.passwordHash),
+          hasPassword: Boolean(row.hasPassword),
           name: row.name ? String(row.name) : null,
           emailVerified: Boolean(row.emailVerified),
           createdAt: new Date(String(row.createdAt)),
@@ -227,6 +589,7 @@ const tursoDb = {
           youtubeTokenExpiry: row.youtubeTokenExpiry ? new Date(String(row.youtubeTokenExpiry)) : null,
           youtubeChannelId: row.youtubeChannelId ? String(row.youtubeChannelId) : null,
           youtubeChannelName: row.youtubeChannelName ? String(row.youtubeChannelName) : null,
+          pendingEmail: row.pendingEmail ? String(row.pendingEmail) : null,
         };
       });
     },
@@ -240,6 +603,25 @@ const tursoDb = {
       const rows = await tursoExecute(sql, values);
       return Number((rows[0] as Record<string, unknown>).count);
     },
+    async delete(args: { where: { id: string } }): Promise<void> {
+      // Mirror the onDelete: Cascade relations in schema.prisma in a single transaction
+      const userId = args.where.id;
+      await getTurso().batch([
+        { sql: 'DELETE FROM ReviewItem WHERE userId = ?', args: [userId] },
+        { sql: 'DELETE FROM VideoProgress WHERE learningPathId IN (SELECT id FROM SavedLearningPath WHERE userId = ?)', args: [userId] },
+        { sql: 'DELETE FROM LearningPathVideo WHERE learningPathId IN (SELECT id FROM SavedLearningPath WHERE userId = ?)', args: [userId] },
+        { sql: 'DELETE FROM LearningStage WHERE learningPathId IN (SELECT id FROM SavedLearningPath WHERE userId = ?)', args: [userId] },
+        { sql: 'DELETE FROM SavedLearningPath WHERE userId = ?', args: [userId] },
+        { sql: 'DELETE FROM ChatHistory WHERE userId = ?', args: [userId] },
+        { sql: 'DELETE FROM VerificationToken WHERE userId = ?', args: [userId] },
+        { sql: 'DELETE FROM RefreshToken WHERE userId = ?', args: [userId] },
+        { sql: 'DELETE FROM Session WHERE userId = ?', args: [userId] },
+        { sql: 'DELETE FROM Credential WHERE userId = ?', args: [userId] },
+        { sql: 'DELETE FROM Account WHERE userId = ?', args: [userId] },
+        { sql: 'DELETE FROM AuditEvent WHERE userId = ?', args: [userId] },
+        { sql: 'DELETE FROM User WHERE id = ?', args: [userId] },
+      ], 'write');
+    },
   },
   verificationToken: {
     async findUnique(args: { where: { token?: string; id?: string } }): Promise<DbVerificationToken | null> {
@@ -247,26 +629,34 @@ const tursoDb = {
       const value = args.where.token ?? args.where.id;
       const rows = await tursoExecute(`SELECT * FROM VerificationToken WHERE ${key} = ?`, [value]);
       if (rows.length === 0) return null;
-      const r = rows[0] as Record<string, unknown>;
-      return {
-        id: String(r.id),
-        token: String(r.token),
-        userId: String(r.userId),
-        expiresAt: new Date(String(r.expiresAt)),
-        createdAt: new Date(String(r.createdAt)),
-      };
+      return mapVerificationToken(rows[0] as Record<string, unknown>);
     },
-    async create(args: { data: { token: string; userId: string; expiresAt: Date } }): Promise<DbVerificationToken> {
+    async findFirst(args: { where: { token: string; userId: string; purpose?: string }; orderBy?: { createdAt: 'desc' } }): Promise<DbVerificationToken | null> {
+      const rows = args.where.purpose !== undefined
+        ? await tursoExecute(
+          'SELECT * FROM VerificationToken WHERE token = ? AND userId = ? AND purpose = ? ORDER BY createdAt DESC LIMIT 1',
+          [args.where.token, args.where.userId, args.where.purpose]
+        )
+        : await tursoExecute(
+          'SELECT * FROM VerificationToken WHERE token = ? AND userId = ? ORDER BY createdAt DESC LIMIT 1',
+          [args.where.token, args.where.userId]
+        );
+      if (rows.length === 0) return null;
+      return mapVerificationToken(rows[0] as Record<string, unknown>);
+    },
+    async create(args: { data: { token: string; userId: string; expiresAt: Date; purpose?: string } }): Promise<DbVerificationToken> {
       const id = generateId();
       const now = new Date().toISOString();
+      const purpose = args.data.purpose ?? 'email_verification';
       await tursoExecute(
-        'INSERT INTO VerificationToken (id, token, userId, expiresAt, createdAt) VALUES (?, ?, ?, ?, ?)',
-        [id, args.data.token, args.data.userId, args.data.expiresAt.toISOString(), now]
+        'INSERT INTO VerificationToken (id, token, userId, purpose, expiresAt, createdAt) VALUES (?, ?, ?, ?, ?, ?)',
+        [id, args.data.token, args.data.userId, purpose, args.data.expiresAt.toISOString(), now]
       );
       return {
         id,
         token: args.data.token,
         userId: args.data.userId,
+        purpose,
         expiresAt: args.data.expiresAt,
         createdAt: new Date(now),
       };
@@ -274,8 +664,12 @@ const tursoDb = {
     async delete(args: { where: { id: string } }): Promise<void> {
       await tursoExecute('DELETE FROM VerificationToken WHERE id = ?', [args.where.id]);
     },
-    async deleteMany(args: { where: { userId: string } }): Promise<{ count: number }> {
-      await tursoExecute('DELETE FROM VerificationToken WHERE userId = ?', [args.where.userId]);
+    async deleteMany(args: { where: { userId: string; purpose?: string } }): Promise<{ count: number }> {
+      if (args.where.purpose !== undefined) {
+        await tursoExecute('DELETE FROM VerificationToken WHERE userId = ? AND purpose = ?', [args.where.userId, args.where.purpose]);
+      } else {
+        await tursoExecute('DELETE FROM VerificationToken WHERE userId = ?', [args.where.userId]);
+      }
       return { count: 0 };
     },
   },
@@ -360,16 +754,19 @@ const tursoDb = {
     },
   },
   savedLearningPath: {
-    async create(args: { data: { userId: string; topic: string; userLevel: string; userGoal: string; totalVideos: number; estimatedTotalTime: string; stages: string; completionGoals: string; summary: string } }): Promise<{ id: string }> {
+    async create(args: { data: { userId: string; topic: string; userLevel: string; userGoal: string; totalVideos: number; estimatedTotalTime: string; stages: NewLearningStage[]; completionGoals: string; summary: string; parentPathId?: string | null } }): Promise<{ id: string }> {
       const id = generateId();
       const now = new Date().toISOString();
-      await tursoExecute(
-        'INSERT INTO SavedLearningPath (id, userId, topic, userLevel, userGoal, totalVideos, estimatedTotalTime, stages, completionGoals, summary, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
-        [id, args.data.userId, args.data.topic, args.data.userLevel, args.data.userGoal, args.data.totalVideos, args.data.estimatedTotalTime, args.data.stages, args.data.completionGoals, args.data.summary, now, now]
-      );
+      await getTurso().batch([
+        {
+          sql: 'INSERT INTO SavedLearningPath (id, userId, topic, userLevel, userGoal, totalVideos, estimatedTotalTime, completionGoals, summary, parentPathId, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+          args: [id, args.data.userId, args.data.topic, args.data.userLevel, args.data.userGoal, args.data.totalVideos, args.data.estimatedTotalTime, args.data.completionGoals, args.data.summary, args.data.parentPathId ?? null, now, now],
+        },
+        ...replaceStagesStatements(id, args.data.stages),
+      ], 'write');
       return { id };
     },
-    async findFirst(args: { where: { userId?: string; topic?: string; userLevel?: string; userGoal?: string; id?: string } }): Promise<DbSavedLearningPath | null> {
+    async findFirst(args: { where: { userId?: string; topic?: string; userLevel?: string; userGoal?: string; id?: string; parentPathId?: string } }): Promise<DbSavedLearningPath | null> {
       const conditions: string[] = [];
       const values: unknown[] = [];
 
@@ -393,6 +790,10 @@ const tursoDb = {
         conditions.push('userGoal = ?');
         values.push(args.where.userGoal);
       }
+      if (args.where.parentPathId) {
+        conditions.push('parentPathId = ?');
+        values.push(args.where.parentPathId);
+      }
 
       let sql = 'SELECT * FROM SavedLearningPath';
       if (conditions.length > 0) {
@@ -402,23 +803,9 @@ const tursoDb = {
 
       const rows = await tursoExecute(sql, values);
       if (rows.length === 0) return null;
-      const r = rows[0] as Record<string, unknown>;
-      return {
-        id: String(r.id),
-        userId: String(r.userId),
-        topic: String(r.topic),
-        userLevel: String(r.userLevel),
-        userGoal: String(r.userGoal),
-        totalVideos: Number(r.totalVideos),
-        estimatedTotalTime: String(r.estimatedTotalTime),
-        stages: String(r.stages),
-        completionGoals: String(r.completionGoals),
-        summary: String(r.summary),
-        createdAt: new Date(String(r.createdAt)),
-        updatedAt: new Date(String(r.updatedAt)),
-      };
+      return mapSavedLearningPath(rows[0] as Record<string, unknown>);
     },
-    async update(args: { where: { id: string }; data: { totalVideos?: number; estimatedTotalTime?: string; summary?: string; completionGoals?: string; stages?: string } }): Promise<DbSavedLearningPath> {
+    async update(args: { where: { id: string }; data: { totalVideos?: number; estimatedTotalTime?: string; summary?: string; completionGoals?: string; stages?: NewLearningStage[] } }): Promise<DbSavedLearningPath> {
       const updates: string[] = [];
       const values: unknown[] = [];
 
@@ -438,63 +825,62 @@ const tursoDb = {
         updates.push('completionGoals = ?');
         values.push(args.data.completionGoals);
       }
-      if (args.data.stages !== undefined) {
-        updates.push('stages = ?');
-        values.push(args.data.stages);
-      }
 
       updates.push('updatedAt = ?');
       values.push(new Date().toISOString());
       values.push(args.where.id);
 
-      if (updates.length > 1) {
-        await tursoExecute(`UPDATE SavedLearningPath SET ${updates.join(', ')} WHERE id = ?`, values);
+      if (updates.length > 1 || args.data.stages !== undefined) {
+        await getTurso().batch([
+          { sql: `UPDATE SavedLearningPath SET ${updates.join(', ')} WHERE id = ?`, args: values as (string | number | null)[] },
+          ...(args.data.stages !== undefined ? replaceStagesStatements(args.where.id, args.data.stages) : []),
+        ], 'write');
       }
       
       const path = await tursoDb.savedLearningPath.findUnique({ where: { id: args.where.id } });
       return path!;
     },
+    // Only writes when the row is still at the given version (optimistic concurrency)
+    async updateMany(args: { where: { id: string; updatedAt: Date }; data: { totalVideos: number; estimatedTotalTime: string; stages: NewLearningStage[] } }): Promise<{ count: number }> {
+      const tx = await getTurso().transaction('write');
+      try {
+        // Only the learner's edits come through here, so they also mark the path as edited
+        const now = new Date().toISOString();
+        const result = await tx.execute({
+          sql: 'UPDATE SavedLearningPath SET totalVideos = ?, estimatedTotalTime = ?, editedAt = ?, updatedAt = ? WHERE id = ? AND updatedAt = ?',
+          args: [args.data.totalVideos, args.data.estimatedTotalTime, now, now, args.where.id, args.where.updatedAt.toISOString()],
+        });
+        if (result.rowsAffected === 0) {
+          await tx.rollback();
+          return { count: 0 };
+        }
+        await tx.batch(replaceStagesStatements(args.where.id, args.data.stages));
+        await tx.commit();
+        return { count: result.rowsAffected };
+      } finally {
+        tx.close();
+      }
+    },
     async findUnique(args: { where: { id: string } }): Promise<DbSavedLearningPath | null> {
       const rows = await tursoExecute('SELECT * FROM SavedLearningPath WHERE id = ?', [args.where.id]);
       if (rows.length === 0) return null;
-      const r = rows[0] as Record<string, unknown>;
-      return {
-        id: String(r.id),
-        userId: String(r.userId),
-        topic: String(r.topic),
-        userLevel: String(r.userLevel),
-        userGoal: String(r.userGoal),
-        totalVideos: Number(r.totalVideos),
-        estimatedTotalTime: String(r.estimatedTotalTime),
-        stages: String(r.stages),
-        completionGoals: String(r.completionGoals),
-        summary: String(r.summary),
-        createdAt: new Date(String(r.createdAt)),
-        updatedAt: new Date(String(r.updatedAt)),
-      };
+      return mapSavedLearningPath(rows[0] as Record<string, unknown>);
     },
     async findMany(args: { where: { userId: string }; orderBy?: { createdAt: string } }): Promise<DbSavedLearningPath[]> {
       const rows = await tursoExecute('SELECT * FROM SavedLearningPath WHERE userId = ? ORDER BY createdAt DESC', [args.where.userId]);
-      return rows.map((r: unknown) => {
-        const row = r as Record<string, unknown>;
-        return {
-          id: String(row.id),
-          userId: String(row.userId),
-          topic: String(row.topic),
-          userLevel: String(row.userLevel),
-          userGoal: String(row.userGoal),
-          totalVideos: Number(row.totalVideos),
-          estimatedTotalTime: String(row.estimatedTotalTime),
-          stages: String(row.stages),
-          completionGoals: String(row.completionGoals),
-          summary: String(row.summary),
-          createdAt: new Date(String(row.createdAt)),
-          updatedAt: new Date(String(row.updatedAt)),
-        };
-      });
+      return rows.map((r: unknown) => mapSavedLearningPath(r as Record<string, unknown>));
     },
     async delete(args: { where: { id: string } }): Promise<void> {
-      await tursoExecute('DELETE FROM SavedLearningPath WHERE id = ?', [args.where.id]);
+      const id = args.where.id;
+      await getTurso().batch([
+        // Continuations outlive the path they continued
+        { sql: 'UPDATE SavedLearningPath SET parentPathId = NULL WHERE parentPathId = ?', args: [id] },
+        { sql: 'DELETE FROM ReviewItem WHERE learningPathId = ?', args: [id] },
+        { sql: 'DELETE FROM VideoProgress WHERE learningPathId = ?', args: [id] },
+        { sql: 'DELETE FROM LearningPathVideo WHERE learningPathId = ?', args: [id] },
+        { sql: 'DELETE FROM LearningStage WHERE learningPathId = ?', args: [id] },
+        { sql: 'DELETE FROM SavedLearningPath WHERE id = ?', args: [id] },
+      ], 'write');
     },
     async count(args?: { where?: { userId?: string } }): Promise<number> {
       let sql = 'SELECT COUNT(*) as count FROM SavedLearningPath';
@@ -507,9 +893,32 @@ const tursoDb = {
       return Number((rows[0] as Record<string, unknown>).count);
     },
   },
+  learningStage: {
+    async findMany(args: { where: { learningPathId: string | { in: string[] } } }): Promise<DbLearningStage[]> {
+      const { sql, values } = learningPathIdWhere(args.where.learningPathId);
+      const rows = await tursoExecute(`SELECT * FROM LearningStage WHERE ${sql} ORDER BY stageNumber ASC`, values);
+      return rows.map((r: unknown) => mapLearningStage(r as Record<string, unknown>));
+    },
+  },
+  learningPathVideo: {
+    async findUnique(args: { where: { learningPathId_videoId: { learningPathId: string; videoId: string } } }): Promise<DbLearningPathVideo | null> {
+      const { learningPathId, videoId } = args.where.learningPathId_videoId;
+      const rows = await tursoExecute('SELECT * FROM LearningPathVideo WHERE learningPathId = ? AND videoId = ?', [learningPathId, videoId]);
+      return rows.length > 0 ? mapLearningPathVideo(rows[0] as Record<string, unknown>) : null;
+    },
+    async findMany(args: { where: { learningPathId: string | { in: string[] } } | { videoId: string } }): Promise<DbLearningPathVideo[]> {
+      const { sql, values } = 'videoId' in args.where
+        ? { sql: 'videoId = ?', values: [args.where.videoId] }
+        : learningPathIdWhere(args.where.learningPathId);
+      const rows = await tursoExecute(`SELECT * FROM LearningPathVideo WHERE ${sql} ORDER BY position ASC`, values);
+      return rows.map((r: unknown) => mapLearningPathVideo(r as Record<string, unknown>));
+    },
+  },
   videoProgress: {
-    async findMany(args: { where: { learningPathId: string } }): Promise<DbVideoProgress[]> {
-      const rows = await tursoExecute('SELECT * FROM VideoProgress WHERE learningPathId = ?', [args.where.learningPathId]);
+    async findMany(args: { where: { learningPathId?: string; userId?: string } }): Promise<DbVideoProgress[]> {
+      const rows = args.where.learningPathId !== undefined
+        ? await tursoExecute('SELECT * FROM VideoProgress WHERE learningPathId = ?', [args.where.learningPathId])
+        : await tursoExecute('SELECT * FROM VideoProgress WHERE userId = ?', [args.where.userId]);
       return rows.map((r: unknown) => {
         const row = r as Record<string, unknown>;
         return {
@@ -559,11 +968,633 @@ const tursoDb = {
         };
       }
     },
-    async deleteMany(args: { where: { learningPathId: string } }): Promise<{ count: number }> {
+    async deleteMany(args: { where: { learningPathId: string; videoId?: { in: string[] } } }): Promise<{ count: number }> {
+      if (args.where.videoId) {
+        const videoIds = args.where.videoId.in;
+        if (videoIds.length === 0) return { count: 0 };
+        const result = await getTurso().execute({
+          sql: `DELETE FROM VideoProgress WHERE learningPathId = ? AND videoId IN (${videoIds.map(() => '?').join(', ')})`,
+          args: [args.where.learningPathId, ...videoIds],
+        });
+        return { count: result.rowsAffected };
+      }
       await tursoExecute('DELETE FROM VideoProgress WHERE learningPathId = ?', [args.where.learningPathId]);
       return { count: 0 };
     },
   },
+  reviewItem: {
+    // Concepts that already have a review keep their schedule
+    async createMany(args: { data: Array<{ userId: string; learningPathId: string; videoId: string; concept: string; dueAt: Date }> }): Promise<{ count: number }> {
+      if (args.data.length === 0) return { count: 0 };
+      const now = new Date().toISOString();
+      const results = await getTurso().batch(args.data.map(item => ({
+        sql: 'INSERT OR IGNORE INTO ReviewItem (id, userId, learningPathId, videoId, concept, easeFactor, intervalDays, repetitions, dueAt, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, 2.5, 0, 0, ?, ?, ?)',
+        args: [generateId(), item.userId, item.learningPathId, item.videoId, item.concept, item.dueAt.toISOString(), now, now],
+      })), 'write');
+      return { count: results.reduce((sum, result) => sum + result.rowsAffected, 0) };
+    },
+    async findFirst(args: { where: { id: string; userId: string } }): Promise<DbReviewItem | null> {
+      const rows = await tursoExecute('SELECT * FROM ReviewItem WHERE id = ? AND userId = ?', [args.where.id, args.where.userId]);
+      return rows.length > 0 ? mapReviewItem(rows[0] as Record<string, unknown>) : null;
+    },
+    // Soonest due first
+    async findMany(args: { where: { userId: string; dueAt?: { lte: Date } }; take?: number }): Promise<DbReviewItem[]> {
+      let sql = 'SELECT * FROM ReviewItem WHERE userId = ?';
+      const values: unknown[] = [args.where.userId];
+      if (args.where.dueAt) {
+        sql += ' AND dueAt <= ?';
+        values.push(args.where.dueAt.lte.toISOString());
+      }
+      sql += ' ORDER BY dueAt ASC';
+      if (args.take !== undefined) {
+        sql += ' LIMIT ?';
+        values.push(args.take);
+      }
+      const rows = await tursoExecute(sql, values);
+      return rows.map((r: unknown) => mapReviewItem(r as Record<string, unknown>));
+    },
+    async count(args: { where: { userId: string; dueAt?: { lte: Date } } }): Promise<number> {
+      let sql = 'SELECT COUNT(*) as count FROM ReviewItem WHERE userId = ?';
+      const values: unknown[] = [args.where.userId];
+      if (args.where.dueAt) {
+        sql += ' AND dueAt <= ?';
+        values.push(args.where.dueAt.lte.toISOString());
+      }
+      const rows = await tursoExecute(sql, values);
+      return Number((rows[0] as Record<string, unknown>).count);
+    },
+    async update(args: { where: { id: string }; data: { easeFactor: number; intervalDays: number; repetitions: number; dueAt: Date; lastReviewedAt: Date } }): Promise<DbReviewItem> {
+      await tursoExecute(
+        'UPDATE ReviewItem SET easeFactor = ?, intervalDays = ?, repetitions = ?, dueAt = ?, lastReviewedAt = ?, updatedAt = ? WHERE id = ?',
+        [args.data.easeFactor, args.data.intervalDays, args.data.repetitions, args.data.dueAt.toISOString(), args.data.lastReviewedAt.toISOString(), new Date().toISOString(), args.where.id]
+      );
+      const rows = await tursoExecute('SELECT * FROM ReviewItem WHERE id = ?', [args.where.id]);
+      return mapReviewItem(rows[0] as Record<string, unknown>);
+    },
+    async deleteMany(args: { where: { learningPathId: string; videoId?: { in: string[] } } }): Promise<{ count: number }> {
+      const videoIds = args.where.videoId?.in;
+      if (videoIds && videoIds.length === 0) return { count: 0 };
+      const result = await getTurso().execute(videoIds
+        ? {
+          sql: `DELETE FROM ReviewItem WHERE learningPathId = ? AND videoId IN (${videoIds.map(() => '?').join(', ')})`,
+          args: [args.where.learningPathId, ...videoIds],
+        }
+        : { sql: 'DELETE FROM ReviewItem WHERE learningPathId = ?', args: [args.where.learningPathId] });
+      return { count: result.rowsAffected };
+    },
+  },
+  conversation: {
+    async findUnique(args: { where: { id: string } }): Promise<DbConversation | null> {
+      const rows = await tursoExecute('SELECT * FROM Conversation WHERE id = ?', [args.where.id]);
+      if (rows.length === 0) return null;
+      const r = rows[0] as Record<string, unknown>;
+      return {
+        id: String(r.id),
+        userId: String(r.userId),
+        searchReady: Boolean(r.searchReady),
+        searchQuery: r.searchQuery ? String(r.searchQuery) : null,
+        skillLevel: r.skillLevel ? String(r.skillLevel) : null,
+        goal: r.goal ? String(r.goal) : null,
+        createdAt: new Date(String(r.createdAt)),
+        updatedAt: new Date(String(r.updatedAt)),
+      };
+    },
+    async create(args: { data: { id?: string; userId: string } }): Promise<DbConversation> {
+      const id = args.data.id ?? generateId();
+      const now = new Date().toISOString();
+      await tursoExecute(
+        'INSERT INTO Conversation (id, userId, searchReady, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?)',
+        [id, args.data.userId, 0, now, now]
+      );
+      return {
+        id,
+        userId: args.data.userId,
+        searchReady: false,
+        searchQuery: null,
+        skillLevel: null,
+        goal: null,
+        createdAt: new Date(now),
+        updatedAt: new Date(now),
+      };
+    },
+    async update(args: { where: { id: string }; data: { searchReady?: boolean; searchQuery?: string | null; skillLevel?: string | null; goal?: string | null } }): Promise<DbConversation> {
+      const updates: string[] = [];
+      const values: unknown[] = [];
+
+      if (args.data.searchReady !== undefined) {
+        updates.push('searchReady = ?');
+        values.push(args.data.searchReady ? 1 : 0);
+      }
+      if (args.data.searchQuery !== undefined) {
+        updates.push('searchQuery = ?');
+        values.push(args.data.searchQuery);
+      }
+      if (args.data.skillLevel !== undefined) {
+        updates.push('skillLevel = ?');
+        values.push(args.data.skillLevel);
+      }
+      if (args.data.goal !== undefined) {
+        updates.push('goal = ?');
+        values.push(args.data.goal);
+      }
+
+      // Always bump updatedAt so a new turn marks the conversation as active
+      updates.push('updatedAt = ?');
+      values.push(new Date().toISOString());
+      values.push(args.where.id);
+
+      await tursoExecute(`UPDATE Conversation SET ${updates.join(', ')} WHERE id = ?`, values);
+      const conversation = await tursoDb.conversation.findUnique({ where: { id: args.where.id } });
+      return conversation!;
+    },
+    async findMany(args: { where: { userId: string }; orderBy?: { createdAt: string } }): Promise<DbConversation[]> {
+      const rows = await tursoExecute('SELECT * FROM Conversation WHERE userId = ? ORDER BY createdAt ASC', [args.where.userId]);
+      return rows.map((r: unknown) => {
+        const row = r as Record<string, unknown>;
+        return {
+          id: String(row.id),
+          userId: String(row.userId),
+          searchReady: Boolean(row.searchReady),
+          searchQuery: row.searchQuery ? String(row.searchQuery) : null,
+          skillLevel: row.skillLevel ? String(row.skillLevel) : null,
+          goal: row.goal ? String(row.goal) : null,
+          createdAt: new Date(String(row.createdAt)),
+          updatedAt: new Date(String(row.updatedAt)),
+        };
+      });
+    },
+    async updateMany(args: { where: { userId: string }; data: { userId: string } }): Promise<{ count: number }> {
+      const result = await getTurso().execute({
+        sql: 'UPDATE Conversation SET userId = ? WHERE userId = ?',
+        args: [args.data.userId, args.where.userId],
+      });
+      return { count: result.rowsAffected };
+    },
+    async deleteMany(args: { where: { userId: string } | { userId: { startsWith: string }; updatedAt: { lt: Date } } }): Promise<{ count: number }> {
+      let condition: string;
+      let values: string[];
+      if (typeof args.where.userId === 'string') {
+        condition = 'userId = ?';
+        values = [args.where.userId];
+      } else {
+        const where = args.where as { userId: { startsWith: string }; updatedAt: { lt: Date } };
+        condition = "userId LIKE ? ESCAPE '\\' AND updatedAt < ?";
+        values = [`${where.userId.startsWith.replace(/[\\%_]/g, '\\$&')}%`, where.updatedAt.lt.toISOString()];
+      }
+
+      // Conversation has no User relation (guests use it too), so messages are cleared here
+      const results = await getTurso().batch([
+        { sql: `DELETE FROM ConversationMessage WHERE conversationId IN (SELECT id FROM Conversation WHERE ${condition})`, args: values },
+        { sql: `DELETE FROM Conversation WHERE ${condition}`, args: values },
+      ], 'write');
+      return { count: results[1].rowsAffected };
+    },
+  },
+  conversationMessage: {
+    async create(args: { data: { conversationId: string; role: 'user' | 'assistant'; content: string } }): Promise<DbConversationMessage> {
+      const id = generateId();
+      const now = new Date().toISOString();
+      await tursoExecute(
+        'INSERT INTO ConversationMessage (id, conversationId, role, content, createdAt) VALUES (?, ?, ?, ?, ?)',
+        [id, args.data.conversationId, args.data.role, args.data.content, now]
+      );
+      return {
+        id,
+        conversationId: args.data.conversationId,
+        role: args.data.role,
+        content: args.data.content,
+        createdAt: new Date(now),
+      };
+    },
+    async findMany(args: { where: { conversationId: string }; orderBy?: { createdAt: string } }): Promise<DbConversationMessage[]> {
+      // rowid breaks ties between turns written within the same millisecond
+      const rows = await tursoExecute('SELECT * FROM ConversationMessage WHERE conversationId = ? ORDER BY createdAt ASC, rowid ASC', [args.where.conversationId]);
+      return rows.map((r: unknown) => {
+        const row = r as Record<string, unknown>;
+        return {
+          id: String(row.id),
+          conversationId: String(row.conversationId),
+          role: String(row.role) === 'assistant' ? 'assistant' : 'user',
+          content: String(row.content),
+          createdAt: new Date(String(row.createdAt)),
+        };
+      });
+    },
+  },
+  youTubeCacheEntry: {
+    async findUnique(args: { where: { key: string } }): Promise<DbYouTubeCacheEntry | null> {
+      const rows = await tursoExecute('SELECT * FROM YouTubeCacheEntry WHERE key = ?', [args.where.key]);
+      if (rows.length === 0) return null;
+      const r = rows[0] as Record<string, unknown>;
+      return {
+        key: String(r.key),
+        kind: String(r.kind),
+        payload: String(r.payload),
+        expiresAt: new Date(String(r.expiresAt)),
+        createdAt: new Date(String(r.createdAt)),
+      };
+    },
+    async upsert(args: { where: { key: string }; create: { kind: string; payload: string; expiresAt: Date }; update: { payload: string; expiresAt: Date } }): Promise<void> {
+      const now = new Date().toISOString();
+      await tursoExecute(
+        `INSERT INTO YouTubeCacheEntry (key, kind, payload, expiresAt, createdAt) VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(key) DO UPDATE SET payload = ?, expiresAt = ?, createdAt = ?`,
+        [
+          args.where.key, args.create.kind, args.create.payload, args.create.expiresAt.toISOString(), now,
+          args.update.payload, args.update.expiresAt.toISOString(), now,
+        ]
+      );
+    },
+    async deleteMany(args: { where: { expiresAt: { lt: Date } } }): Promise<{ count: number }> {
+      await tursoExecute('DELETE FROM YouTubeCacheEntry WHERE expiresAt < ?', [args.where.expiresAt.lt.toISOString()]);
+      return { count: 0 };
+    },
+  },
+  refreshToken: {
+    async findUnique(args: { where: { id: string } }): Promise<DbRefreshToken | null> {
+      const rows = await tursoExecute('SELECT * FROM RefreshToken WHERE id = ?', [args.where.id]);
+      if (rows.length === 0) return null;
+      const r = rows[0] as Record<string, unknown>;
+      return {
+        id: String(r.id),
+        userId: String(r.userId),
+        familyId: String(r.familyId),
+        expiresAt: new Date(String(r.expiresAt)),
+        createdAt: new Date(String(r.createdAt)),
+        rotatedAt: r.rotatedAt ? new Date(String(r.rotatedAt)) : null,
+        revokedAt: r.revokedAt ? new Date(String(r.revokedAt)) : null,
+        replacedById: r.replacedById ? String(r.replacedById) : null,
+      };
+    },
+    async create(args: { data: { id: string; userId: string; familyId: string; expiresAt: Date } }): Promise<DbRefreshToken> {
+      const now = new Date().toISOString();
+      await tursoExecute(
+        'INSERT INTO RefreshToken (id, userId, familyId, expiresAt, createdAt) VALUES (?, ?, ?, ?, ?)',
+        [args.data.id, args.data.userId, args.data.familyId, args.data.expiresAt.toISOString(), now]
+      );
+      return {
+        ...args.data,
+        createdAt: new Date(now),
+        rotatedAt: null,
+        revokedAt: null,
+        replacedById: null,
+      };
+    },
+    async updateMany(args: { where: { id?: string; familyId?: string; userId?: string; rotatedAt?: null; revokedAt?: null; NOT?: { familyId: string } }; data: { rotatedAt?: Date; revokedAt?: Date; replacedById?: string } }): Promise<{ count: number }> {
+      const updates: string[] = [];
+      const values: unknown[] = [];
+
+      if (args.data.rotatedAt !== undefined) {
+        updates.push('rotatedAt = ?');
+        values.push(args.data.rotatedAt.toISOString());
+      }
+      if (args.data.revokedAt !== undefined) {
+        updates.push('revokedAt = ?');
+        values.push(args.data.revokedAt.toISOString());
+      }
+      if (args.data.replacedById !== undefined) {
+        updates.push('replacedById = ?');
+        values.push(args.data.replacedById);
+      }
+
+      const conditions: string[] = [];
+      for (const column of ['id', 'familyId', 'userId'] as const) {
+        if (args.where[column] !== undefined) {
+          conditions.push(`${column} = ?`);
+          values.push(args.where[column]);
+        }
+      }
+      if (args.where.NOT) {
+        conditions.push('familyId != ?');
+        values.push(args.where.NOT.familyId);
+      }
+      if (args.where.rotatedAt === null) conditions.push('rotatedAt IS NULL');
+      if (args.where.revokedAt === null) conditions.push('revokedAt IS NULL');
+
+      if (updates.length === 0 || conditions.length === 0) return { count: 0 };
+
+      const client = getTurso();
+      const result = await client.execute({
+        sql: `UPDATE RefreshToken SET ${updates.join(', ')} WHERE ${conditions.join(' AND ')}`,
+        args: values as (string | number | null)[],
+      });
+      return { count: result.rowsAffected };
+    },
+  },
+  session: {
+    async findUnique(args: { where: { id: string } }): Promise<DbSession | null> {
+      const rows = await tursoExecute('SELECT * FROM Session WHERE id = ?', [args.where.id]);
+      if (rows.length === 0) return null;
+      return mapSession(rows[0] as Record<string, unknown>);
+    },
+    async findMany(args: { where: { userId: string; revokedAt: null }; orderBy?: { lastSeenAt: 'desc' } }): Promise<DbSession[]> {
+      const rows = await tursoExecute(
+        'SELECT * FROM Session WHERE userId = ? AND revokedAt IS NULL ORDER BY lastSeenAt DESC',
+        [args.where.userId]
+      );
+      return rows.map((r: unknown) => mapSession(r as Record<string, unknown>));
+    },
+    async create(args: { data: { id: string; userId: string; userAgent?: string | null; ipAddress?: string | null } }): Promise<DbSession> {
+      const now = new Date().toISOString();
+      await tursoExecute(
+        'INSERT INTO Session (id, userId, userAgent, ipAddress, createdAt, lastSeenAt) VALUES (?, ?, ?, ?, ?, ?)',
+        [args.data.id, args.data.userId, args.data.userAgent ?? null, args.data.ipAddress ?? null, now, now]
+      );
+      return {
+        id: args.data.id,
+        userId: args.data.userId,
+        userAgent: args.data.userAgent ?? null,
+        ipAddress: args.data.ipAddress ?? null,
+        createdAt: new Date(now),
+        lastSeenAt: new Date(now),
+        revokedAt: null,
+      };
+    },
+    async update(args: { where: { id: string }; data: { lastSeenAt?: Date; ipAddress?: string; userAgent?: string } }): Promise<void> {
+      const updates: string[] = [];
+      const values: unknown[] = [];
+
+      if (args.data.lastSeenAt !== undefined) {
+        updates.push('lastSeenAt = ?');
+        values.push(args.data.lastSeenAt.toISOString());
+      }
+      if (args.data.ipAddress !== undefined) {
+        updates.push('ipAddress = ?');
+        values.push(args.data.ipAddress);
+      }
+      if (args.data.userAgent !== undefined) {
+        updates.push('userAgent = ?');
+        values.push(args.data.userAgent);
+      }
+      if (updates.length === 0) return;
+
+      values.push(args.where.id);
+      await tursoExecute(`UPDATE Session SET ${updates.join(', ')} WHERE id = ?`, values);
+    },
+    async updateMany(args: { where: { id?: string; userId?: string; revokedAt?: null; NOT?: { id: string } }; data: { revokedAt: Date } }): Promise<{ count: number }> {
+      const conditions: string[] = [];
+      const values: unknown[] = [args.data.revokedAt.toISOString()];
+
+      if (args.where.id !== undefined) {
+        conditions.push('id = ?');
+        values.push(args.where.id);
+      }
+      if (args.where.userId !== undefined) {
+        conditions.push('userId = ?');
+        values.push(args.where.userId);
+      }
+      if (args.where.NOT) {
+        conditions.push('id != ?');
+        values.push(args.where.NOT.id);
+      }
+      if (args.where.revokedAt === null) conditions.push('revokedAt IS NULL');
+
+      if (conditions.length === 0) return { count: 0 };
+
+      const client = getTurso();
+      const result = await client.execute({
+        sql: `UPDATE Session SET revokedAt = ? WHERE ${conditions.join(' AND ')}`,
+        args: values as (string | number | null)[],
+      });
+      return { count: result.rowsAffected };
+    },
+  },
+  credential: {
+    async findUnique(args: { where: { id?: string; credentialId?: string } }): Promise<DbCredential | null> {
+      const key = args.where.credentialId ? 'credentialId' : 'id';
+      const value = args.where.credentialId ?? args.where.id;
+      const rows = await tursoExecute(`SELECT * FROM Credential WHERE ${key} = ?`, [value]);
+      if (rows.length === 0) return null;
+      return mapCredential(rows[0] as Record<string, unknown>);
+    },
+    async findMany(args: { where: { userId: string }; orderBy?: { createdAt: 'asc' } }): Promise<DbCredential[]> {
+      const rows = await tursoExecute('SELECT * FROM Credential WHERE userId = ? ORDER BY createdAt ASC', [args.where.userId]);
+      return rows.map((r: unknown) => mapCredential(r as Record<string, unknown>));
+    },
+    async count(args: { where: { userId: string } }): Promise<number> {
+      const rows = await tursoExecute('SELECT COUNT(*) as count FROM Credential WHERE userId = ?', [args.where.userId]);
+      return Number((rows[0] as Record<string, unknown>).count);
+    },
+    async create(args: { data: { userId: string; credentialId: string; publicKey: string; counter: number; transports?: string | null; name: string } }): Promise<DbCredential> {
+      const id = generateId();
+      const now = new Date().toISOString();
+      await tursoExecute(
+        'INSERT INTO Credential (id, userId, credentialId, publicKey, counter, transports, name, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+        [id, args.data.userId, args.data.credentialId, args.data.publicKey, args.data.counter, args.data.transports ?? null, args.data.name, now]
+      );
+      return {
+        id,
+        userId: args.data.userId,
+        credentialId: args.data.credentialId,
+        publicKey: args.data.publicKey,
+        counter: args.data.counter,
+        transports: args.data.transports ?? null,
+        name: args.data.name,
+        createdAt: new Date(now),
+        lastUsedAt: null,
+      };
+    },
+    async update(args: { where: { id: string }; data: { counter?: number; lastUsedAt?: Date; name?: string } }): Promise<DbCredential> {
+      const updates: string[] = [];
+      const values: unknown[] = [];
+
+      if (args.data.counter !== undefined) {
+        updates.push('counter = ?');
+        values.push(args.data.counter);
+      }
+      if (args.data.lastUsedAt !== undefined) {
+        updates.push('lastUsedAt = ?');
+        values.push(args.data.lastUsedAt.toISOString());
+      }
+      if (args.data.name !== undefined) {
+        updates.push('name = ?');
+        values.push(args.data.name);
+      }
+
+      if (updates.length > 0) {
+        values.push(args.where.id);
+        await tursoExecute(`UPDATE Credential SET ${updates.join(', ')} WHERE id = ?`, values);
+      }
+      const credential = await tursoDb.credential.findUnique({ where: { id: args.where.id } });
+      return credential!;
+    },
+    async delete(args: { where: { id: string } }): Promise<void> {
+      await tursoExecute('DELETE FROM Credential WHERE id = ?', [args.where.id]);
+    },
+  },
+  account: {
+    async findUnique(args: { where: { id: string } | { provider_providerAccountId: { provider: string; providerAccountId: string } } }): Promise<DbAccount | null> {
+      const rows = 'id' in args.where
+        ? await tursoExecute('SELECT * FROM Account WHERE id = ?', [args.where.id])
+        : await tursoExecute(
+          'SELECT * FROM Account WHERE provider = ? AND providerAccountId = ?',
+          [args.where.provider_providerAccountId.provider, args.where.provider_providerAccountId.providerAccountId]
+        );
+      if (rows.length === 0) return null;
+      return mapAccount(rows[0] as Record<string, unknown>);
+    },
+    async findFirst(args: { where: { userId: string; provider: string } }): Promise<DbAccount | null> {
+      const rows = await tursoExecute('SELECT * FROM Account WHERE userId = ? AND provider = ? LIMIT 1', [args.where.userId, args.where.provider]);
+      if (rows.length === 0) return null;
+      return mapAccount(rows[0] as Record<string, unknown>);
+    },
+    async findMany(args: { where: { userId: string } }): Promise<DbAccount[]> {
+      const rows = await tursoExecute('SELECT * FROM Account WHERE userId = ? ORDER BY createdAt ASC', [args.where.userId]);
+      return rows.map((r: unknown) => mapAccount(r as Record<string, unknown>));
+    },
+    async create(args: { data: { userId: string; provider: string; providerAccountId: string; email?: string | null } }): Promise<DbAccount> {
+      const id = generateId();
+      const now = new Date().toISOString();
+      await tursoExecute(
+        'INSERT INTO Account (id, userId, provider, providerAccountId, email, createdAt, lastUsedAt) VALUES (?, ?, ?, ?, ?, ?, ?)',
+        [id, args.data.userId, args.data.provider, args.data.providerAccountId, args.data.email ?? null, now, now]
+      );
+      return {
+        id,
+        userId: args.data.userId,
+        provider: args.data.provider,
+        providerAccountId: args.data.providerAccountId,
+        email: args.data.email ?? null,
+        createdAt: new Date(now),
+        lastUsedAt: new Date(now),
+      };
+    },
+    async update(args: { where: { id: string }; data: { email?: string | null; lastUsedAt?: Date } }): Promise<void> {
+      const updates: string[] = [];
+      const values: unknown[] = [];
+
+      if (args.data.email !== undefined) {
+        updates.push('email = ?');
+        values.push(args.data.email);
+      }
+      if (args.data.lastUsedAt !== undefined) {
+        updates.push('lastUsedAt = ?');
+        values.push(args.data.lastUsedAt.toISOString());
+      }
+
+      if (updates.length > 0) {
+        values.push(args.where.id);
+        await tursoExecute(`UPDATE Account SET ${updates.join(', ')} WHERE id = ?`, values);
+      }
+    },
+    async delete(args: { where: { id: string } }): Promise<void> {
+      await tursoExecute('DELETE FROM Account WHERE id = ?', [args.where.id]);
+    },
+  },
+  auditEvent: {
+    async create(args: { data: { userId?: string | null; type: string; email?: string | null; ipAddress?: string | null; userAgent?: string | null; metadata?: string | null } }): Promise<DbAuditEvent> {
+      const id = generateId();
+      const now = new Date().toISOString();
+      const event = {
+        id,
+        userId: args.data.userId ?? null,
+        type: args.data.type,
+        email: args.data.email ?? null,
+        ipAddress: args.data.ipAddress ?? null,
+        userAgent: args.data.userAgent ?? null,
+        metadata: args.data.metadata ?? null,
+      };
+      await tursoExecute(
+        'INSERT INTO AuditEvent (id, userId, type, email, ipAddress, userAgent, metadata, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+        [event.id, event.userId, event.type, event.email, event.ipAddress, event.userAgent, event.metadata, now]
+      );
+      return { ...event, createdAt: new Date(now) };
+    },
+    async findMany(args: {
+      where: { userId?: string; email?: string; type?: string; createdAt?: { gte?: Date; lte?: Date } };
+      orderBy?: { createdAt: 'desc' };
+      take?: number;
+      skip?: number;
+    }): Promise<DbAuditEvent[]> {
+      const { sql, values } = auditEventWhere(args.where);
+      const rows = await tursoExecute(
+        `SELECT * FROM AuditEvent${sql} ORDER BY createdAt DESC LIMIT ? OFFSET ?`,
+        [...values, args.take ?? -1, args.skip ?? 0]
+      );
+      return rows.map((r: unknown) => mapAuditEvent(r as Record<string, unknown>));
+    },
+    async count(args: { where: { userId?: string; email?: string; type?: string; createdAt?: { gte?: Date; lte?: Date } } }): Promise<number> {
+      const { sql, values } = auditEventWhere(args.where);
+      const rows = await tursoExecute(`SELECT COUNT(*) as count FROM AuditEvent${sql}`, values);
+      return Number((rows[0] as Record<string, unknown>).count);
+    },
+  },
+  guestLearningPath: {
+    async create(args: { data: { guestId: string; payload: string; expiresAt: Date } }): Promise<DbGuestLearningPath> {
+      const id = generateId();
+      const now = new Date().toISOString();
+      await tursoExecute(
+        'INSERT INTO GuestLearningPath (id, guestId, payload, watchedVideos, expiresAt, createdAt) VALUES (?, ?, ?, ?, ?, ?)',
+        [id, args.data.guestId, args.data.payload, '[]', args.data.expiresAt.toISOString(), now]
+      );
+      return {
+        id,
+        guestId: args.data.guestId,
+        payload: args.data.payload,
+        watchedVideos: '[]',
+        expiresAt: args.data.expiresAt,
+        createdAt: new Date(now),
+      };
+    },
+    async findUnique(args: { where: { id: string } }): Promise<DbGuestLearningPath | null> {
+      const rows = await tursoExecute('SELECT * FROM GuestLearningPath WHERE id = ?', [args.where.id]);
+      if (rows.length === 0) return null;
+      return mapGuestLearningPath(rows[0] as Record<string, unknown>);
+    },
+    async findMany(args: { where: { guestId: string; expiresAt: { gt: Date } }; orderBy?: { createdAt: 'asc' } }): Promise<DbGuestLearningPath[]> {
+      const rows = await tursoExecute(
+        'SELECT * FROM GuestLearningPath WHERE guestId = ? AND expiresAt > ? ORDER BY createdAt ASC',
+        [args.where.guestId, args.where.expiresAt.gt.toISOString()]
+      );
+      return rows.map((r: unknown) => mapGuestLearningPath(r as Record<string, unknown>));
+    },
+    async update(args: { where: { id: string }; data: { watchedVideos: string } }): Promise<DbGuestLearningPath> {
+      await tursoExecute('UPDATE GuestLearningPath SET watchedVideos = ? WHERE id = ?', [args.data.watchedVideos, args.where.id]);
+      const path = await tursoDb.guestLearningPath.findUnique({ where: { id: args.where.id } });
+      return path!;
+    },
+    async deleteMany(args: { where: { guestId: string } | { expiresAt: { lt: Date } } }): Promise<{ count: number }> {
+      const result = 'guestId' in args.where
+        ? await getTurso().execute({ sql: 'DELETE FROM GuestLearningPath WHERE guestId = ?', args: [args.where.guestId] })
+        : await getTurso().execute({ sql: 'DELETE FROM GuestLearningPath WHERE expiresAt < ?', args: [args.where.expiresAt.lt.toISOString()] });
+      return { count: result.rowsAffected };
+    },
+  },
+  youTubeQuotaUsage: {
+    async create(args: { data: { day: string; userId: string; operation: string; units: number } }): Promise<DbYouTubeQuotaUsage> {
+      const id = generateId();
+      const now = new Date().toISOString();
+      await tursoExecute(
+        'INSERT INTO YouTubeQuotaUsage (id, day, userId, operation, units, createdAt) VALUES (?, ?, ?, ?, ?, ?)',
+        [id, args.data.day, args.data.userId, args.data.operation, args.data.units, now]
+      );
+      return { id, ...args.data, createdAt: new Date(now) };
+    },
+    async updateMany(args: { where: { userId: string }; data: { userId: string } }): Promise<{ count: number }> {
+      const result = await getTurso().execute({
+        sql: 'UPDATE YouTubeQuotaUsage SET userId = ? WHERE userId = ?',
+        args: [args.data.userId, args.where.userId],
+      });
+      return { count: result.rowsAffected };
+    },
+    async aggregate(args: { where: { day: string; userId?: string }; _sum: { units: true } }): Promise<{ _sum: { units: number | null } }> {
+      const rows = args.where.userId !== undefined
+        ? await tursoExecute('SELECT SUM(units) as units FROM YouTubeQuotaUsage WHERE day = ? AND userId = ?', [args.where.day, args.where.userId])
+        : await tursoExecute('SELECT SUM(units) as units FROM YouTubeQuotaUsage WHERE day = ?', [args.where.day]);
+      const r = rows[0] as Record<string, unknown> | undefined;
+      return { _sum: { units: r?.units != null ? Number(r.units) : null } };
+    },
+    async groupBy(args: { by: ['userId'] | ['operation']; where: { day: string; userId?: string }; _sum: { units: true } }): Promise<Array<{ userId?: string; operation?: string; _sum: { units: number } }>> {
+      const column = args.by[0];
+      const rows = args.where.userId !== undefined
+        ? await tursoExecute(`SELECT ${column} as groupKey, SUM(units) as units FROM YouTubeQuotaUsage WHERE day = ? AND userId = ? GROUP BY ${column} ORDER BY units DESC`, [args.where.day, args.where.userId])
+        : await tursoExecute(`SELECT ${column} as groupKey, SUM(units) as units FROM YouTubeQuotaUsage WHERE day = ? GROUP BY ${column} ORDER BY units DESC`, [args.where.day]);
+      return rows.map((r: unknown) => {
+        const row = r as Record<string, unknown>;
+        return { [column]: String(row.groupKey), _sum: { units: Number(row.units) } };
+      });
+    },
+  },
 };
 
 // ============================================
@@ -57,6 +57,202 @@ const EMAIL_TEMPLATES = {
       </html>
     `,
     },
+    passwordReset: {
+        subject: 'Reset your LinkMe password',
+        html: (code: string, name?: string) => `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Reset your password</title>
+        </head>
+        <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; padding: 20px; background-color: #f4f4f5;">
+          <div style="max-width: 600px; margin: 0 auto; background-color: white; border-radius: 12px; padding: 40px; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+            <div style="text-align: center; margin-bottom: 30px;">
+              <h1 style="color: #8b5cf6; font-size: 28px; margin: 0;">🔗 LinkMe</h1>
+            </div>
+            
+            <h2 style="color: #1f2937; font-size: 24px; margin-bottom: 20px; text-align: center;">
+              Your Password Reset Code
+            </h2>
+            
+            <p style="color: #4b5563; font-size: 16px;">
+              Hi${name ? ` ${name}` : ''},
+            </p>
+            
+            <p style="color: #4b5563; font-size: 16px;">
+              We received a request to reset your LinkMe password. Enter the 6-digit code below on the reset page to choose a new one.
+            </p>
+            
+            <div style="text-align: center; margin: 40px 0;">
+              <div style="display: inline-block; background: #f9fafb; color: #1f2937; padding: 24px 48px; border-radius: 16px; font-size: 36px; font-weight: 900; letter-spacing: 8px; border: 2px solid #f3f4f6; font-family: 'Courier New', Courier, monospace;">
+                ${code}
+              </div>
+            </div>
+            
+            <p style="text-align: center;">
+              <a href="${APP_URL}/reset-password" style="color: #8b5cf6; font-size: 14px;">Open the reset page</a>
+            </p>
+            
+            <p style="color: #9ca3af; font-size: 14px; text-align: center; margin-top: 30px;">
+              This code expires in 15 minutes. Resetting your password signs you out on every device.
+              If you didn't request this, you can safely ignore this email — your password won't change.
+            </p>
+            
+            <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 30px 0;">
+            
+            <p style="color: #9ca3af; font-size: 12px; text-align: center;">
+              © ${new Date().getFullYear()} LinkMe. Find the perfect tutorials, faster.
+            </p>
+          </div>
+        </body>
+      </html>
+    `,
+    },
+    emailChange: {
+        subject: 'Confirm your new LinkMe email address',
+        html: (code: string, name?: string) => `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Confirm your new email</title>
+        </head>
+        <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; padding: 20px; background-color: #f4f4f5;">
+          <div style="max-width: 600px; margin: 0 auto; background-color: white; border-radius: 12px; padding: 40px; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+            <div style="text-align: center; margin-bottom: 30px;">
+              <h1 style="color: #8b5cf6; font-size: 28px; margin: 0;">🔗 LinkMe</h1>
+            </div>
+            
+            <h2 style="color: #1f2937; font-size: 24px; margin-bottom: 20px; text-align: center;">
+              Confirm Your New Email
+            </h2>
+            
+            <p style="color: #4b5563; font-size: 16px;">
+              Hi${name ? ` ${name}` : ''},
+            </p>
+            
+            <p style="color: #4b5563; font-size: 16px;">
+              Enter the 6-digit code below in your LinkMe settings to start using this address for your account.
+            </p>
+            
+            <div style="text-align: center; margin: 40px 0;">
+              <div style="display: inline-block; background: #f9fafb; color: #1f2937; padding: 24px 48px; border-radius: 16px; font-size: 36px; font-weight: 900; letter-spacing: 8px; border: 2px solid #f3f4f6; font-family: 'Courier New', Courier, monospace;">
+                ${code}
+              </div>
+            </div>
+            
+            <p style="color: #9ca3af; font-size: 14px; text-align: center; margin-top: 30px;">
+              This code expires in 15 minutes. If you didn't request this, you can safely ignore this email.
+            </p>
+            
+            <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 30px 0;">
+            
+            <p style="color: #9ca3af; font-size: 12px; text-align: center;">
+              © ${new Date().getFullYear()} LinkMe. Find the perfect tutorials, faster.
+            </p>
+          </div>
+        </body>
+      </html>
+    `,
+    },
+    reauth: {
+        subject: 'Your LinkMe security code',
+        html: (code: string, name?: string) => `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Your security code</title>
+        </head>
+        <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; padding: 20px; background-color: #f4f4f5;">
+          <div style="max-width: 600px; margin: 0 auto; background-color: white; border-radius: 12px; padding: 40px; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+            <div style="text-align: center; margin-bottom: 30px;">
+              <h1 style="color: #8b5cf6; font-size: 28px; margin: 0;">🔗 LinkMe</h1>
+            </div>
+            
+            <h2 style="color: #1f2937; font-size: 24px; margin-bottom: 20px; text-align: center;">
+              Confirm It's You
+            </h2>
+            
+            <p style="color: #4b5563; font-size: 16px;">
+              Hi${name ? ` ${name}` : ''},
+            </p>
+            
+            <p style="color: #4b5563; font-size: 16px;">
+              Enter the 6-digit code below in your LinkMe settings to confirm a change to your account.
+            </p>
+            
+            <div style="text-align: center; margin: 40px 0;">
+              <div style="display: inline-block; background: #f9fafb; color: #1f2937; padding: 24px 48px; border-radius: 16px; font-size: 36px; font-weight: 900; letter-spacing: 8px; border: 2px solid #f3f4f6; font-family: 'Courier New', Courier, monospace;">
+                ${code}
+              </div>
+            </div>
+            
+            <p style="color: #9ca3af; font-size: 14px; text-align: center; margin-top: 30px;">
+              This code expires in 15 minutes. If you didn't request this, someone may be signed in to your account: sign out of other devices and reset your password.
+            </p>
+            
+            <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 30px 0;">
+            
+            <p style="color: #9ca3af; font-size: 12px; text-align: center;">
+              © ${new Date().getFullYear()} LinkMe. Find the perfect tutorials, faster.
+            </p>
+          </div>
+        </body>
+      </html>
+    `,
+    },
+    emailChanged: {
+        subject: 'Your LinkMe email address was changed',
+        html: (newEmail: string, name?: string) => `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Email address changed</title>
+        </head>
+        <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; padding: 20px; background-color: #f4f4f5;">
+          <div style="max-width: 600px; margin: 0 auto; background-color: white; border-radius: 12px; padding: 40px; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+            <div style="text-align: center; margin-bottom: 30px;">
+              <h1 style="color: #8b5cf6; font-size: 28px; margin: 0;">🔗 LinkMe</h1>
+            </div>
+            
+            <h2 style="color: #1f2937; font-size: 24px; margin-bottom: 20px; text-align: center;">
+              Your Email Address Was Changed
+            </h2>
+            
+            <p style="color: #4b5563; font-size: 16px;">
+              Hi${name ? ` ${name}` : ''},
+            </p>
+            
+            <p style="color: #4b5563; font-size: 16px;">
+              The email address on your LinkMe account was changed to <strong>${newEmail}</strong>.
+              You will no longer receive account emails at this address.
+            </p>
+            
+            <p style="color: #4b5563; font-size: 16px;">
+              If you didn't make this change, reset your password right away and contact support.
+            </p>
+            
+            <p style="text-align: center; margin: 30px 0;">
+              <a href="${APP_URL}/reset-password" style="color: #8b5cf6; font-size: 14px;">Reset your password</a>
+            </p>
+            
+            <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 30px 0;">
+            
+            <p style="color: #9ca3af; font-size: 12px; text-align: center;">
+              © ${new Date().getFullYear()} LinkMe. Find the perfect tutorials, faster.
+            </p>
+          </div>
+        </body>
+      </html>
+    `,
+    },
 };
 
 // SMTP transporter for production
@@ -136,6 +332,230 @@ export async function sendVerificationEmail(
     }
 }
 
+/**
+ * Send password reset code to user
+ * In development mode, logs to console instead of sending
+ */
+export async function sendPasswordResetEmail(
+    email: string,
+    code: string,
+    name?: string
+): Promise<{ success: boolean; message: string }> {
+    const template = EMAIL_TEMPLATES.passwordReset;
+
+    if (EMAIL_MODE === 'development') {
+        console.log('\n' + '='.repeat(60));
+        console.log('📧 PASSWORD RESET EMAIL (Development Mode)');
+        console.log('='.repeat(60));
+        console.log(`To: ${email}`);
+        console.log(`Subject: ${template.subject}`);
+        console.log(`Reset Code: ${code}`);
+        console.log('='.repeat(60) + '\n');
+
+        return {
+            success: true,
+            message: 'Password reset email logged to console (development mode)'
+        };
+    }
+
+    // Production mode - send via SMTP
+    const transporter = createTransporter();
+    if (!transporter) {
+        return {
+            success: false,
+            message: 'Email service not configured'
+        };
+    }
+
+    try {
+        await transporter.sendMail({
+            from: process.env.SMTP_FROM || 'noreply@linkme.app',
+            to: email,
+            subject: template.subject,
+            html: template.html(code, name),
+        });
+
+        return {
+            success: true,
+            message: 'Password reset email sent successfully'
+        };
+    } catch (error) {
+        console.error('Failed to send password reset email:', error);
+        return {
+            success: false,
+            message: 'Failed to send password reset email'
+        };
+    }
+}
+
+/**
+ * Send email-change verification code to the new address
+ * In development mode, logs to console instead of sending
+ */
+export async function sendEmailChangeCode(
+    newEmail: string,
+    code: string,
+    name?: string
+): Promise<{ success: boolean; message: string }> {
+    const template = EMAIL_TEMPLATES.emailChange;
+
+    if (EMAIL_MODE === 'development') {
+        console.log('\n' + '='.repeat(60));
+        console.log('📧 EMAIL CHANGE CODE (Development Mode)');
+        console.log('='.repeat(60));
+        console.log(`To: ${newEmail}`);
+        console.log(`Subject: ${template.subject}`);
+        console.log(`Verification Code: ${code}`);
+        console.log('='.repeat(60) + '\n');
+
+        return {
+            success: true,
+            message: 'Email change code logged to console (development mode)'
+        };
+    }
+
+    // Production mode - send via SMTP
+    const transporter = createTransporter();
+    if (!transporter) {
+        return {
+            success: false,
+            message: 'Email service not configured'
+        };
+    }
+
+    try {
+        await transporter.sendMail({
+            from: process.env.SMTP_FROM || 'noreply@linkme.app',
+            to: newEmail,
+            subject: template.subject,
+            html: template.html(code, name),
+        });
+
+        return {
+            success: true,
+            message: 'Email change code sent successfully'
+        };
+    } catch (error) {
+        console.error('Failed to send email change code:', error);
+        return {
+            success: false,
+            message: 'Failed to send email change code'
+        };
+    }
+}
+
+/**
+ * Send a code that confirms a sensitive change on an account without a password
+ * In development mode, logs to console instead of sending
+ */
+export async function sendReauthCode(
+    email: string,
+    code: string,
+    name?: string
+): Promise<{ success: boolean; message: string }> {
+    const template = EMAIL_TEMPLATES.reauth;
+
+    if (EMAIL_MODE === 'development') {
+        console.log('\n' + '='.repeat(60));
+        console.log('📧 SECURITY CODE (Development Mode)');
+        console.log('='.repeat(60));
+        console.log(`To: ${email}`);
+        console.log(`Subject: ${template.subject}`);
+        console.log(`Verification Code: ${code}`);
+        console.log('='.repeat(60) + '\n');
+
+        return {
+            success: true,
+            message: 'Security code logged to console (development mode)'
+        };
+    }
+
+    // Production mode - send via SMTP
+    const transporter = createTransporter();
+    if (!transporter) {
+        return {
+            success: false,
+            message: 'Email service not configured'
+        };
+    }
+
+    try {
+        await transporter.sendMail({
+            from: process.env.SMTP_FROM || 'noreply@linkme.app',
+            to: email,
+            subject: template.subject,
+            html: template.html(code, name),
+        });
+
+        return {
+            success: true,
+            message: 'Security code sent successfully'
+        };
+    } catch (error) {
+        console.error('Failed to send security code:', error);
+        return {
+            success: false,
+            message: 'Failed to send security code'
+        };
+    }
+}
+
+/**
+ * Tell the old address that the account's email was changed
+ * In development mode, logs to console instead of sending
+ */
+export async function sendEmailChangedNotice(
+    oldEmail: string,
+    newEmail: string,
+    name?: string
+): Promise<{ success: boolean; message: string }> {
+    const template = EMAIL_TEMPLATES.emailChanged;
+
+    if (EMAIL_MODE === 'development') {
+        console.log('\n' + '='.repeat(60));
+        console.log('📧 EMAIL CHANGED NOTICE (Development Mode)');
+        console.log('='.repeat(60));
+        console.log(`To: ${oldEmail}`);
+        console.log(`Subject: ${template.subject}`);
+        console.log(`New address: ${newEmail}`);
+        console.log('='.repeat(60) + '\n');
+
+        return {
+            success: true,
+            message: 'Email changed notice logged to console (development mode)'
+        };
+    }
+
+    // Production mode - send via SMTP
+    const transporter = createTransporter();
+    if (!transporter) {
+        return {
+            success: false,
+            message: 'Email service not configured'
+        };
+    }
+
+    try {
+        await transporter.sendMail({
+            from: process.env.SMTP_FROM || 'noreply@linkme.app',
+            to: oldEmail,
+            subject: template.subject,
+            html: template.html(newEmail, name),
+        });
+
+        return {
+            success: true,
+            message: 'Email changed notice sent successfully'
+        };
+    } catch (error) {
+        console.error('Failed to send email changed notice:', error);
+        return {
+            success: false,
+            message: 'Failed to send email changed notice'
+        };
+    }
+}
+
 /**
  * Send welcome email after verification
  */
@@ -0,0 +1,131 @@
+// Google sign-in utilities
+// "Continue with Google" runs on the same OAuth client as the YouTube connection,
+// so YouTube access can be granted in the same consent screen
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { createOAuth2Client, YOUTUBE_SCOPES } from './youtube-auth';
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+const GOOGLE_CLIENT_ID = process.env.YOUTUBE_CLIENT_ID?.trim();
+const GOOGLE_REDIRECT_URI = process.env.GOOGLE_REDIRECT_URI?.trim() || `${APP_URL}/api/auth/google/callback`;
+const STATE_SECRET = process.env.JWT_SECRET || 'default-secret-change-me';
+
+const SIGN_IN_SCOPES = ['openid', 'email', 'profile'];
+
+export const GOOGLE_PROVIDER = 'google';
+export const GOOGLE_STATE_COOKIE = 'googleOAuthState';
+export const GOOGLE_STATE_MAX_AGE_SECONDS = 10 * 60;
+
+// "login" signs in or creates an account; "link" attaches Google to the signed-in account
+export type GoogleIntent = 'login' | 'link';
+
+export interface GoogleOAuthState {
+    intent: GoogleIntent;
+    youtube: boolean;
+    userId?: string;
+}
+
+export interface GoogleProfile {
+    sub: string;
+    email: string;
+    emailVerified: boolean;
+    name: string | null;
+}
+
+export interface GoogleSignInResult {
+    profile: GoogleProfile;
+    // Only set when every YouTube scope was granted along with a refresh token
+    youtubeTokens: {
+        accessToken: string;
+        refreshToken: string;
+        expiryDate: Date;
+    } | null;
+}
+
+// ============================================
+// Authorization
+// ============================================
+
+/**
+ * Build the Google consent URL plus a signed token holding the flow's state
+ * The token goes in a short-lived HTTP-only cookie and must match the state Google sends back,
+ * which stops a forged callback from signing someone into another person's account.
+ */
+export function getGoogleAuthUrl(state: GoogleOAuthState): { url: string; stateToken: string } {
+    const oauth2Client = createOAuth2Client(GOOGLE_REDIRECT_URI);
+    const nonce = crypto.randomBytes(16).toString('base64url');
+    const stateToken = jwt.sign({ ...state, nonce }, STATE_SECRET, { expiresIn: GOOGLE_STATE_MAX_AGE_SECONDS });
+
+    const url = oauth2Client.generateAuthUrl({
+        // YouTube access outlives the session, so it needs a refresh token
+        access_type: state.youtube ? 'offline' : 'online',
+        scope: state.youtube ? [...SIGN_IN_SCOPES, ...YOUTUBE_SCOPES] : SIGN_IN_SCOPES,
+        prompt: state.youtube ? 'consent' : 'select_account',
+        state: nonce,
+    });
+
+    return { url, stateToken };
+}
+
+/**
+ * Read the state cookie back, checking it belongs to the callback's state parameter
+ */
+export function readGoogleState(stateToken: string | undefined, nonce: string | null): GoogleOAuthState | null {
+    if (!stateToken || !nonce) return null;
+
+    try {
+        const decoded = jwt.verify(stateToken, STATE_SECRET) as GoogleOAuthState & { nonce: string };
+        if (decoded.nonce !== nonce) return null;
+        return { intent: decoded.intent, youtube: decoded.youtube, userId: decoded.userId };
+    } catch {
+        return null;
+    }
+}
+
+// ============================================
+// Callback
+// ============================================
+
+/**
+ * Exchange the authorization code and verify the ID token it comes with
+ */
+export async function exchangeGoogleCode(code: string): Promise<GoogleSignInResult> {
+    const oauth2Client = createOAuth2Client(GOOGLE_REDIRECT_URI);
+
+    const { tokens } = await oauth2Client.getToken(code);
+
+    if (!tokens.id_token) {
+        throw new Error('Google did not return an ID token');
+    }
+
+    const ticket = await oauth2Client.verifyIdToken({
+        idToken: tokens.id_token,
+        audience: GOOGLE_CLIENT_ID,
+    });
+    const payload = ticket.getPayload();
+
+    if (!payload?.sub || !payload.email) {
+        throw new Error('Google ID token is missing the account ID or email');
+    }
+
+    // The user can untick YouTube on the consent screen and still sign in
+    const grantedScopes = (tokens.scope || '').split(' ');
+    const youtubeGranted = YOUTUBE_SCOPES.every(scope => grantedScopes.includes(scope));
+
+    return {
+        profile: {
+            sub: payload.sub,
+            email: payload.email.toLowerCase(),
+            emailVerified: payload.email_verified === true,
+            name: payload.name || null,
+        },
+        youtubeTokens: youtubeGranted && tokens.access_token && tokens.refresh_token
+            ? {
+                accessToken: tokens.access_token,
+                refreshToken: tokens.refresh_token,
+                expiryDate: new Date(tokens.expiry_date || Date.now() + 3600000),
+            }
+            : null,
+    };
+}
@@ -0,0 +1,195 @@
+// Guest session data
+// Keeps what a guest discovers for 24h and moves it into their account when they sign up or log in
+
+import { getDb, DbGuestLearningPath } from './db';
+import { verifyAccessToken } from './auth';
+import type { LearningPath } from './curriculum';
+import { toStageRows } from './learning-paths';
+import { scheduleVideoReviews } from './review';
+
+// Matches the guest token lifetime in generateGuestToken
+const GUEST_DATA_TTL_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// Types
+// ============================================
+
+// Same shape the chat route stores in ChatHistory for signed-in users
+export interface GuestHistoryPayload {
+    topic: string;
+    skillLevel?: string;
+    goal?: string;
+    query: string;
+    tutorials?: unknown[];
+    learningPath: LearningPath | null;
+    timestamp: string;
+    tutorialCount: number;
+}
+
+// ============================================
+// Guest Storage
+// ============================================
+
+/**
+ * Check whether a user ID came from a guest token
+ */
+export function isGuestId(userId: string): boolean {
+    return userId.startsWith('guest_');
+}
+
+/**
+ * Remove guest data nobody claimed within the retention window
+ */
+export async function purgeExpiredGuestData(): Promise<void> {
+    const db = getDb();
+    const cutoff = new Date(Date.now() - GUEST_DATA_TTL_MS);
+
+    await db.guestLearningPath.deleteMany({ where: { expiresAt: { lt: new Date() } } });
+    await db.conversation.deleteMany({
+        where: { userId: { startsWith: 'guest_' }, updatedAt: { lt: cutoff } },
+    });
+}
+
+/**
+ * Store a generated learning path for a guest
+ * @returns ID the client uses to record watched videos
+ */
+export async function saveGuestLearningPath(guestId: string, payload: GuestHistoryPayload): Promise<string> {
+    const db = getDb();
+
+    await purgeExpiredGuestData();
+
+    const saved: DbGuestLearningPath = await db.guestLearningPath.create({
+        data: {
+            guestId,
+            payload: JSON.stringify(payload),
+            expiresAt: new Date(Date.now() + GUEST_DATA_TTL_MS),
+        },
+    });
+
+    return saved.id;
+}
+
+/**
+ * Mark a video in a guest learning path as watched or unwatched
+ * @returns Watched video IDs, or null if the path isn't this guest's (or has expired) or the video isn't in it
+ */
+export async function setGuestVideoWatched(
+    guestPathId: string,
+    guestId: string,
+    videoId: string,
+    watched: boolean
+): Promise<string[] | null> {
+    const db = getDb();
+
+    const path: DbGuestLearningPath | null = await db.guestLearningPath.findUnique({ where: { id: guestPathId } });
+    if (!path || path.guestId !== guestId || path.expiresAt < new Date()) return null;
+
+    const payload: GuestHistoryPayload = JSON.parse(path.payload);
+    const inPath = (payload.learningPath?.stages || []).some((stage) =>
+        (stage.videos || []).some((video) => video.videoId === videoId)
+    );
+    if (!inPath) return null;
+
+    const watchedVideos = new Set<string>(JSON.parse(path.watchedVideos));
+    if (watched) watchedVideos.add(videoId);
+    else watchedVideos.delete(videoId);
+
+    const list = Array.from(watchedVideos);
+    await db.guestLearningPath.update({
+        where: { id: path.id },
+        data: { watchedVideos: JSON.stringify(list) },
+    });
+
+    return list;
+}
+
+// ============================================
+// Claiming
+// ============================================
+
+/**
+ * Save a claimed learning path to the account, reusing a matching saved path if there is one
+ */
+async function claimLearningPath(userId: string, learningPath: LearningPath, watchedVideos: string[]): Promise<void> {
+    const db = getDb();
+
+    const existing = await db.savedLearningPath.findFirst({
+        where: {
+            userId,
+            topic: learningPath.topic,
+            userLevel: learningPath.userLevel,
+            userGoal: learningPath.userGoal,
+        },
+    });
+
+    const learningPathId: string = existing
+        ? existing.id
+        : (await db.savedLearningPath.create({
+            data: {
+                userId,
+                topic: learningPath.topic,
+                userLevel: learningPath.userLevel || 'beginner',
+                userGoal: learningPath.userGoal || 'learn',
+                totalVideos: learningPath.totalVideos || 0,
+                estimatedTotalTime: learningPath.estimatedTotalTime || '',
+                summary: learningPath.summary || '',
+                completionGoals: JSON.stringify(learningPath.completionGoals || []),
+                stages: toStageRows(learningPath.stages || []),
+            },
+        })).id;
+
+    // Only carry over progress for videos the saved path actually contains
+    const pathVideos = await db.learningPathVideo.findMany({ where: { learningPathId } });
+    const pathVideoIds = new Set<string>(pathVideos.map((video: { videoId: string }) => video.videoId));
+
+    for (const videoId of watchedVideos.filter((id) => pathVideoIds.has(id))) {
+        await db.videoProgress.upsert({
+            where: { learningPathId_videoId: { learningPathId, videoId } },
+            update: { watched: true, watchedAt: new Date() },
+            create: { userId, learningPathId, videoId, watched: true, watchedAt: new Date() },
+        });
+        await scheduleVideoReviews(userId, learningPathId, videoId);
+    }
+}
+
+/**
+ * Move a guest's conversations, learning paths and watched videos into an account
+ * Call before replacing the guest's cookies with the new session; a non-guest token is ignored.
+ * @param accessToken - The access token cookie the request arrived with
+ * @param userId - The account that just signed up or logged in
+ */
+export async function claimGuestData(accessToken: string | undefined, userId: string): Promise<void> {
+    if (!accessToken) return;
+
+    try {
+        const decoded = await verifyAccessToken(accessToken);
+        if (!decoded || !decoded.isGuest || !isGuestId(decoded.userId)) return;
+
+        const db = getDb();
+        const guestId = decoded.userId;
+
+        const paths: DbGuestLearningPath[] = await db.guestLearningPath.findMany({
+            where: { guestId, expiresAt: { gt: new Date() } },
+            orderBy: { createdAt: 'asc' },
+        });
+
+        for (const path of paths) {
+            const payload: GuestHistoryPayload = JSON.parse(path.payload);
+
+            await db.chatHistory.create({
+                data: { userId, messages: path.payload },
+            });
+
+            if (payload.learningPath) {
+                await claimLearningPath(userId, payload.learningPath, JSON.parse(path.watchedVideos));
+            }
+        }
+
+        await db.guestLearningPath.deleteMany({ where: { guestId } });
+        await db.conversation.updateMany({ where: { userId: guestId }, data: { userId } });
+    } catch (error) {
+        // Losing guest data shouldn't block the sign-in itself
+        console.error('Failed to claim guest data:', error);
+    }
+}
@@ -0,0 +1,240 @@
+// Learning Path Editing
+// Applies a learner's changes (add/remove/move videos, rename stages, notes) to a saved path.
+// Edits carry the updatedAt they were made against, so a stale tab can't overwrite newer changes.
+
+import { getDb, DbSavedLearningPath, DbVideoProgress } from './db';
+import { LearningStage, VideoAnalysis, sumDurations } from './curriculum';
+import { LearningPathEditInput, LearningPathEditOperation } from './validation';
+import { getLearningPathStages, toStageRows } from './learning-paths';
+import { clearVideoReviews } from './review';
+
+// ============================================
+// Types
+// ============================================
+
+export interface EditableLearningPath {
+    id: string;
+    topic: string;
+    userLevel: string;
+    userGoal: string;
+    totalVideos: number;
+    estimatedTotalTime: string;
+    stages: LearningStage[];
+    updatedAt: string;           // Send back with the next edit
+}
+
+// Server-side only (e.g. swapping in a video the model picked); clients can't send it
+export interface ReplaceVideoOperation {
+    type: 'replace_video';
+    videoId: string;
+    video: VideoAnalysis;
+}
+
+export type PathOperation = LearningPathEditOperation | ReplaceVideoOperation;
+
+/**
+ * Edit that can't be applied. Conflicts (409) carry the path as it is now.
+ */
+export class LearningPathEditError extends Error {
+    constructor(message: string, public status: number, public current?: EditableLearningPath) {
+        super(message);
+        this.name = 'LearningPathEditError';
+    }
+}
+
+// ============================================
+// Applying Edits
+// ============================================
+
+export function pathVideoIds(stages: LearningStage[]): string[] {
+    return stages.flatMap(stage => stage.videos.map(video => video.videoId));
+}
+
+function findStage(stages: LearningStage[], stageNumber: number): LearningStage {
+    const stage = stages.find(s => s.stageNumber === stageNumber);
+    if (!stage) throw new LearningPathEditError(`Stage ${stageNumber} not found`, 404);
+    return stage;
+}
+
+function findVideo(stages: LearningStage[], videoId: string): { stage: LearningStage; index: number } {
+    for (const stage of stages) {
+        const index = stage.videos.findIndex(video => video.videoId === videoId);
+        if (index !== -1) return { stage, index };
+    }
+    throw new LearningPathEditError('Video not found in this learning path', 404);
+}
+
+function applyOperation(stages: LearningStage[], operation: PathOperation): void {
+    switch (operation.type) {
+        case 'add_video': {
+            const stage = findStage(stages, operation.stageNumber);
+            if (pathVideoIds(stages).includes(operation.video.videoId)) {
+                throw new LearningPathEditError('That video is already in this learning path', 400);
+            }
+
+            // The model never reviewed this video, so there is no analysis to show
+            const video: VideoAnalysis = {
+                videoId: operation.video.videoId,
+                title: operation.video.title,
+                qualityScore: 0,
+                difficulty: stage.videos[0]?.difficulty ?? 'intermediate',
+                conceptsCovered: [],
+                learningOutcomes: [],
+                prerequisites: [],
+                whyRecommended: 'Added by you',
+                estimatedTime: 'Unknown',
+                order: 0,
+            };
+            const index = Math.min(operation.index ?? stage.videos.length, stage.videos.length);
+            stage.videos.splice(index, 0, video);
+            break;
+        }
+        case 'remove_video': {
+            const { stage, index } = findVideo(stages, operation.videoId);
+            stage.videos.splice(index, 1);
+            break;
+        }
+        case 'move_video': {
+            const { stage, index } = findVideo(stages, operation.videoId);
+            const target = findStage(stages, operation.toStageNumber);
+            const [video] = stage.videos.splice(index, 1);
+            target.videos.splice(Math.min(operation.toIndex, target.videos.length), 0, video);
+            break;
+        }
+        case 'replace_video': {
+            const { stage, index } = findVideo(stages, operation.videoId);
+            if (operation.video.videoId !== operation.videoId && pathVideoIds(stages).includes(operation.video.videoId)) {
+                throw new LearningPathEditError('That video is already in this learning path', 400);
+            }
+            stage.videos[index] = { ...operation.video };
+            break;
+        }
+        case 'rename_stage': {
+            findStage(stages, operation.stageNumber).stageName = operation.stageName;
+            break;
+        }
+        case 'set_note': {
+            const { stage, index } = findVideo(stages, operation.videoId);
+            const note = operation.note.trim();
+            if (note) stage.videos[index].notes = note;
+            else delete stage.videos[index].notes;
+            break;
+        }
+    }
+}
+
+/**
+ * Apply edits in order and return the new stages (the input is left untouched).
+ * Watch order and stage lengths are recomputed afterwards.
+ * @throws LearningPathEditError if an edit refers to a missing stage or video
+ */
+export function applyLearningPathEdits(stages: LearningStage[], operations: PathOperation[]): LearningStage[] {
+    const edited: LearningStage[] = JSON.parse(JSON.stringify(stages));
+
+    for (const operation of operations) {
+        applyOperation(edited, operation);
+    }
+
+    let order = 1;
+    for (const stage of edited) {
+        for (const video of stage.videos) {
+            video.order = order++;
+        }
+        const stageTotal = sumDurations(stage.videos);
+        stage.estimatedTime = stageTotal.text;
+        stage.durationSeconds = stageTotal.seconds;
+    }
+
+    return edited;
+}
+
+// ============================================
+// Saved Paths
+// ============================================
+
+async function toEditable(path: DbSavedLearningPath): Promise<EditableLearningPath> {
+    return {
+        id: path.id,
+        topic: path.topic,
+        userLevel: path.userLevel,
+        userGoal: path.userGoal,
+        totalVideos: path.totalVideos,
+        estimatedTotalTime: path.estimatedTotalTime,
+        stages: await getLearningPathStages(path.id),
+        updatedAt: path.updatedAt.toISOString(),
+    };
+}
+
+/**
+ * Load one of the user's saved paths for editing
+ */
+export async function getEditableLearningPath(userId: string, learningPathId: string): Promise<EditableLearningPath | null> {
+    const path: DbSavedLearningPath | null = await getDb().savedLearningPath.findFirst({
+        where: { id: learningPathId, userId },
+    });
+    return path ? toEditable(path) : null;
+}
+
+/**
+ * Drop progress (and concept reviews) for videos that are no longer in the path,
+ * so watched counts never include videos the learner removed
+ */
+export async function pruneVideoProgress(learningPathId: string, stages: LearningStage[]): Promise<void> {
+    const db = getDb();
+    const inPath = new Set(pathVideoIds(stages));
+    const progress: DbVideoProgress[] = await db.videoProgress.findMany({ where: { learningPathId } });
+    const stale = progress.map(p => p.videoId).filter(videoId => !inPath.has(videoId));
+
+    if (stale.length > 0) {
+        await db.videoProgress.deleteMany({ where: { learningPathId, videoId: { in: stale } } });
+        await clearVideoReviews(learningPathId, stale);
+    }
+}
+
+/**
+ * Apply edits to a saved path if nobody else changed it since the given updatedAt
+ * @throws LearningPathEditError - 404 if the path isn't the user's, 409 (with the current path) if it changed
+ */
+export async function editLearningPath(
+    userId: string,
+    input: Omit<LearningPathEditInput, 'operations'> & { operations: PathOperation[] }
+): Promise<EditableLearningPath> {
+    const db = getDb();
+
+    const path: DbSavedLearningPath | null = await db.savedLearningPath.findFirst({
+        where: { id: input.learningPathId, userId },
+    });
+    if (!path) {
+        throw new LearningPathEditError('Learning path not found', 404);
+    }
+
+    const conflict = async () => {
+        const current = await getEditableLearningPath(userId, path.id);
+        return new LearningPathEditError('This learning path was changed somewhere else. Showing the latest version.', 409, current ?? undefined);
+    };
+
+    if (new Date(input.updatedAt).getTime() !== path.updatedAt.getTime()) {
+        throw await conflict();
+    }
+
+    const stages = applyLearningPathEdits(await getLearningPathStages(path.id), input.operations);
+    const pathTotal = sumDurations(stages.flatMap(stage => stage.videos));
+
+    // Conditional write closes the gap between the check above and this update
+    const { count } = await db.savedLearningPath.updateMany({
+        where: { id: path.id, updatedAt: path.updatedAt },
+        data: {
+            totalVideos: pathVideoIds(stages).length,
+            estimatedTotalTime: pathTotal.text,
+            stages: toStageRows(stages),
+        },
+    });
+    if (count === 0) {
+        throw await conflict();
+    }
+
+    await pruneVideoProgress(path.id, stages);
+
+    const updated = await getEditableLearningPath(userId, path.id);
+    return updated!;
+}
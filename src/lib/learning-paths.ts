@@ -0,0 +1,119 @@
+// Saved Learning Path Storage
+// Converts between the curriculum's nested stages and the LearningStage / LearningPathVideo rows
+
+import { getDb, DbLearningStage, DbLearningPathVideo, NewLearningStage } from './db';
+import { LearningStage, VideoAnalysis } from './curriculum';
+
+// ============================================
+// Conversion
+// ============================================
+
+/**
+ * Read one of the JSON string lists stored on a video row (concepts, outcomes, prerequisites)
+ */
+export function parseList(value: string): string[] {
+    try {
+        const parsed = JSON.parse(value);
+        return Array.isArray(parsed) ? parsed.map(String) : [];
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Rows for a path's stages. Stages are numbered 1, 2, 3... and positions follow them as
+ * listed (the model's stage numbers may repeat), and a video that appears twice is only
+ * kept the first time (a path holds each video once).
+ */
+export function toStageRows(stages: LearningStage[]): NewLearningStage[] {
+    const seen = new Set<string>();
+    let position = 0;
+
+    return stages.map((stage, index) => ({
+        stageNumber: index + 1,
+        stageName: String(stage.stageName ?? ''),
+        description: String(stage.description ?? ''),
+        estimatedTime: stage.estimatedTime ?? null,
+        durationSeconds: stage.durationSeconds ?? null,
+        videos: (stage.videos || [])
+            .filter(video => {
+                if (!video?.videoId || seen.has(video.videoId)) return false;
+                seen.add(video.videoId);
+                return true;
+            })
+            .map(video => ({
+                videoId: video.videoId,
+                position: ++position,
+                title: String(video.title ?? ''),
+                qualityScore: Number(video.qualityScore) || 0,
+                difficulty: video.difficulty || 'intermediate',
+                conceptsCovered: JSON.stringify(video.conceptsCovered || []),
+                learningOutcomes: JSON.stringify(video.learningOutcomes || []),
+                prerequisites: JSON.stringify(video.prerequisites || []),
+                whyRecommended: String(video.whyRecommended ?? ''),
+                estimatedTime: String(video.estimatedTime ?? 'Unknown'),
+                durationSeconds: video.durationSeconds ?? null,
+                notes: video.notes ?? null,
+            })),
+    }));
+}
+
+/**
+ * Rebuild the nested stages from a path's rows
+ */
+export function fromStageRows(stages: DbLearningStage[], videos: DbLearningPathVideo[]): LearningStage[] {
+    return stages.map(stage => ({
+        stageName: stage.stageName,
+        stageNumber: stage.stageNumber,
+        description: stage.description,
+        estimatedTime: stage.estimatedTime ?? undefined,
+        durationSeconds: stage.durationSeconds ?? undefined,
+        videos: videos
+            .filter(video => video.stageId === stage.id)
+            .map((video): VideoAnalysis => ({
+                videoId: video.videoId,
+                title: video.title,
+                qualityScore: video.qualityScore,
+                difficulty: video.difficulty as VideoAnalysis['difficulty'],
+                conceptsCovered: parseList(video.conceptsCovered),
+                learningOutcomes: parseList(video.learningOutcomes),
+                prerequisites: parseList(video.prerequisites),
+                whyRecommended: video.whyRecommended,
+                estimatedTime: video.estimatedTime,
+                durationSeconds: video.durationSeconds ?? undefined,
+                order: video.position,
+                ...(video.notes ? { notes: video.notes } : {}),
+            })),
+    }));
+}
+
+// ============================================
+// Loading
+// ============================================
+
+/**
+ * Stages of several saved paths at once, keyed by path ID (two queries in total)
+ */
+export async function getLearningPathStagesByPath(learningPathIds: string[]): Promise<Map<string, LearningStage[]>> {
+    const db = getDb();
+    const [stages, videos]: [DbLearningStage[], DbLearningPathVideo[]] = await Promise.all([
+        db.learningStage.findMany({ where: { learningPathId: { in: learningPathIds } } }),
+        db.learningPathVideo.findMany({ where: { learningPathId: { in: learningPathIds } } }),
+    ]);
+
+    return new Map(learningPathIds.map(id => [
+        id,
+        fromStageRows(
+            stages.filter(stage => stage.learningPathId === id),
+            videos.filter(video => video.learningPathId === id)
+        ),
+    ]));
+}
+
+/**
+ * Stages of one saved path, in order
+ */
+export async function getLearningPathStages(learningPathId: string): Promise<LearningStage[]> {
+    const byPath = await getLearningPathStagesByPath([learningPathId]);
+    return byPath.get(learningPathId) ?? [];
+}
@@ -0,0 +1,620 @@
+// LLM provider abstraction
+// Lets the chat and curriculum engines switch between Gemini, any OpenAI-compatible API,
+// and a deterministic local fixture provider (for offline development and tests)
+
+import { GoogleGenerativeAI, FunctionDeclarationSchema } from '@google/generative-ai';
+import { z } from 'zod';
+import { formatIssue } from './validation';
+
+// ============================================
+// Types
+// ============================================
+
+export type LlmTask = 'chat' | 'curriculum' | 'replacement' | 'continuation' | 'generic';
+
+export interface LlmTextOptions {
+    task?: LlmTask;
+    onToken?: (text: string) => void;  // Receives text chunks as they are generated
+}
+
+export interface LlmJsonOptions {
+    task?: LlmTask;
+}
+
+// JSON Schema subset understood by both Gemini function declarations and OpenAI tools
+export interface LlmToolParameter {
+    type: 'string' | 'array';
+    description: string;
+    enum?: string[];
+    items?: { type: 'string' };
+}
+
+export interface LlmTool {
+    name: string;
+    description: string;
+    parameters: {
+        type: 'object';
+        properties: Record<string, LlmToolParameter>;
+        required?: string[];
+    };
+}
+
+export interface LlmToolCall {
+    name: string;
+    arguments: Record<string, unknown>;
+}
+
+export interface LlmToolResult {
+    text: string;
+    toolCalls: LlmToolCall[];
+}
+
+export interface LlmProvider {
+    name: string;
+    generateText(prompt: string, options?: LlmTextOptions): Promise<string>;
+    generateJson<T>(prompt: string, schema: z.ZodType<T>, options?: LlmJsonOptions): Promise<T>;
+    // Optional: providers without function calling fall back to text markers
+    generateWithTools?(prompt: string, tools: LlmTool[], options?: LlmTextOptions): Promise<LlmToolResult>;
+}
+
+export type LlmProviderName = 'gemini' | 'openai' | 'fixture';
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Parse model output as JSON, tolerating markdown code fences around it
+ */
+export function parseJsonOutput(text: string): unknown {
+    const trimmed = text.trim();
+    const fenced = trimmed.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+    return JSON.parse(fenced ? fenced[1] : trimmed);
+}
+
+/**
+ * Thrown when model output is not valid JSON or does not match the expected schema.
+ * Carries the raw output and the issues so callers can ask the model to repair it.
+ */
+export class LlmOutputError extends Error {
+    rawOutput: string;
+    issues: string[];
+
+    constructor(message: string, rawOutput: string, issues: string[]) {
+        super(message);
+        this.name = 'LlmOutputError';
+        this.rawOutput = rawOutput;
+        this.issues = issues;
+    }
+}
+
+/**
+ * Parse model output and validate it against a schema
+ * @throws LlmOutputError with the validation issues if it does not match
+ */
+export function validateJsonOutput<T>(text: string, schema: z.ZodType<T>): T {
+    let data: unknown;
+    try {
+        data = parseJsonOutput(text);
+    } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new LlmOutputError('Model output is not valid JSON', text, [`Response is not valid JSON: ${reason}`]);
+    }
+
+    const result = schema.safeParse(data);
+    if (!result.success) {
+        throw new LlmOutputError(
+            'Model output does not match the expected schema',
+            text,
+            result.error.issues.map(formatIssue)
+        );
+    }
+
+    return result.data;
+}
+
+/**
+ * Check whether an error means the provider is out of quota or rate limited
+ * Prefers the HTTP status (both SDK and fetch errors carry it); the message check is word-bounded
+ * because nearly every Gemini error mentions "generateContent".
+ */
+export function isQuotaError(error: unknown): boolean {
+    const status = (error as { status?: unknown } | null)?.status;
+    if (status === 429) return true;
+
+    const message = error instanceof Error ? error.message : String(error);
+    return /\b429\b|resource_exhausted|\bquota\b|\brate[- ]limit/i.test(message);
+}
+
+// ============================================
+// Gemini Provider
+// ============================================
+
+function createGeminiProvider(): LlmProvider {
+    const apiKey = process.env.GEMINI_API_KEY?.trim();
+    const modelName = process.env.GEMINI_MODEL?.trim() || 'gemini-2.5-flash';
+
+    function getModel(json: boolean, tools: LlmTool[] = []) {
+        if (!apiKey) {
+            throw new Error('GEMINI_API_KEY not configured');
+        }
+        const genAI = new GoogleGenerativeAI(apiKey);
+        return genAI.getGenerativeModel({
+            model: modelName,
+            generationConfig: json ? { responseMimeType: 'application/json' } : undefined,
+            tools: tools.length > 0
+                ? [{
+                    functionDeclarations: tools.map(tool => ({
+                        name: tool.name,
+                        description: tool.description,
+                        parameters: tool.parameters as unknown as FunctionDeclarationSchema,
+                    })),
+                }]
+                : undefined,
+        });
+    }
+
+    return {
+        name: `gemini:${modelName}`,
+
+        async generateText(prompt, options = {}) {
+            const model = getModel(false);
+
+            if (!options.onToken) {
+                const result = await model.generateContent(prompt);
+                return result.response.text();
+            }
+
+            const result = await model.generateContentStream(prompt);
+            let fullText = '';
+            for await (const chunk of result.stream) {
+                const text = chunk.text();
+                fullText += text;
+                options.onToken(text);
+            }
+            return fullText;
+        },
+
+        async generateJson(prompt, schema) {
+            const model = getModel(true);
+            const result = await model.generateContent(prompt);
+            return validateJsonOutput(result.response.text(), schema);
+        },
+
+        async generateWithTools(prompt, tools, options = {}) {
+            const model = getModel(false, tools);
+            const result = await model.generateContentStream(prompt);
+            let text = '';
+            const toolCalls: LlmToolCall[] = [];
+
+            for await (const chunk of result.stream) {
+                const chunkText = chunk.text();
+                if (chunkText) {
+                    text += chunkText;
+                    options.onToken?.(chunkText);
+                }
+                for (const call of chunk.functionCalls() || []) {
+                    toolCalls.push({ name: call.name, arguments: (call.args || {}) as Record<string, unknown> });
+                }
+            }
+
+            return { text, toolCalls };
+        },
+    };
+}
+
+// ============================================
+// OpenAI-Compatible Provider
+// ============================================
+
+function createOpenAiProvider(): LlmProvider {
+    const apiKey = process.env.OPENAI_API_KEY?.trim();
+    const baseUrl = (process.env.OPENAI_BASE_URL?.trim() || 'https://api.openai.com/v1').replace(/\/$/, '');
+    const modelName = process.env.OPENAI_MODEL?.trim() || 'gpt-4o-mini';
+
+    async function complete(prompt: string, extra: Record<string, unknown>): Promise<Response> {
+        if (!apiKey) {
+            throw new Error('OPENAI_API_KEY not configured');
+        }
+
+        const response = await fetch(`${baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                Authorization: `Bearer ${apiKey}`,
+            },
+            body: JSON.stringify({
+                model: modelName,
+                messages: [{ role: 'user', content: prompt }],
+                ...extra,
+            }),
+        });
+
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({}));
+            throw Object.assign(
+                new Error(error.error?.message || `LLM request failed with status ${response.status}`),
+                { status: response.status }
+            );
+        }
+
+        return response;
+    }
+
+    return {
+        name: `openai:${modelName}`,
+
+        async generateText(prompt, options = {}) {
+            if (!options.onToken) {
+                const response = await complete(prompt, {});
+                const data = await response.json();
+                return data.choices?.[0]?.message?.content || '';
+            }
+
+            const response = await complete(prompt, { stream: true });
+            if (!response.body) throw new Error('LLM stream had no body');
+
+            const reader = response.body.getReader();
+            const decoder = new TextDecoder();
+            let buffer = '';
+            let fullText = '';
+
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                buffer += decoder.decode(value, { stream: true });
+
+                const lines = buffer.split('\n');
+                buffer = lines.pop() || '';
+
+                for (const line of lines) {
+                    if (!line.startsWith('data:')) continue;
+                    const data = line.slice('data:'.length).trim();
+                    if (!data || data === '[DONE]') continue;
+                    const text = JSON.parse(data).choices?.[0]?.delta?.content;
+                    if (text) {
+                        fullText += text;
+                        options.onToken(text);
+                    }
+                }
+            }
+
+            return fullText;
+        },
+
+        async generateJson(prompt, schema) {
+            const response = await complete(prompt, { response_format: { type: 'json_object' } });
+            const data = await response.json();
+            return validateJsonOutput(data.choices?.[0]?.message?.content || '', schema);
+        },
+
+        async generateWithTools(prompt, tools, options = {}) {
+            const response = await complete(prompt, {
+                stream: true,
+                tools: tools.map(tool => ({ type: 'function', function: tool })),
+            });
+            if (!response.body) throw new Error('LLM stream had no body');
+
+            const reader = response.body.getReader();
+            const decoder = new TextDecoder();
+            let buffer = '';
+            let text = '';
+            // Tool call names and arguments arrive in fragments, keyed by index
+            const partialCalls: Array<{ name: string; arguments: string }> = [];
+
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                buffer += decoder.decode(value, { stream: true });
+
+                const lines = buffer.split('\n');
+                buffer = lines.pop() || '';
+
+                for (const line of lines) {
+                    if (!line.startsWith('data:')) continue;
+                    const data = line.slice('data:'.length).trim();
+                    if (!data || data === '[DONE]') continue;
+
+                    const delta = JSON.parse(data).choices?.[0]?.delta || {};
+                    if (delta.content) {
+                        text += delta.content;
+                        options.onToken?.(delta.content);
+                    }
+                    for (const fragment of delta.tool_calls || []) {
+                        const call = partialCalls[fragment.index] ||= { name: '', arguments: '' };
+                        call.name += fragment.function?.name || '';
+                        call.arguments += fragment.function?.arguments || '';
+                    }
+                }
+            }
+
+            const toolCalls = partialCalls.filter(Boolean).map(call => {
+                let args: Record<string, unknown> = {};
+                try {
+                    args = JSON.parse(call.arguments || '{}');
+                } catch {
+                    console.warn(`[llm] Ignoring malformed arguments for tool ${call.name}`);
+                }
+                return { name: call.name, arguments: args };
+            });
+
+            return { text, toolCalls };
+        },
+    };
+}
+
+// ============================================
+// Fixture Provider (deterministic, offline)
+// ============================================
+
+type FixtureHandler = (prompt: string) => string;
+type ToolFixtureHandler = (prompt: string) => LlmToolResult;
+
+/**
+ * Last thing the user said in a chat prompt
+ */
+function lastUserMessage(prompt: string): string {
+    const userLines = prompt.split('\n').filter(line => line.startsWith('User: '));
+    return (userLines[userLines.length - 1] || 'User: programming').slice('User: '.length).trim();
+}
+
+/**
+ * Reply to the chat prompt by searching for whatever the user last said
+ */
+function chatFixture(prompt: string): string {
+    const topic = lastUserMessage(prompt);
+    return `Great choice! Let me find the best ${topic} tutorials for you.\n[SEARCH_READY: topic="${topic}"|level="beginner"|goal="concepts"]`;
+}
+
+/**
+ * Tool-calling version of the chat fixture: greetings get a question, anything else a search
+ */
+function chatToolFixture(prompt: string): LlmToolResult {
+    const message = lastUserMessage(prompt);
+
+    if (/^(hi|hey|hello)\b/i.test(message)) {
+        return {
+            text: '',
+            toolCalls: [{ name: 'ask_clarifying_question', arguments: { question: 'Hi! What would you like to learn today?' } }],
+        };
+    }
+
+    return {
+        text: `Great choice! Let me find the best ${message} tutorials for you.`,
+        toolCalls: [{ name: 'search_tutorials', arguments: { topic: message, level: 'beginner', goal: 'concepts' } }],
+    };
+}
+
+/**
+ * Build a two-stage curriculum from the video IDs listed in the prompt
+ */
+function curriculumFixture(prompt: string): string {
+    const videoIds = Array.from(prompt.matchAll(/\[ID: ([^\]]+)\]/g)).map(m => m[1]);
+    const half = Math.ceil(videoIds.length / 2);
+
+    const toVideo = (videoId: string, index: number) => ({
+        videoId,
+        order: index + 1,
+        qualityScore: 8,
+        difficulty: 'beginner',
+        conceptsCovered: ['fundamentals'],
+        learningOutcomes: ['Understand the fundamentals'],
+        prerequisites: [],
+        whyRecommended: 'Fixture recommendation',
+    });
+
+    return JSON.stringify({
+        summary: 'A fixture learning path for offline development.',
+        estimatedTotalTime: '1 hour',
+        completionGoals: ['Complete the fixture path'],
+        stages: [
+            { stageName: 'Stage 1: Foundations', stageNumber: 1, description: 'Start here', videos: videoIds.slice(0, half).map(toVideo) },
+            { stageName: 'Stage 2: Core Skills', stageNumber: 2, description: 'Build on the basics', videos: videoIds.slice(half).map(toVideo) },
+        ].filter(stage => stage.videos.length > 0),
+    });
+}
+
+/**
+ * Pick the first candidate listed in the prompt as the replacement video
+ */
+function replacementFixture(prompt: string): string {
+    const candidates = prompt.split('CANDIDATE REPLACEMENTS:')[1] ?? '';
+    const videoId = candidates.match(/\[ID: ([^\]]+)\]/)?.[1] ?? '';
+
+    return JSON.stringify({
+        videoId,
+        qualityScore: 8,
+        difficulty: 'beginner',
+        conceptsCovered: ['fundamentals'],
+        learningOutcomes: ['Understand the fundamentals'],
+        prerequisites: [],
+        whyRecommended: 'Fixture replacement',
+    });
+}
+
+/**
+ * Plan a follow-up path around a fixed concept gap
+ */
+function continuationFixture(): string {
+    return JSON.stringify({
+        conceptGaps: ['advanced patterns'],
+        searchFocus: 'advanced patterns',
+    });
+}
+
+const fixtureHandlers: Record<LlmTask, FixtureHandler> = {
+    chat: chatFixture,
+    curriculum: curriculumFixture,
+    replacement: replacementFixture,
+    continuation: continuationFixture,
+    generic: () => 'OK',
+};
+
+const toolFixtureHandlers: Partial<Record<LlmTask, ToolFixtureHandler>> = {
+    chat: chatToolFixture,
+};
+
+/**
+ * Override the fixture reply for a task (used by offline tests)
+ */
+export function setLlmFixture(task: LlmTask, handler: FixtureHandler): void {
+    fixtureHandlers[task] = handler;
+}
+
+/**
+ * Override the fixture tool-calling reply for a task (used by offline tests)
+ */
+export function setLlmToolFixture(task: LlmTask, handler: ToolFixtureHandler): void {
+    toolFixtureHandlers[task] = handler;
+}
+
+/**
+ * Emit text word by word so streaming code paths are exercised too
+ */
+function emitFixtureTokens(text: string, onToken?: (text: string) => void): void {
+    for (const token of text.match(/\S+\s*/g) || []) {
+        onToken?.(token);
+    }
+}
+
+function createFixtureProvider(): LlmProvider {
+    return {
+        name: 'fixture',
+
+        async generateText(prompt, options = {}) {
+            const text = fixtureHandlers[options.task || 'generic'](prompt);
+            emitFixtureTokens(text, options.onToken);
+            return text;
+        },
+
+        async generateJson(prompt, schema, options = {}) {
+            return validateJsonOutput(fixtureHandlers[options.task || 'generic'](prompt), schema);
+        },
+
+        async generateWithTools(prompt, tools, options = {}) {
+            const task = options.task || 'generic';
+            const handler = toolFixtureHandlers[task];
+            const result = handler
+                ? handler(prompt)
+                : { text: fixtureHandlers[task](prompt), toolCalls: [] };
+
+            emitFixtureTokens(result.text, options.onToken);
+            return {
+                text: result.text,
+                toolCalls: result.toolCalls.filter(call => tools.some(tool => tool.name === call.name)),
+            };
+        },
+    };
+}
+
+// ============================================
+// Provider Selection
+// ============================================
+
+function createProvider(name: LlmProviderName): LlmProvider {
+    switch (name) {
+        case 'openai':
+            return createOpenAiProvider();
+        case 'fixture':
+            return createFixtureProvider();
+        case 'gemini':
+        default:
+            return createGeminiProvider();
+    }
+}
+
+/**
+ * Wrap a provider so quota/rate-limit failures are retried on a fallback provider
+ */
+function withFallback(primary: LlmProvider, fallback: LlmProvider): LlmProvider {
+    return {
+        name: `${primary.name} (fallback: ${fallback.name})`,
+
+        async generateText(prompt, options = {}) {
+            let emitted = false;
+            const onToken = options.onToken && ((text: string) => {
+                emitted = true;
+                options.onToken!(text);
+            });
+
+            try {
+                return await primary.generateText(prompt, { ...options, onToken });
+            } catch (error) {
+                // Never restart a reply the user has already partially seen
+                if (emitted || !isQuotaError(error)) throw error;
+                console.warn(`[llm] ${primary.name} unavailable, falling back to ${fallback.name}`);
+                return fallback.generateText(prompt, options);
+            }
+        },
+
+        async generateJson(prompt, schema, options) {
+            try {
+                return await primary.generateJson(prompt, schema, options);
+            } catch (error) {
+                if (!isQuotaError(error)) throw error;
+                console.warn(`[llm] ${primary.name} unavailable, falling back to ${fallback.name}`);
+                return fallback.generateJson(prompt, schema, options);
+            }
+        },
+
+        generateWithTools: primary.generateWithTools && (async (prompt, tools, options = {}) => {
+            let emitted = false;
+            const onToken = options.onToken && ((text: string) => {
+                emitted = true;
+                options.onToken!(text);
+            });
+
+            try {
+                return await primary.generateWithTools!(prompt, tools, { ...options, onToken });
+            } catch (error) {
+                if (emitted || !isQuotaError(error)) throw error;
+                console.warn(`[llm] ${primary.name} unavailable, falling back to ${fallback.name}`);
+                if (fallback.generateWithTools) {
+                    return fallback.generateWithTools(prompt, tools, options);
+                }
+                // Fallback cannot call tools - the caller's legacy text parsing takes over
+                return { text: await fallback.generateText(prompt, options), toolCalls: [] };
+            }
+        }),
+    };
+}
+
+/**
+ * Name of the configured primary provider.
+ * LLM_PROVIDER wins; otherwise the first provider with an API key is used.
+ */
+export function getLlmProviderName(): LlmProviderName | null {
+    const configured = process.env.LLM_PROVIDER?.trim().toLowerCase();
+    if (configured === 'gemini' || configured === 'openai' || configured === 'fixture') {
+        return configured;
+    }
+    if (process.env.GEMINI_API_KEY?.trim()) return 'gemini';
+    if (process.env.OPENAI_API_KEY?.trim()) return 'openai';
+    return null;
+}
+
+/**
+ * Check whether any LLM provider is configured
+ */
+export function isLlmConfigured(): boolean {
+    return getLlmProviderName() !== null;
+}
+
+/**
+ * Get the configured LLM provider, wrapped with LLM_FALLBACK_PROVIDER if set
+ */
+export function getLlmProvider(): LlmProvider {
+    const primaryName = getLlmProviderName();
+    if (!primaryName) {
+        throw new Error('No LLM provider configured. Set GEMINI_API_KEY, OPENAI_API_KEY or LLM_PROVIDER.');
+    }
+
+    const primary = createProvider(primaryName);
+
+    const fallbackName = process.env.LLM_FALLBACK_PROVIDER?.trim().toLowerCase() as LlmProviderName | undefined;
+    if (fallbackName && fallbackName !== primaryName) {
+        return withFallback(primary, createProvider(fallbackName));
+    }
+
+    return primary;
+}
@@ -0,0 +1,95 @@
+// Browser side of passkey ceremonies
+// Converts between the server's base64url JSON and the binary WebAuthn browser API
+
+import type {
+    PasskeyCreationOptions,
+    PasskeyRequestOptions,
+    PasskeyRegistrationResponse,
+    PasskeyAuthenticationResponse,
+} from '@/types';
+
+function fromBase64url(value: string): ArrayBuffer {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes.buffer;
+}
+
+function toBase64url(buffer: ArrayBuffer): string {
+    const bytes = new Uint8Array(buffer);
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function toDescriptors(list: Array<{ type: 'public-key'; id: string; transports?: string[] }>): PublicKeyCredentialDescriptor[] {
+    return list.map((credential) => ({
+        type: credential.type,
+        id: fromBase64url(credential.id),
+        transports: credential.transports as AuthenticatorTransport[] | undefined,
+    }));
+}
+
+/**
+ * Whether this browser can use passkeys at all
+ */
+export function isPasskeySupported(): boolean {
+    return typeof window !== 'undefined' && !!window.PublicKeyCredential && !!navigator.credentials;
+}
+
+/**
+ * Ask the browser to create a passkey
+ * @returns null if the user dismissed the prompt
+ */
+export async function createPasskey(options: PasskeyCreationOptions): Promise<PasskeyRegistrationResponse | null> {
+    const credential = await navigator.credentials.create({
+        publicKey: {
+            ...options,
+            challenge: fromBase64url(options.challenge),
+            user: { ...options.user, id: fromBase64url(options.user.id) },
+            excludeCredentials: toDescriptors(options.excludeCredentials),
+        },
+    }) as PublicKeyCredential | null;
+
+    if (!credential) return null;
+    const response = credential.response as AuthenticatorAttestationResponse;
+
+    return {
+        id: credential.id,
+        type: 'public-key',
+        response: {
+            clientDataJSON: toBase64url(response.clientDataJSON),
+            attestationObject: toBase64url(response.attestationObject),
+            transports: response.getTransports?.() ?? [],
+        },
+    };
+}
+
+/**
+ * Ask the browser to sign in with a passkey
+ * @returns null if the user dismissed the prompt
+ */
+export async function getPasskeyAssertion(options: PasskeyRequestOptions): Promise<PasskeyAuthenticationResponse | null> {
+    const credential = await navigator.credentials.get({
+        publicKey: {
+            ...options,
+            challenge: fromBase64url(options.challenge),
+            allowCredentials: toDescriptors(options.allowCredentials),
+        },
+    }) as PublicKeyCredential | null;
+
+    if (!credential) return null;
+    const response = credential.response as AuthenticatorAssertionResponse;
+
+    return {
+        id: credential.id,
+        type: 'public-key',
+        response: {
+            clientDataJSON: toBase64url(response.clientDataJSON),
+            authenticatorData: toBase64url(response.authenticatorData),
+            signature: toBase64url(response.signature),
+            userHandle: response.userHandle ? toBase64url(response.userHandle) : null,
+        },
+    };
+}
@@ -0,0 +1,172 @@
+// Learning Path Continuation
+// Once a saved path is finished, works out the next level and the concepts still missing,
+// then curates a follow-up path that links back to the finished one (parentPathId)
+
+import { getDb, DbSavedLearningPath, DbVideoProgress } from './db';
+import { analyzeAndCurateVideos, planContinuation, LearningPath, LearningStage } from './curriculum';
+import { getLearningPathStages, toStageRows } from './learning-paths';
+import { pathVideoIds } from './learning-path-edit';
+import { searchTutorials } from './youtube';
+
+// Search results the curriculum model gets to choose from (same as a new path from chat)
+const CANDIDATE_COUNT = 15;
+
+const NEXT_LEVEL: Record<string, string> = {
+    beginner: 'intermediate',
+    intermediate: 'advanced',
+    advanced: 'advanced',        // Nothing above advanced; the concept gaps carry it further
+};
+
+export interface PathContinuation {
+    learningPathId: string;
+    parentPathId: string;
+    learningPath: LearningPath;
+    created: boolean;            // false when the path had already been continued
+}
+
+/**
+ * Continuation that can't be built (path missing or unfinished, nothing found, model unavailable)
+ */
+export class PathContinuationError extends Error {
+    constructor(message: string, public status: number) {
+        super(message);
+        this.name = 'PathContinuationError';
+    }
+}
+
+export function nextLevel(level: string): string {
+    return NEXT_LEVEL[level] ?? 'intermediate';
+}
+
+function parseGoals(value: string): string[] {
+    try {
+        const parsed = JSON.parse(value);
+        return Array.isArray(parsed) ? parsed.map(String) : [];
+    } catch {
+        return [];
+    }
+}
+
+function toLearningPath(path: DbSavedLearningPath, stages: LearningStage[]): LearningPath {
+    return {
+        topic: path.topic,
+        userLevel: path.userLevel,
+        userGoal: path.userGoal,
+        totalVideos: path.totalVideos,
+        estimatedTotalTime: path.estimatedTotalTime,
+        stages,
+        completionGoals: parseGoals(path.completionGoals),
+        summary: path.summary,
+    };
+}
+
+/**
+ * Concepts the finished path covered, and prerequisites it assumed without teaching
+ */
+function summarizeConcepts(stages: LearningStage[]): { covered: string[]; open: string[] } {
+    const videos = stages.flatMap(stage => stage.videos);
+    const covered = Array.from(new Set(videos.flatMap(video => video.conceptsCovered)));
+    const known = new Set(covered.map(concept => concept.toLowerCase()));
+    const open = Array.from(new Set(videos.flatMap(video => video.prerequisites)))
+        .filter(prerequisite => !known.has(prerequisite.toLowerCase()));
+    return { covered, open };
+}
+
+/**
+ * Build (or return the existing) next-level path for one of the user's finished paths
+ * @throws PathContinuationError - 404 path missing, 400 not finished yet, 422 no videos found, 502/503 model unavailable
+ * @throws QuotaExceededError if the user's or the global YouTube budget is used up
+ */
+export async function continueLearningPath(userId: string, learningPathId: string): Promise<PathContinuation> {
+    const db = getDb();
+
+    const path: DbSavedLearningPath | null = await db.savedLearningPath.findFirst({
+        where: { id: learningPathId, userId },
+    });
+    if (!path) {
+        throw new PathContinuationError('Learning path not found', 404);
+    }
+
+    // Continuing twice opens the same follow-up path instead of generating another
+    const existing: DbSavedLearningPath | null = await db.savedLearningPath.findFirst({
+        where: { userId, parentPathId: path.id },
+    });
+    if (existing) {
+        return {
+            learningPathId: existing.id,
+            parentPathId: path.id,
+            learningPath: toLearningPath(existing, await getLearningPathStages(existing.id)),
+            created: false,
+        };
+    }
+
+    const stages = await getLearningPathStages(path.id);
+    const videoIds = pathVideoIds(stages);
+    const progress: DbVideoProgress[] = await db.videoProgress.findMany({ where: { learningPathId: path.id } });
+    const watched = new Set(progress.filter(p => p.watched).map(p => p.videoId));
+
+    if (videoIds.length === 0 || videoIds.some(videoId => !watched.has(videoId))) {
+        throw new PathContinuationError('Finish every video in this path to unlock the next level', 400);
+    }
+
+    const level = nextLevel(path.userLevel);
+    const concepts = summarizeConcepts(stages);
+
+    const planned = await planContinuation({
+        topic: path.topic,
+        userGoal: path.userGoal,
+        completedLevel: path.userLevel,
+        nextLevel: level,
+        conceptsCovered: concepts.covered,
+        completionGoals: parseGoals(path.completionGoals),
+        openPrerequisites: concepts.open,
+    });
+    if (!planned.success) {
+        console.warn('Continuation planning failed:', planned.diagnostics);
+        throw planned.diagnostics.reason === 'not_configured'
+            ? new PathContinuationError('Next-level paths are not available right now', 503)
+            : new PathContinuationError('Could not plan the next level. Please try again.', 502);
+    }
+
+    let query = `${path.topic} ${planned.plan.searchFocus} tutorial`;
+    if (level === 'advanced') query += ' advanced';
+
+    // Videos from the finished path would only repeat what the learner has seen
+    const seen = new Set(videoIds);
+    const results = await searchTutorials(query, CANDIDATE_COUNT, { quotaUserId: userId, goal: path.userGoal });
+    const candidates = results.filter(video => !seen.has(video.id));
+
+    if (candidates.length === 0) {
+        throw new PathContinuationError('No videos found for the next level yet', 422);
+    }
+
+    const curation = await analyzeAndCurateVideos(candidates, path.topic, level, path.userGoal, {
+        focus: planned.plan.conceptGaps,
+    });
+    if (!curation.success) {
+        console.warn('Continuation curation failed:', curation.diagnostics);
+        throw curation.diagnostics.reason === 'not_configured'
+            ? new PathContinuationError('Next-level paths are not available right now', 503)
+            : new PathContinuationError('Could not build the next level. Please try again.', 502);
+    }
+
+    const learningPath = curation.learningPath;
+    const saved = await db.savedLearningPath.create({
+        data: {
+            userId,
+            topic: learningPath.topic,
+            userLevel: learningPath.userLevel,
+            userGoal: learningPath.userGoal,
+            totalVideos: learningPath.totalVideos,
+            estimatedTotalTime: learningPath.estimatedTotalTime,
+            summary: learningPath.summary,
+            completionGoals: JSON.stringify(learningPath.completionGoals),
+            stages: toStageRows(learningPath.stages),
+            parentPathId: path.id,
+        },
+    });
+
+    console.log('Continued learning path', path.id, 'as', saved.id, '| Level:', level, '| Gaps:', planned.plan.conceptGaps.join(', '));
+
+    return { learningPathId: saved.id, parentPathId: path.id, learningPath, created: true };
+}
@@ -157,9 +157,49 @@ export const RATE_LIMITS = {
         windowMs: 60 * 60 * 1000, // 1 hour
         blockDurationMs: 60 * 60 * 1000, // 1 hour
     },
+    passwordResetRequest: {
+        maxAttempts: 3,
+        windowMs: 60 * 60 * 1000, // 1 hour
+        blockDurationMs: 60 * 60 * 1000, // 1 hour
+    },
+    passwordResetConfirm: {
+        maxAttempts: 5,
+        windowMs: 15 * 60 * 1000, // 15 minutes
+        blockDurationMs: 60 * 60 * 1000, // 1 hour
+    },
+    emailChangeRequest: {
+        maxAttempts: 3,
+        windowMs: 60 * 60 * 1000, // 1 hour
+        blockDurationMs: 60 * 60 * 1000, // 1 hour
+    },
+    emailChangeConfirm: {
+        maxAttempts: 5,
+        windowMs: 15 * 60 * 1000, // 15 minutes
+        blockDurationMs: 60 * 60 * 1000, // 1 hour
+    },
+    reauthCodeRequest: {
+        maxAttempts: 3,
+        windowMs: 60 * 60 * 1000, // 1 hour
+        blockDurationMs: 60 * 60 * 1000, // 1 hour
+    },
+    passkeyLogin: {
+        maxAttempts: 10,
+        windowMs: 15 * 60 * 1000, // 15 minutes
+        blockDurationMs: 30 * 60 * 1000, // 30 minutes
+    },
     chat: {
         maxAttempts: 30,
         windowMs: 60 * 1000, // 1 minute
         blockDurationMs: 5 * 60 * 1000, // 5 minutes
     },
+    videoSwap: {
+        maxAttempts: 10,
+        windowMs: 15 * 60 * 1000, // 15 minutes
+        blockDurationMs: 15 * 60 * 1000, // 15 minutes
+    },
+    pathContinuation: {
+        maxAttempts: 5,
+        windowMs: 60 * 60 * 1000, // 1 hour
+        blockDurationMs: 60 * 60 * 1000, // 1 hour
+    },
 };
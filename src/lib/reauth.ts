@@ -0,0 +1,113 @@
+// Re-authentication for sensitive account changes
+// Confirms the current password (or, for accounts without one, an emailed code) and,
+// when 2FA is enabled, an authenticator or backup code
+
+import { getDb, DbUser, DbVerificationToken } from './db';
+import { verifyPassword, generateVerificationCode, isTokenExpired } from './auth';
+import { verifySecondFactor } from './two-factor';
+import { sendReauthCode } from './email';
+import { checkRateLimit, recordAttempt, resetRateLimit, RATE_LIMITS } from './rate-limit';
+
+export type ReauthResult =
+    | { success: true }
+    | { success: false; status: number; message: string; requires2FA?: boolean; requiresEmailCode?: boolean };
+
+export interface ReauthCredentials {
+    password?: string;
+    emailCode?: string;          // From issueReauthCode, for accounts without a password
+    code?: string;               // Authenticator or backup code; required when 2FA is enabled
+}
+
+/**
+ * Email a code that stands in for the password on accounts created with Google
+ * Only the latest code is valid.
+ */
+export async function issueReauthCode(user: DbUser): Promise<{ success: boolean; message: string }> {
+    const prisma = getDb();
+    const { code, expiresAt } = generateVerificationCode();
+
+    await prisma.verificationToken.deleteMany({ where: { userId: user.id, purpose: 'reauth' } });
+    await prisma.verificationToken.create({
+        data: { token: code, userId: user.id, purpose: 'reauth', expiresAt },
+    });
+
+    return sendReauthCode(user.email, code, user.name || undefined);
+}
+
+async function isValidReauthCode(user: DbUser, code: string): Promise<boolean> {
+    const token: DbVerificationToken | null = await getDb().verificationToken.findFirst({
+        where: { token: code, userId: user.id, purpose: 'reauth' },
+    });
+    return !!token && !isTokenExpired(token.expiresAt);
+}
+
+/**
+ * Check the user's password or emailed code (and 2FA code if enabled) before a sensitive change
+ * Failures count against a per-account limit so a stolen session can't guess the password.
+ * @param user - The signed-in user, loaded fresh from the database
+ */
+export async function reauthenticate(user: DbUser, credentials: ReauthCredentials): Promise<ReauthResult> {
+    const { password, emailCode, code } = credentials;
+    const rateLimitKey = `reauth:${user.id}`;
+    const rateLimit = await checkRateLimit(rateLimitKey, RATE_LIMITS.login);
+
+    if (!rateLimit.allowed) {
+        return {
+            success: false,
+            status: 429,
+            message: `Too many attempts. Please try again in ${Math.ceil((rateLimit.retryAfter || 1800) / 60)} minutes.`,
+        };
+    }
+
+    if (user.hasPassword) {
+        if (!password) {
+            return { success: false, status: 400, message: 'Current password is required' };
+        }
+        if (!(await verifyPassword(password, user.passwordHash))) {
+            await recordAttempt(rateLimitKey, RATE_LIMITS.login);
+            return { success: false, status: 401, message: 'Current password is incorrect' };
+        }
+    } else {
+        // Google sign-ups never chose a password, so a code sent to their inbox proves it's them
+        if (!emailCode) {
+            return { success: false, status: 400, message: 'Enter the code we emailed you', requiresEmailCode: true };
+        }
+        if (!(await isValidReauthCode(user, emailCode))) {
+            await recordAttempt(rateLimitKey, RATE_LIMITS.login);
+            return { success: false, status: 401, message: 'Invalid or expired code', requiresEmailCode: true };
+        }
+    }
+
+    if (user.twoFactorEnabled && user.twoFactorSecret) {
+        if (!code) {
+            return {
+                success: false,
+                status: 400,
+                message: 'Enter a code from your authenticator app',
+                requires2FA: true,
+            };
+        }
+
+        const result = await verifySecondFactor(code, user.twoFactorSecret, user.twoFactorBackupCodes);
+        if (!result.valid) {
+            await recordAttempt(rateLimitKey, RATE_LIMITS.login);
+            return { success: false, status: 401, message: 'Invalid verification code', requires2FA: true };
+        }
+
+        // A backup code was used up
+        if (result.remainingBackupCodes) {
+            await getDb().user.update({
+                where: { id: user.id },
+                data: { twoFactorBackupCodes: JSON.stringify(result.remainingBackupCodes) },
+            });
+        }
+    }
+
+    // Each emailed code confirms one change
+    if (!user.hasPassword) {
+        await getDb().verificationToken.deleteMany({ where: { userId: user.id, purpose: 'reauth' } });
+    }
+
+    await resetRateLimit(rateLimitKey);
+    return { success: true };
+}
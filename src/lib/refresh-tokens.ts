@@ -0,0 +1,227 @@
+// Refresh token rotation
+// Every refresh token is stored; each login starts a token family (a session) that rotation extends.
+// Presenting an already-rotated token means it was stolen or replayed, so the whole family is revoked.
+
+import { NextResponse } from 'next/server';
+import { getDb, DbRefreshToken, DbUser } from './db';
+import { createSession, endSession, endAllSessions } from './sessions';
+import { recordAuditEvent } from './audit';
+import {
+    generateAccessToken,
+    generateRefreshToken,
+    verifyRefreshToken,
+    TokenPayload,
+    ACCESS_TOKEN_MAX_AGE_SECONDS,
+    REFRESH_TOKEN_MAX_AGE_SECONDS,
+} from './auth';
+
+// A rotated token presented again within this window is a race between tabs, not theft
+const ROTATION_GRACE_MS = 30 * 1000;
+
+// ============================================
+// Types
+// ============================================
+
+export type RotationResult =
+    | {
+        status: 'rotated';
+        user: DbUser;
+        accessToken: string;
+        refreshToken: string;
+        familyId: string;
+    }
+    | { status: 'invalid' | 'revoked' | 'reused' | 'stale' };
+
+// ============================================
+// Issuing
+// ============================================
+
+function newTokenId(): string {
+    return crypto.randomUUID().replace(/-/g, '');
+}
+
+/**
+ * Store and sign a refresh token in an existing family
+ */
+async function storeRefreshToken(
+    payload: TokenPayload,
+    familyId: string
+): Promise<{ token: string; tokenId: string }> {
+    const db = getDb();
+    const tokenId = newTokenId();
+
+    await db.refreshToken.create({
+        data: {
+            id: tokenId,
+            userId: payload.userId,
+            familyId,
+            expiresAt: new Date(Date.now() + REFRESH_TOKEN_MAX_AGE_SECONDS * 1000),
+        },
+    });
+
+    return {
+        token: generateRefreshToken(payload, { tokenId, familyId }),
+        tokenId,
+    };
+}
+
+/**
+ * Start a session for a login and issue its first access + refresh token pair
+ * @param payload - Token payload with user info
+ * @param headers - Request headers, for the session's device and IP
+ */
+export async function startSession(
+    payload: TokenPayload,
+    headers: Headers
+): Promise<{ accessToken: string; refreshToken: string; sessionId: string }> {
+    const sessionId = newTokenId();
+    await createSession(sessionId, payload.userId, headers);
+
+    const sessionPayload = { ...payload, sessionId };
+    const { token } = await storeRefreshToken(sessionPayload, sessionId);
+
+    return {
+        accessToken: generateAccessToken(sessionPayload),
+        refreshToken: token,
+        sessionId,
+    };
+}
+
+// ============================================
+// Rotation
+// ============================================
+
+/**
+ * Exchange a refresh token for a new access + refresh token pair
+ * Reuse of a rotated token revokes every token in its family.
+ * @param headers - Request headers, for the audit log
+ */
+export async function rotateRefreshToken(token: string, headers: Headers): Promise<RotationResult> {
+    const db = getDb();
+    const decoded = verifyRefreshToken(token);
+
+    // Tokens issued before rotation existed carry no jti. They were never stored, so they can't be
+    // tracked or revoked - the user signs in again once instead.
+    if (!decoded || decoded.isGuest || !decoded.jti) {
+        return { status: 'invalid' };
+    }
+
+    const stored: DbRefreshToken | null = await db.refreshToken.findUnique({ where: { id: decoded.jti } });
+
+    if (!stored || stored.userId !== decoded.userId) {
+        return { status: 'invalid' };
+    }
+    if (stored.revokedAt) {
+        return { status: 'revoked' };
+    }
+    if (stored.rotatedAt) {
+        if (Date.now() - stored.rotatedAt.getTime() < ROTATION_GRACE_MS) {
+            return { status: 'stale' };
+        }
+        console.warn(`Refresh token reuse detected for user ${stored.userId}, revoking family ${stored.familyId}`);
+        await revokeRefreshTokenFamily(stored.familyId);
+        await recordAuditEvent('refresh_token_reuse', {
+            userId: stored.userId,
+            email: decoded.email,
+            headers,
+            metadata: { sessionId: stored.familyId },
+        });
+        return { status: 'reused' };
+    }
+
+    // Claim the token atomically so two concurrent requests cannot both rotate it
+    const claimed = await db.refreshToken.updateMany({
+        where: { id: stored.id, rotatedAt: null, revokedAt: null },
+        data: { rotatedAt: new Date() },
+    });
+    if (claimed.count === 0) {
+        return { status: 'stale' };
+    }
+
+    const familyId = stored.familyId;
+
+    const user: DbUser | null = await db.user.findUnique({ where: { id: decoded.userId } });
+    if (!user) {
+        return { status: 'invalid' };
+    }
+
+    // Build the payload from fresh user data so email/verification changes propagate
+    const payload: TokenPayload = {
+        userId: user.id,
+        email: user.email,
+        emailVerified: user.emailVerified,
+        isGuest: false,
+        sessionId: familyId,
+    };
+
+    const issued = await storeRefreshToken(payload, familyId);
+
+    await db.refreshToken.updateMany({
+        where: { id: stored.id },
+        data: { replacedById: issued.tokenId },
+    });
+
+    return {
+        status: 'rotated',
+        user,
+        accessToken: generateAccessToken(payload),
+        refreshToken: issued.token,
+        familyId,
+    };
+}
+
+// ============================================
+// Revocation
+// ============================================
+
+/**
+ * Revoke every token in a family, ending its session
+ */
+export async function revokeRefreshTokenFamily(familyId: string): Promise<void> {
+    await endSession(familyId);
+}
+
+/**
+ * Revoke the family of the given refresh token (used on logout)
+ */
+export async function revokeRefreshToken(token: string): Promise<void> {
+    const decoded = verifyRefreshToken(token);
+    if (decoded?.fam) {
+        await revokeRefreshTokenFamily(decoded.fam);
+    }
+}
+
+/**
+ * Revoke every refresh token a user holds (e.g. after a password change)
+ * @param exceptFamilyId - Keep this session signed in
+ */
+export async function revokeAllRefreshTokens(userId: string, exceptFamilyId?: string): Promise<void> {
+    await endAllSessions(userId, exceptFamilyId);
+}
+
+// ============================================
+// Cookies
+// ============================================
+
+const cookieOptions = {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    path: '/',
+};
+
+/**
+ * Set the access and refresh token cookies on a response
+ */
+export function setAuthCookies(response: NextResponse, accessToken: string, refreshToken: string): void {
+    response.cookies.set('accessToken', accessToken, { ...cookieOptions, maxAge: ACCESS_TOKEN_MAX_AGE_SECONDS });
+    response.cookies.set('refreshToken', refreshToken, { ...cookieOptions, maxAge: REFRESH_TOKEN_MAX_AGE_SECONDS });
+}
+
+/**
+ * Clear both auth cookies
+ */
+export function clearAuthCookies(response: NextResponse): void {
+    response.cookies.set('accessToken', '', { ...cookieOptions, maxAge: 0 });
+    response.cookies.set('refreshToken', '', { ...cookieOptions, maxAge: 0 });
+}
@@ -0,0 +1,183 @@
+// Spaced Repetition Reviews
+// Schedules reviews of the concepts in watched videos at SM-2 intervals: each recall rating
+// (0-5) adjusts the concept's ease factor and pushes its next review further out or back to tomorrow
+
+import { getDb, DbReviewItem, DbLearningPathVideo, DbSavedLearningPath } from './db';
+import { parseList } from './learning-paths';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MIN_EASE = 1.3;
+
+// Ratings below this count as forgotten and restart the intervals
+const PASSING_RATING = 3;
+
+// A long video can list many concepts; review the first few
+const MAX_CONCEPTS_PER_VIDEO = 5;
+
+// ============================================
+// Types
+// ============================================
+
+export interface ReviewSchedule {
+    easeFactor: number;
+    intervalDays: number;
+    repetitions: number;         // Successful recalls in a row
+}
+
+export interface DueReview {
+    id: string;
+    concept: string;
+    videoId: string;
+    videoTitle: string;
+    learningPathId: string;
+    topic: string;
+    dueAt: string;
+    repetitions: number;
+}
+
+export interface DueReviews {
+    reviews: DueReview[];
+    dueCount: number;            // May be more than the reviews returned
+    nextDueAt: string | null;    // When the next review comes due, if none are due now
+}
+
+// ============================================
+// SM-2
+// ============================================
+
+/**
+ * Next interval and ease after a recall rating (SM-2)
+ * @param rating - 0 (no recall) to 5 (perfect recall)
+ */
+export function nextReviewSchedule(current: ReviewSchedule, rating: number): ReviewSchedule {
+    const easeFactor = Math.max(
+        MIN_EASE,
+        current.easeFactor + (0.1 - (5 - rating) * (0.08 + (5 - rating) * 0.02))
+    );
+
+    if (rating < PASSING_RATING) {
+        return { easeFactor, intervalDays: 1, repetitions: 0 };
+    }
+
+    const repetitions = current.repetitions + 1;
+    const intervalDays = repetitions === 1 ? 1
+        : repetitions === 2 ? 6
+        : Math.round(current.intervalDays * easeFactor);
+
+    return { easeFactor, intervalDays, repetitions };
+}
+
+// ============================================
+// Scheduling
+// ============================================
+
+/**
+ * Concepts to review for a video; videos the learner added themselves have none, so their title stands in
+ */
+function reviewConcepts(video: DbLearningPathVideo): string[] {
+    const seen = new Set<string>();
+    const concepts = parseList(video.conceptsCovered)
+        .map(concept => concept.trim())
+        .filter(concept => {
+            const key = concept.toLowerCase();
+            if (!concept || seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        })
+        .slice(0, MAX_CONCEPTS_PER_VIDEO);
+
+    return concepts.length > 0 ? concepts : [video.title];
+}
+
+/**
+ * Schedule a first review, a day after watching, for each concept in a video of a saved path
+ * Concepts already scheduled keep their place.
+ */
+export async function scheduleVideoReviews(userId: string, learningPathId: string, videoId: string, watchedAt: Date = new Date()): Promise<void> {
+    const db = getDb();
+    const video: DbLearningPathVideo | null = await db.learningPathVideo.findUnique({
+        where: { learningPathId_videoId: { learningPathId, videoId } },
+    });
+    if (!video) return;
+
+    const dueAt = new Date(watchedAt.getTime() + DAY_MS);
+    await db.reviewItem.createMany({
+        data: reviewConcepts(video).map(concept => ({ userId, learningPathId, videoId, concept, dueAt })),
+    });
+}
+
+/**
+ * Stop reviewing videos that were unwatched or removed from a path
+ */
+export async function clearVideoReviews(learningPathId: string, videoIds: string[]): Promise<void> {
+    await getDb().reviewItem.deleteMany({ where: { learningPathId, videoId: { in: videoIds } } });
+}
+
+// ============================================
+// Reviewing
+// ============================================
+
+/**
+ * The user's reviews that are due now, soonest first, with the video and path they came from
+ */
+export async function getDueReviews(userId: string, limit: number): Promise<DueReviews> {
+    const db = getDb();
+    const now = new Date();
+
+    const [items, dueCount]: [DbReviewItem[], number] = await Promise.all([
+        db.reviewItem.findMany({ where: { userId, dueAt: { lte: now } }, take: limit }),
+        db.reviewItem.count({ where: { userId, dueAt: { lte: now } } }),
+    ]);
+
+    let nextDueAt: string | null = null;
+    if (dueCount === 0) {
+        const [next]: DbReviewItem[] = await db.reviewItem.findMany({ where: { userId }, take: 1 });
+        nextDueAt = next?.dueAt.toISOString() ?? null;
+    }
+
+    const pathIds = Array.from(new Set(items.map(item => item.learningPathId)));
+    const [paths, videos]: [DbSavedLearningPath[], DbLearningPathVideo[]] = await Promise.all([
+        pathIds.length > 0 ? db.savedLearningPath.findMany({ where: { userId } }) : [],
+        pathIds.length > 0 ? db.learningPathVideo.findMany({ where: { learningPathId: { in: pathIds } } }) : [],
+    ]);
+    const topics = new Map(paths.map(path => [path.id, path.topic]));
+    const titles = new Map(videos.map(video => [`${video.learningPathId}:${video.videoId}`, video.title]));
+
+    return {
+        reviews: items.map(item => ({
+            id: item.id,
+            concept: item.concept,
+            videoId: item.videoId,
+            videoTitle: titles.get(`${item.learningPathId}:${item.videoId}`) ?? '',
+            learningPathId: item.learningPathId,
+            topic: topics.get(item.learningPathId) ?? '',
+            dueAt: item.dueAt.toISOString(),
+            repetitions: item.repetitions,
+        })),
+        dueCount,
+        nextDueAt,
+    };
+}
+
+/**
+ * Record how well the user recalled a concept and schedule its next review
+ * @returns The updated review, or null if it isn't the user's
+ */
+export async function rateReview(userId: string, reviewItemId: string, rating: number): Promise<DbReviewItem | null> {
+    const db = getDb();
+    const item: DbReviewItem | null = await db.reviewItem.findFirst({ where: { id: reviewItemId, userId } });
+    if (!item) return null;
+
+    const now = new Date();
+    const schedule = nextReviewSchedule(item, rating);
+
+    return db.reviewItem.update({
+        where: { id: item.id },
+        data: {
+            ...schedule,
+            dueAt: new Date(now.getTime() + schedule.intervalDays * DAY_MS),
+            lastReviewedAt: now,
+        },
+    });
+}
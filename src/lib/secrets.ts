@@ -0,0 +1,151 @@
+// Secrets encryption
+// AES-256-GCM for credentials stored in the database (OAuth tokens, TOTP secrets),
+// with key IDs so keys can be rotated without losing access to older values
+
+import crypto from 'crypto';
+
+// Envelope: enc:v1:<keyId>:<iv>:<ciphertext>:<authTag>, binary parts base64url-encoded
+// scripts/rotate-secrets.mjs reads and writes the same format
+const ENVELOPE_PREFIX = 'enc:v1:';
+const IV_BYTES = 12;
+const AUTH_TAG_BYTES = 16;
+const KEY_BYTES = 32;
+
+// Development fallback so the app runs without configuration; never accepted in production
+const DEFAULT_KEY_ID = 'default';
+const DEFAULT_KEY_SOURCE = 'default-key-change-in-production';
+
+interface Keyring {
+    primaryKeyId: string;
+    keys: Map<string, Buffer>;
+}
+
+let keyring: Keyring | null = null;
+
+// ============================================
+// Keys
+// ============================================
+
+/**
+ * Parse SECRETS_ENCRYPTION_KEYS: comma-separated "keyId:base64Key" pairs, newest first
+ * The first key encrypts; the rest are kept only to decrypt values written before a rotation.
+ */
+function parseKeys(value: string): Keyring {
+    const keys = new Map<string, Buffer>();
+
+    for (const entry of value.split(',').map(part => part.trim()).filter(Boolean)) {
+        const separator = entry.indexOf(':');
+        const keyId = entry.slice(0, separator);
+        const key = Buffer.from(entry.slice(separator + 1), 'base64');
+
+        if (separator < 1 || !/^[A-Za-z0-9_-]+$/.test(keyId)) {
+            throw new Error('SECRETS_ENCRYPTION_KEYS entries must look like "keyId:base64Key"');
+        }
+        if (key.length !== KEY_BYTES) {
+            throw new Error(`Encryption key "${keyId}" must be ${KEY_BYTES} bytes (openssl rand -base64 32)`);
+        }
+        if (keys.has(keyId)) {
+            throw new Error(`Encryption key ID "${keyId}" is listed twice`);
+        }
+
+        keys.set(keyId, key);
+    }
+
+    if (keys.size === 0) {
+        throw new Error('SECRETS_ENCRYPTION_KEYS is empty');
+    }
+
+    return { primaryKeyId: keys.keys().next().value!, keys };
+}
+
+function getKeyring(): Keyring {
+    if (keyring) return keyring;
+
+    const configured = process.env.SECRETS_ENCRYPTION_KEYS?.trim();
+
+    if (configured) {
+        keyring = parseKeys(configured);
+    } else if (process.env.NODE_ENV === 'production') {
+        throw new Error('SECRETS_ENCRYPTION_KEYS must be set in production; refusing to use the default key');
+    } else {
+        const key = crypto.createHash('sha256').update(DEFAULT_KEY_SOURCE).digest();
+        keyring = { primaryKeyId: DEFAULT_KEY_ID, keys: new Map([[DEFAULT_KEY_ID, key]]) };
+    }
+
+    return keyring;
+}
+
+/**
+ * Fail fast at startup when encryption isn't configured properly
+ * Throws in production without SECRETS_ENCRYPTION_KEYS, and anywhere the keys are malformed.
+ */
+export function assertSecretsConfigured(): void {
+    getKeyring();
+}
+
+// ============================================
+// Encryption
+// ============================================
+
+/**
+ * Check whether a stored value is an encryption envelope
+ */
+export function isEncrypted(value: string): boolean {
+    return value.startsWith(ENVELOPE_PREFIX);
+}
+
+/**
+ * Encrypt a secret with the primary key
+ * @returns Envelope string, safe to store in a text column
+ */
+export function encrypt(plaintext: string): string {
+    const { primaryKeyId, keys } = getKeyring();
+    const iv = crypto.randomBytes(IV_BYTES);
+    const cipher = crypto.createCipheriv('aes-256-gcm', keys.get(primaryKeyId)!, iv, { authTagLength: AUTH_TAG_BYTES });
+
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    const authTag = cipher.getAuthTag();
+
+    return ENVELOPE_PREFIX + [
+        primaryKeyId,
+        iv.toString('base64url'),
+        ciphertext.toString('base64url'),
+        authTag.toString('base64url'),
+    ].join(':');
+}
+
+/**
+ * Decrypt an envelope written by encrypt(), using whichever key it names
+ * Throws if the key is unknown or the value was tampered with.
+ */
+export function decrypt(envelope: string): string {
+    if (!isEncrypted(envelope)) {
+        throw new Error('Value is not an encryption envelope');
+    }
+
+    const [keyId, ivPart, ciphertextPart, authTagPart] = envelope.slice(ENVELOPE_PREFIX.length).split(':');
+    const key = getKeyring().keys.get(keyId);
+
+    if (!key) {
+        throw new Error(`Unknown encryption key "${keyId}"`);
+    }
+
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(ivPart, 'base64url'), {
+        // Without a fixed length GCM accepts truncated tags, which are far easier to forge
+        authTagLength: AUTH_TAG_BYTES,
+    });
+    decipher.setAuthTag(Buffer.from(authTagPart, 'base64url'));
+
+    return Buffer.concat([
+        decipher.update(Buffer.from(ciphertextPart, 'base64url')),
+        decipher.final(),
+    ]).toString('utf8');
+}
+
+/**
+ * Decrypt a stored credential that may predate encryption
+ * Plaintext values are returned unchanged until scripts/rotate-secrets.mjs rewrites them.
+ */
+export function decryptStored(value: string): string {
+    return isEncrypted(value) ? decrypt(value) : value;
+}
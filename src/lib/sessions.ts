@@ -0,0 +1,172 @@
+// Session management
+// A session is one signed-in device; its ID is the refresh token family started at login.
+// Access tokens carry the session ID so revoking a session locks the device out immediately.
+
+import { getDb, DbSession } from './db';
+import { getClientIP } from './rate-limit';
+
+// Skip lastSeenAt writes for requests closer together than this
+const LAST_SEEN_RESOLUTION_MS = 5 * 60 * 1000;
+
+// ============================================
+// Types
+// ============================================
+
+export interface SessionInfo {
+    id: string;
+    device: string;
+    ipAddress: string | null;
+    createdAt: Date;
+    lastSeenAt: Date;
+    current: boolean;
+}
+
+// ============================================
+// Helper Functions
+// ============================================
+
+/**
+ * Summarize a user-agent string as "Browser on OS"
+ */
+export function describeUserAgent(userAgent: string | null): string {
+    if (!userAgent) return 'Unknown device';
+
+    const browser =
+        /Edg\//.test(userAgent) ? 'Edge'
+            : /OPR\/|Opera/.test(userAgent) ? 'Opera'
+                : /Firefox\//.test(userAgent) ? 'Firefox'
+                    : /Chrome\//.test(userAgent) ? 'Chrome'
+                        : /Safari\//.test(userAgent) ? 'Safari'
+                            : null;
+
+    const os =
+        /iPhone|iPad|iPod/.test(userAgent) ? 'iOS'
+            : /Android/.test(userAgent) ? 'Android'
+                : /Windows/.test(userAgent) ? 'Windows'
+                    : /Mac OS X|Macintosh/.test(userAgent) ? 'macOS'
+                        : /CrOS/.test(userAgent) ? 'ChromeOS'
+                            : /Linux/.test(userAgent) ? 'Linux'
+                                : null;
+
+    if (browser && os) return `${browser} on ${os}`;
+    return browser || os || 'Unknown device';
+}
+
+// ============================================
+// Session Functions
+// ============================================
+
+/**
+ * Record a new signed-in device
+ * @param sessionId - ID of the refresh token family the login starts
+ */
+export async function createSession(sessionId: string, userId: string, headers: Headers): Promise<DbSession> {
+    const db = getDb();
+    const ipAddress = getClientIP(headers);
+
+    return db.session.create({
+        data: {
+            id: sessionId,
+            userId,
+            userAgent: headers.get('user-agent')?.slice(0, 512) || null,
+            ipAddress: ipAddress === 'unknown' ? null : ipAddress,
+        },
+    });
+}
+
+/**
+ * Whether a session exists and has not been revoked; refreshes its last-seen time
+ */
+export async function isSessionActive(sessionId: string, headers?: Headers): Promise<boolean> {
+    const db = getDb();
+    const session: DbSession | null = await db.session.findUnique({ where: { id: sessionId } });
+
+    if (!session || session.revokedAt) {
+        return false;
+    }
+
+    if (Date.now() - session.lastSeenAt.getTime() > LAST_SEEN_RESOLUTION_MS) {
+        const ipAddress = headers ? getClientIP(headers) : 'unknown';
+        try {
+            await db.session.update({
+                where: { id: sessionId },
+                data: {
+                    lastSeenAt: new Date(),
+                    ...(ipAddress !== 'unknown' && { ipAddress }),
+                },
+            });
+        } catch (error) {
+            console.error('Failed to update session last-seen time:', error);
+        }
+    }
+
+    return true;
+}
+
+/**
+ * Active sessions for a user, most recently used first
+ * @param currentSessionId - Session making the request, flagged as `current`
+ */
+export async function listSessions(userId: string, currentSessionId?: string): Promise<SessionInfo[]> {
+    const db = getDb();
+    const sessions: DbSession[] = await db.session.findMany({
+        where: { userId, revokedAt: null },
+        orderBy: { lastSeenAt: 'desc' },
+    });
+
+    return sessions.map((session) => ({
+        id: session.id,
+        device: describeUserAgent(session.userAgent),
+        ipAddress: session.ipAddress,
+        createdAt: session.createdAt,
+        lastSeenAt: session.lastSeenAt,
+        current: session.id === currentSessionId,
+    }));
+}
+
+/**
+ * End one session: its access tokens stop verifying and its refresh tokens stop rotating
+ * @param userId - Only end the session if it belongs to this user
+ * @returns True if an active session was ended
+ */
+export async function endSession(sessionId: string, userId?: string): Promise<boolean> {
+    const db = getDb();
+    const revokedAt = new Date();
+
+    const result = await db.session.updateMany({
+        where: { id: sessionId, userId, revokedAt: null },
+        data: { revokedAt },
+    });
+    await db.refreshToken.updateMany({
+        where: { familyId: sessionId, userId, revokedAt: null },
+        data: { revokedAt },
+    });
+
+    return result.count > 0;
+}
+
+/**
+ * End every session a user has (e.g. after a password change)
+ * @param exceptSessionId - Keep this session signed in (usually the one making the request)
+ * @returns Number of sessions ended
+ */
+export async function endAllSessions(userId: string, exceptSessionId?: string): Promise<number> {
+    const db = getDb();
+    const revokedAt = new Date();
+    const except = exceptSessionId ? { NOT: { id: exceptSessionId } } : {};
+
+    const result = await db.session.updateMany({
+        where: { userId, revokedAt: null, ...except },
+        data: { revokedAt },
+    });
+    await db.refreshToken.updateMany({
+        where: {
+            userId,
+            revokedAt: null,
+            ...(exceptSessionId && { NOT: { familyId: exceptSessionId } }),
+        },
+        data: { revokedAt },
+    });
+
+    return result.count;
+}
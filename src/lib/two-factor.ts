@@ -5,6 +5,7 @@ import speakeasy from 'speakeasy';
 import QRCode from 'qrcode';
 import bcrypt from 'bcryptjs';
 import crypto from 'crypto';
+import { encrypt, decrypt, isEncrypted } from './secrets';
 
 // App name for authenticator apps
 const APP_NAME = 'LinkMe';
@@ -101,32 +102,56 @@ export async function verifyBackupCode(
     return -1;
 }
 
+/**
+ * Check a code from the user: an authenticator code, or failing that a backup code
+ * When a backup code matches, the codes left over are returned so the caller can store them
+ */
+export async function verifySecondFactor(
+    code: string,
+    encryptedSecret: string,
+    backupCodesJson: string | null
+): Promise<{ valid: boolean; remainingBackupCodes?: string[] }> {
+    const normalizedCode = code.replace(/\s/g, '');
+
+    if (/^\d{6}$/.test(normalizedCode) && verifyTOTP(normalizedCode, decryptSecret(encryptedSecret))) {
+        return { valid: true };
+    }
+
+    const hashedCodes: string[] = JSON.parse(backupCodesJson || '[]');
+    const matchIndex = await verifyBackupCode(normalizedCode, hashedCodes);
+    if (matchIndex < 0) {
+        return { valid: false };
+    }
+
+    hashedCodes.splice(matchIndex, 1);
+    return { valid: true, remainingBackupCodes: hashedCodes };
+}
+
 // ============================================
 // Secret Encryption (for database storage)
 // ============================================
 
-const ENCRYPTION_KEY = process.env.TWO_FACTOR_ENCRYPTION_KEY || 'default-key-change-in-production';
+// Secrets stored before the shared secrets module used AES-256-CBC with this key;
+// scripts/rotate-secrets.mjs re-encrypts them, after which it is no longer needed
+const LEGACY_ENCRYPTION_KEY = process.env.TWO_FACTOR_ENCRYPTION_KEY || 'default-key-change-in-production';
 
 /**
  * Encrypt the TOTP secret before storing
  */
 export function encryptSecret(secret: string): string {
-    const key = crypto.createHash('sha256').update(ENCRYPTION_KEY).digest();
-    const iv = crypto.randomBytes(16);
-    const cipher = crypto.createCipheriv('aes-256-cbc', key, iv);
-
-    let encrypted = cipher.update(secret, 'utf8', 'hex');
-    encrypted += cipher.final('hex');
-
-    return iv.toString('hex') + ':' + encrypted;
+    return encrypt(secret);
 }
 
 /**
  * Decrypt the TOTP secret for verification
  */
 export function decryptSecret(encryptedSecret: string): string {
+    if (isEncrypted(encryptedSecret)) {
+        return decrypt(encryptedSecret);
+    }
+
     const [ivHex, encrypted] = encryptedSecret.split(':');
-    const key = crypto.createHash('sha256').update(ENCRYPTION_KEY).digest();
+    const key = crypto.createHash('sha256').update(LEGACY_ENCRYPTION_KEY).digest();
     const iv = Buffer.from(ivHex, 'hex');
     const decipher = crypto.createDecipheriv('aes-256-cbc', key, iv);
 
@@ -50,6 +50,117 @@ export const resendVerificationSchema = z.object({
         .email('Please enter a valid email address'),
 });
 
+export const passwordResetRequestSchema = z.object({
+    email: z
+        .string()
+        .email('Please enter a valid email address'),
+});
+
+export const passwordResetConfirmSchema = z.object({
+    email: z
+        .string()
+        .email('Please enter a valid email address'),
+    code: z
+        .string()
+        .regex(/^\d{6}$/, 'Reset code must be 6 digits'),
+    password: signupSchema.shape.password,
+});
+
+// ============================================
+// Account Validation Schemas
+// ============================================
+
+// Accounts without a password (Google sign-ups) send an emailed code in place of the current password
+const reauthEmailCodeSchema = z
+    .string()
+    .regex(/^\d{6}$/, 'Verification code must be 6 digits')
+    .optional();
+
+export const changePasswordSchema = z.object({
+    currentPassword: z
+        .string()
+        .optional(),
+    emailCode: reauthEmailCodeSchema,
+    newPassword: signupSchema.shape.password,
+    code: z
+        .string()
+        .optional(),
+});
+
+export const changeEmailSchema = z.object({
+    newEmail: z
+        .string()
+        .email('Please enter a valid email address')
+        .max(255, 'Email is too long'),
+    password: z
+        .string()
+        .optional(),
+    emailCode: reauthEmailCodeSchema,
+    code: z
+        .string()
+        .optional(),
+});
+
+export const confirmEmailChangeSchema = z.object({
+    code: z
+        .string()
+        .regex(/^\d{6}$/, 'Verification code must be 6 digits'),
+});
+
+export const deleteAccountSchema = z.object({
+    password: z
+        .string()
+        .optional(),
+    emailCode: reauthEmailCodeSchema,
+    code: z
+        .string()
+        .optional(),
+});
+
+// ============================================
+// Passkey Validation Schemas
+// ============================================
+
+export const passkeyRegistrationOptionsSchema = z.object({
+    password: z
+        .string()
+        .optional(),
+    emailCode: reauthEmailCodeSchema,
+    code: z
+        .string()
+        .optional(),
+});
+
+export const passkeyRegistrationSchema = z.object({
+    name: z
+        .string()
+        .trim()
+        .min(1, 'Passkey name is required')
+        .max(50, 'Passkey name is too long'),
+    credential: z.object({
+        id: z.string().min(1),
+        type: z.literal('public-key'),
+        response: z.object({
+            clientDataJSON: z.string().min(1),
+            attestationObject: z.string().min(1),
+            transports: z.array(z.string()).optional(),
+        }),
+    }),
+});
+
+export const passkeyAuthenticationSchema = z.object({
+    credential: z.object({
+        id: z.string().min(1),
+        type: z.literal('public-key'),
+        response: z.object({
+            clientDataJSON: z.string().min(1),
+            authenticatorData: z.string().min(1),
+            signature: z.string().min(1),
+            userHandle: z.string().nullable().optional(),
+        }),
+    }),
+});
+
 // ============================================
 // Chat Validation Schemas
 // ============================================
@@ -78,6 +189,187 @@ export const youtubeSearchSchema = z.object({
         .default(7),
 });
 
+// ============================================
+// Curriculum (LLM Output) Validation Schemas
+// ============================================
+
+export const curriculumVideoSchema = z.object({
+    videoId: z
+        .string()
+        .min(1, 'videoId is required'),
+    order: z
+        .number()
+        .int()
+        .min(1),
+    qualityScore: z
+        .number()
+        .min(1)
+        .max(10),
+    difficulty: z
+        .enum(['beginner', 'intermediate', 'advanced']),
+    conceptsCovered: z
+        .array(z.string())
+        .min(1, 'List at least one concept'),
+    learningOutcomes: z
+        .array(z.string())
+        .min(1, 'List at least one learning outcome'),
+    prerequisites: z
+        .array(z.string()),
+    whyRecommended: z
+        .string()
+        .min(1, 'Explain why the video is recommended'),
+});
+
+export const curriculumStageSchema = z.object({
+    stageName: z
+        .string()
+        .min(1, 'stageName is required'),
+    stageNumber: z
+        .number()
+        .int()
+        .min(1),
+    description: z
+        .string(),
+    videos: z
+        .array(curriculumVideoSchema)
+        .min(1, 'Each stage needs at least one video'),
+});
+
+export const curriculumResponseSchema = z.object({
+    summary: z
+        .string()
+        .min(1, 'summary is required'),
+    estimatedTotalTime: z
+        .string()
+        .optional(),             // Ignored: totals are computed from real video lengths
+    completionGoals: z
+        .array(z.string())
+        .min(1, 'List at least one completion goal'),
+    stages: z
+        .array(curriculumStageSchema)
+        .min(1, 'Include at least one stage')
+        .max(4, 'Use at most 4 stages'),
+});
+
+// The model's pick when replacing one video in a saved path
+export const replacementVideoSchema = curriculumVideoSchema.omit({ order: true });
+
+// What a follow-up path should cover once the learner finishes one
+export const continuationPlanSchema = z.object({
+    conceptGaps: z
+        .array(z.string().min(1))
+        .min(1, 'List at least one concept gap')
+        .max(8, 'List at most 8 concept gaps'),
+    searchFocus: z
+        .string()
+        .min(1, 'searchFocus is required')
+        .max(100, 'searchFocus is too long'),
+});
+
+// ============================================
+// Learning Path Edit Validation Schemas
+// ============================================
+
+const stageNumberSchema = z
+    .number()
+    .int()
+    .min(1, 'Invalid stage');
+
+const youtubeVideoIdSchema = z
+    .string()
+    .regex(/^[A-Za-z0-9_-]{11}$/, 'Invalid YouTube video ID');
+
+export const learningPathEditOperationSchema = z.discriminatedUnion('type', [
+    z.object({
+        type: z.literal('add_video'),
+        stageNumber: stageNumberSchema,
+        index: z.number().int().min(0).optional(),
+        video: z.object({
+            videoId: youtubeVideoIdSchema,
+            title: z
+                .string()
+                .trim()
+                .min(1, 'Video title is required')
+                .max(200, 'Video title is too long'),
+        }),
+    }),
+    z.object({
+        type: z.literal('remove_video'),
+        videoId: z.string().min(1),
+    }),
+    z.object({
+        type: z.literal('move_video'),
+        videoId: z.string().min(1),
+        toStageNumber: stageNumberSchema,
+        toIndex: z.number().int().min(0),
+    }),
+    z.object({
+        type: z.literal('rename_stage'),
+        stageNumber: stageNumberSchema,
+        stageName: z
+            .string()
+            .trim()
+            .min(1, 'Stage name is required')
+            .max(100, 'Stage name is too long'),
+    }),
+    z.object({
+        type: z.literal('set_note'),
+        videoId: z.string().min(1),
+        note: z
+            .string()
+            .max(2000, 'Note is too long'),
+    }),
+]);
+
+export const learningPathEditSchema = z.object({
+    learningPathId: z
+        .string()
+        .min(1, 'Learning path ID is required'),
+    updatedAt: z
+        .string()
+        .min(1, 'updatedAt is required'),  // The version the edits were made against
+    operations: z
+        .array(learningPathEditOperationSchema)
+        .min(1, 'No changes to apply')
+        .max(50, 'Too many changes at once'),
+});
+
+export const videoSwapSchema = z.object({
+    learningPathId: z
+        .string()
+        .min(1, 'Learning path ID is required'),
+    updatedAt: z
+        .string()
+        .min(1, 'updatedAt is required'),
+    videoId: z
+        .string()
+        .min(1, 'Video ID is required'),
+    reason: z
+        .enum(['unavailable', 'too_long', 'unclear', 'other'])
+        .default('other'),
+});
+
+export const learningPathContinueSchema = z.object({
+    learningPathId: z
+        .string()
+        .min(1, 'Learning path ID is required'),
+});
+
+// ============================================
+// Review Validation Schemas
+// ============================================
+
+export const reviewRatingSchema = z.object({
+    reviewItemId: z
+        .string()
+        .min(1, 'Review ID is required'),
+    rating: z
+        .number()
+        .int()
+        .min(0, 'Rating must be between 0 and 5')
+        .max(5, 'Rating must be between 0 and 5'),  // SM-2 recall quality: 0 = blank, 5 = perfect
+});
+
 // ============================================
 // Type Exports
 // ============================================
@@ -88,6 +380,13 @@ export type VerifyEmailInput = z.infer<typeof verifyEmailSchema>;
 export type ResendVerificationInput = z.infer<typeof resendVerificationSchema>;
 export type ChatMessageInput = z.infer<typeof chatMessageSchema>;
 export type YouTubeSearchInput = z.infer<typeof youtubeSearchSchema>;
+export type CurriculumResponse = z.infer<typeof curriculumResponseSchema>;
+export type LearningPathEditOperation = z.infer<typeof learningPathEditOperationSchema>;
+export type LearningPathEditInput = z.infer<typeof learningPathEditSchema>;
+export type VideoSwapInput = z.infer<typeof videoSwapSchema>;
+export type ReplacementVideo = z.infer<typeof replacementVideoSchema>;
+export type ContinuationPlan = z.infer<typeof continuationPlanSchema>;
+export type ReviewRatingInput = z.infer<typeof reviewRatingSchema>;
 
 // ============================================
 // Validation Helper Functions
@@ -130,3 +429,12 @@ export function validateInput<T>(
     const errors = result.error.issues.map((issue) => issue.message);
     return { success: false, errors };
 }
+
+/**
+ * Describe a validation issue including where it occurred
+ * e.g. "stages.0.videos.2.difficulty: Invalid option"
+ */
+export function formatIssue(issue: z.core.$ZodIssue): string {
+    const path = issue.path.map(String).join('.');
+    return path ? `${path}: ${issue.message}` : issue.message;
+}
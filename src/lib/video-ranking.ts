@@ -0,0 +1,224 @@
+// Video ranking pipeline
+// Scores fetched videos on raw statistics so the best tutorials reach the curator first
+
+// ============================================
+// Types
+// ============================================
+
+// Each signal is normalized to 0-1; total is the weighted sum scaled to 0-100
+export interface VideoScoreBreakdown {
+    views: number;
+    likeRatio: number;
+    recency: number;
+    durationFit: number;
+    channelReputation: number;
+    keywordMatch: number;
+    total: number;
+}
+
+// Raw numeric statistics (not the formatted "1.2M views" strings)
+export interface VideoStatistics {
+    viewCount?: number;
+    likeCount?: number;
+    durationSeconds?: number;
+}
+
+export interface RankableVideo {
+    title: string;
+    description: string;
+    channelTitle: string;
+    publishedAt: string;
+    statistics?: VideoStatistics;
+}
+
+export interface RankingContext {
+    query: string;
+    goal?: string;   // "quick" | "concepts" | "project"
+    now?: Date;
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+const WEIGHTS: Record<Exclude<keyof VideoScoreBreakdown, 'total'>, number> = {
+    views: 0.2,
+    likeRatio: 0.15,
+    recency: 0.15,
+    durationFit: 0.15,
+    channelReputation: 0.1,
+    keywordMatch: 0.25,
+};
+
+// Ideal video length in minutes for each learning goal
+const DURATION_RANGES: Record<string, [number, number]> = {
+    quick: [5, 20],
+    concepts: [10, 60],
+    project: [30, 180],
+};
+const DEFAULT_DURATION_RANGE: [number, number] = [8, 90];
+
+// Channels with a track record of high-quality, structured tutorials
+const TRUSTED_CHANNELS = new Set([
+    'freecodecamp.org',
+    'programming with mosh',
+    'traversy media',
+    'fireship',
+    'the net ninja',
+    'web dev simplified',
+    'corey schafer',
+    'cs50',
+    'khan academy',
+    'crashcourse',
+    '3blue1brown',
+    'mit opencourseware',
+    'techworld with nana',
+    'kevin powell',
+    'sentdex',
+    'statquest with josh starmer',
+]);
+
+// Words that appear in most queries/titles and say nothing about relevance
+const STOP_WORDS = new Set([
+    'a', 'an', 'and', 'the', 'for', 'to', 'of', 'in', 'on', 'with', 'how',
+    'tutorial', 'tutorials', 'learn', 'learning', 'course', 'guide',
+]);
+
+const LIKE_RATIO_TARGET = 0.04;  // 4% likes/views is an excellent tutorial
+const RECENCY_HALF_LIFE_YEARS = 3;
+const NEUTRAL = 0.5;             // Score for a signal we have no data for
+
+// ============================================
+// Helper Functions
+// ============================================
+
+function clamp(value: number): number {
+    return Math.min(1, Math.max(0, value));
+}
+
+function round(value: number, digits: number = 3): number {
+    const factor = 10 ** digits;
+    return Math.round(value * factor) / factor;
+}
+
+/**
+ * Parse an ISO 8601 duration (PT1H2M3S) into seconds
+ */
+export function parseIsoDuration(isoDuration: string): number | undefined {
+    const match = isoDuration.match(/^P(?:(\d+)D)?T?(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?$/);
+    if (!match) return undefined;
+    const [, days, hours, minutes, seconds] = match.map((part) => Number(part) || 0);
+    return days * 86400 + hours * 3600 + minutes * 60 + seconds;
+}
+
+function tokenize(text: string): string[] {
+    return text
+        .toLowerCase()
+        .split(/[^a-z0-9+#.]+/)
+        .map((token) => token.replace(/^\.+|\.+$/g, ''))
+        .filter((token) => token.length > 1 && !STOP_WORDS.has(token));
+}
+
+// ============================================
+// Signals
+// ============================================
+
+function scoreViews(viewCount?: number): number {
+    if (viewCount === undefined) return NEUTRAL;
+    // log scale: 100 views ~0.29, 10K ~0.57, 1M ~0.86, 10M+ = 1
+    return clamp(Math.log10(viewCount + 1) / 7);
+}
+
+function scoreLikeRatio(viewCount?: number, likeCount?: number): number {
+    // Likes can be hidden; tiny view counts make the ratio meaningless
+    if (likeCount === undefined || !viewCount || viewCount < 100) return NEUTRAL;
+    return clamp(likeCount / viewCount / LIKE_RATIO_TARGET);
+}
+
+function scoreRecency(publishedAt: string, now: Date): number {
+    const published = new Date(publishedAt).getTime();
+    if (Number.isNaN(published)) return NEUTRAL;
+    const ageYears = Math.max(0, now.getTime() - published) / (365.25 * 24 * 60 * 60 * 1000);
+    return clamp(Math.pow(0.5, ageYears / RECENCY_HALF_LIFE_YEARS));
+}
+
+function scoreDurationFit(durationSeconds: number | undefined, goal?: string): number {
+    if (!durationSeconds) return NEUTRAL;
+    const [min, max] = (goal && DURATION_RANGES[goal]) || DEFAULT_DURATION_RANGE;
+    const minutes = durationSeconds / 60;
+    if (minutes < min) return clamp(minutes / min);
+    if (minutes > max) return clamp(max / minutes);
+    return 1;
+}
+
+function scoreKeywordMatch(video: RankableVideo, queryTokens: string[]): number {
+    if (queryTokens.length === 0) return NEUTRAL;
+    const titleTokens = new Set(tokenize(video.title));
+    const descriptionTokens = new Set(tokenize(video.description));
+
+    const matched = queryTokens.reduce((sum, token) => {
+        if (titleTokens.has(token)) return sum + 1;
+        if (descriptionTokens.has(token)) return sum + 0.5;
+        return sum;
+    }, 0);
+
+    return clamp(matched / queryTokens.length);
+}
+
+/**
+ * Trusted channels score 1; others are judged by their best-performing video in this result set
+ */
+function buildChannelReputation(videos: RankableVideo[]): Map<string, number> {
+    const reputation = new Map<string, number>();
+    for (const video of videos) {
+        const channel = video.channelTitle.trim().toLowerCase();
+        const score = TRUSTED_CHANNELS.has(channel) ? 1 : 0.8 * scoreViews(video.statistics?.viewCount ?? 0);
+        reputation.set(channel, Math.max(reputation.get(channel) ?? 0, score));
+    }
+    return reputation;
+}
+
+// ============================================
+// Ranking
+// ============================================
+
+/**
+ * Score videos and sort them best first. The breakdown is attached to each video as `score`.
+ */
+export function rankVideos<T extends RankableVideo>(
+    videos: T[],
+    context: RankingContext
+): Array<T & { score: VideoScoreBreakdown }> {
+    const now = context.now ?? new Date();
+    const queryTokens = Array.from(new Set(tokenize(context.query)));
+    const channelReputation = buildChannelReputation(videos);
+
+    return videos
+        .map((video) => {
+            const stats = video.statistics ?? {};
+            const signals = {
+                views: scoreViews(stats.viewCount),
+                likeRatio: scoreLikeRatio(stats.viewCount, stats.likeCount),
+                recency: scoreRecency(video.publishedAt, now),
+                durationFit: scoreDurationFit(stats.durationSeconds, context.goal),
+                channelReputation: channelReputation.get(video.channelTitle.trim().toLowerCase()) ?? NEUTRAL,
+                keywordMatch: scoreKeywordMatch(video, queryTokens),
+            };
+
+            const total = (Object.keys(WEIGHTS) as Array<keyof typeof WEIGHTS>)
+                .reduce((sum, signal) => sum + WEIGHTS[signal] * signals[signal], 0);
+
+            const score: VideoScoreBreakdown = {
+                views: round(signals.views),
+                likeRatio: round(signals.likeRatio),
+                recency: round(signals.recency),
+                durationFit: round(signals.durationFit),
+                channelReputation: round(signals.channelReputation),
+                keywordMatch: round(signals.keywordMatch),
+                total: round(total * 100, 1),
+            };
+
+            return { ...video, score };
+        })
+        .sort((a, b) => b.score.total - a.score.total);
+}
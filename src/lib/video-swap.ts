@@ -0,0 +1,94 @@
+// Video Swapping
+// Replaces one video in a saved learning path with an alternative: searches for videos on the
+// same concepts and difficulty, lets the curriculum model pick one, and swaps it in place
+
+import { searchTutorials } from './youtube';
+import { chooseReplacementVideo, VideoAnalysis } from './curriculum';
+import { editLearningPath, getEditableLearningPath, pathVideoIds, EditableLearningPath, LearningPathEditError } from './learning-path-edit';
+import { VideoSwapInput } from './validation';
+
+// Search results to fetch; some of them may already be in the path
+const CANDIDATE_COUNT = 8;
+
+export interface VideoSwapResult {
+    learningPath: EditableLearningPath;
+    replaced: VideoAnalysis;
+    replacement: VideoAnalysis;
+}
+
+/**
+ * Search query for alternatives: the path topic plus what the video covered
+ */
+function buildSwapQuery(topic: string, video: VideoAnalysis): string {
+    const subject = video.conceptsCovered.length > 0
+        ? video.conceptsCovered.slice(0, 3).join(' ')
+        : video.title;
+    return `${topic} ${subject} ${video.difficulty} tutorial`.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Swap one video in a saved path for the best alternative found
+ * Order, notes on other videos and their progress are untouched; progress on the old video is dropped.
+ * @throws LearningPathEditError - 404 path or video missing, 409 path changed, 422 no alternatives, 502/503 model unavailable
+ * @throws QuotaExceededError if the user's or the global YouTube budget is used up
+ */
+export async function swapLearningPathVideo(userId: string, input: VideoSwapInput): Promise<VideoSwapResult> {
+    const path = await getEditableLearningPath(userId, input.learningPathId);
+    if (!path) {
+        throw new LearningPathEditError('Learning path not found', 404);
+    }
+
+    // Check the version before spending search quota; editLearningPath checks again when writing
+    if (new Date(input.updatedAt).getTime() !== new Date(path.updatedAt).getTime()) {
+        throw new LearningPathEditError('This learning path was changed somewhere else. Showing the latest version.', 409, path);
+    }
+
+    const stage = path.stages.find(s => s.videos.some(v => v.videoId === input.videoId));
+    const original = stage?.videos.find(v => v.videoId === input.videoId);
+    if (!stage || !original) {
+        throw new LearningPathEditError('Video not found in this learning path', 404);
+    }
+
+    const inPath = new Set(pathVideoIds(path.stages));
+    const results = await searchTutorials(buildSwapQuery(path.topic, original), CANDIDATE_COUNT, {
+        quotaUserId: userId,
+        goal: path.userGoal,
+    });
+
+    const candidates = results.filter(video => {
+        if (inPath.has(video.id)) return false;
+        // Shorter only, when length is the complaint and both lengths are known
+        if (input.reason === 'too_long' && original.durationSeconds !== undefined) {
+            const seconds = video.statistics?.durationSeconds;
+            return seconds !== undefined && seconds < original.durationSeconds;
+        }
+        return true;
+    });
+
+    if (candidates.length === 0) {
+        throw new LearningPathEditError('No alternative videos found for this one', 422);
+    }
+
+    const choice = await chooseReplacementVideo(original, candidates, {
+        topic: path.topic,
+        userLevel: path.userLevel,
+        userGoal: path.userGoal,
+        stageName: stage.stageName,
+        reason: input.reason,
+    });
+
+    if (!choice.success) {
+        console.warn('Video swap failed:', choice.diagnostics);
+        throw choice.diagnostics.reason === 'not_configured'
+            ? new LearningPathEditError('Video suggestions are not available right now', 503)
+            : new LearningPathEditError('Could not pick a replacement video. Please try again.', 502);
+    }
+
+    const learningPath = await editLearningPath(userId, {
+        learningPathId: path.id,
+        updatedAt: input.updatedAt,
+        operations: [{ type: 'replace_video', videoId: original.videoId, video: choice.video }],
+    });
+
+    return { learningPath, replaced: original, replacement: choice.video };
+}
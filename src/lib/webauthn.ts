@@ -0,0 +1,199 @@
+// WebAuthn passkey utilities
+// Builds registration/sign-in options; authenticator responses are verified with @simplewebauthn/server
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import {
+    verifyRegistrationResponse as verifyRegistration,
+    verifyAuthenticationResponse as verifyAuthentication,
+} from '@simplewebauthn/server';
+import type {
+    PasskeyCreationOptions,
+    PasskeyRequestOptions,
+    PasskeyRegistrationResponse,
+    PasskeyAuthenticationResponse,
+} from '@/types';
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+const RP_NAME = 'LinkMe';
+const RP_ID = process.env.WEBAUTHN_RP_ID || new URL(APP_URL).hostname;
+const EXPECTED_ORIGIN = process.env.WEBAUTHN_ORIGIN || new URL(APP_URL).origin;
+const CHALLENGE_SECRET = process.env.JWT_SECRET || 'default-secret-change-me';
+
+const CEREMONY_TIMEOUT_MS = 60 * 1000;
+export const CHALLENGE_MAX_AGE_SECONDS = 5 * 60;
+export const CHALLENGE_COOKIE = 'webauthnChallenge';
+
+// COSE algorithm identifiers we accept: ES256, EdDSA, RS256
+const SUPPORTED_ALGORITHMS = [-7, -8, -257];
+
+export type ChallengePurpose = 'registration' | 'authentication';
+
+export type RegistrationResult =
+    | { verified: true; credentialId: string; publicKey: string; counter: number; transports: string[] }
+    | { verified: false; error: string };
+
+export type AuthenticationResult =
+    | { verified: true; counter: number }
+    | { verified: false; error: string };
+
+// ============================================
+// Challenges
+// ============================================
+
+/**
+ * Create a random challenge plus a signed token to hold it until the response comes back
+ * The token is stored in a short-lived HTTP-only cookie, so no database row is needed.
+ * @param userId - Set for registration, where the challenge belongs to the signed-in user
+ */
+export function issueChallenge(purpose: ChallengePurpose, userId?: string): { challenge: string; token: string } {
+    const challenge = crypto.randomBytes(32).toString('base64url');
+    const token = jwt.sign({ challenge, purpose, userId }, CHALLENGE_SECRET, { expiresIn: CHALLENGE_MAX_AGE_SECONDS });
+    return { challenge, token };
+}
+
+/**
+ * Read a challenge token back, checking it was issued for the same ceremony
+ */
+export function readChallenge(token: string | undefined, purpose: ChallengePurpose): { challenge: string; userId?: string } | null {
+    if (!token) return null;
+
+    try {
+        const decoded = jwt.verify(token, CHALLENGE_SECRET) as { challenge: string; purpose: ChallengePurpose; userId?: string };
+        if (decoded.purpose !== purpose) return null;
+        return { challenge: decoded.challenge, userId: decoded.userId };
+    } catch {
+        return null;
+    }
+}
+
+// ============================================
+// Options
+// ============================================
+
+interface StoredCredential {
+    credentialId: string;
+    transports: string | null;
+}
+
+function toDescriptor(credential: StoredCredential) {
+    return {
+        type: 'public-key' as const,
+        id: credential.credentialId,
+        transports: credential.transports ? JSON.parse(credential.transports) : undefined,
+    };
+}
+
+/**
+ * Options for navigator.credentials.create()
+ * Passkeys are discoverable so they can sign in without an email address first.
+ */
+export function buildRegistrationOptions(
+    user: { id: string; email: string; name: string | null },
+    existing: StoredCredential[],
+    challenge: string
+): PasskeyCreationOptions {
+    return {
+        challenge,
+        rp: { id: RP_ID, name: RP_NAME },
+        user: {
+            id: Buffer.from(user.id).toString('base64url'),
+            name: user.email,
+            displayName: user.name || user.email,
+        },
+        pubKeyCredParams: SUPPORTED_ALGORITHMS.map((alg) => ({ type: 'public-key' as const, alg })),
+        timeout: CEREMONY_TIMEOUT_MS,
+        attestation: 'none',
+        excludeCredentials: existing.map(toDescriptor),
+        authenticatorSelection: { residentKey: 'required', userVerification: 'required' },
+    };
+}
+
+/**
+ * Options for navigator.credentials.get()
+ * allowCredentials stays empty so the browser offers any passkey and no account's passkeys are listed.
+ */
+export function buildAuthenticationOptions(challenge: string): PasskeyRequestOptions {
+    return {
+        challenge,
+        rpId: RP_ID,
+        timeout: CEREMONY_TIMEOUT_MS,
+        userVerification: 'required',
+        allowCredentials: [],
+    };
+}
+
+// ============================================
+// Response Verification
+// ============================================
+
+// The browser helper sends only the fields we read; the library also expects rawId and extension results
+function toResponseJSON<T extends { id: string }>(response: T) {
+    return { ...response, rawId: response.id, clientExtensionResults: {} };
+}
+
+/**
+ * Verify a navigator.credentials.create() response
+ * Attestation statements aren't checked: we request "none" and trust the signed-in user's device.
+ */
+export async function verifyRegistrationResponse(
+    response: PasskeyRegistrationResponse,
+    expectedChallenge: string
+): Promise<RegistrationResult> {
+    try {
+        const { verified, registrationInfo } = await verifyRegistration({
+            response: toResponseJSON(response),
+            expectedChallenge,
+            expectedOrigin: EXPECTED_ORIGIN,
+            expectedRPID: RP_ID,
+            requireUserVerification: true,
+            supportedAlgorithmIDs: SUPPORTED_ALGORITHMS,
+        });
+        if (!verified || !registrationInfo) return { verified: false, error: 'Registration not verified' };
+
+        const { credential } = registrationInfo;
+        return {
+            verified: true,
+            credentialId: credential.id,
+            publicKey: Buffer.from(credential.publicKey).toString('base64url'),
+            counter: credential.counter,
+            transports: response.response.transports ?? [],
+        };
+    } catch (error) {
+        return { verified: false, error: error instanceof Error ? error.message : 'Malformed registration response' };
+    }
+}
+
+/**
+ * Verify a navigator.credentials.get() response against a stored passkey
+ * A signature counter that fails to increase is rejected, since the authenticator may have been cloned.
+ * @param credential - The stored COSE public key and signature counter
+ */
+export async function verifyAuthenticationResponse(
+    response: PasskeyAuthenticationResponse,
+    expectedChallenge: string,
+    credential: { credentialId: string; publicKey: string; counter: number }
+): Promise<AuthenticationResult> {
+    try {
+        const { verified, authenticationInfo } = await verifyAuthentication({
+            response: toResponseJSON({
+                ...response,
+                response: { ...response.response, userHandle: response.response.userHandle ?? undefined },
+            }),
+            expectedChallenge,
+            expectedOrigin: EXPECTED_ORIGIN,
+            expectedRPID: RP_ID,
+            requireUserVerification: true,
+            credential: {
+                id: credential.credentialId,
+                publicKey: Buffer.from(credential.publicKey, 'base64url'),
+                counter: credential.counter,
+            },
+        });
+        if (!verified) return { verified: false, error: 'Invalid signature' };
+
+        return { verified: true, counter: authenticationInfo.newCounter };
+    } catch (error) {
+        return { verified: false, error: error instanceof Error ? error.message : 'Malformed authentication response' };
+    }
+}
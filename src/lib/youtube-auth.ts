@@ -4,6 +4,7 @@
 import { google, youtube_v3 } from 'googleapis';
 import { OAuth2Client } from 'google-auth-library';
 import { getDb } from './db';
+import { encrypt, decryptStored } from './secrets';
 
 // OAuth2 client configuration
 const YOUTUBE_CLIENT_ID = process.env.YOUTUBE_CLIENT_ID?.trim();
@@ -11,15 +12,16 @@ const YOUTUBE_CLIENT_SECRET = process.env.YOUTUBE_CLIENT_SECRET?.trim();
 const YOUTUBE_REDIRECT_URI = process.env.YOUTUBE_REDIRECT_URI?.trim() || 'http://localhost:3000/api/youtube/callback';
 
 // Required scopes for playlist management
-const YOUTUBE_SCOPES = [
+export const YOUTUBE_SCOPES = [
     'https://www.googleapis.com/auth/youtube',
     'https://www.googleapis.com/auth/youtube.force-ssl',
 ];
 
 /**
  * Create an OAuth2 client
+ * @param redirectUri - Callback to use instead of the YouTube one, e.g. for Google sign-in
  */
-export function createOAuth2Client() {
+export function createOAuth2Client(redirectUri: string = YOUTUBE_REDIRECT_URI) {
     if (!YOUTUBE_CLIENT_ID || !YOUTUBE_CLIENT_SECRET) {
         throw new Error('YouTube OAuth credentials not configured');
     }
@@ -27,7 +29,7 @@ export function createOAuth2Client() {
     return new google.auth.OAuth2(
         YOUTUBE_CLIENT_ID,
         YOUTUBE_CLIENT_SECRET,
-        YOUTUBE_REDIRECT_URI
+        redirectUri
     );
 }
 
@@ -113,6 +115,10 @@ export async function getAuthenticatedClient(userId: string): Promise<{
         return null; // User hasn't connected YouTube
     }
 
+    // Tokens are encrypted at rest
+    const currentAccessToken = decryptStored(user.youtubeAccessToken);
+    const currentRefreshToken = decryptStored(user.youtubeRefreshToken);
+
     const oauth2Client = createOAuth2Client();
 
     // Check if token is expired (with 5 minute buffer)
@@ -122,20 +128,20 @@ export async function getAuthenticatedClient(userId: string): Promise<{
     if (isExpired) {
         try {
             // Refresh the token
-            const { accessToken, expiryDate } = await refreshAccessToken(user.youtubeRefreshToken);
+            const { accessToken, expiryDate } = await refreshAccessToken(currentRefreshToken);
 
             // Update in database
             await prisma.user.update({
                 where: { id: userId },
                 data: {
-                    youtubeAccessToken: accessToken,
+                    youtubeAccessToken: encrypt(accessToken),
                     youtubeTokenExpiry: expiryDate,
                 },
             });
 
             oauth2Client.setCredentials({
                 access_token: accessToken,
-                refresh_token: user.youtubeRefreshToken,
+                refresh_token: currentRefreshToken,
             });
         } catch (error) {
             console.error('Failed to refresh YouTube token:', error);
@@ -154,8 +160,8 @@ export async function getAuthenticatedClient(userId: string): Promise<{
         }
     } else {
         oauth2Client.setCredentials({
-            access_token: user.youtubeAccessToken,
-            refresh_token: user.youtubeRefreshToken,
+            access_token: currentAccessToken,
+            refresh_token: currentRefreshToken,
         });
     }
 
@@ -193,6 +199,41 @@ export async function getChannelInfo(youtube: youtube_v3.Youtube): Promise<{
     }
 }
 
+/**
+ * Store freshly granted YouTube tokens on a user, along with their channel info
+ */
+export async function saveYouTubeConnection(userId: string, tokens: {
+    accessToken: string;
+    refreshToken: string;
+    expiryDate: Date;
+}): Promise<void> {
+    const prisma = getDb();
+
+    const oauth2Client = createOAuth2Client();
+    oauth2Client.setCredentials({
+        access_token: tokens.accessToken,
+        refresh_token: tokens.refreshToken,
+    });
+
+    const youtube = google.youtube({
+        version: 'v3',
+        auth: oauth2Client,
+    });
+
+    const channelInfo = await getChannelInfo(youtube);
+
+    await prisma.user.update({
+        where: { id: userId },
+        data: {
+            youtubeAccessToken: encrypt(tokens.accessToken),
+            youtubeRefreshToken: encrypt(tokens.refreshToken),
+            youtubeTokenExpiry: tokens.expiryDate,
+            youtubeChannelId: channelInfo?.channelId || null,
+            youtubeChannelName: channelInfo?.channelName || null,
+        },
+    });
+}
+
 /**
  * Disconnect YouTube from user account
  */
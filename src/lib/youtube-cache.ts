@@ -0,0 +1,176 @@
+// YouTube response cache
+// TTL cache for YouTube Data API responses: in-memory LRU in front of a database table,
+// so repeated searches for popular topics cost quota once per day
+
+import { getDb, DbYouTubeCacheEntry } from './db';
+
+// ============================================
+// Configuration
+// ============================================
+
+export type YouTubeCacheKind = 'search' | 'videos';
+
+const CACHE_TTL_MS = (Number(process.env.YOUTUBE_CACHE_TTL_HOURS) || 24) * 60 * 60 * 1000;
+const MEMORY_MAX_ENTRIES = Number(process.env.YOUTUBE_CACHE_MEMORY_ENTRIES) || 500;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000; // Delete expired rows at most once an hour
+
+// ============================================
+// Metrics
+// ============================================
+
+interface CacheCounters {
+    memoryHits: number;
+    databaseHits: number;
+    misses: number;
+    errors: number;
+}
+
+const counters: Record<YouTubeCacheKind, CacheCounters> = {
+    search: { memoryHits: 0, databaseHits: 0, misses: 0, errors: 0 },
+    videos: { memoryHits: 0, databaseHits: 0, misses: 0, errors: 0 },
+};
+
+/**
+ * Cache hit/miss counters since this server instance started
+ */
+export function getYouTubeCacheMetrics() {
+    const byKind = (kind: YouTubeCacheKind) => {
+        const c = counters[kind];
+        const lookups = c.memoryHits + c.databaseHits + c.misses;
+        return {
+            ...c,
+            hitRate: lookups > 0 ? Math.round(((c.memoryHits + c.databaseHits) / lookups) * 1000) / 1000 : null,
+        };
+    };
+
+    return {
+        ttlHours: CACHE_TTL_MS / (60 * 60 * 1000),
+        memoryEntries: memoryCache.size,
+        memoryMaxEntries: MEMORY_MAX_ENTRIES,
+        search: byKind('search'),
+        videos: byKind('videos'),
+    };
+}
+
+// ============================================
+// In-Memory LRU
+// ============================================
+
+interface MemoryEntry {
+    value: unknown;
+    expiresAt: number;
+}
+
+// Map iteration order is insertion order, so the first key is the least recently used
+const memoryCache = new Map<string, MemoryEntry>();
+
+function memoryGet(key: string): unknown | undefined {
+    const entry = memoryCache.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+        memoryCache.delete(key);
+        return undefined;
+    }
+
+    // Move to the most recently used position
+    memoryCache.delete(key);
+    memoryCache.set(key, entry);
+    return entry.value;
+}
+
+function memorySet(key: string, value: unknown, expiresAt: number): void {
+    memoryCache.delete(key);
+    memoryCache.set(key, { value, expiresAt });
+
+    while (memoryCache.size > MEMORY_MAX_ENTRIES) {
+        const oldest = memoryCache.keys().next().value;
+        if (oldest === undefined) break;
+        memoryCache.delete(oldest);
+    }
+}
+
+// ============================================
+// Cache Keys
+// ============================================
+
+/**
+ * Normalize a search query so trivial differences share a cache entry
+ * ("  Python for Beginners " and "python for beginners")
+ */
+export function normalizeQuery(query: string): string {
+    return query.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Build a cache key from the request parameters (order-independent, API key excluded)
+ */
+export function buildCacheKey(kind: YouTubeCacheKind, params: Record<string, string | number>): string {
+    const parts = Object.keys(params)
+        .filter((name) => name !== 'key')
+        .sort()
+        .map((name) => `${name}=${params[name]}`);
+    return `${kind}:${parts.join('&')}`;
+}
+
+// ============================================
+// Cache Functions
+// ============================================
+
+let lastPruneAt = 0;
+
+/**
+ * Look up a cached response: memory first, then the database
+ * Database errors are treated as a miss so the cache never breaks a search
+ */
+export async function getCached<T>(kind: YouTubeCacheKind, key: string): Promise<T | undefined> {
+    const fromMemory = memoryGet(key);
+    if (fromMemory !== undefined) {
+        counters[kind].memoryHits++;
+        return fromMemory as T;
+    }
+
+    try {
+        const db = getDb();
+        const entry: DbYouTubeCacheEntry | null = await db.youTubeCacheEntry.findUnique({ where: { key } });
+
+        if (entry && entry.expiresAt.getTime() > Date.now()) {
+            const value = JSON.parse(entry.payload) as T;
+            memorySet(key, value, entry.expiresAt.getTime());
+            counters[kind].databaseHits++;
+            return value;
+        }
+    } catch (error) {
+        counters[kind].errors++;
+        console.warn('YouTube cache read error:', error);
+    }
+
+    counters[kind].misses++;
+    return undefined;
+}
+
+/**
+ * Store a response in both cache layers
+ */
+export async function setCached<T>(kind: YouTubeCacheKind, key: string, value: T): Promise<void> {
+    const expiresAt = new Date(Date.now() + CACHE_TTL_MS);
+    memorySet(key, value, expiresAt.getTime());
+
+    try {
+        const db = getDb();
+        const payload = JSON.stringify(value);
+        await db.youTubeCacheEntry.upsert({
+            where: { key },
+            create: { kind, payload, expiresAt },
+            update: { payload, expiresAt },
+        });
+
+        if (Date.now() - lastPruneAt > PRUNE_INTERVAL_MS) {
+            lastPruneAt = Date.now();
+            await db.youTubeCacheEntry.deleteMany({ where: { expiresAt: { lt: new Date() } } });
+        }
+    } catch (error) {
+        counters[kind].errors++;
+        console.warn('YouTube cache write error:', error);
+    }
+}
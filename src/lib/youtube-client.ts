@@ -0,0 +1,335 @@
+// YouTube Data API client
+// One interface for the calls LinkMe makes, with an HTTP implementation (real API or any
+// stand-in via YOUTUBE_API_BASE_URL) and a recorded-fixture implementation for offline use
+
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+import path from 'path';
+
+// ============================================
+// Types
+// ============================================
+
+export interface YouTubeSearchItem {
+    id: {
+        videoId: string;
+    };
+    snippet: {
+        title: string;
+        description: string;
+        thumbnails: {
+            high?: { url: string };
+            medium?: { url: string };
+            default?: { url: string };
+        };
+        channelTitle: string;
+        publishedAt: string;
+    };
+}
+
+export interface YouTubeVideoItem {
+    id: string;
+    statistics?: {
+        viewCount?: string;
+        likeCount?: string;  // Missing when the uploader hides likes
+    };
+    contentDetails?: {
+        duration: string;
+    };
+}
+
+export interface YouTubeSearchParams {
+    q: string;
+    maxResults: number;
+    order: string;
+    relevanceLanguage: string;
+}
+
+export interface YouTubePlaylistInput {
+    title: string;
+    description: string;
+    privacyStatus: 'private' | 'unlisted' | 'public';
+}
+
+export interface YouTubeClient {
+    name: string;
+    searchVideos(params: YouTubeSearchParams): Promise<YouTubeSearchItem[]>;
+    listVideos(videoIds: string[]): Promise<YouTubeVideoItem[]>;
+    // Playlist calls act on the user's channel, so they need the user's OAuth access token
+    insertPlaylist(accessToken: string, playlist: YouTubePlaylistInput): Promise<string>;
+    insertPlaylistItem(accessToken: string, playlistId: string, videoId: string): Promise<void>;
+}
+
+/**
+ * Error returned by the YouTube Data API (or a stand-in)
+ */
+export class YouTubeApiError extends Error {
+    constructor(message: string, public status: number, public reason?: string) {
+        super(message);
+        this.name = 'YouTubeApiError';
+    }
+}
+
+// Recorded responses, keyed by normalized search query and by video ID
+export interface YouTubeFixtures {
+    searches: Record<string, YouTubeSearchItem[]>;
+    videos: Record<string, YouTubeVideoItem>;
+}
+
+const DEFAULT_BASE_URL = 'https://www.googleapis.com/youtube/v3';
+const DEFAULT_FIXTURES_PATH = path.join(process.cwd(), 'scripts', 'fixtures', 'youtube.json');
+
+// Search key used when a fixture file has no recording for the query
+export const FIXTURE_FALLBACK_QUERY = '*';
+
+function fixtureQueryKey(query: string): string {
+    return query.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+// ============================================
+// HTTP Client
+// ============================================
+
+async function parseResponse<T>(response: Response, fallbackMessage: string): Promise<T> {
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        throw new YouTubeApiError(
+            data.error?.message || fallbackMessage,
+            response.status,
+            data.error?.errors?.[0]?.reason
+        );
+    }
+    return data as T;
+}
+
+/**
+ * Client that talks HTTP to the YouTube Data API
+ * @param baseUrl - API root, e.g. http://localhost:4010/youtube/v3 for the local stand-in
+ * @param apiKey - Key for the read-only calls (search, videos)
+ */
+export function createHttpYouTubeClient(baseUrl: string, apiKey?: string): YouTubeClient {
+    const root = baseUrl.replace(/\/+$/, '');
+
+    const requireKey = (): string => {
+        if (!apiKey) throw new Error('YouTube API key not configured');
+        return apiKey;
+    };
+
+    return {
+        name: root === DEFAULT_BASE_URL ? 'youtube' : `http:${root}`,
+
+        async searchVideos(params) {
+            const searchParams = new URLSearchParams({
+                part: 'snippet',
+                q: params.q,
+                type: 'video',
+                maxResults: String(params.maxResults),
+                order: params.order,
+                relevanceLanguage: params.relevanceLanguage,
+                key: requireKey(),
+            });
+
+            const response = await fetch(`${root}/search?${searchParams}`);
+            const data = await parseResponse<{ items?: YouTubeSearchItem[] }>(response, 'YouTube search failed');
+            return data.items || [];
+        },
+
+        async listVideos(videoIds) {
+            const videoParams = new URLSearchParams({
+                part: 'statistics,contentDetails',
+                id: videoIds.join(','),
+                key: requireKey(),
+            });
+
+            const response = await fetch(`${root}/videos?${videoParams}`);
+            const data = await parseResponse<{ items?: YouTubeVideoItem[] }>(response, 'YouTube video lookup failed');
+            return data.items || [];
+        },
+
+        async insertPlaylist(accessToken, playlist) {
+            const response = await fetch(`${root}/playlists?part=snippet,status`, {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${accessToken}`,
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                    snippet: { title: playlist.title, description: playlist.description },
+                    status: { privacyStatus: playlist.privacyStatus },
+                }),
+            });
+            const data = await parseResponse<{ id?: string }>(response, 'Failed to create playlist');
+            if (!data.id) {
+                throw new Error('Failed to create playlist');
+            }
+            return data.id;
+        },
+
+        async insertPlaylistItem(accessToken, playlistId, videoId) {
+            const response = await fetch(`${root}/playlistItems?part=snippet`, {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${accessToken}`,
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                    snippet: {
+                        playlistId,
+                        resourceId: { kind: 'youtube#video', videoId },
+                    },
+                }),
+            });
+            await parseResponse(response, 'Failed to add video to playlist');
+        },
+    };
+}
+
+// ============================================
+// Fixture Client (recorded responses, offline)
+// ============================================
+
+/**
+ * Load recorded responses from a JSON file
+ */
+export function loadYouTubeFixtures(filePath: string = DEFAULT_FIXTURES_PATH): YouTubeFixtures {
+    if (!existsSync(filePath)) {
+        return { searches: {}, videos: {} };
+    }
+    const data = JSON.parse(readFileSync(filePath, 'utf-8'));
+    return { searches: data.searches || {}, videos: data.videos || {} };
+}
+
+// Playlists "created" by the fixture client, for assertions in offline tests
+const fixturePlaylists = new Map<string, YouTubePlaylistInput & { videoIds: string[] }>();
+
+export function getFixturePlaylists() {
+    return fixturePlaylists;
+}
+
+/**
+ * Client that replays recorded responses. Unknown queries get the fallback recording
+ * so any topic produces a usable result offline.
+ */
+export function createFixtureYouTubeClient(fixtures: YouTubeFixtures = loadYouTubeFixtures()): YouTubeClient {
+    return {
+        name: 'fixture',
+
+        async searchVideos(params) {
+            const items = fixtures.searches[fixtureQueryKey(params.q)]
+                || fixtures.searches[FIXTURE_FALLBACK_QUERY]
+                || [];
+            return items.slice(0, params.maxResults);
+        },
+
+        async listVideos(videoIds) {
+            return videoIds
+                .map((id) => fixtures.videos[id])
+                .filter((item): item is YouTubeVideoItem => !!item);
+        },
+
+        async insertPlaylist(_accessToken, playlist) {
+            const playlistId = `PLfixture${fixturePlaylists.size + 1}`;
+            fixturePlaylists.set(playlistId, { ...playlist, videoIds: [] });
+            return playlistId;
+        },
+
+        async insertPlaylistItem(_accessToken, playlistId, videoId) {
+            const playlist = fixturePlaylists.get(playlistId);
+            if (!playlist) {
+                throw new YouTubeApiError('Playlist not found', 404, 'playlistNotFound');
+            }
+            playlist.videoIds.push(videoId);
+        },
+    };
+}
+
+/**
+ * Wrap a client so every search and video lookup is saved to a fixture file
+ * Run against the real API once with YOUTUBE_RECORD_FIXTURES set to capture new fixtures.
+ */
+export function withRecording(client: YouTubeClient, filePath: string): YouTubeClient {
+    const save = (update: (fixtures: YouTubeFixtures) => void) => {
+        try {
+            const fixtures = loadYouTubeFixtures(filePath);
+            update(fixtures);
+            writeFileSync(filePath, JSON.stringify(fixtures, null, 2) + '\n');
+        } catch (error) {
+            console.warn('Failed to record YouTube fixture:', error);
+        }
+    };
+
+    return {
+        ...client,
+        name: `${client.name}+recording`,
+
+        async searchVideos(params) {
+            const items = await client.searchVideos(params);
+            save((fixtures) => {
+                fixtures.searches[fixtureQueryKey(params.q)] = items;
+            });
+            return items;
+        },
+
+        async listVideos(videoIds) {
+            const items = await client.listVideos(videoIds);
+            save((fixtures) => {
+                items.forEach((item) => {
+                    fixtures.videos[item.id] = item;
+                });
+            });
+            return items;
+        },
+    };
+}
+
+// ============================================
+// Client Selection
+// ============================================
+
+let overrideClient: YouTubeClient | null = null;
+
+/**
+ * Replace the client for the rest of the process (used by offline tests); null restores the default
+ */
+export function setYouTubeClient(client: YouTubeClient | null): void {
+    overrideClient = client;
+}
+
+// Sent when a custom base URL is set without a key; local stand-ins accept any key
+const PLACEHOLDER_API_KEY = 'local';
+
+function customBaseUrl(): string | undefined {
+    const baseUrl = process.env.YOUTUBE_API_BASE_URL?.trim().replace(/\/+$/, '');
+    return baseUrl && baseUrl !== DEFAULT_BASE_URL ? baseUrl : undefined;
+}
+
+/**
+ * Whether searches can run: fixture mode, a custom base URL, or an API key
+ */
+export function isYouTubeSearchConfigured(): boolean {
+    return overrideClient !== null
+        || process.env.YOUTUBE_PROVIDER?.trim().toLowerCase() === 'fixture'
+        || !!customBaseUrl()
+        || !!process.env.YOUTUBE_API_KEY?.trim();
+}
+
+/**
+ * Get the configured client.
+ * YOUTUBE_PROVIDER=fixture replays YOUTUBE_FIXTURES_PATH; otherwise HTTP against
+ * YOUTUBE_API_BASE_URL (default: the real API), recording to YOUTUBE_RECORD_FIXTURES if set.
+ */
+export function getYouTubeClient(): YouTubeClient {
+    if (overrideClient) return overrideClient;
+
+    if (process.env.YOUTUBE_PROVIDER?.trim().toLowerCase() === 'fixture') {
+        return createFixtureYouTubeClient(loadYouTubeFixtures(process.env.YOUTUBE_FIXTURES_PATH?.trim() || DEFAULT_FIXTURES_PATH));
+    }
+
+    const baseUrl = customBaseUrl();
+    const client = createHttpYouTubeClient(
+        baseUrl || DEFAULT_BASE_URL,
+        process.env.YOUTUBE_API_KEY?.trim() || (baseUrl ? PLACEHOLDER_API_KEY : undefined)
+    );
+
+    const recordPath = process.env.YOUTUBE_RECORD_FIXTURES?.trim();
+    return recordPath ? withRecording(client, recordPath) : client;
+}
@@ -1,77 +1,59 @@
 // YouTube Playlist management utilities
 // Creates and manages playlists from learning paths
 
-import { youtube_v3 } from 'googleapis';
 import { getAuthenticatedClient } from './youtube-auth';
-import { getDb } from './db';
-
-type YouTubeAPI = youtube_v3.Youtube;
+import { getDb, DbLearningPathVideo } from './db';
+import { assertQuotaAvailable, QuotaExceededError, recordQuotaUsage, YouTubeOperation } from './youtube-quota';
+import { getYouTubeClient, YouTubeClient } from './youtube-client';
 
 /**
  * Create a new YouTube playlist
  */
 export async function createPlaylist(
-    youtube: YouTubeAPI,
+    youtube: YouTubeClient,
+    accessToken: string,
     title: string,
-    description: string
+    description: string,
+    quotaUserId: string = 'system'
 ): Promise<string> {
-    const response = await youtube.playlists.insert({
-        part: ['snippet', 'status'],
-        requestBody: {
-            snippet: {
-                title,
-                description,
-            },
-            status: {
-                privacyStatus: 'private', // Start as private, user can make public
-            },
-        },
+    await recordQuotaUsage(quotaUserId, 'playlists.insert');
+    return youtube.insertPlaylist(accessToken, {
+        title,
+        description,
+        privacyStatus: 'private', // Start as private, user can make public
     });
-
-    const playlistId = response.data.id;
-    if (!playlistId) {
-        throw new Error('Failed to create playlist');
-    }
-
-    return playlistId;
 }
 
 /**
  * Add a video to a playlist
  */
 export async function addVideoToPlaylist(
-    youtube: YouTubeAPI,
+    youtube: YouTubeClient,
+    accessToken: string,
     playlistId: string,
-    videoId: string
+    videoId: string,
+    quotaUserId: string = 'system'
 ): Promise<void> {
-    await youtube.playlistItems.insert({
-        part: ['snippet'],
-        requestBody: {
-            snippet: {
-                playlistId,
-                resourceId: {
-                    kind: 'youtube#video',
-                    videoId,
-                },
-            },
-        },
-    });
+    await recordQuotaUsage(quotaUserId, 'playlistItems.insert');
+    await youtube.insertPlaylistItem(accessToken, playlistId, videoId);
 }
 
 /**
  * Add multiple videos to a playlist
  */
 export async function addVideosToPlaylist(
-    youtube: YouTubeAPI,
+    youtube: YouTubeClient,
+    accessToken: string,
     playlistId: string,
-    videoIds: string[]
+    videoIds: string[],
+    quotaUserId: string = 'system'
 ): Promise<{ success: number; failed: number }> {
     let success = 0;
     let failed = 0;
 
     for (const videoId of videoIds) {
         try {
-            await addVideoToPlaylist(youtube, playlistId, videoId);
+            await addVideoToPlaylist(youtube, accessToken, playlistId, videoId, quotaUserId);
             success++;
             // Small delay to avoid rate limiting
             await new Promise(resolve => setTimeout(resolve, 100));
@@ -101,9 +83,10 @@ export async function exportLearningPathToPlaylist(
 }> {
     const prisma = getDb();
 
-    // Get authenticated YouTube client
+    // Get the user's OAuth credentials
     const auth = await getAuthenticatedClient(userId);
-    if (!auth) {
+    const accessToken = auth?.client.credentials.access_token;
+    if (!accessToken) {
         return {
             success: false,
             error: 'YouTube account not connected. Please connect in Settings.',
@@ -123,17 +106,11 @@ export async function exportLearningPathToPlaylist(
     }
 
     try {
-        // Parse the stages to get video IDs
-        const stages = JSON.parse(learningPath.stages);
-        const videoIds: string[] = [];
-
-        for (const stage of stages) {
-            for (const video of stage.videos || []) {
-                if (video.videoId) {
-                    videoIds.push(video.videoId);
-                }
-            }
-        }
+        // Videos in watch order, across all stages
+        const pathVideos: DbLearningPathVideo[] = await prisma.learningPathVideo.findMany({
+            where: { learningPathId },
+        });
+        const videoIds = pathVideos.map((video) => video.videoId);
 
         if (videoIds.length === 0) {
             return {
@@ -142,17 +119,27 @@ export async function exportLearningPathToPlaylist(
             };
         }
 
+        // Make sure the whole export fits in today's quota before creating anything
+        const operations: YouTubeOperation[] = [
+            'playlists.insert',
+            ...videoIds.map((): YouTubeOperation => 'playlistItems.insert'),
+        ];
+        await assertQuotaAvailable(userId, operations);
+
         // Create the playlist
         const title = customTitle || `LinkMe: ${learningPath.topic}`;
         const description = `Learning path created by LinkMe\n\n${learningPath.summary}\n\nLevel: ${learningPath.userLevel}\nGoal: ${learningPath.userGoal}\nTotal videos: ${learningPath.totalVideos}\nEstimated time: ${learningPath.estimatedTotalTime}`;
 
-        const playlistId = await createPlaylist(auth.youtube, title, description);
+        const youtube = getYouTubeClient();
+        const playlistId = await createPlaylist(youtube, accessToken, title, description, userId);
 
         // Add videos to playlist
         const { success: added, failed } = await addVideosToPlaylist(
-            auth.youtube,
+            youtube,
+            accessToken,
             playlistId,
-            videoIds
+            videoIds,
+            userId
         );
 
         const playlistUrl = `https://www.youtube.com/playlist?list=${playlistId}`;
@@ -166,6 +153,14 @@ export async function exportLearningPathToPlaylist(
         };
     } catch (error) {
         console.error('Failed to export learning path:', error);
+        if (error instanceof QuotaExceededError) {
+            return {
+                success: false,
+                error: error.scope === 'user'
+                    ? 'You\'ve reached today\'s YouTube export limit. Please try again tomorrow.'
+                    : 'YouTube\'s daily limit has been reached. Please try exporting again tomorrow.',
+            };
+        }
         return {
             success: false,
             error: error instanceof Error ? error.message : 'Failed to create playlist',
@@ -0,0 +1,173 @@
+// YouTube Data API quota accounting
+// Records the unit cost of every API call and enforces per-user and global daily budgets
+
+import { getDb } from './db';
+
+// ============================================
+// Configuration
+// ============================================
+
+// Unit costs from https://developers.google.com/youtube/v3/determine_quota_cost
+export const YOUTUBE_QUOTA_COSTS = {
+    'search.list': 100,
+    'videos.list': 1,
+    'playlists.insert': 50,
+    'playlistItems.insert': 50,
+} as const;
+
+export type YouTubeOperation = keyof typeof YOUTUBE_QUOTA_COSTS;
+
+// Google's default project quota is 10,000 units/day; keep headroom for retries
+const GLOBAL_DAILY_BUDGET = Number(process.env.YOUTUBE_DAILY_QUOTA) || 10000;
+const USER_DAILY_BUDGET = Number(process.env.YOUTUBE_USER_DAILY_QUOTA) || 2500;
+
+// Quota resets at midnight Pacific time
+const QUOTA_TIMEZONE = 'America/Los_Angeles';
+
+/**
+ * Error thrown when a call would exceed the user's or the global daily budget
+ */
+export class QuotaExceededError extends Error {
+    constructor(
+        public scope: 'user' | 'global',
+        public remaining: number,
+        public required: number
+    ) {
+        super(scope === 'user'
+            ? 'Daily YouTube search limit reached for this account'
+            : 'Daily YouTube quota exhausted');
+        this.name = 'QuotaExceededError';
+    }
+}
+
+// ============================================
+// Helper Functions
+// ============================================
+
+/**
+ * Current quota day (YYYY-MM-DD in Pacific time)
+ */
+export function getQuotaDay(date: Date = new Date()): string {
+    return new Intl.DateTimeFormat('en-CA', {
+        timeZone: QUOTA_TIMEZONE,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+    }).format(date);
+}
+
+async function getUnitsUsed(day: string, userId?: string): Promise<number> {
+    const db = getDb();
+    const result = await db.youTubeQuotaUsage.aggregate({
+        where: { day, userId },
+        _sum: { units: true },
+    });
+    return result._sum.units ?? 0;
+}
+
+// ============================================
+// Quota Functions
+// ============================================
+
+/**
+ * Make sure the planned calls fit in both the user's and the global budget
+ * @param userId - Who the calls are made for (guest ID, or "ip:<address>" for anonymous users)
+ * @param operations - Calls about to be made (repeat an operation to count it several times)
+ * @throws QuotaExceededError if either budget would be exceeded
+ */
+export async function assertQuotaAvailable(
+    userId: string,
+    operations: YouTubeOperation[]
+): Promise<void> {
+    const required = operations.reduce((sum, op) => sum + YOUTUBE_QUOTA_COSTS[op], 0);
+    const day = getQuotaDay();
+
+    const [globalUsed, userUsed] = await Promise.all([
+        getUnitsUsed(day),
+        getUnitsUsed(day, userId),
+    ]);
+
+    const globalRemaining = GLOBAL_DAILY_BUDGET - globalUsed;
+    if (globalRemaining < required) {
+        throw new QuotaExceededError('global', Math.max(globalRemaining, 0), required);
+    }
+
+    const userRemaining = USER_DAILY_BUDGET - userUsed;
+    if (userRemaining < required) {
+        throw new QuotaExceededError('user', Math.max(userRemaining, 0), required);
+    }
+}
+
+/**
+ * Record a call in the ledger. Google charges failed calls too, so record every attempt.
+ * Ledger errors are logged, never thrown, so accounting cannot break a request.
+ */
+export async function recordQuotaUsage(userId: string, operation: YouTubeOperation): Promise<void> {
+    try {
+        const db = getDb();
+        await db.youTubeQuotaUsage.create({
+            data: {
+                day: getQuotaDay(),
+                userId,
+                operation,
+                units: YOUTUBE_QUOTA_COSTS[operation],
+            },
+        });
+    } catch (error) {
+        console.error('Failed to record YouTube quota usage:', error);
+    }
+}
+
+/**
+ * Today's quota usage, globally and optionally for one user
+ */
+export async function getQuotaStatus(userId?: string) {
+    const db = getDb();
+    const day = getQuotaDay();
+    const globalUsed = await getUnitsUsed(day);
+
+    const byOperation: Array<{ operation: string; _sum: { units: number } }> = await db.youTubeQuotaUsage.groupBy({
+        by: ['operation'],
+        where: { day, userId },
+        _sum: { units: true },
+    });
+
+    const status = {
+        day,
+        global: {
+            used: globalUsed,
+            budget: GLOBAL_DAILY_BUDGET,
+            remaining: Math.max(GLOBAL_DAILY_BUDGET - globalUsed, 0),
+        },
+        perUserBudget: USER_DAILY_BUDGET,
+        byOperation: Object.fromEntries(byOperation.map((row) => [row.operation, row._sum.units])),
+    };
+
+    if (!userId) {
+        return status;
+    }
+
+    const userUsed = await getUnitsUsed(day, userId);
+    return {
+        ...status,
+        user: {
+            userId,
+            used: userUsed,
+            budget: USER_DAILY_BUDGET,
+            remaining: Math.max(USER_DAILY_BUDGET - userUsed, 0),
+        },
+    };
+}
+
+/**
+ * Users with the highest usage today (for the admin endpoint)
+ */
+export async function getTopQuotaUsers(limit: number = 20): Promise<Array<{ userId: string; units: number }>> {
+    const db = getDb();
+    const rows: Array<{ userId: string; _sum: { units: number } }> = await db.youTubeQuotaUsage.groupBy({
+        by: ['userId'],
+        where: { day: getQuotaDay() },
+        _sum: { units: true },
+    });
+    return rows.slice(0, limit).map((row) => ({ userId: row.userId, units: row._sum.units }));
+}
@@ -1,9 +1,17 @@
 // YouTube Data API v3 integration
 // Searches for tutorial videos and filters by quality/recency
 
-const YOUTUBE_API_KEY = process.env.YOUTUBE_API_KEY?.trim();
-const YOUTUBE_SEARCH_URL = 'https://www.googleapis.com/youtube/v3/search';
-const YOUTUBE_VIDEOS_URL = 'https://www.googleapis.com/youtube/v3/videos';
+import { buildCacheKey, getCached, normalizeQuery, setCached } from './youtube-cache';
+import { assertQuotaAvailable, recordQuotaUsage } from './youtube-quota';
+import { parseIsoDuration, rankVideos, VideoScoreBreakdown, VideoStatistics } from './video-ranking';
+import {
+    getYouTubeClient,
+    isYouTubeSearchConfigured,
+    YouTubeApiError,
+    YouTubeClient,
+    YouTubeSearchItem,
+    YouTubeVideoItem,
+} from './youtube-client';
 
 // ============================================
 // Types
@@ -17,35 +25,16 @@ export interface YouTubeVideo {
     channelTitle: string;
     publishedAt: string;
     viewCount?: string;
-    duration?: string;
+    duration?: string;                // Human-readable, e.g. "1:02:03"
+    isoDuration?: string;             // Raw ISO 8601 from the API, e.g. "PT1H2M3S"
     url: string;
+    statistics?: VideoStatistics;     // Raw numbers behind viewCount/duration
+    score?: VideoScoreBreakdown;      // Ranking breakdown from searchTutorials
 }
 
-interface YouTubeSearchItem {
-    id: {
-        videoId: string;
-    };
-    snippet: {
-        title: string;
-        description: string;
-        thumbnails: {
-            high?: { url: string };
-            medium?: { url: string };
-            default?: { url: string };
-        };
-        channelTitle: string;
-        publishedAt: string;
-    };
-}
-
-interface YouTubeVideoItem {
-    id: string;
-    statistics?: {
-        viewCount: string;
-    };
-    contentDetails?: {
-        duration: string;
-    };
+export interface SearchTutorialsOptions {
+    quotaUserId?: string;  // User charged for the API quota (guest ID, or "ip:<address>" for anonymous users)
+    goal?: string;         // Learning goal, used to rank video length ("quick", "concepts", "project")
 }
 
 // ============================================
@@ -83,6 +72,64 @@ function formatViewCount(count: string): string {
     return `${num} views`;
 }
 
+/**
+ * Extra cache key parameters so fixture or stand-in responses never mix with real ones
+ */
+function cacheScope(client: YouTubeClient): Record<string, string> {
+    return client.name === 'youtube' ? {} : { client: client.name };
+}
+
+/**
+ * Fetch statistics and duration for videos, one cache entry per video
+ * so overlapping searches share details
+ */
+async function getVideoDetails(
+    client: YouTubeClient,
+    videoIds: string[],
+    quotaUserId: string
+): Promise<Map<string, YouTubeVideoItem>> {
+    const videoDetails: Map<string, YouTubeVideoItem> = new Map();
+    const cacheKey = (id: string) => buildCacheKey('videos', { id, ...cacheScope(client) });
+
+    const cached = await Promise.all(
+        videoIds.map((id) => getCached<YouTubeVideoItem>('videos', cacheKey(id)))
+    );
+    cached.forEach((item) => {
+        if (item) videoDetails.set(item.id, item);
+    });
+
+    const missingIds = videoIds.filter((id) => !videoDetails.has(id));
+    if (missingIds.length === 0) {
+        return videoDetails;
+    }
+
+    try {
+        await assertQuotaAvailable(quotaUserId, ['videos.list']);
+    } catch (error) {
+        console.warn('Skipping YouTube video details:', error instanceof Error ? error.message : error);
+        return videoDetails;
+    }
+
+    let items: YouTubeVideoItem[];
+    try {
+        items = await client.listVideos(missingIds);
+    } catch (error) {
+        // Details are optional, so a failed lookup is not cached but does not fail the search
+        if (!(error instanceof YouTubeApiError)) throw error;
+        console.warn('YouTube video details error:', error.message);
+        return videoDetails;
+    } finally {
+        await recordQuotaUsage(quotaUserId, 'videos.list');
+    }
+
+    await Promise.all(items.map((item) => {
+        videoDetails.set(item.id, item);
+        return setCached('videos', cacheKey(item.id), item);
+    }));
+
+    return videoDetails;
+}
+
 // ============================================
 // Main YouTube Service Functions
 // ============================================
@@ -91,67 +138,65 @@ function formatViewCount(count: string): string {
  * Search YouTube for tutorial videos
  * @param query - Search query
  * @param maxResults - Number of results to return (5-7 recommended)
- * @returns Array of YouTube video objects
+ * @param options - Quota owner and ranking hints
+ * @returns Array of YouTube video objects, best ranked first
+ * @throws QuotaExceededError if the user's or the global daily budget is used up
  */
 export async function searchTutorials(
     query: string,
-    maxResults: number = 7
+    maxResults: number = 7,
+    options: SearchTutorialsOptions = {}
 ): Promise<YouTubeVideo[]> {
-    if (!YOUTUBE_API_KEY) {
+    const quotaUserId = options.quotaUserId || 'guest';
+
+    if (!isYouTubeSearchConfigured()) {
         throw new Error('YouTube API key not configured');
     }
 
+    const client = getYouTubeClient();
+
     // Use query as-is (chat code already adds "tutorial" etc.)
-    console.log('YouTube search query:', query);
+    console.log('YouTube search query:', query, `(${client.name})`);
 
-    // Search for videos
-    const searchParams = new URLSearchParams({
-        part: 'snippet',
+    const searchParams = {
         q: query,
-        type: 'video',
-        maxResults: String(Math.min(maxResults + 3, 15)), // Fetch extra for filtering
+        maxResults: Math.min(maxResults + 3, 15), // Fetch extra for filtering
         order: 'relevance',
         relevanceLanguage: 'en',
-        key: YOUTUBE_API_KEY,
-    });
-
+    };
 
     try {
-        const searchResponse = await fetch(`${YOUTUBE_SEARCH_URL}?${searchParams}`);
-
-        if (!searchResponse.ok) {
-            const error = await searchResponse.json();
-            throw new Error(error.error?.message || 'YouTube search failed');
+        // Search for videos
+        const searchKey = buildCacheKey('search', {
+            ...searchParams,
+            q: normalizeQuery(query),
+            ...cacheScope(client),
+        });
+        let items = await getCached<YouTubeSearchItem[]>('search', searchKey);
+
+        if (!items) {
+            // Reserve room for the follow-up details lookup too, so a search never strands half-done
+            await assertQuotaAvailable(quotaUserId, ['search.list', 'videos.list']);
+            try {
+                items = await client.searchVideos(searchParams);
+            } finally {
+                await recordQuotaUsage(quotaUserId, 'search.list');
+            }
+            await setCached('search', searchKey, items);
         }
 
-        const searchData = await searchResponse.json();
-        const items: YouTubeSearchItem[] = searchData.items || [];
-
         if (items.length === 0) {
             return [];
         }
 
-        // Get video IDs for additional details
-        const videoIds = items.map((item) => item.id.videoId).join(',');
-
-        // Fetch video statistics and duration
-        const videoParams = new URLSearchParams({
-            part: 'statistics,contentDetails',
-            id: videoIds,
-            key: YOUTUBE_API_KEY,
-        });
-
-        const videoResponse = await fetch(`${YOUTUBE_VIDEOS_URL}?${videoParams}`);
-        const videoData = await videoResponse.json();
-        const videoDetails: Map<string, YouTubeVideoItem> = new Map();
-
-        (videoData.items || []).forEach((item: YouTubeVideoItem) => {
-            videoDetails.set(item.id, item);
-        });
+        const videoDetails = await getVideoDetails(client, items.map((item) => item.id.videoId), quotaUserId);
 
         // Map and enhance results
         const videos: YouTubeVideo[] = items.map((item) => {
             const details = videoDetails.get(item.id.videoId);
+            const viewCount = details?.statistics?.viewCount;
+            const likeCount = details?.statistics?.likeCount;
+            const isoDuration = details?.contentDetails?.duration;
             return {
                 id: item.id.videoId,
                 title: item.snippet.title,
@@ -163,25 +208,23 @@ export async function searchTutorials(
                     '',
                 channelTitle: item.snippet.channelTitle,
                 publishedAt: item.snippet.publishedAt,
-                viewCount: details?.statistics?.viewCount
-                    ? formatViewCount(details.statistics.viewCount)
-                    : undefined,
-                duration: details?.contentDetails?.duration
-                    ? formatDuration(details.contentDetails.duration)
-                    : undefined,
+                viewCount: viewCount ? formatViewCount(viewCount) : undefined,
+                duration: isoDuration ? formatDuration(isoDuration) : undefined,
+                isoDuration,
                 url: `https://www.youtube.com/watch?v=${item.id.videoId}`,
+                statistics: {
+                    viewCount: viewCount ? parseInt(viewCount, 10) : undefined,
+                    likeCount: likeCount ? parseInt(likeCount, 10) : undefined,
+                    durationSeconds: isoDuration ? parseIsoDuration(isoDuration) : undefined,
+                },
             };
         });
 
-        // Sort by view count (popular videos are usually higher quality)
-        videos.sort((a, b) => {
-            const viewsA = parseInt(a.viewCount?.replace(/[^\d]/g, '') || '0', 10);
-            const viewsB = parseInt(b.viewCount?.replace(/[^\d]/g, '') || '0', 10);
-            return viewsB - viewsA;
-        });
+        // Rank on views, like ratio, recency, length for the goal, channel and keyword match
+        const ranked = rankVideos(videos, { query, goal: options.goal });
 
         // Return top results
-        return videos.slice(0, maxResults);
+        return ranked.slice(0, maxResults);
     } catch (error) {
         console.error('YouTube search error:', error);
         throw error;
@@ -47,6 +47,84 @@ export interface SignupCredentials {
     name?: string;
 }
 
+// ============================================
+// Passkey Types
+// ============================================
+
+// Binary WebAuthn fields travel as base64url strings in both directions
+
+export interface PasskeyCreationOptions {
+    challenge: string;
+    rp: { id: string; name: string };
+    user: { id: string; name: string; displayName: string };
+    pubKeyCredParams: Array<{ type: 'public-key'; alg: number }>;
+    timeout: number;
+    attestation: 'none';
+    excludeCredentials: Array<{ type: 'public-key'; id: string; transports?: string[] }>;
+    authenticatorSelection: { residentKey: 'required'; userVerification: 'required' };
+}
+
+export interface PasskeyRequestOptions {
+    challenge: string;
+    rpId: string;
+    timeout: number;
+    userVerification: 'required';
+    allowCredentials: Array<{ type: 'public-key'; id: string; transports?: string[] }>;
+}
+
+export interface PasskeyRegistrationResponse {
+    id: string;
+    type: 'public-key';
+    response: {
+        clientDataJSON: string;
+        attestationObject: string;
+        transports?: string[];
+    };
+}
+
+export interface PasskeyAuthenticationResponse {
+    id: string;
+    type: 'public-key';
+    response: {
+        clientDataJSON: string;
+        authenticatorData: string;
+        signature: string;
+        userHandle?: string | null;
+    };
+}
+
+export interface PasskeySummary {
+    id: string;
+    name: string;
+    createdAt: string;
+    lastUsedAt: string | null;
+}
+
+// ============================================
+// Linked Account Types
+// ============================================
+
+export interface LinkedAccountSummary {
+    id: string;
+    provider: string;
+    email: string | null;
+    createdAt: string;
+    lastUsedAt: string | null;
+}
+
+// ============================================
+// Security Activity Types
+// ============================================
+
+export interface SecurityActivityItem {
+    id: string;
+    type: string;
+    device: string;
+    ipAddress: string | null;
+    metadata: Record<string, unknown> | null;
+    createdAt: string;
+}
+
 // ============================================
 // Chat Types
 // ============================================
@@ -61,7 +139,11 @@ export interface ChatMessage {
     tutorials?: YouTubeResult[];
     learningPath?: LearningPath;
     savedPathId?: string;
+    guestPathId?: string;
     isLoading?: boolean;
+    isStreaming?: boolean;
+    partialStages?: LearningStage[];
+    quickReplies?: string[];     // Suggested answers to a clarifying question
 }
 
 
@@ -110,7 +192,9 @@ export interface VideoAnalysis {
     prerequisites: string[];
     whyRecommended: string;
     estimatedTime: string;
+    durationSeconds?: number;
     order: number;
+    notes?: string;
 }
 
 export interface LearningStage {
@@ -118,6 +202,8 @@ export interface LearningStage {
     stageNumber: number;
     description: string;
     videos: VideoAnalysis[];
+    estimatedTime?: string;
+    durationSeconds?: number;
 }
 
 export interface LearningPath {
@@ -126,6 +212,8 @@ export interface LearningPath {
     userGoal: string;
     totalVideos: number;
     estimatedTotalTime: string;
+    totalDurationSeconds?: number;
+    timeBudgetMinutes?: number;
     stages: LearningStage[];
     completionGoals: string[];
     summary: string;
@@ -168,6 +256,25 @@ export interface ChatApiResponse {
     conversationId?: string;
 }
 
+export interface ChatTurnResult {
+    response: string;
+    tutorials?: YouTubeResult[];
+    learningPath?: LearningPath | null;
+    guestPathId?: string;
+    clarification?: { question: string; options?: string[] };
+    conversationId: string;
+}
+
+// Server-Sent Events emitted by POST /api/chat/message when streaming
+export type ChatStreamEvent =
+    | { type: 'token'; text: string }
+    | { type: 'search_started'; topic: string; level?: string; goal?: string }
+    | { type: 'videos_fetched'; count: number }
+    | { type: 'curating' }
+    | { type: 'stage'; stage: LearningStage }
+    | { type: 'done'; result: ChatTurnResult }
+    | { type: 'error'; message: string };
+
 // ============================================
 // Component Props Types
 // ============================================